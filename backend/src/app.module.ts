@@ -17,6 +17,8 @@ import { DatabaseModule } from './database/database.module';
 import { MarketPricingModule } from './market-pricing/market-pricing.module';
 import { SignatureModule } from './signature/signature.module';
 import { MonitoringModule } from './monitoring/monitoring.module';
+import { EventsModule } from './events/events.module';
+import { CollaborationModule } from './collaboration/collaboration.module';
 
 @Module({
   imports: [
@@ -32,6 +34,7 @@ import { MonitoringModule } from './monitoring/monitoring.module';
     ]),
     ScheduleModule.forRoot(),
     DatabaseModule,
+    EventsModule,
     AuthModule,
     UsersModule,
     WorkflowsModule,
@@ -50,6 +53,7 @@ import { MonitoringModule } from './monitoring/monitoring.module';
     MarketPricingModule,
     SignatureModule,
     MonitoringModule,
+    CollaborationModule,
   ],
   providers: [
     {
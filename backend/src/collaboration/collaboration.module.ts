@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CollaborationService } from './collaboration.service';
+import { Comment } from './entities/comment.entity';
+import { Document } from '../documents/entities/document.entity';
+import { DocumentsModule } from '../documents/documents.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Comment, Document]), DocumentsModule],
+  providers: [CollaborationService],
+  exports: [CollaborationService],
+})
+export class CollaborationModule {}
@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { CollaborationService } from './collaboration.service';
+import { Comment } from './entities/comment.entity';
+import { Document } from '../documents/entities/document.entity';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { DocumentClausesService } from '../documents/clauses/document-clauses.service';
+
+describe('CollaborationService', () => {
+  let service: CollaborationService;
+
+  const mockCommentRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn((comment) => Promise.resolve({ ...comment, id: 'comment-123' })),
+    findOne: jest.fn(),
+  };
+
+  const mockDocumentRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockEventBus = {
+    publish: jest.fn(),
+  };
+
+  const mockClausesService = {
+    findByDocument: jest.fn().mockResolvedValue([{ id: 'clause-1' }, { id: 'clause-2' }]),
+  };
+
+  const emit = jest.fn();
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CollaborationService,
+        { provide: getRepositoryToken(Comment), useValue: mockCommentRepository },
+        { provide: getRepositoryToken(Document), useValue: mockDocumentRepository },
+        { provide: DomainEventBus, useValue: mockEventBus },
+        { provide: DocumentClausesService, useValue: mockClausesService },
+      ],
+    }).compile();
+
+    service = module.get<CollaborationService>(CollaborationService);
+    service.server = { to: jest.fn(() => ({ emit })) } as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createComment', () => {
+    const createCommentDto = {
+      documentId: 'document-123',
+      clauseIdentifier: 'clause-1',
+      content: 'Please shorten the notice period',
+    };
+
+    it('should publish comment.added for the owner of the document', async () => {
+      mockDocumentRepository.findOne.mockResolvedValue({ id: 'document-123', userId: 'owner-123' });
+      mockCommentRepository.findOne.mockResolvedValue({
+        id: 'comment-123',
+        author: { id: 'reviewer-123', name: 'Reviewer', email: 'reviewer@example.com' },
+      });
+
+      await service.createComment(createCommentDto, 'reviewer-123');
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        'comment.added',
+        {
+          commentId: 'comment-123',
+          documentId: 'document-123',
+          clauseIdentifier: 'clause-1',
+          authorId: 'reviewer-123',
+          content: 'Please shorten the notice period',
+        },
+        { userId: 'owner-123' },
+      );
+      expect(emit).toHaveBeenCalledWith('comment_added', expect.anything());
+    });
+
+    it('should reject comments that are not anchored to a clause of the document', async () => {
+      mockDocumentRepository.findOne.mockResolvedValue({ id: 'document-123', userId: 'owner-123' });
+
+      await expect(
+        service.createComment(
+          { ...createCommentDto, clauseIdentifier: 'section-7' },
+          'reviewer-123',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCommentRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not publish comments on missing documents', async () => {
+      mockDocumentRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.createComment(createCommentDto, 'reviewer-123')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,9 +1,18 @@
-import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { WebSocketGateway, WebSocketServer, SubscribeMessage, MessageBody, ConnectedSocket } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Comment } from './entities/comment.entity';
+import { Document } from '../documents/entities/document.entity';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { DocumentClausesService } from '../documents/clauses/document-clauses.service';
 
 export interface CreateCommentDto {
   documentId: string;
@@ -59,6 +68,10 @@ export class CollaborationService {
   constructor(
     @InjectRepository(Comment)
     private readonly commentRepository: Repository<Comment>,
+    @InjectRepository(Document)
+    private readonly documentRepository: Repository<Document>,
+    private readonly eventBus: DomainEventBus,
+    private readonly clausesService: DocumentClausesService,
   ) {}
 
   /**
@@ -68,6 +81,21 @@ export class CollaborationService {
     try {
       this.logger.log(`Creating comment on document ${createCommentDto.documentId} by user ${authorId}`);
 
+      const document = await this.documentRepository.findOne({
+        where: { id: createCommentDto.documentId },
+      });
+      if (!document) {
+        throw new NotFoundException('Document not found');
+      }
+
+      // Comments are anchored to clause ids, which are kept across edits
+      const clauses = await this.clausesService.findByDocument(document);
+      if (!clauses.some(({ id }) => id === createCommentDto.clauseIdentifier)) {
+        throw new BadRequestException(
+          'clauseIdentifier must be the id of a clause of the document',
+        );
+      }
+
       const comment = this.commentRepository.create({
         ...createCommentDto,
         authorId,
@@ -96,6 +124,19 @@ export class CollaborationService {
         },
       });
 
+      // Workflows of the document owner react to comments by any collaborator
+      this.eventBus.publish(
+        'comment.added',
+        {
+          commentId: savedComment.id,
+          documentId: createCommentDto.documentId,
+          clauseIdentifier: createCommentDto.clauseIdentifier,
+          authorId,
+          content: createCommentDto.content,
+        },
+        { userId: document.userId },
+      );
+
       return fullComment;
     } catch (error) {
       this.logger.error(`Failed to create comment: ${error.message}`);
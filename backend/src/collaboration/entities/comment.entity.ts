@@ -12,6 +12,7 @@ export class Comment {
   @Column({ type: 'varchar', length: 255 })
   documentId: string;
 
+  // Id of a DocumentClause of the document; clause ids are kept across edits
   @Column({ type: 'varchar', length: 255 })
   clauseIdentifier: string;
 
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowExecutions1792368000000 implements MigrationInterface {
+  name = 'WorkflowExecutions1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "workflow_executions_status_enum" AS ENUM ('running', 'completed', 'failed');
+
+      CREATE TABLE "workflow_executions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "workflowId" uuid NOT NULL,
+        "status" "workflow_executions_status_enum" NOT NULL DEFAULT 'running',
+        "inputs" jsonb,
+        "steps" jsonb NOT NULL DEFAULT '[]',
+        "error" text,
+        "triggeredById" uuid,
+        "startedAt" TIMESTAMP NOT NULL,
+        "finishedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_workflow_executions_workflow" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_workflow_executions_user" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_workflow_executions_workflowId_startedAt" ON "workflow_executions" ("workflowId", "startedAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "workflow_executions"`);
+    await queryRunner.query(`DROP TYPE "workflow_executions_status_enum"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowWebhookSecrets1792454400000 implements MigrationInterface {
+  name = 'WorkflowWebhookSecrets1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "workflow_webhook_secrets" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "workflowId" uuid NOT NULL,
+        "tokenHash" varchar(64) NOT NULL,
+        "signingSecret" varchar NOT NULL,
+        "expiresAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_workflow_webhook_secrets_workflow" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_workflow_webhook_secrets_workflowId_tokenHash" ON "workflow_webhook_secrets" ("workflowId", "tokenHash");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "workflow_webhook_secrets"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SignatureEnvelopeOwner1792540800000 implements MigrationInterface {
+  name = 'SignatureEnvelopeOwner1792540800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "signature_envelopes" ADD COLUMN "userId" uuid;
+      CREATE INDEX "idx_signature_envelopes_userId" ON "signature_envelopes" ("userId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "idx_signature_envelopes_userId"`);
+    await queryRunner.query(`ALTER TABLE "signature_envelopes" DROP COLUMN "userId"`);
+  }
+}
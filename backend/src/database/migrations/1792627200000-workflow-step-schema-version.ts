@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowStepSchemaVersion1792627200000 implements MigrationInterface {
+  name = 'WorkflowStepSchemaVersion1792627200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing workflows were written as flat step lists (version 1)
+    await queryRunner.query(`
+      ALTER TABLE "workflows" ADD COLUMN "schemaVersion" integer NOT NULL DEFAULT 1;
+      ALTER TABLE "workflows" ALTER COLUMN "schemaVersion" SET DEFAULT 2;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "workflows" DROP COLUMN "schemaVersion"`);
+  }
+}
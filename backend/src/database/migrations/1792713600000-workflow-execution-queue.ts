@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowExecutionQueue1792713600000 implements MigrationInterface {
+  name = 'WorkflowExecutionQueue1792713600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Values added by ALTER TYPE cannot be used before the migration commits,
+    // so the status type is recreated with 'queued' to make it the default
+    await queryRunner.query(`
+      ALTER TYPE "workflow_executions_status_enum" RENAME TO "workflow_executions_status_enum_old";
+      CREATE TYPE "workflow_executions_status_enum" AS ENUM ('queued', 'running', 'completed', 'failed');
+      ALTER TABLE "workflow_executions" ALTER COLUMN "status" DROP DEFAULT;
+      ALTER TABLE "workflow_executions"
+        ALTER COLUMN "status" TYPE "workflow_executions_status_enum"
+        USING "status"::text::"workflow_executions_status_enum";
+      ALTER TABLE "workflow_executions" ALTER COLUMN "status" SET DEFAULT 'queued';
+      DROP TYPE "workflow_executions_status_enum_old";
+
+      CREATE TYPE "workflow_executions_priority_enum" AS ENUM ('low', 'medium', 'high');
+
+      ALTER TABLE "workflow_executions"
+        ADD COLUMN "priority" "workflow_executions_priority_enum" NOT NULL DEFAULT 'medium',
+        ADD COLUMN "lockedUntil" TIMESTAMP,
+        ALTER COLUMN "startedAt" DROP NOT NULL;
+
+      CREATE INDEX "idx_workflow_executions_status_priority_createdAt" ON "workflow_executions" ("status", "priority", "createdAt");
+
+      -- Queued executions have no startedAt, so history is listed by createdAt
+      DROP INDEX "idx_workflow_executions_workflowId_startedAt";
+      CREATE INDEX "idx_workflow_executions_workflowId_createdAt" ON "workflow_executions" ("workflowId", "createdAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values, so 'queued' stays on the status type
+    await queryRunner.query(`
+      UPDATE "workflow_executions"
+        SET "status" = 'failed', "error" = 'Dropped from queue', "startedAt" = "createdAt"
+        WHERE "startedAt" IS NULL;
+      ALTER TABLE "workflow_executions" ALTER COLUMN "status" SET DEFAULT 'running';
+    `);
+    await queryRunner.query(`
+      DROP INDEX "idx_workflow_executions_workflowId_createdAt";
+      CREATE INDEX "idx_workflow_executions_workflowId_startedAt" ON "workflow_executions" ("workflowId", "startedAt");
+      DROP INDEX "idx_workflow_executions_status_priority_createdAt";
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "workflow_executions"
+        DROP COLUMN "priority",
+        DROP COLUMN "lockedUntil",
+        ALTER COLUMN "startedAt" SET NOT NULL;
+    `);
+    await queryRunner.query(`DROP TYPE "workflow_executions_priority_enum"`);
+  }
+}
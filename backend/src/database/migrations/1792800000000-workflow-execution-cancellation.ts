@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowExecutionCancellation1792800000000 implements MigrationInterface {
+  name = 'WorkflowExecutionCancellation1792800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "workflow_executions_status_enum" ADD VALUE IF NOT EXISTS 'cancelled';
+      ALTER TABLE "workflow_executions" ADD COLUMN "cancelRequestedAt" TIMESTAMP;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values, so 'cancelled' stays on the status type
+    await queryRunner.query(`ALTER TABLE "workflow_executions" DROP COLUMN "cancelRequestedAt"`);
+  }
+}
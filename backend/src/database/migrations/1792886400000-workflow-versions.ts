@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowVersions1792886400000 implements MigrationInterface {
+  name = 'WorkflowVersions1792886400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "workflow_versions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "workflowId" uuid NOT NULL,
+        "version" integer NOT NULL,
+        "triggerType" "workflow_trigger_type_enum" NOT NULL,
+        "triggerConfig" jsonb,
+        "steps" jsonb,
+        "schemaVersion" integer NOT NULL,
+        "variables" jsonb,
+        "restoredFromVersion" integer,
+        "createdById" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_workflow_versions_workflow" FOREIGN KEY ("workflowId") REFERENCES "workflows"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_workflow_versions_createdBy" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+
+      CREATE UNIQUE INDEX "idx_workflow_versions_workflowId_version" ON "workflow_versions" ("workflowId", "version");
+
+      ALTER TABLE "workflows" ADD COLUMN "version" integer NOT NULL DEFAULT 1;
+
+      ALTER TABLE "workflow_executions"
+        ADD COLUMN "workflowVersionId" uuid,
+        ADD CONSTRAINT "fk_workflow_executions_workflowVersion" FOREIGN KEY ("workflowVersionId") REFERENCES "workflow_versions"("id") ON DELETE SET NULL;
+    `);
+
+    // The current definition of existing workflows becomes their first version.
+    // Past executions are left without a version since what they ran is unknown.
+    await queryRunner.query(`
+      INSERT INTO "workflow_versions"
+        ("workflowId", "version", "triggerType", "triggerConfig", "steps", "schemaVersion", "variables", "createdById", "createdAt")
+      SELECT "id", 1, COALESCE("triggerType", 'manual'), "triggerConfig", "steps", "schemaVersion", "variables", "userId", "updatedAt"
+      FROM "workflows";
+    `);
+
+    // Runs still waiting in the queue will execute the current definition
+    await queryRunner.query(`
+      UPDATE "workflow_executions" execution
+        SET "workflowVersionId" = version."id"
+        FROM "workflow_versions" version
+        WHERE version."workflowId" = execution."workflowId" AND execution."status" = 'queued';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "workflow_executions" DROP COLUMN "workflowVersionId";
+      ALTER TABLE "workflows" DROP COLUMN "version";
+      DROP TABLE "workflow_versions";
+    `);
+  }
+}
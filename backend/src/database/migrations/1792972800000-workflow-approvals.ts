@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowApprovals1792972800000 implements MigrationInterface {
+  name = 'WorkflowApprovals1792972800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "workflow_executions_status_enum" ADD VALUE IF NOT EXISTS 'waiting';
+      ALTER TABLE "workflow_executions" ADD COLUMN "approvals" JSONB NOT NULL DEFAULT '{}';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values, so 'waiting' stays on the status type
+    await queryRunner.query(`ALTER TABLE "workflow_executions" DROP COLUMN "approvals"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WorkflowCategories1793059200000 implements MigrationInterface {
+  name = 'WorkflowCategories1793059200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "workflow_categories" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" character varying(100) NOT NULL,
+        "userId" uuid NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_workflow_categories_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+
+      CREATE UNIQUE INDEX "idx_workflow_categories_userId_name" ON "workflow_categories" ("userId", LOWER("name"));
+
+      ALTER TABLE "workflows"
+        ADD COLUMN "categoryId" uuid,
+        ADD CONSTRAINT "fk_workflows_category" FOREIGN KEY ("categoryId") REFERENCES "workflow_categories"("id") ON DELETE SET NULL;
+
+      CREATE INDEX "idx_workflows_userId_categoryId" ON "workflows" ("userId", "categoryId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "idx_workflows_userId_categoryId";
+      ALTER TABLE "workflows" DROP COLUMN "categoryId";
+      DROP TABLE "workflow_categories";
+    `);
+  }
+}
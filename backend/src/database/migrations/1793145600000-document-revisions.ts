@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentRevisions1793145600000 implements MigrationInterface {
+  name = 'DocumentRevisions1793145600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "document_revisions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "documentId" uuid NOT NULL,
+        "revision" integer NOT NULL,
+        "content" text NOT NULL,
+        "changeNote" text,
+        "restoredFromRevision" integer,
+        "authorId" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_document_revisions_document" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_document_revisions_author" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+
+      CREATE UNIQUE INDEX "idx_document_revisions_documentId_revision" ON "document_revisions" ("documentId", "revision");
+
+      ALTER TABLE "documents" ADD COLUMN "revision" integer NOT NULL DEFAULT 1;
+    `);
+
+    // The current content of existing documents becomes their first revision
+    await queryRunner.query(`
+      INSERT INTO "document_revisions" ("documentId", "revision", "content", "authorId", "createdAt")
+      SELECT "id", 1, "content", "userId", "updatedAt"
+      FROM "documents";
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "documents" DROP COLUMN "revision";
+      DROP TABLE "document_revisions";
+    `);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentFiles1793232000000 implements MigrationInterface {
+  name = 'DocumentFiles1793232000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "documents" ADD COLUMN "fileName" varchar;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "documents" DROP COLUMN "fileName";
+    `);
+  }
+}
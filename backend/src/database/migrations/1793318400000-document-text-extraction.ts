@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentTextExtraction1793318400000 implements MigrationInterface {
+  name = 'DocumentTextExtraction1793318400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "documents" ADD COLUMN "textExtraction" json;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "documents" DROP COLUMN "textExtraction";
+    `);
+  }
+}
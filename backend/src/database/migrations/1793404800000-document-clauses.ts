@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentClauses1793404800000 implements MigrationInterface {
+  name = 'DocumentClauses1793404800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Clauses of existing documents are parsed when they are first requested
+    await queryRunner.query(`
+      CREATE TABLE "document_clauses" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "documentId" uuid NOT NULL,
+        "parentId" uuid,
+        "position" integer NOT NULL,
+        "level" integer NOT NULL,
+        "number" varchar,
+        "heading" varchar,
+        "text" text NOT NULL,
+        "startOffset" integer NOT NULL,
+        "endOffset" integer NOT NULL,
+        "revision" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_document_clauses_document" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE
+      );
+
+      CREATE INDEX "idx_document_clauses_documentId_position" ON "document_clauses" ("documentId", "position");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE "document_clauses";
+    `);
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ClauseLibrary1793491200000 implements MigrationInterface {
+  name = 'ClauseLibrary1793491200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "library_clauses" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "title" varchar NOT NULL,
+        "body" text NOT NULL,
+        "jurisdiction" varchar,
+        "tags" json NOT NULL DEFAULT '[]',
+        "riskNotes" text,
+        "version" integer NOT NULL DEFAULT 1,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_library_clauses_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+
+      CREATE INDEX "idx_library_clauses_userId" ON "library_clauses" ("userId");
+
+      CREATE TABLE "library_clause_usages" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "libraryClauseId" uuid NOT NULL,
+        "libraryClauseVersion" integer NOT NULL,
+        "documentId" uuid NOT NULL,
+        "documentRevision" integer NOT NULL,
+        "clauseId" uuid,
+        "userId" uuid NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_library_clause_usages_clause" FOREIGN KEY ("libraryClauseId") REFERENCES "library_clauses"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_library_clause_usages_document" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE
+      );
+
+      CREATE INDEX "idx_library_clause_usages_libraryClauseId" ON "library_clause_usages" ("libraryClauseId");
+      CREATE INDEX "idx_library_clause_usages_documentId" ON "library_clause_usages" ("documentId");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE "library_clause_usages";
+      DROP TABLE "library_clauses";
+    `);
+  }
+}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentSearch1793577600000 implements MigrationInterface {
+  name = 'DocumentSearch1793577600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Documents are indexed and queried with the simple configuration, which
+    // matches words exactly in any language, and with the English and Arabic
+    // stemmers. Both functions must use the same configurations.
+    await queryRunner.query(`
+      CREATE FUNCTION document_search_text_vector(value text, weight "char") RETURNS tsvector AS $$
+        SELECT setweight(
+          to_tsvector('simple', coalesce(value, '')) ||
+            to_tsvector('english', coalesce(value, '')) ||
+            to_tsvector('arabic', coalesce(value, '')),
+          weight
+        );
+      $$ LANGUAGE sql IMMUTABLE;
+
+      CREATE FUNCTION document_search_query(value text) RETURNS tsquery AS $$
+        SELECT websearch_to_tsquery('simple', value) ||
+          websearch_to_tsquery('english', value) ||
+          websearch_to_tsquery('arabic', value);
+      $$ LANGUAGE sql IMMUTABLE;
+
+      CREATE FUNCTION documents_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW."searchVector" :=
+          document_search_text_vector(NEW."name", 'A') ||
+          document_search_text_vector(
+            (SELECT string_agg(tag, ' ') FROM json_array_elements_text(coalesce(NEW."tags", '[]')) AS tag),
+            'B'
+          ) ||
+          document_search_text_vector(NEW."content", 'C');
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      ALTER TABLE "documents" ADD COLUMN "searchVector" tsvector;
+
+      CREATE TRIGGER "documents_search_vector"
+        BEFORE INSERT OR UPDATE OF "name", "tags", "content" ON "documents"
+        FOR EACH ROW EXECUTE FUNCTION documents_search_vector_update();
+    `);
+
+    // Index existing documents through the trigger
+    await queryRunner.query(`
+      UPDATE "documents" SET "name" = "name";
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "idx_documents_searchVector" ON "documents" USING GIN ("searchVector");
+      CREATE INDEX "idx_documents_userId_updatedAt" ON "documents" ("userId", "updatedAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP INDEX "idx_documents_userId_updatedAt";
+      DROP INDEX "idx_documents_searchVector";
+      DROP TRIGGER "documents_search_vector" ON "documents";
+      ALTER TABLE "documents" DROP COLUMN "searchVector";
+      DROP FUNCTION documents_search_vector_update();
+      DROP FUNCTION document_search_query(text);
+      DROP FUNCTION document_search_text_vector(text, "char");
+    `);
+  }
+}
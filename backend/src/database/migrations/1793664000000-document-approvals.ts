@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class DocumentApprovals1793664000000 implements MigrationInterface {
+  name = 'DocumentApprovals1793664000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Statuses outside the approval lifecycle could only have been set by hand
+    await queryRunner.query(`
+      UPDATE "documents" SET "status" = 'draft'
+      WHERE "status" NOT IN ('draft', 'pending', 'approved', 'rejected');
+
+      ALTER TABLE "documents" ALTER COLUMN "status" SET DEFAULT 'draft';
+
+      CREATE TABLE "document_reviewers" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "documentId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "decision" varchar,
+        "note" text,
+        "decidedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_document_reviewers_document" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_document_reviewers_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+
+      CREATE UNIQUE INDEX "idx_document_reviewers_documentId_userId" ON "document_reviewers" ("documentId", "userId");
+      CREATE INDEX "idx_document_reviewers_userId" ON "document_reviewers" ("userId");
+
+      CREATE TABLE "document_approval_events" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "documentId" uuid NOT NULL,
+        "action" varchar NOT NULL,
+        "fromStatus" varchar NOT NULL,
+        "toStatus" varchar NOT NULL,
+        "revision" integer NOT NULL,
+        "userId" uuid,
+        "note" text,
+        "reviewerIds" json,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_document_approval_events_document" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_document_approval_events_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+
+      CREATE INDEX "idx_document_approval_events_documentId_createdAt" ON "document_approval_events" ("documentId", "createdAt");
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DROP TABLE "document_approval_events";
+      DROP TABLE "document_reviewers";
+      ALTER TABLE "documents" ALTER COLUMN "status" DROP DEFAULT;
+    `);
+  }
+}
@@ -10,8 +10,11 @@ import * as path from 'path';
 // Import entities
 import { User } from '../users/entities/user.entity';
 import { Document } from '../documents/entities/document.entity';
-import { Workflow } from '../workflows/entities/workflow.entity';
+import { Workflow, WorkflowStatus } from '../workflows/entities/workflow.entity';
 import { Project } from '../projects/entities/project.entity';
+import { WorkflowsService } from '../workflows/workflows.service';
+import { DocumentsService } from '../documents/documents.service';
+import { WorkflowPortabilityService } from '../workflows/portability/workflow-portability.service';
 
 async function bootstrap() {
   const logger = new Logger('SeedScript');
@@ -48,16 +51,26 @@ async function bootstrap() {
       await userRepository.save(userData);
     }
 
-    // Seed documents
+    // Seed documents through the service so that each gets its first revision
     logger.log('Seeding documents...');
-    for (const documentData of documentsData) {
-      await documentRepository.save(documentData);
+    const documentsService = app.get(DocumentsService);
+    for (const { status, ...documentData } of documentsData) {
+      const document = await documentsService.create(documentData);
+      // Seeded templates are approved without going through review
+      if (status && status !== 'draft') {
+        await documentRepository.update(document.id, { status });
+      }
     }
 
-    // Seed workflows
+    // Seed workflows through the import path so that they are validated and versioned
     logger.log('Seeding workflows...');
-    for (const workflowData of workflowsData) {
-      await workflowRepository.save(workflowData);
+    const workflowsService = app.get(WorkflowsService);
+    const portabilityService = app.get(WorkflowPortabilityService);
+    for (const { userId, status, workflow } of workflowsData) {
+      const imported = await portabilityService.import({ content: workflow }, userId);
+      if (status && status !== WorkflowStatus.DRAFT) {
+        await workflowsService.update(imported.id, { status }, userId);
+      }
     }
 
     // Seed projects
@@ -0,0 +1,17 @@
+import { EntityManager, ObjectLiteral, Repository } from 'typeorm';
+
+/**
+ * Returns the repository for the same entity in the transaction of the
+ * manager, or the repository itself without one.
+ *
+ * Services that store rows derived from another entity, such as revisions
+ * and clauses of a document or versions of a workflow, accept the manager of
+ * the transaction that saves that entity. Both are then committed or rolled
+ * back together, and cannot get out of step.
+ */
+export function inTransaction<Entity extends ObjectLiteral>(
+  repository: Repository<Entity>,
+  manager?: EntityManager,
+): Repository<Entity> {
+  return manager ? manager.getRepository<Entity>(repository.target) : repository;
+}
@@ -0,0 +1,107 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { Document } from '../entities/document.entity';
+import { SubmitDocumentDto } from '../dto/submit-document.dto';
+import { DocumentApprovalNoteDto } from '../dto/document-approval-note.dto';
+import { RejectDocumentDto } from '../dto/reject-document.dto';
+import { DocumentApproval, DocumentApprovalsService } from './document-approvals.service';
+
+@ApiTags('Documents')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('documents')
+export class DocumentApprovalsController {
+  constructor(private readonly approvalsService: DocumentApprovalsService) {}
+
+  @Get('reviews')
+  @ApiOperation({ summary: 'List the pending documents waiting for your review' })
+  @ApiResponse({ status: 200, description: 'Documents retrieved successfully', type: [Document] })
+  async findReviewRequests(@Request() req): Promise<Document[]> {
+    return this.approvalsService.findReviewRequests(req.user.id);
+  }
+
+  @Get(':id/approval')
+  @ApiOperation({ summary: 'Get a document with its reviewers and approval history' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Approval retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  async getApproval(@Param('id') id: string, @Request() req): Promise<DocumentApproval> {
+    return this.approvalsService.getApproval(id, req.user.id);
+  }
+
+  @Post(':id/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Submit a draft or rejected document for approval' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Document is pending approval', type: Document })
+  @ApiResponse({ status: 400, description: 'Reviewer not found or is the author' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 409, description: 'Document is pending or already approved' })
+  async submit(
+    @Param('id') id: string,
+    @Body() submitDto: SubmitDocumentDto,
+    @Request() req,
+  ): Promise<Document> {
+    return this.approvalsService.submit(id, req.user.id, submitDto);
+  }
+
+  @Post(':id/withdraw')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Withdraw a pending document back to draft' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Document is a draft again', type: Document })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 409, description: 'Document is not pending' })
+  async withdraw(
+    @Param('id') id: string,
+    @Body() noteDto: DocumentApprovalNoteDto,
+    @Request() req,
+  ): Promise<Document> {
+    return this.approvalsService.withdraw(id, req.user.id, noteDto.note);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a pending document; it is approved once every reviewer has approved it',
+  })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Approval recorded', type: Document })
+  @ApiResponse({ status: 403, description: 'User is not a reviewer of the document' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 409, description: 'Document is not pending or was already reviewed' })
+  async approve(
+    @Param('id') id: string,
+    @Body() noteDto: DocumentApprovalNoteDto,
+    @Request() req,
+  ): Promise<Document> {
+    return this.approvalsService.approve(id, req.user.id, noteDto.note);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a pending document, returning it to the author' })
+  @ApiParam({ name: 'id', description: 'Document ID' })
+  @ApiResponse({ status: 200, description: 'Document rejected', type: Document })
+  @ApiResponse({ status: 403, description: 'User is not a reviewer of the document' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 409, description: 'Document is not pending or was already reviewed' })
+  async reject(
+    @Param('id') id: string,
+    @Body() rejectDto: RejectDocumentDto,
+    @Request() req,
+  ): Promise<Document> {
+    return this.approvalsService.reject(id, req.user.id, rejectDto.note);
+  }
+}
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { DocumentApprovalsService } from './document-approvals.service';
+import { Document } from '../entities/document.entity';
+import { DocumentReviewer } from '../entities/document-reviewer.entity';
+import { DocumentApprovalEvent } from '../entities/document-approval-event.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+describe('DocumentApprovalsService', () => {
+  let service: DocumentApprovalsService;
+
+  const buildDocument = (status: Document['status']): Document =>
+    Object.assign(new Document(), {
+      id: 'document-123',
+      userId: 'author-123',
+      name: 'Services Agreement',
+      status,
+      revision: 4,
+    });
+
+  const buildReviewer = (userId: string, decision: 'approved' | null = null) =>
+    Object.assign(new DocumentReviewer(), { documentId: 'document-123', userId, decision });
+
+  const manager = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    count: jest.fn(),
+    delete: jest.fn(),
+    create: jest.fn((target, data) => Object.assign(new target(), data)),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+  };
+
+  const mockDocumentRepository = {
+    manager: {
+      transaction: jest.fn((work) => work(manager)),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const savedEvents = () =>
+    manager.save.mock.calls
+      .map(([entity]) => entity)
+      .filter((entity) => entity instanceof DocumentApprovalEvent);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentApprovalsService,
+        { provide: getRepositoryToken(Document), useValue: mockDocumentRepository },
+        { provide: getRepositoryToken(DocumentReviewer), useValue: {} },
+        { provide: getRepositoryToken(DocumentApprovalEvent), useValue: {} },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<DocumentApprovalsService>(DocumentApprovalsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should submit a draft to its reviewers and record the transition', async () => {
+    manager.findOne.mockResolvedValue(buildDocument('draft'));
+    manager.count.mockResolvedValue(2);
+
+    const result = await service.submit('document-123', 'author-123', {
+      reviewerIds: ['reviewer-1', 'reviewer-2', 'reviewer-1'],
+      note: 'Ready for legal review',
+    });
+
+    expect(result.status).toBe('pending');
+    expect(manager.delete).toHaveBeenCalledWith(DocumentReviewer, { documentId: 'document-123' });
+    expect(savedEvents()).toEqual([
+      expect.objectContaining({
+        action: 'submit',
+        fromStatus: 'draft',
+        toStatus: 'pending',
+        revision: 4,
+        userId: 'author-123',
+        reviewerIds: ['reviewer-1', 'reviewer-2'],
+      }),
+    ]);
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the document pending until every reviewer has approved it', async () => {
+    manager.findOne.mockResolvedValue(buildDocument('pending'));
+    manager.find.mockResolvedValue([buildReviewer('reviewer-1'), buildReviewer('reviewer-2')]);
+
+    const partial = await service.approve('document-123', 'reviewer-1');
+    expect(partial.status).toBe('pending');
+    expect(mockNotificationsService.sendNotification).not.toHaveBeenCalled();
+
+    manager.findOne.mockResolvedValue(buildDocument('pending'));
+    manager.find.mockResolvedValue([
+      buildReviewer('reviewer-1', 'approved'),
+      buildReviewer('reviewer-2'),
+    ]);
+
+    const approved = await service.approve('document-123', 'reviewer-2', 'Looks good');
+    expect(approved.status).toBe('approved');
+    expect(savedEvents().map(({ action, toStatus }) => [action, toStatus])).toEqual([
+      ['approve', 'pending'],
+      ['approve', 'approved'],
+    ]);
+    expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+      'author-123',
+      'Document "Services Agreement" was approved: Looks good',
+      'info',
+    );
+  });
+
+  it('should only let reviewers decide on pending documents', async () => {
+    manager.findOne.mockResolvedValue(buildDocument('pending'));
+    manager.find.mockResolvedValue([buildReviewer('reviewer-1')]);
+    await expect(service.reject('document-123', 'author-123', 'No')).rejects.toThrow(
+      ForbiddenException,
+    );
+
+    manager.findOne.mockResolvedValue(buildDocument('approved'));
+    await expect(service.reject('document-123', 'reviewer-1', 'Too late')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(manager.save).not.toHaveBeenCalled();
+  });
+});
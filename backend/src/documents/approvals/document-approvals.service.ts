@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Document, DocumentStatus } from '../entities/document.entity';
+import { DocumentReviewDecision, DocumentReviewer } from '../entities/document-reviewer.entity';
+import {
+  DocumentApprovalAction,
+  DocumentApprovalEvent,
+} from '../entities/document-approval-event.entity';
+import { SubmitDocumentDto } from '../dto/submit-document.dto';
+import { User } from '../../users/entities/user.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+// Statuses each action can start from. Approved documents are final.
+const TRANSITIONS: Record<DocumentApprovalAction, DocumentStatus[]> = {
+  submit: ['draft', 'rejected'],
+  withdraw: ['pending'],
+  approve: ['pending'],
+  reject: ['pending'],
+};
+
+export interface DocumentApproval {
+  document: Document;
+  reviewers: DocumentReviewer[];
+  history: DocumentApprovalEvent[];
+}
+
+/**
+ * Moves documents through their approval lifecycle. The author submits a
+ * draft to reviewers, who must all approve it; a single rejection sends it
+ * back to the author, who can edit and submit it again. Content is locked
+ * while the document is pending and once it is approved. Every step is
+ * recorded as a DocumentApprovalEvent.
+ */
+@Injectable()
+export class DocumentApprovalsService {
+  private readonly logger = new Logger(DocumentApprovalsService.name);
+
+  constructor(
+    @InjectRepository(Document)
+    private readonly documentRepository: Repository<Document>,
+    @InjectRepository(DocumentReviewer)
+    private readonly reviewerRepository: Repository<DocumentReviewer>,
+    @InjectRepository(DocumentApprovalEvent)
+    private readonly eventRepository: Repository<DocumentApprovalEvent>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Submits a draft or rejected document for approval by the given reviewers,
+   * replacing the reviewers of an earlier submission
+   */
+  async submit(id: string, userId: string, submitDto: SubmitDocumentDto): Promise<Document> {
+    const reviewerIds = [...new Set(submitDto.reviewerIds)];
+    if (reviewerIds.includes(userId)) {
+      throw new BadRequestException('You cannot review your own document');
+    }
+
+    const document = await this.documentRepository.manager.transaction(async (manager) => {
+      const document = await this.lockOwnDocument(manager, id, userId);
+      this.checkTransition(document, 'submit');
+
+      const reviewers = await manager.count(User, { where: { id: In(reviewerIds) } });
+      if (reviewers !== reviewerIds.length) {
+        throw new BadRequestException('Reviewer not found');
+      }
+
+      await manager.delete(DocumentReviewer, { documentId: document.id });
+      await manager.save(
+        reviewerIds.map((reviewerId) =>
+          manager.create(DocumentReviewer, { documentId: document.id, userId: reviewerId }),
+        ),
+      );
+      return this.record(manager, document, 'submit', 'pending', userId, {
+        note: submitDto.note,
+        reviewerIds,
+      });
+    });
+
+    await this.notify(
+      reviewerIds,
+      `Your approval is requested for document "${document.name}"` +
+        (submitDto.note ? `: ${submitDto.note}` : ''),
+    );
+    return document;
+  }
+
+  /**
+   * Takes a pending document back to draft so that the author can edit it
+   */
+  async withdraw(id: string, userId: string, note?: string): Promise<Document> {
+    return this.documentRepository.manager.transaction(async (manager) => {
+      const document = await this.lockOwnDocument(manager, id, userId);
+      this.checkTransition(document, 'withdraw');
+      return this.record(manager, document, 'withdraw', 'draft', userId, { note });
+    });
+  }
+
+  /**
+   * Records the approval of a reviewer. The document is approved once every
+   * reviewer has approved it.
+   */
+  async approve(id: string, userId: string, note?: string): Promise<Document> {
+    return this.decide(id, userId, 'approved', note);
+  }
+
+  async reject(id: string, userId: string, note: string): Promise<Document> {
+    return this.decide(id, userId, 'rejected', note);
+  }
+
+  /**
+   * Returns the document with its reviewers and approval history, for its
+   * author and its reviewers
+   */
+  async getApproval(id: string, userId: string): Promise<DocumentApproval> {
+    const document = await this.documentRepository.findOne({ where: { id } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const reviewers = await this.reviewerRepository.find({
+      where: { documentId: id },
+      relations: { user: true },
+      select: {
+        id: true,
+        documentId: true,
+        userId: true,
+        decision: true,
+        note: true,
+        decidedAt: true,
+        createdAt: true,
+        user: { id: true, name: true, email: true },
+      },
+      order: { createdAt: 'ASC' },
+    });
+    if (document.userId !== userId && !reviewers.some((reviewer) => reviewer.userId === userId)) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const history = await this.eventRepository.find({
+      where: { documentId: id },
+      order: { createdAt: 'ASC' },
+    });
+    return { document, reviewers, history };
+  }
+
+  /**
+   * Lists the pending documents waiting for the decision of the user
+   */
+  async findReviewRequests(userId: string): Promise<Document[]> {
+    return this.documentRepository
+      .createQueryBuilder('document')
+      .innerJoin(DocumentReviewer, 'reviewer', 'reviewer.documentId = document.id')
+      .where('reviewer.userId = :userId', { userId })
+      .andWhere('reviewer.decision IS NULL')
+      .andWhere('document.status = :status', { status: 'pending' })
+      .orderBy('document.updatedAt', 'DESC')
+      .getMany();
+  }
+
+  private async decide(
+    id: string,
+    userId: string,
+    decision: DocumentReviewDecision,
+    note?: string,
+  ): Promise<Document> {
+    const action: DocumentApprovalAction = decision === 'approved' ? 'approve' : 'reject';
+    const document = await this.documentRepository.manager.transaction(async (manager) => {
+      const document = await manager.findOne(Document, {
+        where: { id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!document) {
+        throw new NotFoundException('Document not found');
+      }
+
+      const reviewers = await manager.find(DocumentReviewer, { where: { documentId: id } });
+      const reviewer = reviewers.find((candidate) => candidate.userId === userId);
+      if (!reviewer) {
+        // Other users cannot see the document at all
+        throw document.userId === userId
+          ? new ForbiddenException('You are not a reviewer of this document')
+          : new NotFoundException('Document not found');
+      }
+
+      this.checkTransition(document, action);
+      if (reviewer.decision) {
+        throw new ConflictException('You have already reviewed this document');
+      }
+
+      reviewer.decision = decision;
+      reviewer.note = note ?? null;
+      reviewer.decidedAt = new Date();
+      await manager.save(reviewer);
+
+      const approved = reviewers.every((candidate) => candidate.decision === 'approved');
+      const status = decision === 'rejected' ? 'rejected' : approved ? 'approved' : 'pending';
+      return this.record(manager, document, action, status, userId, { note });
+    });
+
+    if (document.status !== 'pending') {
+      await this.notify(
+        [document.userId],
+        `Document "${document.name}" was ${document.status}` + (note ? `: ${note}` : ''),
+        document.status === 'rejected' ? 'warning' : 'info',
+      );
+    }
+    return document;
+  }
+
+  private async lockOwnDocument(
+    manager: EntityManager,
+    id: string,
+    userId: string,
+  ): Promise<Document> {
+    const document = await manager.findOne(Document, {
+      where: { id, userId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    return document;
+  }
+
+  private checkTransition(document: Document, action: DocumentApprovalAction): void {
+    if (!TRANSITIONS[action].includes(document.status)) {
+      throw new ConflictException(`Cannot ${action} a document that is ${document.status}`);
+    }
+  }
+
+  private async record(
+    manager: EntityManager,
+    document: Document,
+    action: DocumentApprovalAction,
+    status: DocumentStatus,
+    userId: string,
+    details: { note?: string; reviewerIds?: string[] },
+  ): Promise<Document> {
+    const event = manager.create(DocumentApprovalEvent, {
+      documentId: document.id,
+      action,
+      fromStatus: document.status,
+      toStatus: status,
+      revision: document.revision,
+      userId,
+      note: details.note ?? null,
+      reviewerIds: details.reviewerIds ?? null,
+    });
+
+    document.status = status;
+    const saved = await manager.save(document);
+    await manager.save(event);
+    return saved;
+  }
+
+  private async notify(userIds: string[], message: string, type = 'info'): Promise<void> {
+    for (const userId of userIds) {
+      try {
+        await this.notificationsService.sendNotification(userId, message, type);
+      } catch (error) {
+        this.logger.error(`Failed to notify user ${userId}: ${error.message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { matchClauses, segmentClauses } from './clause-segmentation.util';
+
+describe('clause segmentation', () => {
+  const content = [
+    '# Services Agreement',
+    'This Agreement is made between Acme and Beta.',
+    '# 1. Services',
+    '1.1 The Provider shall deliver the services\ndescribed in Schedule A:',
+    '(a) weekly reports;',
+    '(b) monthly reviews, including:',
+    '(i) usage; and',
+    '(ii) costs.',
+    '1.2 The Client shall cooperate.',
+    '2. PAYMENT TERMS\nFees are due within 30 days.',
+  ].join('\n\n');
+
+  describe('segmentClauses', () => {
+    it('should nest numbered clauses under headings and lettered items', () => {
+      const clauses = segmentClauses(content);
+
+      expect(
+        clauses.map(({ number, heading, level, parent }) => ({ number, heading, level, parent })),
+      ).toEqual([
+        { number: null, heading: 'Services Agreement', level: 0, parent: null },
+        { number: '1', heading: 'Services', level: 0, parent: null },
+        { number: '1.1', heading: null, level: 1, parent: 1 },
+        { number: '(a)', heading: null, level: 2, parent: 2 },
+        { number: '(b)', heading: null, level: 2, parent: 2 },
+        { number: '(i)', heading: null, level: 3, parent: 4 },
+        { number: '(ii)', heading: null, level: 3, parent: 4 },
+        { number: '1.2', heading: null, level: 1, parent: 1 },
+        { number: '2', heading: 'PAYMENT TERMS', level: 0, parent: null },
+      ]);
+      expect(clauses[0].text).toBe('This Agreement is made between Acme and Beta.');
+      expect(clauses[2].text).toBe(
+        'The Provider shall deliver the services\ndescribed in Schedule A:',
+      );
+      expect(clauses[8].text).toBe('Fees are due within 30 days.');
+    });
+
+    it('should record offsets that span the sub-clauses', () => {
+      const clauses = segmentClauses(content);
+
+      expect(content.slice(clauses[4].start, clauses[4].end)).toBe(
+        '(b) monthly reviews, including:\n\n(i) usage; and\n\n(ii) costs.',
+      );
+      expect(content.slice(clauses[8].start, clauses[8].end)).toBe(
+        '2. PAYMENT TERMS\nFees are due within 30 days.',
+      );
+    });
+  });
+
+  describe('matchClauses', () => {
+    it('should keep clauses that were renumbered, moved or edited', () => {
+      const previous = segmentClauses(content).map((clause, index) => ({
+        ...clause,
+        id: `clause-${index}`,
+      }));
+      const edited = content
+        .replace('(a) weekly reports;\n\n', '')
+        .replace('(b) monthly reviews', '(a) monthly reviews')
+        .replace('1.2 The Client shall cooperate.', '1.2 The Client shall cooperate in good faith.')
+        .concat('\n\n3. Termination\nEither party may terminate.');
+
+      const matches = matchClauses(previous, segmentClauses(edited));
+
+      expect(matches.map((match) => match?.id ?? null)).toEqual([
+        'clause-0',
+        'clause-1',
+        'clause-2',
+        'clause-4',
+        'clause-5',
+        'clause-6',
+        'clause-7',
+        'clause-8',
+        null,
+      ]);
+    });
+  });
+});
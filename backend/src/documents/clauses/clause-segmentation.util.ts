@@ -0,0 +1,350 @@
+/**
+ * Splits document content into a tree of clauses. Clauses start at Markdown
+ * headings and at paragraphs with clause numbering such as 1., 2.1, (a) or
+ * (iv). Other paragraphs continue the clause before them.
+ */
+
+export interface ParsedClause {
+  number: string | null;
+  heading: string | null;
+  // Own text of the clause, without its number, heading and sub-clauses
+  text: string;
+  // Depth in the tree, 0 for top-level clauses
+  level: number;
+  // Index of the parent clause in the returned list
+  parent: number | null;
+  // Character offsets in the content, covering the sub-clauses too
+  start: number;
+  end: number;
+}
+
+export interface ClauseFingerprint {
+  number: string | null;
+  heading: string | null;
+  text: string;
+}
+
+type ClauseKind = 'heading' | 'dotted' | 'letter' | 'roman' | 'parenthesized' | 'preamble';
+
+interface Block {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface OpenClause {
+  index: number;
+  kind: ClauseKind;
+  // Heading level, or the number of parts of a dotted number
+  rank: number;
+  // Number of parts of the number of a numbered heading such as "# 2. Fees"
+  numberParts: number;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const HEADING_NUMBER = /^((?:\d{1,3}\.)*\d{1,3})\.?\s+(.*)$/;
+// Single numbers need a closing dot or parenthesis, so that sentences
+// starting with a number do not start clauses
+const DOTTED =
+  /^(?:(?:article|section|clause)\s+(\d{1,3}(?:\.\d{1,3})*)[.:)]?|(\d{1,3}(?:\.\d{1,3})+)[.)]?|(\d{1,3})[.)])(?:\s+(.*))?$/i;
+const LETTER = /^\(?([a-z])\)\s*(.*)$/;
+const ROMAN = /^\(?((?:x{0,3})(?:ix|iv|v?i{0,3}))\)\s*(.*)$/;
+const PARENTHESIZED = /^\((\d{1,3})\)\s*(.*)$/;
+const CLAUSE_START = new RegExp(
+  [HEADING, DOTTED, LETTER, ROMAN, PARENTHESIZED].map(({ source }) => source).join('|'),
+  'i',
+);
+
+const MAX_HEADING_LENGTH = 80;
+
+export function segmentClauses(content: string): ParsedClause[] {
+  const clauses: ParsedClause[] = [];
+  const open: OpenClause[] = [];
+  let previousLetter: string | null = null;
+
+  for (const block of splitBlocks(content || '')) {
+    const firstLine = block.text.split('\n')[0];
+    const rest = block.text.slice(firstLine.length + 1);
+    const marker = parseMarker(firstLine, previousLetter);
+
+    if (!marker) {
+      const current = open[open.length - 1];
+      if (current) {
+        const clause = clauses[current.index];
+        clause.text = clause.text ? `${clause.text}\n\n${block.text}` : block.text;
+        clause.end = block.end;
+      } else {
+        // Text before the first clause is kept as an unnumbered preamble
+        open.push({ index: clauses.length, kind: 'preamble', rank: 0, numberParts: 0 });
+        clauses.push({ ...emptyClause(block), text: block.text });
+      }
+      continue;
+    }
+
+    if (marker.kind === 'letter') {
+      previousLetter = marker.number;
+    }
+    closeClauses(open, marker);
+
+    const parent = open[open.length - 1];
+    const headingLike =
+      marker.kind === 'heading' || (marker.kind === 'dotted' && isHeading(marker.body));
+    open.push({
+      index: clauses.length,
+      kind: marker.kind,
+      rank: marker.rank,
+      numberParts: marker.number && marker.kind === 'heading' ? partCount(marker.number) : 0,
+    });
+    clauses.push({
+      ...emptyClause(block),
+      number: marker.number,
+      heading: headingLike ? marker.body || null : null,
+      text: headingLike ? rest : [marker.body, rest].filter(Boolean).join('\n'),
+      level: parent ? clauses[parent.index].level + 1 : 0,
+      parent: parent ? parent.index : null,
+    });
+  }
+
+  // Clauses span their sub-clauses
+  for (let index = clauses.length - 1; index >= 0; index--) {
+    const parent = clauses[index].parent;
+    if (parent !== null) {
+      clauses[parent].end = Math.max(clauses[parent].end, clauses[index].end);
+    }
+  }
+  return clauses;
+}
+
+/**
+ * Pairs newly parsed clauses with the clauses stored for the previous
+ * content, so that clause ids survive edits. Clauses are matched by
+ * identical text first, which keeps ids when clauses are renumbered or
+ * moved, then by number and heading, then by similar text.
+ */
+export function matchClauses<T extends ClauseFingerprint>(
+  previous: T[],
+  parsed: ClauseFingerprint[],
+): Array<T | null> {
+  const matches: Array<T | null> = parsed.map(() => null);
+  const available = new Set(previous);
+
+  const matchBy = (isMatch: (candidate: T, clause: ClauseFingerprint) => boolean) => {
+    parsed.forEach((clause, index) => {
+      if (matches[index]) {
+        return;
+      }
+      const candidate = [...available].find((item) => isMatch(item, clause));
+      if (candidate) {
+        matches[index] = candidate;
+        available.delete(candidate);
+      }
+    });
+  };
+
+  matchBy(
+    (candidate, clause) =>
+      normalize(candidate.heading) === normalize(clause.heading) &&
+      normalize(candidate.text) === normalize(clause.text),
+  );
+  matchBy(
+    (candidate, clause) =>
+      (!!clause.number || !!clause.heading) &&
+      candidate.number === clause.number &&
+      normalize(candidate.heading) === normalize(clause.heading),
+  );
+
+  parsed.forEach((clause, index) => {
+    if (matches[index]) {
+      return;
+    }
+    let best: T | null = null;
+    let bestScore = 0.6;
+    for (const candidate of available) {
+      const score = similarity(fingerprintText(candidate), fingerprintText(clause));
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (best) {
+      matches[index] = best;
+      available.delete(best);
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Returns the kind and number of a clause starting with the line, or null
+ * for a line that continues the current clause
+ */
+function parseMarker(
+  line: string,
+  previousLetter: string | null,
+): { kind: ClauseKind; number: string | null; body: string; rank: number } | null {
+  const heading = HEADING.exec(line);
+  if (heading) {
+    const numbered = HEADING_NUMBER.exec(heading[2]);
+    return {
+      kind: 'heading',
+      number: numbered ? numbered[1] : null,
+      body: (numbered ? numbered[2] : heading[2]).trim(),
+      rank: heading[1].length,
+    };
+  }
+
+  const dotted = DOTTED.exec(line);
+  if (dotted) {
+    const number = dotted[1] || dotted[2] || dotted[3];
+    return { kind: 'dotted', number, body: (dotted[4] || '').trim(), rank: partCount(number) };
+  }
+
+  // (i), (v) and (x) are letters only when they follow the previous letter
+  const roman = ROMAN.exec(line);
+  const letter = LETTER.exec(line);
+  if (
+    roman &&
+    roman[1] &&
+    !(letter && previousLetter && letter[1].charCodeAt(0) === previousLetter.charCodeAt(0) + 1)
+  ) {
+    return { kind: 'roman', number: `(${roman[1]})`, body: roman[2].trim(), rank: 0 };
+  }
+  if (letter) {
+    return { kind: 'letter', number: `(${letter[1]})`, body: letter[2].trim(), rank: 0 };
+  }
+
+  const parenthesized = PARENTHESIZED.exec(line);
+  if (parenthesized) {
+    return {
+      kind: 'parenthesized',
+      number: `(${parenthesized[1]})`,
+      body: parenthesized[2].trim(),
+      rank: 0,
+    };
+  }
+  return null;
+}
+
+/**
+ * Closes the open clauses that the new clause does not belong to
+ */
+function closeClauses(
+  open: OpenClause[],
+  marker: { kind: ClauseKind; number: string; rank: number },
+) {
+  if (marker.kind === 'heading') {
+    while (open.length > 0) {
+      const top = open[open.length - 1];
+      if (top.kind === 'heading' && top.rank < marker.rank) {
+        return;
+      }
+      open.pop();
+    }
+    return;
+  }
+
+  if (marker.kind === 'dotted') {
+    while (open.length > 0) {
+      const top = open[open.length - 1];
+      // Numbered headings are closed by clauses numbered at the same depth
+      if (top.kind === 'heading' && !(top.numberParts && top.numberParts >= marker.rank)) {
+        return;
+      }
+      if (top.kind === 'dotted' && top.rank < marker.rank) {
+        return;
+      }
+      open.pop();
+    }
+    return;
+  }
+
+  // A list item closes the items of its own list and anything nested in them
+  const sibling = open.map(({ kind }) => kind).lastIndexOf(marker.kind);
+  if (sibling >= 0) {
+    open.length = sibling;
+  } else if (open[open.length - 1]?.kind === 'preamble') {
+    open.pop();
+  }
+}
+
+/**
+ * Splits content into paragraphs at blank lines and before lines that start
+ * a clause
+ */
+function splitBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const lineEnd = offset + line.length;
+    const trimmed = line.trim();
+    if (!trimmed) {
+      current = null;
+    } else if (!current || CLAUSE_START.test(trimmed) || HEADING.test(current.text)) {
+      current = { start: offset + line.indexOf(trimmed), end: lineEnd, text: trimmed };
+      blocks.push(current);
+    } else {
+      current.text += `\n${trimmed}`;
+      current.end = lineEnd;
+    }
+    offset = lineEnd + 1;
+  }
+
+  for (const block of blocks) {
+    block.end = block.start + content.slice(block.start, block.end).trimEnd().length;
+  }
+  return blocks;
+}
+
+function emptyClause(block: Block): ParsedClause {
+  return {
+    number: null,
+    heading: null,
+    text: '',
+    level: 0,
+    parent: null,
+    start: block.start,
+    end: block.end,
+  };
+}
+
+/**
+ * Numbered lines are clause headings when they are short, capitalised like
+ * a title and have no closing punctuation, as in "1. Payment Terms"
+ */
+function isHeading(text: string): boolean {
+  return (
+    text.length > 0 &&
+    text.length <= MAX_HEADING_LENGTH &&
+    !/[.;:,]$/.test(text) &&
+    text
+      .split(/\s+/)
+      .filter((word) => word.length > 3)
+      .every((word) => /^[^a-z]/.test(word))
+  );
+}
+
+function partCount(number: string): number {
+  return number.split('.').length;
+}
+
+function normalize(text: string | null): string {
+  return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function fingerprintText(clause: ClauseFingerprint): string {
+  return normalize(`${clause.heading || ''} ${clause.text}`);
+}
+
+// Dice coefficient of the word sets of the two texts
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
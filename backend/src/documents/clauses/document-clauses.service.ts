@@ -0,0 +1,126 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { inTransaction } from '../../database/transaction.util';
+import { Document } from '../entities/document.entity';
+import { DocumentClause } from '../entities/document-clause.entity';
+import { matchClauses, segmentClauses } from './clause-segmentation.util';
+
+export interface DocumentClauseNode extends DocumentClause {
+  children: DocumentClauseNode[];
+}
+
+@Injectable()
+export class DocumentClausesService {
+  constructor(
+    @InjectRepository(DocumentClause)
+    private readonly clauseRepository: Repository<DocumentClause>,
+  ) {}
+
+  /**
+   * Parses the content of the document into clauses, keeping the ids of
+   * clauses that are still present, in the transaction of the manager if
+   * given (see inTransaction).
+   */
+  async sync(document: Document, manager?: EntityManager): Promise<DocumentClause[]> {
+    const repository = inTransaction(this.clauseRepository, manager);
+    const previous = await repository.find({
+      where: { documentId: document.id },
+      order: { position: 'ASC' },
+    });
+
+    const parsed = segmentClauses(document.content);
+    const matches = matchClauses(previous, parsed);
+    const clauses = parsed.map((clause, index) => {
+      const match = matches[index];
+      const changed = !match || match.heading !== clause.heading || match.text !== clause.text;
+      return repository.create({
+        id: match ? match.id : randomUUID(),
+        documentId: document.id,
+        position: index,
+        level: clause.level,
+        number: clause.number,
+        heading: clause.heading,
+        text: clause.text,
+        startOffset: clause.start,
+        endOffset: clause.end,
+        revision: changed ? document.revision : match.revision,
+      });
+    });
+    clauses.forEach((clause, index) => {
+      const parent = parsed[index].parent;
+      clause.parentId = parent === null ? null : clauses[parent].id;
+    });
+
+    const kept = new Set(clauses.map(({ id }) => id));
+    const removed = previous.filter(({ id }) => !kept.has(id));
+    if (removed.length > 0) {
+      await repository.remove(removed);
+    }
+    return repository.save(clauses);
+  }
+
+  /**
+   * Returns the clauses of the document as a tree
+   */
+  async findTree(document: Document): Promise<DocumentClauseNode[]> {
+    const clauses = await this.findByDocument(document);
+    const nodes = new Map<string, DocumentClauseNode>(
+      clauses.map((clause) => [clause.id, Object.assign(clause, { children: [] })]),
+    );
+
+    const roots: DocumentClauseNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : null;
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+
+  /**
+   * Returns the clauses that overlap a range of character offsets in the
+   * content, such as the position of a review issue. Parent clauses are
+   * included, as they span their sub-clauses.
+   */
+  async findInRange(document: Document, start: number, end = start): Promise<DocumentClause[]> {
+    const clauses = await this.findByDocument(document);
+    return clauses.filter((clause) => overlaps(clause, start, end));
+  }
+
+  /**
+   * Returns the ids of the clauses that overlap each of the ranges, in the
+   * way of findInRange. Ranges that are missing match no clauses.
+   */
+  async findIdsInRanges(
+    document: Document,
+    ranges: Array<{ start: number; end: number } | undefined>,
+  ): Promise<string[][]> {
+    const clauses = await this.findByDocument(document);
+    return ranges.map((range) =>
+      range
+        ? clauses.filter((clause) => overlaps(clause, range.start, range.end)).map(({ id }) => id)
+        : [],
+    );
+  }
+
+  /**
+   * Returns the clauses of the document in order. Documents stored before
+   * clauses were tracked are parsed on first access.
+   */
+  async findByDocument(document: Document): Promise<DocumentClause[]> {
+    const clauses = await this.clauseRepository.find({
+      where: { documentId: document.id },
+      order: { position: 'ASC' },
+    });
+    if (clauses.length === 0 && document.content?.trim()) {
+      return this.sync(document);
+    }
+    return clauses;
+  }
+}
+
+// Empty ranges match the clause at their start
+function overlaps(clause: DocumentClause, start: number, end = start): boolean {
+  return clause.startOffset < Math.max(end, start + 1) && clause.endOffset > start;
+}
@@ -9,11 +9,36 @@ import {
   UseGuards,
   Query,
   Request,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  StreamableFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 import { DocumentsService } from './documents.service';
 import { CreateDocumentDto } from './dto/create-document.dto';
 import { UpdateDocumentDto } from './dto/update-document.dto';
+import { CreateFromTemplateDto } from './dto/create-from-template.dto';
+import { GenerateDocumentDto } from './dto/generate-document.dto';
+import { DiffRevisionsQueryDto } from './dto/diff-revisions-query.dto';
+import { RestoreRevisionDto } from './dto/restore-revision.dto';
+import { ClausesQueryDto } from './dto/clauses-query.dto';
+import { InsertLibraryClauseDto } from './dto/insert-library-clause.dto';
+import { ReviewDocumentDto } from './dto/review-document.dto';
+import { SearchDocumentsQueryDto } from './dto/search-documents-query.dto';
+import { ExportDocumentQueryDto } from './dto/export-document-query.dto';
+import { MAX_DOCUMENT_FILE_SIZE } from './storage/document-files.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 
 @ApiTags('Documents')
@@ -49,28 +74,34 @@ export class DocumentsController {
   }
 
   @Get('search')
-  @ApiOperation({ summary: 'Search documents' })
+  @ApiOperation({
+    summary: 'Search documents, ranked by relevance with highlighted snippets when q is given',
+  })
   @ApiResponse({ status: 200, description: 'Search results retrieved successfully' })
-  searchDocuments(@Request() req, @Query('q') query: string) {
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  searchDocuments(@Request() req, @Query() query: SearchDocumentsQueryDto) {
     return this.documentsService.searchDocuments(req.user.id, query);
   }
 
   @Post('generate')
   @ApiOperation({ summary: 'Generate document with AI' })
   @ApiResponse({ status: 201, description: 'Document generated successfully' })
-  generateDocument(@Request() req, @Body() body: { type: string; data: any }) {
-    return this.documentsService.generateDocument(req.user.id, body.type, body.data);
+  @ApiResponse({ status: 400, description: 'Contract options or template values are invalid' })
+  @ApiResponse({ status: 404, description: 'No template is available for the document type' })
+  generateDocument(@Request() req, @Body() generateDocumentDto: GenerateDocumentDto) {
+    return this.documentsService.generateDocument(req.user.id, generateDocumentDto);
   }
 
   @Post('from-template/:templateId')
   @ApiOperation({ summary: 'Create document from template' })
   @ApiResponse({ status: 201, description: 'Document created from template successfully' })
+  @ApiResponse({ status: 400, description: 'Template variables are missing or invalid' })
   createFromTemplate(
     @Request() req,
     @Param('templateId') templateId: string,
-    @Body() body: { name: string },
+    @Body() createFromTemplateDto: CreateFromTemplateDto,
   ) {
-    return this.documentsService.createFromTemplate(templateId, req.user.id, body.name);
+    return this.documentsService.createFromTemplate(templateId, req.user.id, createFromTemplateDto);
   }
 
   @Get(':id')
@@ -93,7 +124,163 @@ export class DocumentsController {
   @ApiOperation({ summary: 'Delete document' })
   @ApiResponse({ status: 200, description: 'Document deleted successfully' })
   @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 409, description: 'Document is pending approval or approved' })
   remove(@Param('id') id: string, @Request() req) {
     return this.documentsService.remove(id, req.user.id);
   }
+
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'List the revisions of a document, newest first' })
+  @ApiResponse({ status: 200, description: 'Revisions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  getRevisions(@Param('id') id: string, @Request() req) {
+    return this.documentsService.getRevisions(id, req.user.id);
+  }
+
+  // Declared before :revision so that "diff" is not parsed as a revision number
+  @Get(':id/revisions/diff')
+  @ApiOperation({ summary: 'Compare two revisions of a document line by line or clause by clause' })
+  @ApiResponse({ status: 200, description: 'Diff computed successfully' })
+  @ApiResponse({ status: 404, description: 'Document revision not found' })
+  diffRevisions(@Param('id') id: string, @Query() query: DiffRevisionsQueryDto, @Request() req) {
+    return this.documentsService.diffRevisions(
+      id,
+      query.from,
+      query.to,
+      query.granularity,
+      req.user.id,
+    );
+  }
+
+  @Get(':id/revisions/:revision')
+  @ApiOperation({ summary: 'Get a revision of a document with its content' })
+  @ApiParam({ name: 'revision', description: 'Revision number' })
+  @ApiResponse({ status: 200, description: 'Revision retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document revision not found' })
+  getRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @Request() req,
+  ) {
+    return this.documentsService.getRevision(id, revision, req.user.id);
+  }
+
+  @Post(':id/revisions/:revision/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore the content of a revision as a new revision' })
+  @ApiParam({ name: 'revision', description: 'Revision number to restore' })
+  @ApiResponse({ status: 200, description: 'Revision restored successfully' })
+  @ApiResponse({ status: 404, description: 'Document revision not found' })
+  @ApiResponse({ status: 409, description: 'Document is already at this revision' })
+  restoreRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @Body() restoreRevisionDto: RestoreRevisionDto,
+    @Request() req,
+  ) {
+    return this.documentsService.restoreRevision(
+      id,
+      revision,
+      req.user.id,
+      restoreRevisionDto.changeNote,
+    );
+  }
+
+  @Get(':id/clauses')
+  @ApiOperation({
+    summary: 'Get the clause tree of a document, or the clauses at a character offset',
+  })
+  @ApiResponse({ status: 200, description: 'Clauses retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  getClauses(@Param('id') id: string, @Query() query: ClausesQueryDto, @Request() req) {
+    return this.documentsService.getClauses(id, req.user.id, query);
+  }
+
+  @Post(':id/review')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Review the content with LawGeex, listing the clauses of each issue',
+  })
+  @ApiResponse({ status: 200, description: 'Review completed' })
+  @ApiResponse({ status: 400, description: 'Document has no content' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  reviewDocument(@Param('id') id: string, @Body() reviewDto: ReviewDocumentDto, @Request() req) {
+    return this.documentsService.reviewDocument(id, req.user.id, reviewDto);
+  }
+
+  @Post(':id/clauses')
+  @ApiOperation({ summary: 'Insert a clause from the clause library into a document' })
+  @ApiResponse({ status: 201, description: 'Clause inserted as a new revision' })
+  @ApiResponse({
+    status: 404,
+    description: 'Document, document clause or library clause not found',
+  })
+  insertLibraryClause(
+    @Param('id') id: string,
+    @Body() insertLibraryClauseDto: InsertLibraryClauseDto,
+    @Request() req,
+  ) {
+    return this.documentsService.insertLibraryClause(id, req.user, insertLibraryClauseDto);
+  }
+
+  @Post(':id/file')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_DOCUMENT_FILE_SIZE } }))
+  @ApiOperation({
+    summary: 'Upload the file of a document, replacing the previous one and extracting its text',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({ status: 201, description: 'File uploaded successfully' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  @ApiResponse({ status: 413, description: 'File is too large' })
+  @ApiResponse({ status: 415, description: 'File type is not supported' })
+  uploadFile(@Param('id') id: string, @UploadedFile() file: Express.Multer.File, @Request() req) {
+    return this.documentsService.uploadFile(id, req.user.id, file);
+  }
+
+  @Get(':id/file')
+  @ApiOperation({ summary: 'Download the file of a document' })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 404, description: 'Document or file not found' })
+  async downloadFile(@Param('id') id: string, @Request() req) {
+    const file = await this.documentsService.downloadFile(id, req.user.id);
+    return new StreamableFile(file.stream, {
+      type: file.mimeType,
+      length: file.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+    });
+  }
+
+  @Get(':id/export')
+  @ApiOperation({
+    summary: 'Export a document as PDF, Word, Markdown or HTML with signature blocks',
+  })
+  @ApiResponse({ status: 200, description: 'Rendered document' })
+  @ApiResponse({ status: 404, description: 'Document not found' })
+  async exportDocument(
+    @Param('id') id: string,
+    @Query() query: ExportDocumentQueryDto,
+    @Request() req,
+  ) {
+    const file = await this.documentsService.exportDocument(id, req.user.id, query.format);
+    return new StreamableFile(file.content, {
+      type: file.mimeType,
+      length: file.content.length,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+    });
+  }
+
+  @Delete(':id/file')
+  @ApiOperation({ summary: 'Delete the file of a document' })
+  @ApiResponse({ status: 200, description: 'File deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Document or file not found' })
+  removeFile(@Param('id') id: string, @Request() req) {
+    return this.documentsService.removeFile(id, req.user.id);
+  }
 }
@@ -1,13 +1,61 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DocumentsService } from './documents.service';
 import { DocumentsController } from './documents.controller';
 import { Document } from './entities/document.entity';
+import { DocumentRevision } from './entities/document-revision.entity';
+import { DocumentClause } from './entities/document-clause.entity';
+import { LibraryClause } from './entities/library-clause.entity';
+import { LibraryClauseUsage } from './entities/library-clause-usage.entity';
+import { DocumentReviewer } from './entities/document-reviewer.entity';
+import { DocumentApprovalEvent } from './entities/document-approval-event.entity';
+import { DocumentRevisionsService } from './revisions/document-revisions.service';
+import { DocumentClausesService } from './clauses/document-clauses.service';
+import { ClauseLibraryService } from './library/clause-library.service';
+import { ClauseLibraryController } from './library/clause-library.controller';
+import { DocumentSearchService } from './search/document-search.service';
+import { DocumentApprovalsService } from './approvals/document-approvals.service';
+import { DocumentApprovalsController } from './approvals/document-approvals.controller';
+import { DocumentFilesService } from './storage/document-files.service';
+import { DOCUMENT_STORAGE } from './storage/document-storage.interface';
+import { createDocumentStorage } from './storage/document-storage.factory';
+import { IntegrationsModule } from '../integrations/integrations.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PrivacyModule } from '../privacy/privacy.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Document])],
-  controllers: [DocumentsController],
-  providers: [DocumentsService],
-  exports: [DocumentsService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Document,
+      DocumentRevision,
+      DocumentClause,
+      LibraryClause,
+      LibraryClauseUsage,
+      DocumentReviewer,
+      DocumentApprovalEvent,
+    ]),
+    IntegrationsModule,
+    NotificationsModule,
+    PrivacyModule,
+  ],
+  // DocumentApprovalsController comes first so that documents/reviews is not
+  // matched as a document ID
+  controllers: [DocumentApprovalsController, DocumentsController, ClauseLibraryController],
+  providers: [
+    DocumentsService,
+    DocumentRevisionsService,
+    DocumentClausesService,
+    ClauseLibraryService,
+    DocumentSearchService,
+    DocumentApprovalsService,
+    DocumentFilesService,
+    {
+      provide: DOCUMENT_STORAGE,
+      useFactory: createDocumentStorage,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [DocumentsService, DocumentClausesService],
 })
 export class DocumentsModule {}
@@ -0,0 +1,459 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException, Provider } from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { Document } from './entities/document.entity';
+import { DocumentRevisionsService } from './revisions/document-revisions.service';
+import { DocumentClausesService } from './clauses/document-clauses.service';
+import { ClauseLibraryService } from './library/clause-library.service';
+import { DocumentSearchService } from './search/document-search.service';
+import { DocumentClause } from './entities/document-clause.entity';
+import { LibraryClause } from './entities/library-clause.entity';
+import { User } from '../users/entities/user.entity';
+import { DocumentFilesService } from './storage/document-files.service';
+import { OpenAIService } from '../integrations/ai/openai.service';
+import { LawGeexService } from '../integrations/ai/lawgeex.service';
+
+describe('DocumentsService', () => {
+  let service: DocumentsService;
+
+  const buildDocument = (): Document =>
+    Object.assign(new Document(), {
+      id: 'document-123',
+      userId: 'user-123',
+      name: 'Services Agreement',
+      type: 'contract',
+      status: 'draft',
+      content: 'Term: twelve months.',
+      revision: 2,
+    });
+
+  const mockRepository = {
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    create: jest.fn((data) => Object.assign(new Document(), data)),
+    save: jest.fn((document) => Promise.resolve(document)),
+    manager: {
+      transaction: jest.fn((work) => work({ getRepository: () => mockRepository })),
+    },
+  };
+
+  const mockRevisionsService = {
+    record: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockClausesService = {
+    sync: jest.fn(),
+    findByDocument: jest.fn(),
+    findIdsInRanges: jest.fn(),
+  };
+
+  const mockLawGeexService = {
+    reviewContractWithLawGeex: jest.fn(),
+  };
+
+  const mockClauseLibraryService = {
+    findOne: jest.fn(),
+    recordUsage: jest.fn(),
+  };
+
+  const mockFilesService = {
+    upload: jest.fn((document, file) =>
+      Object.assign(document, { fileName: file.originalname, mimeType: file.mimetype }),
+    ),
+  };
+
+  const mockOpenAIService = {
+    isConfigured: jest.fn().mockReturnValue(true),
+    generateContractDraft: jest.fn(),
+  };
+
+  const compileModule = (openAIProviders: Provider[]) =>
+    Test.createTestingModule({
+      providers: [
+        DocumentsService,
+        { provide: getRepositoryToken(Document), useValue: mockRepository },
+        { provide: DocumentRevisionsService, useValue: mockRevisionsService },
+        { provide: DocumentClausesService, useValue: mockClausesService },
+        { provide: ClauseLibraryService, useValue: mockClauseLibraryService },
+        { provide: DocumentSearchService, useValue: {} },
+        { provide: DocumentFilesService, useValue: mockFilesService },
+        { provide: LawGeexService, useValue: mockLawGeexService },
+        ...openAIProviders,
+      ],
+    }).compile();
+
+  beforeEach(async () => {
+    const module: TestingModule = await compileModule([
+      { provide: OpenAIService, useValue: mockOpenAIService },
+    ]);
+
+    service = module.get<DocumentsService>(DocumentsService);
+    mockRepository.findOne.mockResolvedValue(buildDocument());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('update', () => {
+    it('should store a revision with the change note when the content changes', async () => {
+      const result = await service.update('document-123', 'user-123', {
+        content: 'Term: six months.',
+        changeNote: 'Shorter term',
+      });
+
+      expect(result.revision).toBe(3);
+      expect(result).not.toHaveProperty('changeNote');
+      expect(mockClausesService.sync).toHaveBeenCalledWith(result, expect.anything());
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ revision: 3, content: 'Term: six months.' }),
+        'user-123',
+        expect.objectContaining({ changeNote: 'Shorter term', manager: expect.anything() }),
+      );
+    });
+
+    it('should not store a revision when only other fields change', async () => {
+      const result = await service.update('document-123', 'user-123', {
+        name: 'Consulting Agreement',
+      });
+
+      expect(result.revision).toBe(2);
+      expect(mockRevisionsService.record).not.toHaveBeenCalled();
+    });
+
+    it('should reject content changes while the document is pending approval', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        Object.assign(buildDocument(), { status: 'pending' }),
+      );
+
+      await expect(
+        service.update('document-123', 'user-123', { content: 'Term: six months.' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewDocument', () => {
+    it('should list the clauses that each review issue covers', async () => {
+      const issue = { id: 'issue-1', position: { start: 10, end: 20 }, severity: 8 };
+      mockLawGeexService.reviewContractWithLawGeex.mockResolvedValue({
+        status: 'completed',
+        issues: [issue],
+      });
+      mockClausesService.findIdsInRanges.mockResolvedValue([['clause-1', 'clause-1.1']]);
+
+      const result = await service.reviewDocument('document-123', 'user-123', {
+        priority: 'high',
+      });
+
+      expect(mockLawGeexService.reviewContractWithLawGeex).toHaveBeenCalledWith(
+        'Term: twelve months.',
+        { priority: 'high' },
+      );
+      expect(mockClausesService.findIdsInRanges).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'document-123' }),
+        [{ start: 10, end: 20 }],
+      );
+      expect(result.issues).toEqual([{ ...issue, clauseIds: ['clause-1', 'clause-1.1'] }]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete drafts', async () => {
+      await service.remove('document-123', 'user-123');
+
+      expect(mockRepository.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'document-123' }),
+      );
+    });
+
+    it('should keep pending and approved documents with their approval history', async () => {
+      for (const status of ['pending', 'approved'] as const) {
+        mockRepository.findOne.mockResolvedValue(Object.assign(buildDocument(), { status }));
+
+        await expect(service.remove('document-123', 'user-123')).rejects.toThrow(
+          `${status} documents cannot be deleted`,
+        );
+      }
+      expect(mockRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportDocument', () => {
+    it('should export as Word when the PDF fonts cannot show the text', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        Object.assign(buildDocument(), {
+          name: '\u0627\u062a\u0641\u0627\u0642\u064a\u0629',
+          content: '1. \u0627\u0644\u062e\u062f\u0645\u0627\u062a',
+        }),
+      );
+
+      const file = await service.exportDocument('document-123', 'user-123', 'pdf');
+
+      expect(file.fileName).toBe('\u0627\u062a\u0641\u0627\u0642\u064a\u0629.docx');
+      expect(file.mimeType).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      );
+    });
+  });
+
+  describe('restoreRevision', () => {
+    it('should store the restored content as a new revision', async () => {
+      mockRevisionsService.findOne.mockResolvedValue({ revision: 1, content: 'Original terms.' });
+
+      const result = await service.restoreRevision('document-123', 1, 'user-123');
+
+      expect(result).toEqual(expect.objectContaining({ revision: 3, content: 'Original terms.' }));
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(result, 'user-123', {
+        changeNote: 'Restored revision 1',
+        restoredFromRevision: 1,
+        manager: expect.anything(),
+      });
+    });
+
+    it('should reject restoring the current revision', async () => {
+      await expect(service.restoreRevision('document-123', 2, 'user-123')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('insertLibraryClause', () => {
+    const user = Object.assign(new User(), { id: 'user-123' });
+    const clause = (id: string, startOffset: number, endOffset: number) =>
+      Object.assign(new DocumentClause(), { id, startOffset, endOffset });
+
+    it('should insert the library text after a clause and record the version used', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        Object.assign(buildDocument(), { content: '1. Term: twelve months.\n\n2. Fees: $500.' }),
+      );
+      mockClauseLibraryService.findOne.mockResolvedValue(
+        Object.assign(new LibraryClause(), {
+          id: 'library-123',
+          title: 'Confidentiality',
+          body: 'Each party shall keep the terms secret.',
+          version: 4,
+        }),
+      );
+      mockClausesService.findByDocument.mockResolvedValue([
+        clause('clause-1', 0, 23),
+        clause('clause-2', 25, 39),
+      ]);
+      mockClausesService.sync.mockResolvedValue([
+        clause('clause-1', 0, 23),
+        clause('clause-3', 25, 67),
+        clause('clause-2', 69, 83),
+      ]);
+
+      const result = await service.insertLibraryClause('document-123', user, {
+        libraryClauseId: 'library-123',
+        clauseId: 'clause-1',
+        placement: 'after',
+        number: '2.',
+      });
+
+      expect(result.content).toBe(
+        '1. Term: twelve months.\n\n2. Each party shall keep the terms secret.\n\n2. Fees: $500.',
+      );
+      expect(result.revision).toBe(3);
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(result, 'user-123', {
+        changeNote: 'Inserted "Confidentiality" (version 4)',
+        manager: expect.anything(),
+      });
+      expect(mockClauseLibraryService.recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'library-123', version: 4 }),
+        result,
+        'clause-3',
+        'user-123',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('uploadFile', () => {
+    const upload = (originalname: string, mimetype: string, content: string) =>
+      ({ originalname, mimetype, buffer: Buffer.from(content) }) as Express.Multer.File;
+
+    it('should store the extracted text as a new revision', async () => {
+      const result = await service.uploadFile(
+        'document-123',
+        'user-123',
+        upload('terms.txt', 'text/plain', 'Term: twelve months.\r\nNotice: thirty days.\r\n'),
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          revision: 3,
+          content: 'Term: twelve months.\nNotice: thirty days.',
+          textExtraction: expect.objectContaining({ status: 'completed', characters: 41 }),
+        }),
+      );
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(result, 'user-123', {
+        changeNote: 'Text extracted from terms.txt',
+        manager: expect.anything(),
+      });
+    });
+
+    it('should record a failed extraction and keep the content', async () => {
+      const result = await service.uploadFile(
+        'document-123',
+        'user-123',
+        upload('contract.pdf', 'application/pdf', '%PDF-1.4\n%%EOF'),
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ revision: 2, content: 'Term: twelve months.' }),
+      );
+      expect(result.textExtraction).toEqual(
+        expect.objectContaining({
+          status: 'failed',
+          fileName: 'contract.pdf',
+          error: 'PDF catalog is missing',
+        }),
+      );
+      expect(mockRepository.save).toHaveBeenCalledWith(result);
+      expect(mockRevisionsService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createFromTemplate', () => {
+    const template = Object.assign(new Document(), {
+      id: 'template-123',
+      name: 'Services Agreement Template',
+      type: 'contract',
+      isTemplate: true,
+      content: 'Between {{client.company}} and {{provider}}.{{#if notes}} {{notes}}{{/if}}',
+      metadata: {
+        variables: [
+          { name: 'client.company', type: 'string', required: true },
+          { name: 'provider', type: 'string', default: 'KitOps' },
+          { name: 'notes', type: 'string' },
+        ],
+      },
+    });
+
+    it('should render the template with the given values and defaults', async () => {
+      mockRepository.findOne.mockResolvedValue(template);
+
+      const result = await service.createFromTemplate('template-123', 'user-123', {
+        name: 'Acme Agreement',
+        values: { client: { company: 'Acme' } },
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          name: 'Acme Agreement',
+          content: 'Between Acme and KitOps.',
+          templateId: 'template-123',
+          revision: 1,
+        }),
+      );
+      expect(result.metadata.templateValues).toEqual({
+        client: { company: 'Acme' },
+        provider: 'KitOps',
+      });
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        result,
+        'user-123',
+        expect.anything(),
+      );
+    });
+
+    it('should list every missing or invalid field', async () => {
+      mockRepository.findOne.mockResolvedValue(template);
+
+      const result = service.createFromTemplate('template-123', 'user-123', {
+        name: 'Acme Agreement',
+        values: { provider: 42 },
+      });
+
+      await expect(result).rejects.toThrow(BadRequestException);
+      await expect(result).rejects.toMatchObject({
+        response: {
+          errors: [
+            { field: 'client.company', message: 'is required' },
+            { field: 'provider', message: 'must be a string' },
+          ],
+        },
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateDocument', () => {
+    const data = {
+      contractType: 'Service Agreement',
+      parties: ['KitOps', 'Acme'],
+      keyTerms: ['payment terms'],
+      jurisdiction: 'Delaware',
+      client: { company: 'Acme' },
+    };
+
+    it('should store the AI draft with its model and token usage', async () => {
+      const generatedAt = new Date('2025-01-15T12:00:00Z');
+      mockOpenAIService.generateContractDraft.mockResolvedValue({
+        content: '# SERVICE AGREEMENT',
+        wordCount: 3,
+        generatedAt,
+        model: 'gpt-4',
+        tokenUsage: { promptTokens: 150, completionTokens: 1500, totalTokens: 1650 },
+      });
+
+      const result = await service.generateDocument('user-123', { type: 'contract', data });
+
+      expect(mockOpenAIService.generateContractDraft).toHaveBeenCalledWith({
+        contractType: 'Service Agreement',
+        parties: ['KitOps', 'Acme'],
+        keyTerms: ['payment terms'],
+        jurisdiction: 'Delaware',
+        customInstructions: undefined,
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ name: 'Generated contract', content: '# SERVICE AGREEMENT' }),
+      );
+      expect(result.metadata).toEqual(
+        expect.objectContaining({
+          generatedBy: 'ai',
+          model: 'gpt-4',
+          tokenUsage: { promptTokens: 150, completionTokens: 1500, totalTokens: 1650 },
+        }),
+      );
+    });
+
+    it('should render the contract template when no AI key is configured', async () => {
+      const module = await compileModule([
+        OpenAIService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ]);
+      const unconfigured = module.get<DocumentsService>(DocumentsService);
+      const generateContractDraft = jest.spyOn(
+        module.get<OpenAIService>(OpenAIService),
+        'generateContractDraft',
+      );
+      mockRepository.findOne.mockResolvedValue(
+        Object.assign(new Document(), {
+          id: 'template-123',
+          type: 'contract',
+          isTemplate: true,
+          content: 'Agreement with {{client.company}}',
+          metadata: { variables: [{ name: 'client.company', type: 'string', required: true }] },
+        }),
+      );
+
+      const result = await unconfigured.generateDocument('user-123', { type: 'contract', data });
+
+      expect(generateContractDraft).not.toHaveBeenCalled();
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: { type: 'contract', isTemplate: true },
+        order: { name: 'ASC' },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ content: 'Agreement with Acme', templateId: 'template-123' }),
+      );
+      expect(result.metadata.generatedBy).toBe('template');
+    });
+  });
+});
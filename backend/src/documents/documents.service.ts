@@ -1,20 +1,97 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Document } from './entities/document.entity';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  Document,
+  DocumentTextExtraction,
+  EDITABLE_DOCUMENT_STATUSES,
+} from './entities/document.entity';
+import { DocumentRevision } from './entities/document-revision.entity';
+import { DocumentClause } from './entities/document-clause.entity';
 import { CreateDocumentDto } from './dto/create-document.dto';
 import { UpdateDocumentDto } from './dto/update-document.dto';
+import { CreateFromTemplateDto } from './dto/create-from-template.dto';
+import { GenerateDocumentDto } from './dto/generate-document.dto';
+import {
+  DocumentRevisionDiff,
+  DocumentRevisionsService,
+} from './revisions/document-revisions.service';
+import { RevisionDiffGranularity } from './revisions/revision-diff.util';
+import { DocumentClauseNode, DocumentClausesService } from './clauses/document-clauses.service';
+import { ClausesQueryDto } from './dto/clauses-query.dto';
+import { InsertLibraryClauseDto } from './dto/insert-library-clause.dto';
+import { ClauseLibraryService } from './library/clause-library.service';
+import { SearchDocumentsQueryDto } from './dto/search-documents-query.dto';
+import { DocumentSearchPage, DocumentSearchService } from './search/document-search.service';
+import { DocumentFile, DocumentFilesService } from './storage/document-files.service';
+import { SignatureParty, buildDocumentLayout } from './export/document-layout.util';
+import {
+  DocumentExportFormat,
+  ExportedDocument,
+  renderDocumentLayout,
+} from './export/document-export.util';
+import { PdfEncodingError } from './export/pdf-renderer.util';
+import {
+  MAX_ANALYZABLE_TEXT_LENGTH,
+  MIN_ANALYZABLE_TEXT_LENGTH,
+  extractDocumentTextInWorker,
+} from './extraction/document-text.util';
+import {
+  TemplateFieldError,
+  TemplateSyntaxError,
+  getTemplateVariables,
+  parseTemplate,
+  renderTemplate,
+  resolveTemplateValues,
+  validateTemplateVariables,
+} from './templates/document-template.util';
+import {
+  ContractDraftResult,
+  ContractGenerationOptions,
+  OpenAIService,
+} from '../integrations/ai/openai.service';
+import {
+  LawGeexIssue,
+  LawGeexReviewResult,
+  LawGeexService,
+} from '../integrations/ai/lawgeex.service';
+import { ValidationException } from '../integrations/ai/utils/validation.util';
+import { User } from '../users/entities/user.entity';
+import { ReviewDocumentDto } from './dto/review-document.dto';
+
+// Document types drafted by the AI service when it is configured
+const AI_DRAFTED_TYPES = ['contract'];
+
+export interface DocumentReview extends Omit<LawGeexReviewResult, 'issues'> {
+  // Each issue lists the clauses its position overlaps, parents included
+  issues: Array<LawGeexIssue & { clauseIds: string[] }>;
+}
 
 @Injectable()
 export class DocumentsService {
   constructor(
     @InjectRepository(Document)
     private documentRepository: Repository<Document>,
+    private revisionsService: DocumentRevisionsService,
+    private clausesService: DocumentClausesService,
+    private clauseLibraryService: ClauseLibraryService,
+    private searchService: DocumentSearchService,
+    private filesService: DocumentFilesService,
+    private openAIService: OpenAIService,
+    private lawGeexService: LawGeexService,
   ) {}
 
   async create(createDocumentDto: CreateDocumentDto): Promise<Document> {
     const document = this.documentRepository.create(createDocumentDto);
-    return this.documentRepository.save(document);
+    this.checkTemplate(document);
+    document.status = 'draft';
+    document.revision = 1;
+    return this.saveRevision(document, createDocumentDto.userId);
   }
 
   async findAll(userId: string): Promise<Document[]> {
@@ -42,16 +119,124 @@ export class DocumentsService {
     updateDocumentDto: UpdateDocumentDto,
   ): Promise<Document> {
     const document = await this.findOne(id, userId);
+    const { changeNote, ...changes } = updateDocumentDto;
+    const previousContent = document.content;
+
+    if (changes.content !== undefined && changes.content !== previousContent) {
+      this.checkEditable(document);
+    }
+
+    Object.assign(document, changes);
+    this.checkTemplate(document);
+    if (changes.content === undefined || changes.content === previousContent) {
+      return this.documentRepository.save(document);
+    }
+
+    document.revision += 1;
+    return this.saveRevision(document, userId, { changeNote });
+  }
+
+  /**
+   * Reviews the content with LawGeex, anchoring each issue to the clauses of
+   * the document so that it can be shown next to them
+   */
+  async reviewDocument(
+    id: string,
+    userId: string,
+    reviewDto: ReviewDocumentDto = {},
+  ): Promise<DocumentReview> {
+    const document = await this.findOne(id, userId);
+    if (!document.content?.trim()) {
+      throw new BadRequestException('Document has no content to review');
+    }
 
-    Object.assign(document, updateDocumentDto);
-    return this.documentRepository.save(document);
+    const review = await this.lawGeexService.reviewContractWithLawGeex(document.content, reviewDto);
+    const issues = review.issues || [];
+    const clauseIds = await this.clausesService.findIdsInRanges(
+      document,
+      issues.map(({ position }) => position),
+    );
+    return {
+      ...review,
+      issues: issues.map((issue, index) => ({ ...issue, clauseIds: clauseIds[index] })),
+    };
   }
 
+  /**
+   * Deletes a draft or rejected document. Pending and approved documents are
+   * kept, together with their approval history.
+   */
   async remove(id: string, userId: string): Promise<void> {
     const document = await this.findOne(id, userId);
+    if (!EDITABLE_DOCUMENT_STATUSES.includes(document.status)) {
+      throw new ConflictException(`${document.status} documents cannot be deleted`);
+    }
+    if (document.fileUrl) {
+      await this.filesService.remove(document);
+    }
     await this.documentRepository.remove(document);
   }
 
+  async uploadFile(id: string, userId: string, file: Express.Multer.File): Promise<Document> {
+    const document = await this.findOne(id, userId);
+    this.checkEditable(document);
+    await this.filesService.upload(document, file);
+    return this.extractText(document, userId, file.buffer);
+  }
+
+  async downloadFile(id: string, userId: string): Promise<DocumentFile> {
+    const document = await this.findOne(id, userId);
+    return this.filesService.download(document);
+  }
+
+  /**
+   * Renders the document with its headings, clause numbering and signature
+   * blocks, branded with the company of its author. Without signers, the
+   * blocks are for the author and an unnamed other party. Documents with
+   * text outside the Latin character set, which the PDF fonts cannot show,
+   * are exported as Word documents when PDF is asked for.
+   */
+  async exportDocument(
+    id: string,
+    userId: string,
+    format: DocumentExportFormat,
+    options: { signers?: SignatureParty[]; anchors?: boolean } = {},
+  ): Promise<ExportedDocument> {
+    const document = await this.documentRepository.findOne({
+      where: { id, userId },
+      relations: { user: true },
+    });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const author = document.user;
+    const layout = buildDocumentLayout(document.content, {
+      title: document.name,
+      organization: author?.company,
+      signatures: options.signers ?? [
+        { name: author?.name, organization: author?.company ?? undefined },
+        {},
+      ],
+      anchors: options.anchors,
+    });
+
+    try {
+      return renderDocumentLayout(layout, format);
+    } catch (error) {
+      if (error instanceof PdfEncodingError) {
+        return renderDocumentLayout(layout, 'docx');
+      }
+      throw error;
+    }
+  }
+
+  async removeFile(id: string, userId: string): Promise<Document> {
+    const document = await this.findOne(id, userId);
+    this.checkEditable(document);
+    return this.filesService.remove(document);
+  }
+
   async findByType(userId: string, type: string): Promise<Document[]> {
     return this.documentRepository.find({
       where: { userId, type },
@@ -66,7 +251,11 @@ export class DocumentsService {
     });
   }
 
-  async createFromTemplate(templateId: string, userId: string, name: string): Promise<Document> {
+  async createFromTemplate(
+    templateId: string,
+    userId: string,
+    createFromTemplateDto: CreateFromTemplateDto,
+  ): Promise<Document> {
     const template = await this.documentRepository.findOne({
       where: { id: templateId, isTemplate: true },
     });
@@ -75,52 +264,367 @@ export class DocumentsService {
       throw new NotFoundException('Template not found');
     }
 
+    const document = this.renderFromTemplate(
+      template,
+      userId,
+      createFromTemplateDto.name,
+      createFromTemplateDto.values,
+    );
+    return this.saveRevision(document, userId);
+  }
+
+  /**
+   * Drafts contracts with AI when an OpenAI key is configured. Other types,
+   * and contracts without a key, are rendered from the given template or the
+   * first template of the type, using data as the template values.
+   */
+  async generateDocument(
+    userId: string,
+    generateDocumentDto: GenerateDocumentDto,
+  ): Promise<Document> {
+    const { type, templateId, data = {} } = generateDocumentDto;
+    const name = generateDocumentDto.name || `Generated ${type}`;
+
+    if (!AI_DRAFTED_TYPES.includes(type) || !this.openAIService.isConfigured()) {
+      const template = await this.documentRepository.findOne({
+        where: templateId ? { id: templateId, isTemplate: true } : { type, isTemplate: true },
+        order: { name: 'ASC' },
+      });
+
+      if (!template) {
+        throw new NotFoundException(
+          templateId ? 'Template not found' : `No template is available for ${type} documents`,
+        );
+      }
+
+      const document = this.renderFromTemplate(template, userId, name, data);
+      document.metadata.generatedBy = 'template';
+      return this.saveRevision(document, userId);
+    }
+
+    const options: ContractGenerationOptions = {
+      contractType: data.contractType,
+      parties: data.parties || [data.provider?.company, data.client?.company].filter(Boolean),
+      keyTerms: data.keyTerms || [],
+      jurisdiction: data.jurisdiction,
+      customInstructions: data.customInstructions,
+    };
+
+    let draft: ContractDraftResult;
+    try {
+      draft = await this.openAIService.generateContractDraft(options);
+    } catch (error) {
+      if (error instanceof ValidationException) {
+        throw this.invalidFields(
+          error.errors,
+          error.errors.map(({ message }) => message),
+        );
+      }
+      throw error;
+    }
+
     const document = this.documentRepository.create({
       userId,
       name,
-      type: template.type,
-      content: template.content,
-      templateId,
+      type,
+      content: draft.content,
       status: 'draft',
-      metadata: template.metadata,
+      metadata: {
+        generatedBy: 'ai',
+        model: draft.model,
+        tokenUsage: draft.tokenUsage,
+        wordCount: draft.wordCount,
+        generatedAt: draft.generatedAt,
+        contractOptions: options,
+      },
+      revision: 1,
     });
 
-    return this.documentRepository.save(document);
+    return this.saveRevision(document, userId);
+  }
+
+  async searchDocuments(
+    userId: string,
+    query: SearchDocumentsQueryDto,
+  ): Promise<DocumentSearchPage> {
+    return this.searchService.search(userId, query);
+  }
+
+  async getRevisions(id: string, userId: string): Promise<DocumentRevision[]> {
+    const document = await this.findOne(id, userId);
+    return this.revisionsService.findByDocument(document.id);
+  }
+
+  async getRevision(id: string, revision: number, userId: string): Promise<DocumentRevision> {
+    const document = await this.findOne(id, userId);
+    return this.revisionsService.findOne(document.id, revision);
+  }
+
+  async diffRevisions(
+    id: string,
+    from: number,
+    to: number,
+    granularity: RevisionDiffGranularity,
+    userId: string,
+  ): Promise<DocumentRevisionDiff> {
+    const document = await this.findOne(id, userId);
+    return this.revisionsService.diff(document.id, from, to, granularity);
+  }
+
+  /**
+   * Returns the clause tree of the document, or with a start offset the
+   * clauses at that position
+   */
+  async getClauses(
+    id: string,
+    userId: string,
+    query: ClausesQueryDto = {},
+  ): Promise<DocumentClauseNode[] | DocumentClause[]> {
+    const document = await this.findOne(id, userId);
+    if (query.start !== undefined) {
+      return this.clausesService.findInRange(document, query.start, query.end);
+    }
+    return this.clausesService.findTree(document);
+  }
+
+  /**
+   * Inserts the body of a library clause as a new paragraph before or after
+   * a clause of the document, or at the end, and records the library
+   * version used
+   */
+  async insertLibraryClause(
+    id: string,
+    user: User,
+    insertClauseDto: InsertLibraryClauseDto,
+  ): Promise<Document> {
+    const document = await this.findOne(id, user.id);
+    this.checkEditable(document);
+    const libraryClause = await this.clauseLibraryService.findOne(
+      insertClauseDto.libraryClauseId,
+      user,
+    );
+
+    const content = document.content || '';
+    let offset = content.length;
+    if (insertClauseDto.clauseId) {
+      const clauses = await this.clausesService.findByDocument(document);
+      const target = clauses.find((clause) => clause.id === insertClauseDto.clauseId);
+      if (!target) {
+        throw new NotFoundException('Document clause not found');
+      }
+      offset = insertClauseDto.placement === 'before' ? target.startOffset : target.endOffset;
+    }
+
+    const before = content.slice(0, offset).trimEnd();
+    const after = content.slice(offset).trimStart();
+    const inserted = [insertClauseDto.number, libraryClause.body.trim()].filter(Boolean).join(' ');
+    const start = before ? before.length + 2 : 0;
+
+    document.content = [before, inserted, after].filter(Boolean).join('\n\n');
+    document.revision += 1;
+    return this.saveRevision(
+      document,
+      user.id,
+      { changeNote: `Inserted "${libraryClause.title}" (version ${libraryClause.version})` },
+      async (saved, clauses, manager) => {
+        // Without a number the text continues the clause before it
+        const clause = clauses
+          .filter(({ startOffset, endOffset }) => startOffset <= start && endOffset > start)
+          .pop();
+        await this.clauseLibraryService.recordUsage(
+          libraryClause,
+          saved,
+          clause ? clause.id : null,
+          user.id,
+          manager,
+        );
+      },
+    );
   }
 
-  async generateDocument(userId: string, type: string, data: any): Promise<Document> {
-    // AI-powered document generation logic would go here
-    // For now, we'll create a basic document
+  /**
+   * Makes the content of an earlier revision the new head. History is kept:
+   * the restored content is stored as a new revision.
+   */
+  async restoreRevision(
+    id: string,
+    revision: number,
+    userId: string,
+    changeNote?: string,
+  ): Promise<Document> {
+    const document = await this.findOne(id, userId);
+    this.checkEditable(document);
+    if (revision === document.revision) {
+      throw new ConflictException(`Document is already at revision ${revision}`);
+    }
+
+    const target = await this.revisionsService.findOne(document.id, revision);
+    document.content = target.content;
+    document.revision += 1;
+    return this.saveRevision(document, userId, {
+      changeNote: changeNote || `Restored revision ${revision}`,
+      restoredFromRevision: target.revision,
+    });
+  }
 
-    const templates = {
-      contract: 'This is a contract template with placeholder data.',
-      invoice: 'Invoice template with billing information.',
-      proposal: 'Project proposal template with scope and pricing.',
+  /**
+   * Saves the document together with a snapshot of its content as revision
+   * document.revision, and parses its clauses again. afterSave runs in the
+   * same transaction.
+   */
+  private saveRevision(
+    document: Document,
+    authorId: string,
+    options: { changeNote?: string; restoredFromRevision?: number } = {},
+    afterSave?: (
+      saved: Document,
+      clauses: DocumentClause[],
+      manager: EntityManager,
+    ) => Promise<void>,
+  ): Promise<Document> {
+    return this.documentRepository.manager.transaction(async (manager) => {
+      const saved = await manager.getRepository(Document).save(document);
+      await this.revisionsService.record(saved, authorId, { ...options, manager });
+      const clauses = await this.clausesService.sync(saved, manager);
+      if (afterSave) {
+        await afterSave(saved, clauses, manager);
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Replaces the content with the text of the uploaded file. The file is
+   * already stored, so failures are recorded on the document instead of
+   * failing the upload.
+   */
+  private async extractText(document: Document, userId: string, file: Buffer): Promise<Document> {
+    const extraction: DocumentTextExtraction = {
+      status: 'completed',
+      fileName: document.fileName,
+      extractedAt: new Date(),
     };
 
-    const content = templates[type] || 'Generic document template.';
+    let text: string | null;
+    try {
+      text = await extractDocumentTextInWorker(file, document.mimeType);
+    } catch (error) {
+      text = '';
+      extraction.error = error.message;
+    }
+
+    if (text === null) {
+      extraction.status = 'skipped';
+      extraction.error = `Text cannot be extracted from ${document.mimeType} files`;
+    } else if (!text) {
+      extraction.status = 'failed';
+      extraction.error = extraction.error || 'File contains no text';
+    } else {
+      extraction.characters = text.length;
+      if (text.length < MIN_ANALYZABLE_TEXT_LENGTH || text.length > MAX_ANALYZABLE_TEXT_LENGTH) {
+        extraction.warnings = [
+          `Text length is outside the ${MIN_ANALYZABLE_TEXT_LENGTH} to ${MAX_ANALYZABLE_TEXT_LENGTH} characters accepted by contract analysis`,
+        ];
+      }
+    }
 
-    const document = this.documentRepository.create({
+    document.textExtraction = extraction;
+    if (extraction.status !== 'completed' || text === document.content) {
+      return this.documentRepository.save(document);
+    }
+
+    document.content = text;
+    document.revision += 1;
+    return this.saveRevision(document, userId, {
+      changeNote: `Text extracted from ${document.fileName}`,
+    });
+  }
+
+  /**
+   * Builds an unsaved document from a template, rejecting missing or invalid
+   * values with a field-level error list
+   */
+  private renderFromTemplate(
+    template: Document,
+    userId: string,
+    name: string,
+    values: Record<string, any> = {},
+  ): Document {
+    const variables = getTemplateVariables(template.metadata);
+    const resolved = resolveTemplateValues(variables, values);
+    if (resolved.errors.length > 0) {
+      throw this.invalidFields(resolved.errors);
+    }
+
+    let rendered: { content: string; errors: TemplateFieldError[] };
+    try {
+      rendered = renderTemplate(template.content || '', resolved.values, variables);
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw new BadRequestException(`Template content is invalid: ${error.message}`);
+      }
+      throw error;
+    }
+    if (rendered.errors.length > 0) {
+      throw this.invalidFields(rendered.errors);
+    }
+
+    return this.documentRepository.create({
       userId,
-      name: `Generated ${type}`,
-      type,
-      content,
+      name,
+      type: template.type,
+      content: rendered.content,
+      templateId: template.id,
       status: 'draft',
-      metadata: data,
+      metadata: { ...template.metadata, templateValues: resolved.values },
+      revision: 1,
     });
+  }
+
+  /**
+   * Rejects templates whose content or variable declarations would fail to
+   * render
+   */
+  private checkTemplate(document: Document): void {
+    if (!document.isTemplate) {
+      return;
+    }
 
-    return this.documentRepository.save(document);
+    const errors = validateTemplateVariables(getTemplateVariables(document.metadata));
+    try {
+      parseTemplate(document.content || '');
+    } catch (error) {
+      if (!(error instanceof TemplateSyntaxError)) {
+        throw error;
+      }
+      errors.push(`content: ${error.message}`);
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
   }
 
-  async searchDocuments(userId: string, query: string): Promise<Document[]> {
-    return this.documentRepository
-      .createQueryBuilder('document')
-      .where('document.userId = :userId', { userId })
-      .andWhere(
-        '(document.name ILIKE :query OR document.content ILIKE :query OR document.tags::text ILIKE :query)',
-        { query: `%${query}%` },
-      )
-      .orderBy('document.updatedAt', 'DESC')
-      .getMany();
+  /**
+   * Rejects changes to the content or file of documents that are pending
+   * approval or approved. Pending documents become editable again when they
+   * are withdrawn or rejected.
+   */
+  private checkEditable(document: Document): void {
+    if (!EDITABLE_DOCUMENT_STATUSES.includes(document.status)) {
+      throw new ConflictException(`Content of ${document.status} documents cannot be changed`);
+    }
+  }
+
+  private invalidFields(
+    errors: Array<{ field: string; message: string }>,
+    messages = errors.map(({ field, message }) => `${field} ${message}`),
+  ): BadRequestException {
+    return new BadRequestException({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: messages,
+      errors,
+    });
   }
 }
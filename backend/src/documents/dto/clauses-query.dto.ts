@@ -0,0 +1,21 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ClausesQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Character offset in the content; returns the clauses at this position, such as the start of a review issue, instead of the tree',
+    minimum: 0,
+    example: 120,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  start?: number;
+
+  @ApiPropertyOptional({ description: 'End of the character range, exclusive', minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  end?: number;
+}
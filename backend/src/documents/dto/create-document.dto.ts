@@ -27,11 +27,6 @@ export class CreateDocumentDto {
   @IsOptional()
   metadata?: any;
 
-  @ApiProperty({ required: false })
-  @IsOptional()
-  @IsString()
-  status?: string;
-
   @ApiProperty({ required: false })
   @IsOptional()
   @IsBoolean()
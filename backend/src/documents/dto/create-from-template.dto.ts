@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateFromTemplateDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Values of the template variables as nested objects, e.g. { "client": { "company": "Acme" } }',
+  })
+  @IsOptional()
+  @IsObject()
+  values?: Record<string, any>;
+}
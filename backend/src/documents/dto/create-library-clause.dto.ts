@@ -0,0 +1,46 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateLibraryClauseDto {
+  @ApiProperty({ example: 'Mutual confidentiality', maxLength: 200 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiProperty({
+    description: 'Clause text inserted into documents',
+    example: 'Each party shall keep the Confidential Information of the other party secret.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20000)
+  body: string;
+
+  @ApiPropertyOptional({ example: 'Delaware' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  jurisdiction?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['confidentiality', 'nda'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({ description: 'Risks to consider before using the clause' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  riskNotes?: string;
+}
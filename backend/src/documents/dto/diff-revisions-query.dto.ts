@@ -0,0 +1,27 @@
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  REVISION_DIFF_GRANULARITIES,
+  RevisionDiffGranularity,
+} from '../revisions/revision-diff.util';
+
+export class DiffRevisionsQueryDto {
+  @ApiProperty({ description: 'Revision to compare from', minimum: 1, example: 1 })
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiProperty({ description: 'Revision to compare to', minimum: 1, example: 2 })
+  @IsInt()
+  @Min(1)
+  to: number;
+
+  @ApiPropertyOptional({
+    description: 'Compare lines, or clauses separated by blank lines',
+    enum: REVISION_DIFF_GRANULARITIES,
+    default: 'line',
+  })
+  @IsOptional()
+  @IsIn(REVISION_DIFF_GRANULARITIES)
+  granularity?: RevisionDiffGranularity = 'line';
+}
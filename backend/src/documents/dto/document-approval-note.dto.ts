@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class DocumentApprovalNoteDto {
+  @ApiPropertyOptional({ description: 'Note stored in the approval history' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
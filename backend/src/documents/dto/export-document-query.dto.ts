@@ -0,0 +1,10 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DOCUMENT_EXPORT_FORMATS, DocumentExportFormat } from '../export/document-export.util';
+
+export class ExportDocumentQueryDto {
+  @ApiPropertyOptional({ enum: DOCUMENT_EXPORT_FORMATS, default: 'pdf' })
+  @IsOptional()
+  @IsIn(DOCUMENT_EXPORT_FORMATS)
+  format?: DocumentExportFormat = 'pdf';
+}
@@ -0,0 +1,32 @@
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GenerateDocumentDto {
+  @ApiProperty({ description: 'Document type, e.g. contract, invoice or proposal' })
+  @IsString()
+  @IsNotEmpty()
+  type: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Template used when the document is not drafted by AI; defaults to the first template of the type',
+  })
+  @IsOptional()
+  @IsString()
+  templateId?: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Contract options (contractType, parties, keyTerms, jurisdiction, customInstructions) and template values',
+  })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, any>;
+}
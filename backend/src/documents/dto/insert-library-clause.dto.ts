@@ -0,0 +1,30 @@
+import { IsIn, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class InsertLibraryClauseDto {
+  @ApiProperty({ description: 'Library clause to insert' })
+  @IsUUID()
+  libraryClauseId: string;
+
+  @ApiPropertyOptional({
+    description: 'Clause of the document to insert next to; the clause is appended when omitted',
+  })
+  @IsOptional()
+  @IsUUID()
+  clauseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Insert before the clause, or after it and its sub-clauses',
+    enum: ['before', 'after'],
+    default: 'after',
+  })
+  @IsOptional()
+  @IsIn(['before', 'after'])
+  placement?: 'before' | 'after' = 'after';
+
+  @ApiPropertyOptional({ description: 'Number to give the inserted clause', example: '4.2' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  number?: string;
+}
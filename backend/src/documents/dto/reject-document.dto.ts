@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RejectDocumentDto {
+  @ApiProperty({ description: 'Reason for the rejection, shown to the author' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  note: string;
+}
@@ -0,0 +1,10 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RestoreRevisionDto {
+  @ApiProperty({ required: false, description: 'Note stored with the new revision' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  changeNote?: string;
+}
@@ -0,0 +1,27 @@
+import { IsBoolean, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LawGeexReviewOptions } from '../../integrations/ai/lawgeex.service';
+
+export class ReviewDocumentDto implements LawGeexReviewOptions {
+  @ApiPropertyOptional({ description: 'Kind of document for LawGeex', example: 'contract' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  document_type?: string;
+
+  @ApiPropertyOptional({ enum: ['high', 'medium', 'low'], example: 'medium' })
+  @IsOptional()
+  @IsIn(['high', 'medium', 'low'])
+  priority?: 'high' | 'medium' | 'low';
+
+  @ApiPropertyOptional({ description: 'Include suggested rewordings', example: true })
+  @IsOptional()
+  @IsBoolean()
+  include_suggestions?: boolean;
+
+  @ApiPropertyOptional({ description: 'Language of the content', example: 'en' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  language?: string;
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SearchLibraryClausesQueryDto {
+  @ApiPropertyOptional({ description: 'Text to find in the title, body or risk notes' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @ApiPropertyOptional({ description: 'Comma-separated tags, all of which must match' })
+  @IsOptional()
+  @IsString()
+  tags?: string;
+
+  @ApiPropertyOptional({ example: 'Delaware' })
+  @IsOptional()
+  @IsString()
+  jurisdiction?: string;
+}
@@ -0,0 +1,28 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SubmitDocumentDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Users who must all approve the document. The author cannot be a reviewer.',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsUUID('all', { each: true })
+  reviewerIds: string[];
+
+  @ApiPropertyOptional({ description: 'Note for the reviewers, stored in the approval history' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
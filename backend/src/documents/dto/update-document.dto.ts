@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsArray } from 'class-validator';
+import { IsString, IsOptional, IsArray, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class UpdateDocumentDto {
@@ -12,11 +12,6 @@ export class UpdateDocumentDto {
   @IsString()
   content?: string;
 
-  @ApiProperty({ required: false })
-  @IsOptional()
-  @IsString()
-  status?: string;
-
   @ApiProperty({ required: false })
   @IsOptional()
   metadata?: any;
@@ -25,4 +20,13 @@ export class UpdateDocumentDto {
   @IsOptional()
   @IsArray()
   tags?: string[];
+
+  @ApiProperty({
+    required: false,
+    description: 'Note stored with the revision created when the content changes',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  changeNote?: string;
 }
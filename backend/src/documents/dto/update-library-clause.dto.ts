@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateLibraryClauseDto } from './create-library-clause.dto';
+
+export class UpdateLibraryClauseDto extends PartialType(CreateLibraryClauseDto) {}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Document, DocumentStatus } from './document.entity';
+
+export type DocumentApprovalAction = 'submit' | 'withdraw' | 'approve' | 'reject';
+
+/**
+ * Audit trail entry for a step of the approval of a document. Approvals that
+ * wait for other reviewers keep the document pending.
+ */
+@Entity('document_approval_events')
+@Index(['documentId', 'createdAt'])
+export class DocumentApprovalEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: string;
+
+  @Column({ type: 'varchar' })
+  action: DocumentApprovalAction;
+
+  @Column({ type: 'varchar' })
+  fromStatus: DocumentStatus;
+
+  @Column({ type: 'varchar' })
+  toStatus: DocumentStatus;
+
+  // Revision of the content the action applies to
+  @Column()
+  revision: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ nullable: true })
+  userId: string;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  // Reviewers requested by a submission
+  @Column({ type: 'json', nullable: true })
+  reviewerIds: string[] | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Document } from './document.entity';
+
+/**
+ * Clause of the current content of a document. Clauses are parsed again
+ * whenever the content changes and keep their id across edits, so that
+ * comments and review issues can refer to them.
+ */
+@Entity('document_clauses')
+@Index(['documentId', 'position'])
+export class DocumentClause {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: string;
+
+  @Column({ nullable: true })
+  parentId: string;
+
+  // Order of the clause in the document
+  @Column()
+  position: number;
+
+  // Depth in the clause tree, 0 for top-level clauses
+  @Column()
+  level: number;
+
+  @Column({ nullable: true })
+  number: string; // 1, 2.1, (a), (iv)
+
+  @Column({ nullable: true })
+  heading: string;
+
+  // Own text, without the number, heading and sub-clauses
+  @Column('text')
+  text: string;
+
+  // Character offsets in the content, covering the sub-clauses too
+  @Column()
+  startOffset: number;
+
+  @Column()
+  endOffset: number;
+
+  // Document revision in which the heading or text last changed
+  @Column()
+  revision: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+export type DocumentReviewDecision = 'approved' | 'rejected';
+
+/**
+ * Reviewer required to approve a document submitted for approval. The
+ * reviewers are replaced each time the document is submitted.
+ */
+@Entity('document_reviewers')
+@Index(['documentId', 'userId'], { unique: true })
+@Index(['userId'])
+export class DocumentReviewer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  userId: string;
+
+  // Null until the reviewer decides
+  @Column({ type: 'varchar', nullable: true })
+  decision: DocumentReviewDecision | null;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  decidedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Document } from './document.entity';
+
+/**
+ * Immutable snapshot of the content of a document. A new revision is stored
+ * whenever the content changes.
+ */
+@Entity('document_revisions')
+@Index(['documentId', 'revision'], { unique: true })
+export class DocumentRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: string;
+
+  @Column()
+  revision: number;
+
+  @Column('text')
+  content: string;
+
+  @Column({ type: 'text', nullable: true })
+  changeNote: string;
+
+  // Set when the revision restores the content of an earlier one
+  @Column({ nullable: true })
+  restoredFromRevision: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'authorId' })
+  author: User;
+
+  @Column({ nullable: true })
+  authorId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -9,6 +9,24 @@ import {
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
 
+// Lifecycle of a document, changed only through DocumentApprovalsService:
+// draft -> pending -> approved or rejected, and rejected -> pending again
+export const DOCUMENT_STATUSES = ['draft', 'pending', 'approved', 'rejected'] as const;
+export type DocumentStatus = (typeof DOCUMENT_STATUSES)[number];
+
+// Statuses in which the content and file of a document can be changed
+export const EDITABLE_DOCUMENT_STATUSES: DocumentStatus[] = ['draft', 'rejected'];
+
+// Outcome of extracting the text of the uploaded file into content
+export interface DocumentTextExtraction {
+  status: 'completed' | 'failed' | 'skipped';
+  fileName: string;
+  extractedAt: Date;
+  characters?: number;
+  error?: string;
+  warnings?: string[];
+}
+
 @Entity('documents')
 export class Document {
   @PrimaryGeneratedColumn('uuid')
@@ -27,27 +45,38 @@ export class Document {
   @Column()
   type: string; // contract, invoice, proposal, etc.
 
-  @Column()
-  status: string; // draft, pending, approved, rejected
+  @Column({ type: 'varchar', default: 'draft' })
+  status: DocumentStatus;
 
   @Column('text')
   content: string;
 
+  // Number of the latest stored DocumentRevision
+  @Column({ default: 1 })
+  revision: number;
+
   @Column({ nullable: true })
   templateId: string;
 
   @Column({ type: 'json', nullable: true })
   metadata: any;
 
+  // Storage key of the uploaded file, see DocumentFilesService
   @Column({ nullable: true })
   fileUrl: string;
 
+  @Column({ nullable: true })
+  fileName: string;
+
   @Column({ nullable: true })
   fileSize: number;
 
   @Column({ nullable: true })
   mimeType: string;
 
+  @Column({ type: 'json', nullable: true })
+  textExtraction: DocumentTextExtraction;
+
   @Column({ default: false })
   isTemplate: boolean;
 
@@ -57,6 +86,11 @@ export class Document {
   @Column({ type: 'json', nullable: true })
   tags: string[];
 
+  // Full-text index of the name, tags and content, kept up to date by a
+  // database trigger, see DocumentSearchService
+  @Column({ type: 'tsvector', nullable: true, select: false, insert: false, update: false })
+  searchVector: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Document } from './document.entity';
+import { LibraryClause } from './library-clause.entity';
+
+/**
+ * Records the insertion of a library clause into a document, with the
+ * version of the library clause that was inserted
+ */
+@Entity('library_clause_usages')
+@Index(['libraryClauseId'])
+@Index(['documentId'])
+export class LibraryClauseUsage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => LibraryClause, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'libraryClauseId' })
+  libraryClause: LibraryClause;
+
+  @Column()
+  libraryClauseId: string;
+
+  @Column()
+  libraryClauseVersion: number;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'documentId' })
+  document: Document;
+
+  @Column()
+  documentId: string;
+
+  // Document revision created by the insertion
+  @Column()
+  documentRevision: number;
+
+  // DocumentClause created for the inserted text
+  @Column({ nullable: true })
+  clauseId: string;
+
+  @Column()
+  userId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Reusable clause of a user that can be inserted into their documents
+ */
+@Entity('library_clauses')
+@Index(['userId'])
+export class LibraryClause {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  title: string;
+
+  @Column('text')
+  body: string;
+
+  @Column({ nullable: true })
+  jurisdiction: string;
+
+  @Column({ type: 'json', default: () => "'[]'" })
+  tags: string[];
+
+  @Column({ type: 'text', nullable: true })
+  riskNotes: string;
+
+  // Incremented whenever the title or body changes
+  @Column({ default: 1 })
+  version: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
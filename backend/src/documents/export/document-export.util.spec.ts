@@ -0,0 +1,76 @@
+import { renderDocumentLayout } from './document-export.util';
+import { buildDocumentLayout } from './document-layout.util';
+import { PdfEncodingError } from './pdf-renderer.util';
+import { extractPdfText } from '../extraction/pdf-text.util';
+import { extractDocxText } from '../extraction/docx-text.util';
+
+describe('document export', () => {
+  const content = [
+    '# 1. Services',
+    '1.1 The Provider shall deliver the services described in **Schedule A**:',
+    '(a) weekly reports; and',
+    '(b) monthly reviews.',
+    '2. PAYMENT TERMS\nFees are due within 30 days.',
+  ].join('\n\n');
+
+  const layout = buildDocumentLayout(content, {
+    title: 'Consulting Agreement',
+    organization: 'Acme Corp',
+    signatures: [{ name: 'Jane Doe', organization: 'Acme Corp' }, {}],
+    anchors: true,
+  });
+
+  it('should lay out headings and indent sub-clauses under their clause', () => {
+    expect(
+      layout.blocks.map((block) =>
+        block.kind === 'heading'
+          ? block.text
+          : [block.number, block.indent, block.runs.map(({ text }) => text).join('')],
+      ),
+    ).toEqual([
+      '1. Services',
+      ['1.1', 0, 'The Provider shall deliver the services described in Schedule A:'],
+      ['(a)', 1, 'weekly reports; and'],
+      ['(b)', 1, 'monthly reviews.'],
+      '2. PAYMENT TERMS',
+      [null, 0, 'Fees are due within 30 days.'],
+    ]);
+  });
+
+  it('should render a PDF with branding, clauses and anchored signature blocks', () => {
+    const file = renderDocumentLayout(layout, 'pdf');
+    const text = extractPdfText(file.content);
+
+    expect(file).toEqual(
+      expect.objectContaining({
+        fileName: 'Consulting Agreement.pdf',
+        mimeType: 'application/pdf',
+      }),
+    );
+    expect(text).toContain('Acme Corp');
+    expect(text).toContain('# Consulting Agreement');
+    expect(text).toContain('(a) weekly reports; and');
+    expect(text).toContain('For Acme Corp');
+    expect(text).toContain('[[sign-2]]');
+  });
+
+  it('should render a Word document that reads back as the same clauses', () => {
+    const text = extractDocxText(renderDocumentLayout(layout, 'docx').content);
+
+    expect(text).toContain('# 1. Services');
+    expect(text).toContain('1.1 The Provider shall deliver the services described in Schedule A:');
+    expect(text).toContain('Name: Jane Doe');
+  });
+
+  it('should refuse to render characters the PDF fonts cannot show', () => {
+    const arabic = buildDocumentLayout('1. \u0627\u0644\u062e\u062f\u0645\u0627\u062a', {
+      title: 'Agreement\u200f',
+      signatures: [],
+    });
+
+    expect(() => renderDocumentLayout(arabic, 'pdf')).toThrow(PdfEncodingError);
+    expect(extractDocxText(renderDocumentLayout(arabic, 'docx').content)).toContain(
+      '\u0627\u0644\u062e\u062f\u0645\u0627\u062a',
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { DocumentLayout } from './document-layout.util';
+import { renderDocx } from './docx-renderer.util';
+import { renderHtml, renderMarkdown } from './markup-renderer.util';
+import { renderPdf } from './pdf-renderer.util';
+
+export const DOCUMENT_EXPORT_FORMATS = ['pdf', 'docx', 'md', 'html'] as const;
+export type DocumentExportFormat = (typeof DOCUMENT_EXPORT_FORMATS)[number];
+
+export interface ExportedDocument {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+const MIME_TYPES: Record<DocumentExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export function renderDocumentLayout(
+  layout: DocumentLayout,
+  format: DocumentExportFormat,
+): ExportedDocument {
+  const content =
+    format === 'pdf'
+      ? renderPdf(layout)
+      : format === 'docx'
+        ? renderDocx(layout)
+        : Buffer.from(format === 'md' ? renderMarkdown(layout) : renderHtml(layout), 'utf8');
+
+  // Keep letters of any script, but nothing that could break the header
+  const baseName =
+    layout.title
+      .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 100) || 'document';
+
+  return { fileName: `${baseName}.${format}`, mimeType: MIME_TYPES[format], content };
+}
@@ -0,0 +1,157 @@
+/**
+ * Lays out document content for export. The content is split into clauses
+ * (see segmentClauses), so that every format shows the same headings,
+ * clause numbering and indentation, followed by signature blocks.
+ */
+import { ParsedClause, segmentClauses } from '../clauses/clause-segmentation.util';
+
+export interface TextRun {
+  // May contain line breaks
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface LayoutHeading {
+  kind: 'heading';
+  // 1 for top-level clauses, down to 3
+  level: number;
+  text: string;
+}
+
+export interface LayoutParagraph {
+  kind: 'paragraph';
+  // Nesting depth of the clause below the nearest heading
+  indent: number;
+  // Clause number, only on the first paragraph of the clause
+  number: string | null;
+  runs: TextRun[];
+}
+
+export type LayoutBlock = LayoutHeading | LayoutParagraph;
+
+export interface SignatureParty {
+  name?: string;
+  organization?: string;
+}
+
+export interface DocumentLayout {
+  title: string;
+  // Company of the author, shown as branding on every page
+  organization: string | null;
+  blocks: LayoutBlock[];
+  signatures: SignatureParty[];
+  // Whether signature blocks carry the anchors used to place signing tabs
+  anchors: boolean;
+}
+
+export interface DocumentLayoutOptions {
+  title: string;
+  organization?: string | null;
+  signatures?: SignatureParty[];
+  anchors?: boolean;
+}
+
+/**
+ * Text placed on the signature line of the party at the given index, for
+ * e-signature services to position signing tabs. It is rendered invisibly
+ * where the format allows.
+ */
+export function signatureAnchor(index: number): string {
+  return `[[sign-${index + 1}]]`;
+}
+
+export function dateAnchor(index: number): string {
+  return `[[date-${index + 1}]]`;
+}
+
+/**
+ * Caption of a signature block, such as "For Acme Corp"
+ */
+export function signatureCaption(party: SignatureParty, index: number): string {
+  if (party.organization) {
+    return `For ${party.organization}`;
+  }
+  return party.name || `Party ${index + 1}`;
+}
+
+export function buildDocumentLayout(
+  content: string,
+  options: DocumentLayoutOptions,
+): DocumentLayout {
+  const clauses = segmentClauses(content);
+  const blocks: LayoutBlock[] = [];
+
+  clauses.forEach((clause, index) => {
+    const indent = paragraphIndent(clauses, index);
+    if (clause.heading) {
+      blocks.push({
+        kind: 'heading',
+        level: Math.min(clause.level + 1, 3),
+        text: clause.number ? `${formatNumber(clause.number)} ${clause.heading}` : clause.heading,
+      });
+    }
+
+    const paragraphs = clause.text.split(/\n{2,}/).filter((text) => text.trim());
+    paragraphs.forEach((text, position) => {
+      blocks.push({
+        kind: 'paragraph',
+        indent,
+        number:
+          position === 0 && clause.number && !clause.heading ? formatNumber(clause.number) : null,
+        runs: parseRuns(text),
+      });
+    });
+  });
+
+  return {
+    title: options.title,
+    organization: options.organization?.trim() || null,
+    blocks,
+    signatures: options.signatures ?? [],
+    anchors: options.anchors ?? false,
+  };
+}
+
+/**
+ * Paragraphs are indented by the clauses they are nested in, not counting
+ * headings
+ */
+function paragraphIndent(clauses: ParsedClause[], index: number): number {
+  let indent = 0;
+  for (let parent = clauses[index].parent; parent !== null; parent = clauses[parent].parent) {
+    if (!clauses[parent].heading) {
+      indent++;
+    }
+  }
+  return indent;
+}
+
+function formatNumber(number: string): string {
+  return /^\d+$/.test(number) ? `${number}.` : number;
+}
+
+/**
+ * Splits text into runs at **bold** and *italic* markers and turns Markdown
+ * list markers into bullets
+ */
+function parseRuns(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const source = text.replace(/^[-*+]\s+/gm, '• ');
+  const pattern = /\*\*(.+?)\*\*|\*(\S(?:.*?\S)?)\*/g;
+  let offset = 0;
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    if (match.index > offset) {
+      runs.push({ text: source.slice(offset, match.index) });
+    }
+    runs.push(
+      match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], italic: true },
+    );
+    offset = match.index + match[0].length;
+  }
+  if (offset < source.length) {
+    runs.push({ text: source.slice(offset) });
+  }
+  return runs;
+}
@@ -0,0 +1,185 @@
+/**
+ * Renders document layouts as Word (DOCX) files. Headings use the built-in
+ * heading styles, numbered clauses get a hanging indent, and the company of
+ * the author appears in the page header.
+ */
+import { createZip } from '../extraction/zip.util';
+import {
+  DocumentLayout,
+  TextRun,
+  dateAnchor,
+  signatureAnchor,
+  signatureCaption,
+} from './document-layout.util';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Indentation step in twentieths of a point
+const INDENT = 720;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">
+<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}">
+<Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="${RELATIONSHIP_NAMESPACE}/header" Target="header1.xml"/>
+<Relationship Id="rId3" Type="${RELATIONSHIP_NAMESPACE}/footer" Target="footer1.xml"/>
+</Relationships>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NAMESPACE}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Arial"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="140" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="360"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/><w:szCs w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/><w:szCs w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="100"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:style>
+</w:styles>`;
+
+const FOOTER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="${WORD_NAMESPACE}">
+<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:t xml:space="preserve">Page </w:t></w:r><w:fldSimple w:instr="PAGE"><w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple><w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:t xml:space="preserve"> of </w:t></w:r><w:fldSimple w:instr="NUMPAGES"><w:r><w:rPr><w:sz w:val="16"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple></w:p>
+</w:ftr>`;
+
+export function renderDocx(layout: DocumentLayout): Buffer {
+  const body: string[] = [paragraph(layout.title, { style: 'Title' })];
+
+  for (const block of layout.blocks) {
+    if (block.kind === 'heading') {
+      body.push(paragraph(block.text, { style: `Heading${block.level}` }));
+      continue;
+    }
+    const text = block.runs.map(({ text }) => text).join('');
+    const properties = [
+      block.number
+        ? `<w:ind w:left="${(block.indent + 1) * INDENT}" w:hanging="${INDENT}"/>`
+        : block.indent
+          ? `<w:ind w:left="${block.indent * INDENT}"/>`
+          : '',
+      isRightToLeft(text) ? '<w:bidi/>' : '',
+    ].join('');
+    const number = block.number ? run({ text: block.number }) + '<w:r><w:tab/></w:r>' : '';
+    body.push(`<w:p><w:pPr>${properties}</w:pPr>${number}${block.runs.map(run).join('')}</w:p>`);
+  }
+
+  layout.signatures.forEach((party, index) => {
+    const anchor = (text: string) => (layout.anchors ? hiddenRun(text) : '');
+    body.push(
+      `<w:p><w:pPr><w:keepNext/><w:spacing w:before="480"/></w:pPr>${run({
+        text: signatureCaption(party, index),
+        bold: true,
+      })}</w:p>`,
+      `<w:p><w:pPr><w:keepNext/><w:spacing w:before="360"/></w:pPr>${run({
+        text: 'Signature: ______________________________',
+      })}${anchor(signatureAnchor(index))}</w:p>`,
+      `<w:p><w:pPr><w:keepNext/></w:pPr>${run({
+        text: `Name: ${party.name || '______________________________'}`,
+      })}</w:p>`,
+      `<w:p>${run({ text: 'Date: ______________________________' })}${anchor(
+        dateAnchor(index),
+      )}</w:p>`,
+    );
+  });
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:headerReference w:type="default" r:id="rId2"/><w:footerReference w:type="default" r:id="rId3"/><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+
+  const header = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="${WORD_NAMESPACE}">
+<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="1F3A5F"/></w:pBdr></w:pPr>${
+    layout.organization
+      ? `<w:r><w:rPr><w:b/><w:color w:val="1F3A5F"/></w:rPr>${textElement(layout.organization)}</w:r>`
+      : ''
+  }</w:p>
+</w:hdr>`;
+
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(layout.title)}</dc:title>
+${layout.organization ? `<dc:creator>${escapeXml(layout.organization)}</dc:creator>` : ''}
+</cp:coreProperties>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: Buffer.from(PACKAGE_RELATIONSHIPS) },
+    { name: 'docProps/core.xml', data: Buffer.from(core) },
+    { name: 'word/document.xml', data: Buffer.from(document) },
+    { name: 'word/_rels/document.xml.rels', data: Buffer.from(DOCUMENT_RELATIONSHIPS) },
+    { name: 'word/styles.xml', data: Buffer.from(STYLES) },
+    { name: 'word/header1.xml', data: Buffer.from(header) },
+    { name: 'word/footer1.xml', data: Buffer.from(FOOTER) },
+  ]);
+}
+
+function paragraph(text: string, options: { style: string }): string {
+  const bidi = isRightToLeft(text) ? '<w:bidi/>' : '';
+  return `<w:p><w:pPr><w:pStyle w:val="${options.style}"/>${bidi}</w:pPr>${run({ text })}</w:p>`;
+}
+
+function run(textRun: TextRun): string {
+  const properties = [
+    textRun.bold ? '<w:b/><w:bCs/>' : '',
+    textRun.italic ? '<w:i/><w:iCs/>' : '',
+    isRightToLeft(textRun.text) ? '<w:rtl/>' : '',
+  ].join('');
+  const lines = textRun.text.split('\n').map(textElement);
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${lines.join('<w:br/>')}</w:r>`;
+}
+
+// White one-point text, for the anchors of e-signature services
+function hiddenRun(text: string): string {
+  return `<w:r><w:rPr><w:color w:val="FFFFFF"/><w:sz w:val="2"/></w:rPr>${textElement(
+    ` ${text}`,
+  )}</w:r>`;
+}
+
+function textElement(text: string): string {
+  return `<w:t xml:space="preserve">${escapeXml(text)}</w:t>`;
+}
+
+/**
+ * Whether the first letter of the text is from a right-to-left script such
+ * as Arabic or Hebrew
+ */
+function isRightToLeft(text: string): boolean {
+  const letter = /[A-Za-z\u00c0-\u024f\u0370-\u04ff\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/.exec(
+    text,
+  );
+  return !!letter && /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/.test(letter[0]);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(
+      /[&<>"]/g,
+      (character) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[character],
+    );
+}
@@ -0,0 +1,133 @@
+/**
+ * Renders document layouts as Markdown and as standalone HTML pages
+ */
+import {
+  DocumentLayout,
+  TextRun,
+  dateAnchor,
+  signatureAnchor,
+  signatureCaption,
+} from './document-layout.util';
+
+const HTML_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 11pt; line-height: 1.45; color: #1a1a1a; max-width: 46em; margin: 2em auto; padding: 0 1.5em; }
+  header { border-bottom: 2px solid #1f3a5f; color: #1f3a5f; font-weight: bold; padding-bottom: 0.4em; margin-bottom: 1.5em; }
+  h1 { font-size: 20pt; margin: 0 0 1em; }
+  h2 { font-size: 14pt; margin: 1.4em 0 0.5em; }
+  h3 { font-size: 12pt; margin: 1.2em 0 0.4em; }
+  h4 { font-size: 11pt; margin: 1em 0 0.4em; }
+  p { margin: 0 0 0.7em; }
+  p.numbered { padding-inline-start: 2.5em; text-indent: -2.5em; }
+  .number { display: inline-block; min-width: 2.5em; text-indent: 0; }
+  .signatures { display: flex; flex-wrap: wrap; gap: 2em 3em; margin-top: 3em; page-break-inside: avoid; }
+  .signature { flex: 1 1 16em; }
+  .signature .caption { font-weight: bold; }
+  .signature .line { display: inline-block; min-width: 14em; border-bottom: 1px solid #1a1a1a; }
+  .anchor { color: #ffffff; font-size: 1pt; }
+`;
+
+export function renderMarkdown(layout: DocumentLayout): string {
+  const lines: string[] = [`# ${layout.title}`];
+  if (layout.organization) {
+    lines.push(`_${layout.organization}_`);
+  }
+
+  for (const block of layout.blocks) {
+    if (block.kind === 'heading') {
+      lines.push(`${'#'.repeat(block.level + 1)} ${block.text}`);
+    } else {
+      const text = block.runs.map(markdownRun).join('');
+      lines.push(block.number ? `${block.number} ${text}` : text);
+    }
+  }
+
+  layout.signatures.forEach((party, index) => {
+    const anchor = (text: string) => (layout.anchors ? ` ${text}` : '');
+    lines.push(
+      [
+        `**${signatureCaption(party, index)}**`,
+        `Signature: ____________________${anchor(signatureAnchor(index))}`,
+        `Name: ${party.name || '____________________'}`,
+        `Date: ____________________${anchor(dateAnchor(index))}`,
+      ].join('  \n'),
+    );
+  });
+
+  return `${lines.join('\n\n')}\n`;
+}
+
+export function renderHtml(layout: DocumentLayout): string {
+  const body: string[] = [];
+  if (layout.organization) {
+    body.push(`<header>${escapeHtml(layout.organization)}</header>`);
+  }
+  body.push(`<h1 dir="auto">${escapeHtml(layout.title)}</h1>`);
+
+  for (const block of layout.blocks) {
+    if (block.kind === 'heading') {
+      const tag = `h${block.level + 1}`;
+      body.push(`<${tag} dir="auto">${escapeHtml(block.text)}</${tag}>`);
+      continue;
+    }
+    const attributes = [
+      'dir="auto"',
+      block.number ? 'class="numbered"' : null,
+      block.indent ? `style="margin-inline-start: ${block.indent * 2}em"` : null,
+    ].filter(Boolean);
+    const number = block.number ? `<span class="number">${escapeHtml(block.number)}</span>` : '';
+    body.push(`<p ${attributes.join(' ')}>${number}${block.runs.map(htmlRun).join('')}</p>`);
+  }
+
+  if (layout.signatures.length > 0) {
+    const anchor = (text: string) => (layout.anchors ? `<span class="anchor">${text}</span>` : '');
+    const blocks = layout.signatures.map((party, index) =>
+      [
+        '<div class="signature">',
+        `<p class="caption" dir="auto">${escapeHtml(signatureCaption(party, index))}</p>`,
+        `<p>Signature: <span class="line">${anchor(signatureAnchor(index))}</span></p>`,
+        `<p dir="auto">Name: ${party.name ? escapeHtml(party.name) : '<span class="line"></span>'}</p>`,
+        `<p>Date: <span class="line">${anchor(dateAnchor(index))}</span></p>`,
+        '</div>',
+      ].join('\n'),
+    );
+    body.push(`<section class="signatures">\n${blocks.join('\n')}\n</section>`);
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(layout.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function markdownRun(run: TextRun): string {
+  if (run.bold) {
+    return `**${run.text}**`;
+  }
+  return run.italic ? `*${run.text}*` : run.text;
+}
+
+function htmlRun(run: TextRun): string {
+  const text = escapeHtml(run.text).replace(/\n/g, '<br>\n');
+  if (run.bold) {
+    return `<strong>${text}</strong>`;
+  }
+  return run.italic ? `<em>${text}</em>` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    (character) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character],
+  );
+}
@@ -0,0 +1,573 @@
+/**
+ * Renders document layouts as PDF files. Text is set in the standard
+ * Helvetica fonts, which every PDF reader provides, so only characters of
+ * the Windows Latin 1 character set can be shown. Layouts with other
+ * characters are rejected with a PdfEncodingError rather than rendered
+ * garbled. Pages are US Letter with the company of the author in the
+ * header and page numbers in the footer.
+ */
+import { deflateSync } from 'zlib';
+import {
+  DocumentLayout,
+  TextRun,
+  dateAnchor,
+  signatureAnchor,
+  signatureCaption,
+} from './document-layout.util';
+
+type FontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export class PdfEncodingError extends Error {
+  constructor(readonly characters: string[]) {
+    super(`Text contains characters that PDF export cannot show: ${characters.join(' ')}`);
+  }
+}
+
+interface Segment {
+  // Text encoded in WinAnsiEncoding, one character per byte
+  text: string;
+  style: FontStyle;
+  width: number;
+}
+
+interface TextStyle {
+  size: number;
+  leading: number;
+  style: FontStyle;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const INDENT = 18;
+// Space for clause numbers in front of the text of a clause
+const NUMBER_WIDTH = 36;
+const BRAND_COLOR = '0.122 0.227 0.373';
+
+const FONTS: Record<FontStyle, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' },
+  boldItalic: { resource: 'F4', baseFont: 'Helvetica-BoldOblique' },
+};
+
+const BODY: TextStyle = { size: 10.5, leading: 15, style: 'regular' };
+const TITLE: TextStyle = { size: 20, leading: 26, style: 'bold' };
+const HEADINGS: TextStyle[] = [
+  { size: 14, leading: 19, style: 'bold' },
+  { size: 12, leading: 17, style: 'bold' },
+  { size: 11, leading: 15, style: 'bold' },
+];
+
+// Advance widths of the printable ASCII characters in thousandths of the
+// font size, from the Adobe font metrics; the oblique fonts share them
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters that WinAnsiEncoding places in 0x80-0x9f, with their widths
+const WIN_ANSI_EXTRA: Record<string, [number, number]> = {
+  '\u20ac': [0x80, 556],
+  '\u201a': [0x82, 222],
+  '\u0192': [0x83, 556],
+  '\u201e': [0x84, 333],
+  '\u2026': [0x85, 1000],
+  '\u2020': [0x86, 556],
+  '\u2021': [0x87, 556],
+  '\u02c6': [0x88, 333],
+  '\u2030': [0x89, 1000],
+  '\u0160': [0x8a, 667],
+  '\u2039': [0x8b, 333],
+  '\u0152': [0x8c, 1000],
+  '\u017d': [0x8e, 611],
+  '\u2018': [0x91, 222],
+  '\u2019': [0x92, 222],
+  '\u201c': [0x93, 333],
+  '\u201d': [0x94, 333],
+  '\u2022': [0x95, 350],
+  '\u2013': [0x96, 556],
+  '\u2014': [0x97, 1000],
+  '\u02dc': [0x98, 333],
+  '\u2122': [0x99, 1000],
+  '\u0161': [0x9a, 500],
+  '\u203a': [0x9b, 333],
+  '\u0153': [0x9c, 944],
+  '\u017e': [0x9e, 500],
+  '\u0178': [0x9f, 667],
+};
+
+export function renderPdf(layout: DocumentLayout): Buffer {
+  const unencodable = findUnencodable(layout);
+  if (unencodable.length > 0) {
+    throw new PdfEncodingError(unencodable);
+  }
+
+  const writer = new PdfPageWriter();
+
+  writer.paragraph([{ text: layout.title }], TITLE, { spaceAfter: 12 });
+  for (const block of layout.blocks) {
+    if (block.kind === 'heading') {
+      const style = HEADINGS[block.level - 1];
+      writer.paragraph([{ text: block.text }], style, {
+        spaceBefore: 8,
+        spaceAfter: 4,
+        keepWithNext: 3 * BODY.leading,
+      });
+    } else {
+      writer.paragraph(block.runs, BODY, {
+        indent: block.indent * INDENT,
+        number: block.number,
+        spaceAfter: 7,
+      });
+    }
+  }
+  writer.signatures(layout);
+
+  return writer.finish(layout);
+}
+
+class PdfPageWriter {
+  private pages: string[][] = [];
+  private y = 0;
+
+  paragraph(
+    runs: TextRun[],
+    style: TextStyle,
+    options: {
+      indent?: number;
+      number?: string | null;
+      spaceBefore?: number;
+      spaceAfter?: number;
+      keepWithNext?: number;
+    } = {},
+  ): void {
+    const left = MARGIN + (options.indent ?? 0);
+    const textLeft = options.number ? left + this.numberWidth(options.number, style) : left;
+    const lines = wrap(runs, style, MARGIN + CONTENT_WIDTH - textLeft);
+
+    if (this.pages.length > 0 && this.y < PAGE_HEIGHT - MARGIN) {
+      this.y -= options.spaceBefore ?? 0;
+    }
+    this.ensureSpace(Math.min(lines.length, 2) * style.leading + (options.keepWithNext ?? 0));
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(style.leading);
+      const baseline = this.y - style.size;
+      if (index === 0 && options.number) {
+        this.text(left, baseline, [measure(options.number, style.style, style.size)], style.size);
+      }
+      this.text(textLeft, baseline, line, style.size);
+      this.y -= style.leading;
+    });
+    this.y -= options.spaceAfter ?? 0;
+  }
+
+  /**
+   * Draws the signature blocks in two columns, keeping each row of blocks
+   * on one page
+   */
+  signatures(layout: DocumentLayout): void {
+    const columnWidth = (CONTENT_WIDTH - 36) / 2;
+    const rowHeight = 120;
+    this.y -= 24;
+
+    layout.signatures.forEach((party, index) => {
+      const column = index % 2;
+      if (column === 0) {
+        if (index > 0) {
+          this.y -= rowHeight;
+        }
+        this.ensureSpace(rowHeight);
+      }
+      const x = MARGIN + column * (columnWidth + 36);
+      const top = this.y;
+      const caption = wrap(
+        [{ text: signatureCaption(party, index), bold: true }],
+        BODY,
+        columnWidth,
+      )[0];
+      this.text(x, top - BODY.size, caption, BODY.size);
+
+      const lines: Array<[string, string | null, number]> = [
+        ['Signature', layout.anchors ? signatureAnchor(index) : null, 42],
+        ['Name', null, 70],
+        ['Date', layout.anchors ? dateAnchor(index) : null, 98],
+      ];
+      for (const [label, anchor, offset] of lines) {
+        const baseline = round(top - offset);
+        const labelSegment = measure(`${label}:`, 'regular', 9);
+        this.text(x, baseline, [labelSegment], 9);
+        const lineStart = x + labelSegment.width + 6;
+        if (label === 'Name' && party.name) {
+          this.text(lineStart, baseline, [measure(party.name, 'regular', 9)], 9);
+        } else {
+          this.page().push(
+            `0.5 w ${round(lineStart)} ${baseline - 2} m ${round(x + columnWidth)} ${baseline - 2} l S`,
+          );
+        }
+        if (anchor) {
+          // White text for e-signature services to find the signing line
+          this.page().push(
+            `q 1 1 1 rg BT /F1 4 Tf ${round(lineStart)} ${baseline} Td ${pdfString(encode(anchor))} Tj ET Q`,
+          );
+        }
+      }
+    });
+    if (layout.signatures.length > 0) {
+      this.y -= rowHeight;
+    }
+  }
+
+  finish(layout: DocumentLayout): Buffer {
+    if (this.pages.length === 0) {
+      this.newPage();
+    }
+
+    const objects: Buffer[] = [];
+    const add = (content: string | Buffer) => {
+      objects.push(Buffer.isBuffer(content) ? content : Buffer.from(content, 'latin1'));
+      return objects.length;
+    };
+
+    const catalog = add('');
+    const pageTree = add('');
+    const fontResources = Object.values(FONTS)
+      .map(({ resource, baseFont }) => {
+        const font = add(
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`,
+        );
+        return `/${resource} ${font} 0 R`;
+      })
+      .join(' ');
+    const info = add(
+      `<< /Title ${pdfTextString(layout.title)}${
+        layout.organization ? ` /Author ${pdfTextString(layout.organization)}` : ''
+      } /Producer (KitOps) >>`,
+    );
+
+    const pageIds = this.pages.map((operators, index) => {
+      const decoration = this.decoration(layout, index + 1, this.pages.length);
+      const stream = deflateSync(Buffer.from([...decoration, ...operators].join('\n'), 'latin1'));
+      const content = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          stream,
+          Buffer.from('\nendstream', 'latin1'),
+        ]),
+      );
+      return add(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${content} 0 R >>`,
+      );
+    });
+
+    objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pageTree} 0 R >>`, 'latin1');
+    objects[pageTree - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1',
+    );
+
+    const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = parts[0].length;
+    const offsets = objects.map((object, index) => {
+      const start = offset;
+      const part = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        object,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      parts.push(part);
+      offset += part.length;
+      return start;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((start) => `${String(start).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n');
+    parts.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(parts);
+  }
+
+  private decoration(layout: DocumentLayout, page: number, count: number): string[] {
+    const operators: string[] = [];
+    const headerY = PAGE_HEIGHT - 44;
+    if (layout.organization) {
+      const name = measure(layout.organization, 'bold', 9);
+      operators.push(
+        `BT ${BRAND_COLOR} rg /${FONTS.bold.resource} 9 Tf ${MARGIN} ${headerY} Td ${pdfString(
+          name.text,
+        )} Tj ET`,
+      );
+    }
+    operators.push(
+      `${BRAND_COLOR} RG 1 w ${MARGIN} ${headerY - 6} m ${MARGIN + CONTENT_WIDTH} ${headerY - 6} l S`,
+    );
+
+    const footer = measure(`Page ${page} of ${count}`, 'regular', 8);
+    operators.push(
+      `BT 0.4 0.4 0.4 rg /${FONTS.regular.resource} 8 Tf ${
+        (PAGE_WIDTH - footer.width) / 2
+      } 36 Td ${pdfString(footer.text)} Tj ET`,
+      '0 0 0 rg 0 0 0 RG',
+    );
+    return operators;
+  }
+
+  private numberWidth(number: string, style: TextStyle): number {
+    return Math.max(NUMBER_WIDTH, measure(number, style.style, style.size).width + 6);
+  }
+
+  private text(x: number, baseline: number, segments: Segment[], size: number): void {
+    const operators = segments.map(
+      ({ text, style }) => `/${FONTS[style].resource} ${size} Tf ${pdfString(text)} Tj`,
+    );
+    this.page().push(`BT ${round(x)} ${round(baseline)} Td ${operators.join(' ')} ET`);
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.pages.length === 0 || this.y - height < MARGIN) {
+      this.newPage();
+    }
+  }
+
+  private newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private page(): string[] {
+    if (this.pages.length === 0) {
+      this.newPage();
+    }
+    return this.pages[this.pages.length - 1];
+  }
+}
+
+/**
+ * Breaks runs into lines that fit the width. Words longer than a line are
+ * split.
+ */
+function wrap(runs: TextRun[], textStyle: TextStyle, width: number): Segment[][] {
+  const lines: Segment[][] = [[]];
+  let lineWidth = 0;
+  const { size } = textStyle;
+
+  for (const run of runs) {
+    const style = fontStyle(run, textStyle.style);
+    for (const token of run.text.split(/(\n|[ \t]+)/)) {
+      if (!token) {
+        continue;
+      }
+      if (token === '\n') {
+        lines.push([]);
+        lineWidth = 0;
+        continue;
+      }
+      const line = lines[lines.length - 1];
+      if (/^[ \t]+$/.test(token)) {
+        if (line.length > 0) {
+          const space = measure(' ', style, size);
+          line.push(space);
+          lineWidth += space.width;
+        }
+        continue;
+      }
+
+      let word = measure(token, style, size);
+      if (lineWidth + word.width > width && line.length > 0) {
+        trimTrailingSpace(line);
+        lines.push([]);
+        lineWidth = 0;
+      }
+      while (word.width > width && word.text.length > 1) {
+        const fitting = splitToWidth(word, width - lineWidth);
+        lines[lines.length - 1].push(fitting);
+        lines.push([]);
+        lineWidth = 0;
+        word = measure(word.text.slice(fitting.text.length), style, size, true);
+      }
+      lines[lines.length - 1].push(word);
+      lineWidth += word.width;
+    }
+  }
+  lines.forEach(trimTrailingSpace);
+  return lines.map(mergeSegments);
+}
+
+// Words of the same style are drawn as one string, so that text extraction
+// sees the spaces between them
+function mergeSegments(line: Segment[]): Segment[] {
+  const merged: Segment[] = [];
+  for (const segment of line) {
+    const last = merged[merged.length - 1];
+    if (last && last.style === segment.style) {
+      merged[merged.length - 1] = {
+        text: last.text + segment.text,
+        style: last.style,
+        width: last.width + segment.width,
+      };
+    } else {
+      merged.push(segment);
+    }
+  }
+  return merged;
+}
+
+function splitToWidth(segment: Segment, width: number): Segment {
+  let length = 1;
+  let used = charWidth(segment.text.charCodeAt(0), segment.style);
+  const scale = segment.width / widthOf(segment.text, segment.style);
+  while (length < segment.text.length - 1) {
+    const next = used + charWidth(segment.text.charCodeAt(length), segment.style);
+    if (next * scale > width) {
+      break;
+    }
+    used = next;
+    length++;
+  }
+  return { text: segment.text.slice(0, length), style: segment.style, width: used * scale };
+}
+
+function trimTrailingSpace(line: Segment[]): void {
+  while (line.length > 0 && line[line.length - 1].text === ' ') {
+    line.pop();
+  }
+}
+
+function fontStyle(run: TextRun, base: FontStyle): FontStyle {
+  const bold = run.bold || base === 'bold' || base === 'boldItalic';
+  const italic = run.italic || base === 'italic' || base === 'boldItalic';
+  if (bold) {
+    return italic ? 'boldItalic' : 'bold';
+  }
+  return italic ? 'italic' : 'regular';
+}
+
+function measure(text: string, style: FontStyle, size: number, encoded = false): Segment {
+  const bytes = encoded ? text : encode(text);
+  return { text: bytes, style, width: (widthOf(bytes, style) * size) / 1000 };
+}
+
+function widthOf(bytes: string, style: FontStyle): number {
+  let width = 0;
+  for (let index = 0; index < bytes.length; index++) {
+    width += charWidth(bytes.charCodeAt(index), style);
+  }
+  return width;
+}
+
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRA));
+
+function charWidth(code: number, style: FontStyle): number {
+  const bold = style === 'bold' || style === 'boldItalic';
+  if (code >= 32 && code < 127) {
+    return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+  if (EXTRA_WIDTHS.has(code)) {
+    return EXTRA_WIDTHS.get(code);
+  }
+  if (code >= 0xa0) {
+    // Accented letters are as wide as the letter without the accent
+    const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0);
+    if (base >= 32 && base < 127) {
+      return charWidth(base, style);
+    }
+  }
+  return 556;
+}
+
+/**
+ * Returns the distinct characters of the layout that cannot be encoded, at
+ * most ten
+ */
+function findUnencodable(layout: DocumentLayout): string[] {
+  const texts = [
+    layout.title,
+    layout.organization,
+    ...layout.blocks.flatMap((block) =>
+      block.kind === 'heading'
+        ? [block.text]
+        : [block.number, ...block.runs.map(({ text }) => text)],
+    ),
+    ...layout.signatures.flatMap((party) => [party.name, party.organization]),
+  ];
+
+  const characters = new Set<string>();
+  for (const text of texts) {
+    for (const character of (text || '').normalize('NFC')) {
+      if (encodeCharacter(character) === null) {
+        characters.add(character);
+      }
+    }
+  }
+  return [...characters].slice(0, 10);
+}
+
+/**
+ * Encodes text in WinAnsiEncoding, dropping accents that cannot be encoded
+ */
+function encode(text: string): string {
+  let encoded = '';
+  for (const character of text.normalize('NFC')) {
+    const bytes = encodeCharacter(character);
+    if (bytes === null) {
+      throw new PdfEncodingError([character]);
+    }
+    encoded += bytes;
+  }
+  return encoded;
+}
+
+function encodeCharacter(character: string): string | null {
+  const code = character.codePointAt(0);
+  if ((code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff)) {
+    return character;
+  }
+  if (WIN_ANSI_EXTRA[character]) {
+    return String.fromCharCode(WIN_ANSI_EXTRA[character][0]);
+  }
+  if (/\s/.test(character)) {
+    return ' ';
+  }
+  // Invisible formatting such as zero-width spaces and direction marks
+  if (/\p{Cf}/u.test(character)) {
+    return '';
+  }
+  const base = character.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+  return base && base !== character && /^[\x20-\x7e]+$/.test(base) ? base : null;
+}
+
+function pdfString(bytes: string): string {
+  return `(${bytes.replace(/[\\()]/g, '\\$&')})`;
+}
+
+// Text strings outside content streams can be UTF-16, so metadata keeps
+// every character
+function pdfTextString(text: string): string {
+  const bytes = Buffer.from(text, 'utf16le').swap16();
+  return `<FEFF${bytes.toString('hex').toUpperCase()}>`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,152 @@
+import { deflateRawSync, deflateSync } from 'zlib';
+import { extractDocumentText } from './document-text.util';
+import { MAX_INFLATED_STREAM_SIZE } from './inflate.util';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+// Builds a zip archive with deflated entries; checksums are not verified
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(Buffer.byteLength(name), 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(Buffer.byteLength(name), 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, Buffer.from(name), data);
+    centrals.push(central, Buffer.from(name));
+    offset += local.length + Buffer.byteLength(name) + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Builds a single page PDF from content stream operators
+function buildPdf(content: string): Buffer {
+  const stream = deflateSync(Buffer.from(content));
+  return Buffer.concat([
+    Buffer.from(
+      [
+        '%PDF-1.4',
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+        '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792]',
+        '/Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >> endobj',
+        '4 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >> endobj',
+        `5 0 obj << /Length ${stream.length} /Filter /FlateDecode >> stream`,
+        '',
+      ].join('\n'),
+      'latin1',
+    ),
+    stream,
+    Buffer.from('\nendstream endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n'),
+  ]);
+}
+
+describe('extractDocumentText', () => {
+  it('should keep the headings, clause numbering and tables of Word documents', () => {
+    const paragraph = (text: string, properties = '') =>
+      `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+    const numbered = (level: number, style = '') =>
+      `${style}<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`;
+    const heading = '<w:pStyle w:val="Heading1"/>';
+
+    const docx = buildZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': `<w:document ${W}><w:body>
+        ${paragraph('Services Agreement', '<w:pStyle w:val="Title"/>')}
+        ${paragraph('Services', numbered(0, heading))}
+        ${paragraph('The Provider shall deliver &amp; report.', numbered(1))}
+        ${paragraph('weekly;', numbered(2))}
+        ${paragraph('Fees', numbered(0, heading))}
+        <w:tbl><w:tr><w:tc>${paragraph('Item')}</w:tc><w:tc>${paragraph('Amount')}</w:tc></w:tr>
+        <w:tr><w:tc>${paragraph('Setup')}</w:tc><w:tc>${paragraph('$500')}</w:tc></w:tr></w:tbl>
+      </w:body></w:document>`,
+      'word/styles.xml': `<w:styles ${W}>
+        <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>
+        <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+      </w:styles>`,
+      'word/numbering.xml': `<w:numbering ${W}><w:abstractNum w:abstractNumId="0">
+        <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+        <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1.%2"/></w:lvl>
+        <w:lvl w:ilvl="2"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="(%3)"/></w:lvl>
+      </w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`,
+    });
+
+    expect(extractDocumentText(docx, DOCX_TYPE)).toBe(
+      [
+        '# Services Agreement',
+        '# 1. Services',
+        '1.1 The Provider shall deliver & report.',
+        '(a) weekly;',
+        '# 2. Fees',
+        '| Item | Amount |\n| Setup | $500 |',
+      ].join('\n\n'),
+    );
+  });
+
+  it('should join wrapped PDF lines into paragraphs and mark larger text as headings', () => {
+    const pdf = buildPdf(`BT
+      /F1 18 Tf 72 720 Td (Services Agreement) Tj
+      /F1 11 Tf 14 TL 0 -30 Td (1. The Provider shall deliver the services) Tj
+      T* [(described in )-250(Schedule A.)] TJ
+      T* (2. The Client shall pay each invoice within thirty days.) Tj
+      0 -28 Td (Signed by the parties) Tj
+    ET`);
+
+    expect(extractDocumentText(pdf, 'application/pdf')).toBe(
+      [
+        '# Services Agreement',
+        '1. The Provider shall deliver the services described in Schedule A.',
+        '2. The Client shall pay each invoice within thirty days.',
+        'Signed by the parties',
+      ].join('\n\n'),
+    );
+  });
+
+  it('should report unreadable files and skip types without text', () => {
+    expect(() => extractDocumentText(Buffer.from('%PDF-1.4\n%%EOF'), 'application/pdf')).toThrow(
+      'PDF catalog is missing',
+    );
+    expect(extractDocumentText(Buffer.from('Term:\r\n\r\n\r\ntwelve months '), 'text/plain')).toBe(
+      'Term:\n\ntwelve months',
+    );
+    expect(extractDocumentText(Buffer.from([0xff, 0xd8, 0xff]), 'image/jpeg')).toBeNull();
+  });
+
+  it('should refuse files that decompress beyond the size limits', () => {
+    const padding = ' '.repeat(MAX_INFLATED_STREAM_SIZE + 1);
+
+    expect(() => extractDocumentText(buildPdf(`BT ${padding} ET`), 'application/pdf')).toThrow(
+      'PDF stream is too large to decompress',
+    );
+    expect(() =>
+      extractDocumentText(
+        buildZip({ 'word/document.xml': `<w:document ${W}>${padding}</w:document>` }),
+        DOCX_TYPE,
+      ),
+    ).toThrow('Zip entry word/document.xml is too large to decompress');
+  });
+});
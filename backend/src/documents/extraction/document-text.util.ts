@@ -0,0 +1,80 @@
+/**
+ * Extracts plain text from uploaded document files, so that the content of
+ * PDF and Word contracts can be analysed like typed documents
+ */
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { extractDocxText } from './docx-text.util';
+import { extractPdfText } from './pdf-text.util';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Length limits of the contract text accepted by the AI analysis
+export const MIN_ANALYZABLE_TEXT_LENGTH = 50;
+export const MAX_ANALYZABLE_TEXT_LENGTH = 100000;
+
+// Time after which the worker extracting a file is stopped
+export const EXTRACTION_TIMEOUT_MS = 30000;
+
+// Under Jest and ts-node the worker is TypeScript too, and needs ts-node
+const WORKER_FILE = join(__dirname, `document-text.worker${extname(__filename)}`);
+const WORKER_EXEC_ARGV = WORKER_FILE.endsWith('.ts')
+  ? ['--require', 'ts-node/register/transpile-only']
+  : [];
+
+/**
+ * Returns the text of the file, or null when text cannot be extracted from
+ * files of this type. Throws when the file cannot be read.
+ */
+export function extractDocumentText(content: Buffer, mimeType: string): string | null {
+  let text: string;
+  if (mimeType === 'application/pdf') {
+    text = extractPdfText(content);
+  } else if (mimeType === DOCX_TYPE) {
+    text = extractDocxText(content);
+  } else if (mimeType?.startsWith('text/')) {
+    text = content.toString('utf8').replace(/^\uFEFF/, '');
+  } else {
+    return null;
+  }
+  return normalizeText(text);
+}
+
+/**
+ * Runs extractDocumentText in a worker thread, so that parsing large or
+ * malformed files does not hold up other requests. Rejects with the error
+ * of the extraction, or when it takes longer than EXTRACTION_TIMEOUT_MS.
+ */
+export function extractDocumentTextInWorker(
+  content: Buffer,
+  mimeType: string,
+): Promise<string | null> {
+  const worker = new Worker(WORKER_FILE, {
+    workerData: { content, mimeType },
+    execArgv: WORKER_EXEC_ARGV,
+  });
+  let timer: NodeJS.Timeout;
+
+  return new Promise<string | null>((resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error('Text extraction took too long'));
+      void worker.terminate();
+    }, EXTRACTION_TIMEOUT_MS);
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', (code) => reject(new Error(`Text extraction exited with code ${code}`)));
+  }).finally(() => clearTimeout(timer));
+}
+
+function normalizeText(text: string): string {
+  return (
+    text
+      .replace(/\r\n?/g, '\n')
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+      .replace(/[\u00a0\u2000-\u200a\u202f]/g, ' ')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
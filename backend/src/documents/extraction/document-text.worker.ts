@@ -0,0 +1,15 @@
+/**
+ * Worker thread of extractDocumentTextInWorker: extracts the text of the
+ * file it is started with and posts it back
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { extractDocumentText } from './document-text.util';
+
+const { content, mimeType } = workerData as { content: Uint8Array; mimeType: string };
+
+parentPort.postMessage(
+  extractDocumentText(
+    Buffer.from(content.buffer, content.byteOffset, content.byteLength),
+    mimeType,
+  ),
+);
@@ -0,0 +1,482 @@
+/**
+ * Extracts the text of Word (DOCX) documents. Headings become markdown
+ * headings, and list and clause numbering generated by Word is written out
+ * the way Word displays it, e.g. 2.1 or (a).
+ */
+import { readZipEntries } from './zip.util';
+
+interface XmlToken {
+  name?: string;
+  attributes?: string;
+  closing?: boolean;
+  selfClosing?: boolean;
+  text?: string;
+}
+
+interface NumberingLevel {
+  start: number;
+  format: string;
+  text: string;
+  legal: boolean;
+}
+
+interface Numbering {
+  // Levels of each abstract numbering definition
+  abstracts: Map<string, NumberingLevel[]>;
+  // Abstract numbering definition of each numbering instance
+  instances: Map<string, string>;
+}
+
+interface ParagraphStyle {
+  headingLevel?: number;
+  numId?: string;
+  ilvl?: number;
+  basedOn?: string;
+}
+
+interface Paragraph {
+  style?: string;
+  outlineLevel?: number;
+  numId?: string;
+  ilvl?: number;
+  text: string;
+}
+
+const XML_TOKEN_PATTERN = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|<[!?][^>]*>|([^<]+)/g;
+
+export function extractDocxText(content: Buffer): string {
+  const entries = readZipEntries(content);
+  const read = (name: string) => entries.get(name)?.().toString('utf8');
+
+  const body = read('word/document.xml');
+  if (!body) {
+    throw new Error('File is not a Word document');
+  }
+  const styles = parseStyles(read('word/styles.xml'));
+  const numbering = parseNumbering(read('word/numbering.xml'));
+  const counters = new Map<string, number[]>();
+
+  const blocks: string[] = [];
+  // Open tables, innermost last, with the cells of their current row
+  const tables: Array<{ rows: string[][]; cells: string[]; paragraphs: string[] }> = [];
+  // Open paragraphs; text boxes hold paragraphs within paragraphs
+  const paragraphs: Paragraph[] = [];
+  let inText = false;
+  let inProperties = false;
+  let inNumbering = false;
+  // Depth of alternative content that repeats text shown elsewhere
+  let skipped = 0;
+
+  const emit = (text: string) => {
+    const table = tables[tables.length - 1];
+    if (table?.paragraphs) {
+      table.paragraphs.push(text);
+    } else if (text) {
+      blocks.push(text);
+    }
+  };
+
+  for (const token of tokenizeXml(body)) {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (token.text !== undefined) {
+      if (paragraph && inText && !skipped) {
+        paragraph.text += decodeXmlEntities(token.text);
+      }
+      continue;
+    }
+
+    const { name, closing, selfClosing } = token;
+    if (name === 'mc:Fallback' && !selfClosing) {
+      skipped += closing ? -1 : 1;
+      continue;
+    }
+    if (skipped) {
+      continue;
+    }
+
+    const value = () => getAttribute(token.attributes, 'w:val');
+    const table = tables[tables.length - 1];
+
+    if (closing) {
+      switch (name) {
+        case 'w:t':
+          inText = false;
+          break;
+        case 'w:pPr':
+          inProperties = false;
+          break;
+        case 'w:numPr':
+          inNumbering = false;
+          break;
+        case 'w:p':
+          if (paragraphs.pop()) {
+            emit(renderParagraph(paragraph, styles, numbering, counters));
+          }
+          break;
+        case 'w:tc':
+          if (table?.paragraphs) {
+            table.cells?.push(table.paragraphs.join(' ').replace(/(^|\s)#+ /g, '$1'));
+            table.paragraphs = null;
+          }
+          break;
+        case 'w:tr':
+          if (table?.cells) {
+            table.rows.push(table.cells);
+            table.cells = null;
+          }
+          break;
+        case 'w:tbl':
+          tables.pop();
+          emit(
+            table.rows
+              .filter((row) => row.some(Boolean))
+              .map((row) => `| ${row.join(' | ')} |`)
+              .join(tables.length > 0 ? ' ' : '\n'),
+          );
+          break;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'w:p':
+        if (!selfClosing) {
+          paragraphs.push({ text: '' });
+        }
+        break;
+      case 'w:pPr':
+        inProperties = !selfClosing;
+        break;
+      case 'w:tbl':
+        tables.push({ rows: [], cells: null, paragraphs: null });
+        break;
+      case 'w:tr':
+        if (table) {
+          table.cells = [];
+        }
+        break;
+      case 'w:tc':
+        if (table) {
+          table.paragraphs = [];
+        }
+        break;
+      case 'w:t':
+        inText = !selfClosing;
+        break;
+      case 'w:tab':
+        // Tab stops are declared with the same element in the properties
+        if (paragraph && !inProperties) {
+          paragraph.text += '\t';
+        }
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (paragraph) {
+          paragraph.text += '\n';
+        }
+        break;
+      case 'w:pStyle':
+        if (paragraph) {
+          paragraph.style = value();
+        }
+        break;
+      case 'w:outlineLvl':
+        if (paragraph) {
+          paragraph.outlineLevel = Number(value());
+        }
+        break;
+      case 'w:numPr':
+        inNumbering = !selfClosing;
+        break;
+      case 'w:numId':
+        if (paragraph && inNumbering) {
+          paragraph.numId = value();
+        }
+        break;
+      case 'w:ilvl':
+        if (paragraph && inNumbering) {
+          paragraph.ilvl = Number(value());
+        }
+        break;
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+function renderParagraph(
+  paragraph: Paragraph,
+  styles: Map<string, ParagraphStyle>,
+  numbering: Numbering,
+  counters: Map<string, number[]>,
+): string {
+  const text = paragraph.text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .trim();
+  if (!text) {
+    return '';
+  }
+
+  const style = resolveStyle(paragraph.style, styles);
+  const numId = paragraph.numId ?? style.numId;
+  const label =
+    numId && numId !== '0'
+      ? formatNumber(numbering, counters, numId, paragraph.ilvl ?? style.ilvl ?? 0)
+      : '';
+  const numbered = label ? `${label} ${text}` : text;
+
+  const headingLevel =
+    paragraph.outlineLevel !== undefined && paragraph.outlineLevel < 9
+      ? paragraph.outlineLevel + 1
+      : style.headingLevel;
+  return headingLevel ? `${'#'.repeat(Math.min(headingLevel, 6))} ${numbered}` : numbered;
+}
+
+/**
+ * Merges a style with the styles it is based on
+ */
+function resolveStyle(styleId: string, styles: Map<string, ParagraphStyle>): ParagraphStyle {
+  const resolved: ParagraphStyle = {};
+  const seen = new Set<string>();
+  for (let id = styleId; id && !seen.has(id); id = styles.get(id)?.basedOn) {
+    seen.add(id);
+    const style = styles.get(id);
+    resolved.headingLevel ??= style?.headingLevel;
+    resolved.numId ??= style?.numId;
+    resolved.ilvl ??= style?.ilvl;
+  }
+  return resolved;
+}
+
+function formatNumber(
+  numbering: Numbering,
+  counters: Map<string, number[]>,
+  numId: string,
+  level: number,
+): string {
+  const abstractId = numbering.instances.get(numId);
+  const levels = numbering.abstracts.get(abstractId);
+  if (!levels?.[level]) {
+    return '';
+  }
+
+  // Lists sharing an abstract definition continue each other's numbering
+  const values = counters.get(abstractId) || [];
+  counters.set(abstractId, values);
+  values[level] = values[level] === undefined ? levels[level].start : values[level] + 1;
+  values.length = level + 1;
+
+  const { format, text, legal } = levels[level];
+  if (format === 'bullet') {
+    return '-';
+  }
+  if (format === 'none') {
+    return text.replace(/%\d/g, '').trim();
+  }
+
+  return text
+    .replace(/%(\d)/g, (_match, number) => {
+      const index = Number(number) - 1;
+      const value = values[index] ?? levels[index]?.start ?? 1;
+      return formatCounter(value, legal ? 'decimal' : levels[index]?.format);
+    })
+    .trim();
+}
+
+function formatCounter(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return toLetters(value).toLowerCase();
+    case 'upperLetter':
+      return toLetters(value);
+    case 'lowerRoman':
+      return toRoman(value).toLowerCase();
+    case 'upperRoman':
+      return toRoman(value);
+    case 'decimalZero':
+      return String(value).padStart(2, '0');
+    default:
+      return String(value);
+  }
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter after z: aa, bb, ...
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'],
+    [900, 'CM'],
+    [500, 'D'],
+    [400, 'CD'],
+    [100, 'C'],
+    [90, 'XC'],
+    [50, 'L'],
+    [40, 'XL'],
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ];
+  let remaining = value;
+  return numerals.reduce((roman, [amount, numeral]) => {
+    const count = Math.floor(remaining / amount);
+    remaining -= count * amount;
+    return roman + numeral.repeat(count);
+  }, '');
+}
+
+function parseStyles(xml?: string): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+  let current: ParagraphStyle | null = null;
+  let inNumbering = false;
+
+  for (const token of tokenizeXml(xml || '')) {
+    if (token.text !== undefined) {
+      continue;
+    }
+    const value = getAttribute(token.attributes, 'w:val');
+    if (token.closing) {
+      if (token.name === 'w:style') {
+        current = null;
+      } else if (token.name === 'w:numPr') {
+        inNumbering = false;
+      }
+      continue;
+    }
+
+    if (token.name === 'w:style') {
+      current = {};
+      styles.set(getAttribute(token.attributes, 'w:styleId'), current);
+    } else if (!current) {
+      continue;
+    } else if (token.name === 'w:name') {
+      const heading = /^heading (\d)$/i.exec(value || '');
+      if (heading) {
+        current.headingLevel = Number(heading[1]);
+      } else if (/^title$/i.test(value || '')) {
+        current.headingLevel = 1;
+      }
+    } else if (token.name === 'w:basedOn') {
+      current.basedOn = value;
+    } else if (token.name === 'w:outlineLvl' && Number(value) < 9) {
+      current.headingLevel ??= Number(value) + 1;
+    } else if (token.name === 'w:numPr') {
+      inNumbering = !token.selfClosing;
+    } else if (token.name === 'w:numId' && inNumbering) {
+      current.numId = value;
+    } else if (token.name === 'w:ilvl' && inNumbering) {
+      current.ilvl = Number(value);
+    }
+  }
+  return styles;
+}
+
+function parseNumbering(xml?: string): Numbering {
+  const numbering: Numbering = { abstracts: new Map(), instances: new Map() };
+  let abstract: NumberingLevel[] | null = null;
+  let level: NumberingLevel | null = null;
+  let instance: string | null = null;
+
+  for (const token of tokenizeXml(xml || '')) {
+    if (token.text !== undefined) {
+      continue;
+    }
+    const value = getAttribute(token.attributes, 'w:val');
+    if (token.closing) {
+      if (token.name === 'w:abstractNum') {
+        abstract = null;
+      } else if (token.name === 'w:lvl') {
+        level = null;
+      } else if (token.name === 'w:num') {
+        instance = null;
+      }
+      continue;
+    }
+
+    switch (token.name) {
+      case 'w:abstractNum':
+        abstract = [];
+        numbering.abstracts.set(getAttribute(token.attributes, 'w:abstractNumId'), abstract);
+        break;
+      case 'w:lvl':
+        if (abstract) {
+          level = { start: 1, format: 'decimal', text: '', legal: false };
+          abstract[Number(getAttribute(token.attributes, 'w:ilvl'))] = level;
+        }
+        break;
+      case 'w:start':
+        if (level) {
+          level.start = Number(value);
+        }
+        break;
+      case 'w:numFmt':
+        if (level) {
+          level.format = value;
+        }
+        break;
+      case 'w:lvlText':
+        if (level) {
+          level.text = value ?? '';
+        }
+        break;
+      case 'w:isLgl':
+        if (level) {
+          level.legal = value !== 'false' && value !== '0';
+        }
+        break;
+      case 'w:num':
+        instance = getAttribute(token.attributes, 'w:numId');
+        break;
+      case 'w:abstractNumId':
+        if (instance) {
+          numbering.instances.set(instance, value);
+        }
+        break;
+    }
+  }
+  return numbering;
+}
+
+function* tokenizeXml(xml: string): Generator<XmlToken> {
+  for (const [, closing, name, attributes, selfClosing, text] of xml.matchAll(XML_TOKEN_PATTERN)) {
+    if (text !== undefined) {
+      yield { text };
+    } else if (name) {
+      yield { name, attributes, closing: closing === '/', selfClosing: selfClosing === '/' };
+    }
+  }
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(attributes || '');
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp':
+        return '&';
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
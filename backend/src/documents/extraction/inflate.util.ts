@@ -0,0 +1,65 @@
+/**
+ * Decompression of uploaded files with limits on the output, so that small
+ * compressed streams cannot expand into gigabytes of memory
+ */
+import { ZlibOptions } from 'zlib';
+
+// Largest decompressed zip entry or PDF stream
+export const MAX_INFLATED_STREAM_SIZE = 32 * 1024 * 1024;
+
+// Largest total of the decompressed data of one file
+export const MAX_INFLATED_FILE_SIZE = 64 * 1024 * 1024;
+
+export class InflateLimitError extends Error {}
+
+/**
+ * Tracks the decompressed bytes of one file. Each call fails with an
+ * InflateLimitError instead of allocating beyond the remaining budget.
+ */
+export class InflateBudget {
+  private remaining: number;
+
+  constructor(
+    total = MAX_INFLATED_FILE_SIZE,
+    private readonly streamLimit = MAX_INFLATED_STREAM_SIZE,
+  ) {
+    this.remaining = total;
+  }
+
+  /**
+   * Rejects data whose declared size is over the limit before inflating it
+   */
+  reserve(size: number, name: string): void {
+    if (size > Math.min(this.streamLimit, this.remaining)) {
+      throw this.limitError(name);
+    }
+  }
+
+  inflate(
+    inflate: (data: Buffer, options: ZlibOptions) => Buffer,
+    data: Buffer,
+    name: string,
+    options: ZlibOptions = {},
+  ): Buffer {
+    const limit = Math.min(this.streamLimit, this.remaining);
+    if (limit <= 0) {
+      throw this.limitError(name);
+    }
+
+    let output: Buffer;
+    try {
+      output = inflate(data, { ...options, maxOutputLength: limit });
+    } catch (error) {
+      if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw this.limitError(name);
+      }
+      throw error;
+    }
+    this.remaining -= output.length;
+    return output;
+  }
+
+  private limitError(name: string): InflateLimitError {
+    return new InflateLimitError(`${name} is too large to decompress`);
+  }
+}
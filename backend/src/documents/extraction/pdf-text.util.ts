@@ -0,0 +1,994 @@
+/**
+ * Extracts the text of PDF files. Text is read from the page content
+ * streams in drawing order and grouped into lines by position. Lines are
+ * joined into paragraphs, which break at larger vertical gaps and at lines
+ * starting with clause numbering. Lines set noticeably larger than the body
+ * text become markdown headings.
+ */
+import { inflateSync, constants as zlibConstants } from 'zlib';
+import { InflateBudget, InflateLimitError } from './inflate.util';
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | Buffer
+  | PdfName
+  | PdfRef
+  | PdfKeyword
+  | PdfValue[]
+  | PdfDict
+  | PdfStream;
+
+interface PdfDict {
+  [key: string]: PdfValue;
+}
+
+class PdfName {
+  constructor(readonly value: string) {}
+}
+
+class PdfRef {
+  constructor(readonly id: number) {}
+}
+
+class PdfKeyword {
+  constructor(readonly value: string) {}
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly data: Buffer,
+  ) {}
+}
+
+interface PdfFont {
+  // Splits shown bytes into character codes
+  codes(bytes: Buffer): number[];
+  toText(code: number): string;
+  // Advance of the code in thousandths of the font size
+  width(code: number): number;
+}
+
+interface TextRun {
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+  text: string;
+}
+
+interface TextLine {
+  y: number;
+  endX: number;
+  size: number;
+  text: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITESPACE = ' \t\r\n\f\0';
+const DELIMITERS = '()<>[]{}/%';
+// Clause numbering such as 1., 2.1, (a), iv) or Article 3 starts a paragraph
+const CLAUSE_START =
+  /^(\d+(\.\d+)*\.?|\(?[a-z]\)|\(?[ivxlc]+\)|\(\d+\)|[•▪●◦-]|(article|section|clause)\s+\d+)\s/i;
+
+// Windows-1252 characters that differ from Latin-1
+const WIN_ANSI: Record<number, string> = {
+  0x80: '€',
+  0x82: '‚',
+  0x83: 'ƒ',
+  0x84: '„',
+  0x85: '…',
+  0x86: '†',
+  0x87: '‡',
+  0x88: 'ˆ',
+  0x89: '‰',
+  0x8a: 'Š',
+  0x8b: '‹',
+  0x8c: 'Œ',
+  0x8e: 'Ž',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x95: '•',
+  0x96: '–',
+  0x97: '—',
+  0x98: '˜',
+  0x99: '™',
+  0x9a: 'š',
+  0x9b: '›',
+  0x9c: 'œ',
+  0x9e: 'ž',
+  0x9f: 'Ÿ',
+};
+
+// Glyph names used in font encoding differences, besides single letters
+// and uniXXXX names
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  period: '.',
+  comma: ',',
+  colon: ':',
+  semicolon: ';',
+  hyphen: '-',
+  endash: '–',
+  emdash: '—',
+  quoteleft: '‘',
+  quoteright: '’',
+  quotedblleft: '“',
+  quotedblright: '”',
+  quotesingle: "'",
+  quotedbl: '"',
+  parenleft: '(',
+  parenright: ')',
+  bracketleft: '[',
+  bracketright: ']',
+  slash: '/',
+  ampersand: '&',
+  percent: '%',
+  dollar: '$',
+  section: '§',
+  paragraph: '¶',
+  bullet: '•',
+  ellipsis: '…',
+  fi: 'fi',
+  fl: 'fl',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+};
+
+export function extractPdfText(content: Buffer): string {
+  const document = new PdfDocument(content);
+  const pages = document.pages();
+  if (pages.length === 0) {
+    throw new Error('PDF has no pages');
+  }
+
+  const lines = pages.flatMap((page, index) => {
+    const pageLines = new PageTextReader(document).read(page.contents, page.resources);
+    // Pages always break paragraphs
+    return index > 0 ? [null, ...pageLines] : pageLines;
+  });
+
+  const text = formatLines(lines);
+  if (!text.trim()) {
+    throw new Error('PDF has no extractable text; it may be a scanned image');
+  }
+  // Ligatures and presentation forms become the letters they stand for
+  return text.replace(/[\uFB00-\uFB06\uFB50-\uFDFF\uFE70-\uFEFC]/g, (character) =>
+    character.normalize('NFKC'),
+  );
+}
+
+/**
+ * Joins lines into paragraphs and marks headings. Null entries are page
+ * breaks.
+ */
+function formatLines(lines: Array<TextLine | null>): string {
+  const textLines = lines.filter((line): line is TextLine => line !== null && !!line.text);
+  const bodySize = mostCommon(textLines.map((line) => round(line.size)));
+  const headingSizes = [
+    ...new Set(
+      textLines
+        .map((line) => round(line.size))
+        .filter((size) => size >= bodySize * 1.2)
+        .sort((a, b) => b - a),
+    ),
+  ];
+  // The most common gap between lines is the line spacing of the body text
+  const spacing = mostCommon(
+    lines
+      .map((line, index) => {
+        const previous = lines[index - 1];
+        return line && previous ? round(previous.y - line.y) : NaN;
+      })
+      .filter((gap) => gap > 0),
+  );
+
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let currentHeading = false;
+  const flush = () => {
+    if (current.length > 0) {
+      paragraphs.push(current.join(' '));
+    }
+    current = [];
+    currentHeading = false;
+  };
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      flush();
+      return;
+    }
+    if (!line.text) {
+      return;
+    }
+
+    const previous = lines[index - 1];
+    const headingLevel = headingSizes.indexOf(round(line.size)) + 1;
+    const heading = headingLevel > 0 && line.text.length <= 120;
+    const gap = previous ? previous.y - line.y : 0;
+    if (
+      heading !== currentHeading ||
+      (heading && round(previous?.size) !== round(line.size)) ||
+      gap > spacing * 1.4 ||
+      gap < 0 ||
+      CLAUSE_START.test(line.text)
+    ) {
+      flush();
+    }
+
+    if (heading && current.length === 0) {
+      current.push(`${'#'.repeat(Math.min(headingLevel, 3))} ${line.text}`);
+    } else if (current.length > 0 && current[current.length - 1].endsWith('-')) {
+      // Words hyphenated at the end of a line are joined again
+      current[current.length - 1] = current[current.length - 1].slice(0, -1) + line.text;
+    } else {
+      current.push(line.text);
+    }
+    currentHeading = heading;
+  });
+  flush();
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Interprets a page content stream, collecting the text it shows as lines
+ */
+class PageTextReader {
+  private readonly lines: TextLine[] = [];
+  private readonly fonts = new Map<PdfDict, PdfFont>();
+  private readonly visitedForms = new Set<PdfStream>();
+
+  constructor(private readonly document: PdfDocument) {}
+
+  read(content: Buffer, resources: PdfDict): TextLine[] {
+    this.interpret(content, resources, IDENTITY);
+    return this.lines;
+  }
+
+  private interpret(content: Buffer, resources: PdfDict, baseMatrix: Matrix): void {
+    const fontResources = this.document.resolveDict(resources?.Font);
+    const xObjects = this.document.resolveDict(resources?.XObject);
+
+    let ctm = baseMatrix;
+    const stack: Matrix[] = [];
+    let textMatrix = IDENTITY;
+    let lineMatrix = IDENTITY;
+    let font: PdfFont | null = null;
+    let fontSize = 0;
+    let charSpacing = 0;
+    let wordSpacing = 0;
+    let scale = 1;
+    let leading = 0;
+    let rise = 0;
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const show = (items: PdfValue[]) => {
+      if (!font) {
+        return;
+      }
+      const start = multiply(multiply([1, 0, 0, 1, 0, rise], textMatrix), ctm);
+      let text = '';
+      for (const item of items) {
+        if (typeof item === 'number') {
+          const offset = (-item / 1000) * fontSize * scale;
+          textMatrix = multiply([1, 0, 0, 1, offset, 0], textMatrix);
+          // Large negative kerning in TJ arrays separates words
+          if (item < -200 && !text.endsWith(' ')) {
+            text += ' ';
+          }
+          continue;
+        }
+        if (!(item instanceof Buffer)) {
+          continue;
+        }
+        const codes = font.codes(item);
+        for (const code of codes) {
+          text += font.toText(code);
+          const spacing =
+            charSpacing + (code === 32 && item.length === codes.length ? wordSpacing : 0);
+          const advance = ((font.width(code) / 1000) * fontSize + spacing) * scale;
+          textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+        }
+      }
+
+      const end = multiply(textMatrix, ctm);
+      const size = Math.abs(fontSize) * Math.hypot(start[2], start[3]);
+      this.addRun({ x: start[4], y: start[5], endX: end[4], size, text });
+    };
+
+    const operands: PdfValue[] = [];
+    const lexer = new PdfLexer(content.toString('latin1'));
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!(token instanceof PdfKeyword)) {
+        operands.push(token);
+        continue;
+      }
+
+      const number = (index: number) => Number(operands[index]) || 0;
+      switch (token.value) {
+        case 'q':
+          stack.push(ctm);
+          break;
+        case 'Q':
+          ctm = stack.pop() || baseMatrix;
+          break;
+        case 'cm':
+          ctm = multiply(operands.slice(0, 6).map(Number) as Matrix, ctm);
+          break;
+        case 'BT':
+          textMatrix = lineMatrix = IDENTITY;
+          break;
+        case 'Tf': {
+          const fontDict = this.document.resolveDict(
+            fontResources?.[(operands[0] as PdfName)?.value],
+          );
+          font = fontDict ? this.getFont(fontDict) : null;
+          fontSize = number(1);
+          break;
+        }
+        case 'Tc':
+          charSpacing = number(0);
+          break;
+        case 'Tw':
+          wordSpacing = number(0);
+          break;
+        case 'Tz':
+          scale = number(0) / 100;
+          break;
+        case 'TL':
+          leading = number(0);
+          break;
+        case 'Ts':
+          rise = number(0);
+          break;
+        case 'Td':
+          moveLine(number(0), number(1));
+          break;
+        case 'TD':
+          leading = -number(1);
+          moveLine(number(0), number(1));
+          break;
+        case 'Tm':
+          textMatrix = lineMatrix = operands.slice(0, 6).map(Number) as Matrix;
+          break;
+        case 'T*':
+          moveLine(0, -leading);
+          break;
+        case 'Tj':
+          show([operands[0]]);
+          break;
+        case "'":
+          moveLine(0, -leading);
+          show([operands[0]]);
+          break;
+        case '"':
+          wordSpacing = number(0);
+          charSpacing = number(1);
+          moveLine(0, -leading);
+          show([operands[2]]);
+          break;
+        case 'TJ':
+          show(Array.isArray(operands[0]) ? operands[0] : []);
+          break;
+        case 'Do': {
+          const form = this.document.resolve(xObjects?.[(operands[0] as PdfName)?.value]);
+          if (
+            form instanceof PdfStream &&
+            (form.dict.Subtype as PdfName)?.value === 'Form' &&
+            !this.visitedForms.has(form)
+          ) {
+            this.visitedForms.add(form);
+            const matrix = Array.isArray(form.dict.Matrix)
+              ? (form.dict.Matrix.map(Number) as Matrix)
+              : IDENTITY;
+            this.interpret(
+              this.document.decode(form),
+              this.document.resolveDict(form.dict.Resources) || resources,
+              multiply(matrix, ctm),
+            );
+          }
+          break;
+        }
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+      }
+      operands.length = 0;
+    }
+  }
+
+  private addRun(run: TextRun): void {
+    const text = run.text.replace(/\s+/g, ' ');
+    if (!text.trim()) {
+      const line = this.lines[this.lines.length - 1];
+      if (line && !line.text.endsWith(' ')) {
+        line.endX = Math.max(line.endX, run.endX);
+      }
+      return;
+    }
+
+    const line = this.lines[this.lines.length - 1];
+    const tolerance = Math.max(run.size, line?.size || 0) * 0.5;
+    if (line && Math.abs(line.y - run.y) <= tolerance) {
+      const gap = run.x - line.endX;
+      if (gap > run.size * 0.15 && !line.text.endsWith(' ') && !text.startsWith(' ')) {
+        line.text += ' ';
+      }
+      line.text += text;
+      line.endX = run.endX;
+      line.size = Math.max(line.size, run.size);
+      return;
+    }
+
+    if (line) {
+      line.text = line.text.trim();
+    }
+    this.lines.push({ y: run.y, endX: run.endX, size: run.size, text: text.trimStart() });
+  }
+
+  private getFont(dict: PdfDict): PdfFont {
+    if (!this.fonts.has(dict)) {
+      this.fonts.set(dict, createFont(this.document, dict));
+    }
+    return this.fonts.get(dict);
+  }
+}
+
+function createFont(document: PdfDocument, dict: PdfDict): PdfFont {
+  const toUnicode = document.resolve(dict.ToUnicode);
+  const cmap = toUnicode instanceof PdfStream ? parseCMap(document.decode(toUnicode)) : null;
+
+  if ((dict.Subtype as PdfName)?.value === 'Type0') {
+    const descendant = document.resolveDict(
+      (document.resolve(dict.DescendantFonts) as PdfValue[])?.[0],
+    );
+    const widths = parseCidWidths(document, descendant?.W);
+    const defaultWidth = Number(document.resolve(descendant?.DW)) || 1000;
+    const codeLength = cmap?.codeLength || 2;
+
+    return {
+      codes: (bytes) => {
+        const codes: number[] = [];
+        for (let index = 0; index + codeLength <= bytes.length; index += codeLength) {
+          codes.push(bytes.readUIntBE(index, codeLength));
+        }
+        return codes;
+      },
+      toText: (code) => cmap?.map.get(code) ?? '',
+      width: (code) => widths.get(code) ?? defaultWidth,
+    };
+  }
+
+  const firstChar = Number(document.resolve(dict.FirstChar)) || 0;
+  const widths = (document.resolve(dict.Widths) as PdfValue[]) || [];
+  const differences = parseDifferences(document, dict.Encoding);
+
+  return {
+    codes: (bytes) => [...bytes],
+    toText: (code) =>
+      cmap?.map.get(code) ?? differences.get(code) ?? WIN_ANSI[code] ?? String.fromCharCode(code),
+    width: (code) => Number(document.resolve(widths[code - firstChar])) || 500,
+  };
+}
+
+function parseDifferences(document: PdfDocument, encoding: PdfValue): Map<number, string> {
+  const differences = new Map<number, string>();
+  const entries = document.resolveDict(encoding)?.Differences;
+  let code = 0;
+  for (const entry of (document.resolve(entries) as PdfValue[]) || []) {
+    if (typeof entry === 'number') {
+      code = entry;
+    } else if (entry instanceof PdfName) {
+      const name = entry.value;
+      const unicode = /^uni([\dA-F]{4})$/.exec(name);
+      const text = unicode
+        ? String.fromCharCode(parseInt(unicode[1], 16))
+        : (GLYPH_NAMES[name] ?? (name.length === 1 ? name : undefined));
+      if (text !== undefined) {
+        differences.set(code, text);
+      }
+      code++;
+    }
+  }
+  return differences;
+}
+
+function parseCidWidths(document: PdfDocument, value: PdfValue): Map<number, number> {
+  const widths = new Map<number, number>();
+  const entries = (document.resolve(value) as PdfValue[]) || [];
+  for (let index = 0; index < entries.length; ) {
+    const first = Number(entries[index]);
+    const next = document.resolve(entries[index + 1]);
+    if (Array.isArray(next)) {
+      next.forEach((width, offset) => widths.set(first + offset, Number(width)));
+      index += 2;
+    } else {
+      const last = Number(next);
+      const width = Number(entries[index + 2]);
+      for (let code = first; code <= last && code - first < 65536; code++) {
+        widths.set(code, width);
+      }
+      index += 3;
+    }
+  }
+  return widths;
+}
+
+/**
+ * Reads the character mappings of a ToUnicode CMap
+ */
+function parseCMap(content: Buffer): { codeLength: number; map: Map<number, string> } {
+  const source = content.toString('latin1');
+  const map = new Map<number, string>();
+  const hex = (value: string) => parseInt(value || '0', 16);
+  const unicode = (value: string) =>
+    Buffer.from(value.length % 4 === 0 ? value : value.padStart(4, '0'), 'hex')
+      .swap16()
+      .toString('utf16le');
+
+  const range = /begincodespacerange\s*<([\da-f]+)>/i.exec(source);
+  const codeLength = range ? Math.ceil(range[1].length / 2) : 2;
+
+  for (const [, block] of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, target] of block.matchAll(/<([\da-f]+)>\s*<([\da-f]*)>/gi)) {
+      map.set(hex(code), unicode(target));
+    }
+  }
+
+  for (const [, block] of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target, targets] of block.matchAll(
+      /<([\da-f]+)>\s*<([\da-f]+)>\s*(?:<([\da-f]*)>|\[([^\]]*)\])/gi,
+    )) {
+      const first = hex(low);
+      const last = Math.min(hex(high), first + 65535);
+      if (targets !== undefined) {
+        [...targets.matchAll(/<([\da-f]*)>/gi)].forEach(([, value], offset) =>
+          map.set(first + offset, unicode(value)),
+        );
+        continue;
+      }
+      // Consecutive codes map to consecutive characters
+      const base = Buffer.from(target.padStart(4, '0'), 'hex');
+      for (let code = first; code <= last; code++) {
+        const characters = Buffer.from(base);
+        characters.writeUInt16BE(
+          (characters.readUInt16BE(characters.length - 2) + code - first) & 0xffff,
+          characters.length - 2,
+        );
+        map.set(code, Buffer.from(characters).swap16().toString('utf16le'));
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+/**
+ * Random access to the objects of a PDF file, found by scanning for object
+ * headers rather than through the cross-reference table, which makes
+ * damaged and incrementally updated files readable too
+ */
+class PdfDocument {
+  private readonly source: string;
+  private readonly offsets = new Map<number, number>();
+  private readonly cache = new Map<number, PdfValue>();
+  private compressed: Map<number, PdfValue> | null = null;
+  private readonly budget = new InflateBudget();
+
+  constructor(content: Buffer) {
+    this.source = content.toString('latin1');
+    if (!this.source.startsWith('%PDF-')) {
+      throw new Error('File is not a PDF document');
+    }
+    for (const match of this.source.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+      // Later definitions replace earlier ones in updated files
+      this.offsets.set(Number(match[1]), match.index + match[0].length);
+    }
+    if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(this.source)) {
+      throw new Error('PDF is encrypted');
+    }
+  }
+
+  pages(): Array<{ contents: Buffer; resources: PdfDict }> {
+    const roots = [...this.source.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    const catalog = roots.length > 0 ? this.resolveDict(new PdfRef(Number(roots.pop()[1]))) : null;
+    if (!catalog) {
+      throw new Error('PDF catalog is missing');
+    }
+
+    const pages: Array<{ contents: Buffer; resources: PdfDict }> = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict, resources: PdfDict) => {
+      if (!node || visited.has(node)) {
+        return;
+      }
+      visited.add(node);
+      const nodeResources = this.resolveDict(node.Resources) || resources;
+      if (Array.isArray(this.resolve(node.Kids))) {
+        (this.resolve(node.Kids) as PdfValue[]).forEach((kid) =>
+          walk(this.resolveDict(kid), nodeResources),
+        );
+        return;
+      }
+
+      const contents = this.resolve(node.Contents);
+      const streams = (Array.isArray(contents) ? contents : [contents])
+        .map((item) => this.resolve(item))
+        .filter((item): item is PdfStream => item instanceof PdfStream);
+      pages.push({
+        contents: Buffer.concat(
+          streams.flatMap((stream) => [this.decode(stream), Buffer.from('\n')]),
+        ),
+        resources: nodeResources,
+      });
+    };
+    walk(this.resolveDict(catalog.Pages), null);
+    return pages;
+  }
+
+  resolve(value: PdfValue, depth = 0): PdfValue {
+    if (!(value instanceof PdfRef) || depth > 16) {
+      return value;
+    }
+    return this.resolve(this.getObject(value.id), depth + 1);
+  }
+
+  resolveDict(value: PdfValue): PdfDict | null {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfStream) {
+      return resolved.dict;
+    }
+    return isDict(resolved) ? resolved : null;
+  }
+
+  decode(stream: PdfStream): Buffer {
+    const filter = this.resolve(stream.dict.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(
+      (name) => (this.resolve(name) as PdfName)?.value,
+    );
+    return filters.reduce((data, name) => {
+      switch (name) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            return this.budget.inflate(inflateSync, data, 'PDF stream');
+          } catch (error) {
+            if (error instanceof InflateLimitError) {
+              throw error;
+            }
+            // Tolerate streams with a truncated or missing checksum
+            return this.budget.inflate(inflateSync, data, 'PDF stream', {
+              finishFlush: zlibConstants.Z_SYNC_FLUSH,
+            });
+          }
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          return Buffer.from(data.toString('latin1').replace(/[^\da-f]/gi, ''), 'hex');
+        case 'ASCII85Decode':
+        case 'A85':
+          return decodeAscii85(data.toString('latin1'));
+        default:
+          throw new Error(`PDF stream filter ${name} is not supported`);
+      }
+    }, stream.data);
+  }
+
+  private getObject(id: number): PdfValue {
+    if (this.cache.has(id)) {
+      return this.cache.get(id);
+    }
+    this.cache.set(id, null);
+
+    let value: PdfValue = null;
+    if (this.offsets.has(id)) {
+      value = this.parseObject(this.offsets.get(id));
+    } else {
+      value = this.getCompressedObjects().get(id) ?? null;
+    }
+    this.cache.set(id, value);
+    return value;
+  }
+
+  private parseObject(offset: number): PdfValue {
+    const lexer = new PdfLexer(this.source, offset);
+    const value = lexer.next();
+    const next = lexer.next();
+    if (!(next instanceof PdfKeyword) || next.value !== 'stream' || !isDict(value)) {
+      return value;
+    }
+
+    let start = lexer.position;
+    if (this.source[start] === '\r') {
+      start++;
+    }
+    if (this.source[start] === '\n') {
+      start++;
+    }
+    const length = this.resolve(value.Length);
+    let end = typeof length === 'number' ? start + length : -1;
+    if (end < 0 || !/^\s*endstream/.test(this.source.slice(end, end + 32))) {
+      end = this.source.indexOf('endstream', start);
+      end = end < 0 ? this.source.length : end;
+      while (end > start && '\r\n'.includes(this.source[end - 1])) {
+        end--;
+      }
+    }
+    return new PdfStream(value, Buffer.from(this.source.slice(start, end), 'latin1'));
+  }
+
+  /**
+   * Objects stored in object streams, which PDF 1.5 files use to compress
+   * dictionaries such as fonts
+   */
+  private getCompressedObjects(): Map<number, PdfValue> {
+    if (this.compressed) {
+      return this.compressed;
+    }
+    this.compressed = new Map();
+
+    for (const [, offset] of this.offsets) {
+      if (!/^\s*<<[^]{0,300}?\/Type\s*\/ObjStm/.test(this.source.slice(offset, offset + 320))) {
+        continue;
+      }
+      const stream = this.parseObject(offset);
+      if (!(stream instanceof PdfStream)) {
+        continue;
+      }
+      try {
+        const content = this.decode(stream).toString('latin1');
+        const count = Number(stream.dict.N);
+        const first = Number(stream.dict.First);
+        const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+        for (let index = 0; index < count; index++) {
+          const lexer = new PdfLexer(content, first + header[index * 2 + 1]);
+          if (!this.compressed.has(header[index * 2])) {
+            this.compressed.set(header[index * 2], lexer.next());
+          }
+        }
+      } catch {
+        // Objects of unreadable object streams are treated as missing
+      }
+    }
+    return this.compressed;
+  }
+}
+
+/**
+ * Tokenizer for PDF objects and content streams. Operators are returned as
+ * keywords.
+ */
+class PdfLexer {
+  constructor(
+    private readonly source: string,
+    public position = 0,
+  ) {}
+
+  next(): PdfValue | undefined {
+    this.skipWhitespace();
+    if (this.position >= this.source.length) {
+      return undefined;
+    }
+
+    const character = this.source[this.position];
+    if (character === '<' && this.source[this.position + 1] === '<') {
+      this.position += 2;
+      const dict: PdfDict = {};
+      for (;;) {
+        const key = this.next();
+        if (key === undefined || (key instanceof PdfKeyword && key.value === '>>')) {
+          return dict;
+        }
+        if (key instanceof PdfName) {
+          dict[key.value] = this.next();
+        }
+      }
+    }
+    if (character === '>' && this.source[this.position + 1] === '>') {
+      this.position += 2;
+      return new PdfKeyword('>>');
+    }
+    if (character === '[') {
+      this.position++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        const item = this.next();
+        if (item === undefined || (item instanceof PdfKeyword && item.value === ']')) {
+          return array;
+        }
+        array.push(item);
+      }
+    }
+    if (character === ']') {
+      this.position++;
+      return new PdfKeyword(']');
+    }
+    if (character === '(') {
+      return this.readLiteralString();
+    }
+    if (character === '<') {
+      const end = this.source.indexOf('>', this.position);
+      const hex = this.source.slice(this.position + 1, end < 0 ? undefined : end);
+      this.position = end < 0 ? this.source.length : end + 1;
+      const digits = hex.replace(/[^\da-f]/gi, '');
+      return Buffer.from(digits.length % 2 ? `${digits}0` : digits, 'hex');
+    }
+    if (character === '/') {
+      this.position++;
+      return new PdfName(
+        this.readRegular().replace(/#([\da-f]{2})/gi, (_match, code) =>
+          String.fromCharCode(parseInt(code, 16)),
+        ),
+      );
+    }
+
+    const word = this.readRegular() || this.source[this.position++];
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return this.readReference(Number(word));
+    }
+    if (word === 'true' || word === 'false') {
+      return word === 'true';
+    }
+    if (word === 'null') {
+      return null;
+    }
+    return new PdfKeyword(word);
+  }
+
+  /**
+   * Skips the data of an inline image, which follows the ID operator
+   */
+  skipInlineImage(): void {
+    const end = /\sEI(?=[\s]|$)/g;
+    end.lastIndex = this.position;
+    const match = end.exec(this.source);
+    this.position = match ? match.index + match[0].length : this.source.length;
+  }
+
+  private readReference(number: number): PdfValue {
+    // An integer followed by a generation number and R is a reference
+    const match = /^\s+\d+\s+R(?![^\s()<>[\]{}/%])/.exec(
+      this.source.slice(this.position, this.position + 24),
+    );
+    if (match && Number.isInteger(number)) {
+      this.position += match[0].length;
+      return new PdfRef(number);
+    }
+    return number;
+  }
+
+  private readLiteralString(): Buffer {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.position++;
+    while (this.position < this.source.length) {
+      const character = this.source[this.position++];
+      if (character === '(') {
+        depth++;
+      } else if (character === ')') {
+        if (depth-- === 0) {
+          break;
+        }
+      } else if (character === '\\') {
+        const escaped = this.source[this.position++];
+        const simple = { n: 10, r: 13, t: 9, b: 8, f: 12 }[escaped];
+        if (simple !== undefined) {
+          bytes.push(simple);
+        } else if (/[0-7]/.test(escaped)) {
+          const octal = /^[0-7]{0,2}/.exec(this.source.slice(this.position))[0];
+          this.position += octal.length;
+          bytes.push(parseInt(escaped + octal, 8) & 0xff);
+        } else if (escaped === '\r') {
+          if (this.source[this.position] === '\n') {
+            this.position++;
+          }
+        } else if (escaped !== '\n') {
+          bytes.push(escaped.charCodeAt(0));
+        }
+        continue;
+      }
+      bytes.push(character.charCodeAt(0));
+    }
+    return Buffer.from(bytes);
+  }
+
+  private readRegular(): string {
+    const start = this.position;
+    while (
+      this.position < this.source.length &&
+      !WHITESPACE.includes(this.source[this.position]) &&
+      !DELIMITERS.includes(this.source[this.position])
+    ) {
+      this.position++;
+    }
+    return this.source.slice(start, this.position);
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const character = this.source[this.position];
+      if (character === '%') {
+        while (this.position < this.source.length && !'\r\n'.includes(this.source[this.position])) {
+          this.position++;
+        }
+      } else if (WHITESPACE.includes(character)) {
+        this.position++;
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+function decodeAscii85(source: string): Buffer {
+  const data = source.replace(/\s/g, '').replace(/~>.*$/, '').replace(/^<~/, '');
+  const bytes: number[] = [];
+  let group: number[] = [];
+  const flush = (length: number) => {
+    const padded = [...group, ...Array(5 - group.length).fill(84)];
+    const value = padded.reduce((total, digit) => total * 85 + digit, 0);
+    for (let index = 0; index < length; index++) {
+      bytes.push((value >>> (24 - index * 8)) & 0xff);
+    }
+    group = [];
+  };
+
+  for (const character of data) {
+    if (character === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(character.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(4);
+    }
+  }
+  if (group.length > 0) {
+    flush(group.length - 1);
+  }
+  return Buffer.from(bytes);
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return [
+    a[0] * b[0] + a[1] * b[2],
+    a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2],
+    a[2] * b[1] + a[3] * b[3],
+    a[4] * b[0] + a[5] * b[2] + b[4],
+    a[4] * b[1] + a[5] * b[3] + b[5],
+  ];
+}
+
+function isDict(value: PdfValue): value is PdfDict {
+  return typeof value === 'object' && value !== null && value.constructor === Object;
+}
+
+function round(size: number): number {
+  return Math.round((size || 0) * 2) / 2;
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+}
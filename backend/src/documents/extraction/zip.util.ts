@@ -0,0 +1,144 @@
+/**
+ * Minimal reader and writer for the zip packages of Office documents
+ */
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { InflateBudget } from './inflate.util';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Returns the entries of a zip archive by name, decompressed on access
+ * within the budget
+ */
+export function readZipEntries(
+  archive: Buffer,
+  budget = new InflateBudget(),
+): Map<string, () => Buffer> {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries = new Map<string, () => Buffer>();
+  for (let index = 0; index < count; index++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Zip central directory is corrupt');
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Zip entry ${name} is corrupt`);
+      }
+      const start =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(start, start + compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        // The declared size can be wrong, so the output is limited as well
+        budget.reserve(size, `Zip entry ${name}`);
+        return budget.inflate(inflateRawSync, data, `Zip entry ${name}`);
+      }
+      throw new Error(`Zip entry ${name} uses unsupported compression method ${method}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Creates a zip archive of deflated entries, in the given order
+ */
+export function createZip(entries: Array<{ name: string; data: Buffer }>): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const fileName = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    // Fields shared by the local header and the central directory entry,
+    // from the version needed to extract to the name length
+    const fields = Buffer.alloc(26);
+    fields.writeUInt16LE(20, 0);
+    fields.writeUInt16LE(0x0800, 2); // UTF-8 names
+    fields.writeUInt16LE(8, 4);
+    fields.writeUInt16LE(0, 6);
+    fields.writeUInt16LE(0x21, 8); // 1980-01-01
+    fields.writeUInt32LE(checksum, 10);
+    fields.writeUInt32LE(compressed.length, 14);
+    fields.writeUInt32LE(data.length, 18);
+    fields.writeUInt16LE(fileName.length, 22);
+    fields.writeUInt16LE(0, 24);
+
+    const local = Buffer.alloc(4);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    parts.push(local, fields, fileName, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    fields.copy(central, 6);
+    central.writeUInt32LE(offset, 42);
+    directory.push(central, fileName);
+
+    offset += 30 + fileName.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let index = 0; index < 256; index++) {
+      let value = index;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crcTable[index] = value >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is at the end, followed by a comment of up to 64 KB
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('File is not a zip archive');
+}
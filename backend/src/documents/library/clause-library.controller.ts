@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { LibraryClause } from '../entities/library-clause.entity';
+import { LibraryClauseUsage } from '../entities/library-clause-usage.entity';
+import { CreateLibraryClauseDto } from '../dto/create-library-clause.dto';
+import { UpdateLibraryClauseDto } from '../dto/update-library-clause.dto';
+import { SearchLibraryClausesQueryDto } from '../dto/search-library-clauses-query.dto';
+import { ClauseLibraryService } from './clause-library.service';
+
+@ApiTags('Documents')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('clause-library')
+export class ClauseLibraryController {
+  constructor(private readonly clauseLibraryService: ClauseLibraryService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Add a clause to the library' })
+  @ApiResponse({ status: 201, description: 'Clause created successfully', type: LibraryClause })
+  async create(
+    @Body() createClauseDto: CreateLibraryClauseDto,
+    @Request() req,
+  ): Promise<LibraryClause> {
+    return this.clauseLibraryService.create(createClauseDto, req.user);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Search your library clauses' })
+  @ApiResponse({
+    status: 200,
+    description: 'Clauses retrieved successfully',
+    type: [LibraryClause],
+  })
+  async search(
+    @Query() query: SearchLibraryClausesQueryDto,
+    @Request() req,
+  ): Promise<LibraryClause[]> {
+    return this.clauseLibraryService.search(query, req.user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a library clause' })
+  @ApiParam({ name: 'id', description: 'Library clause ID' })
+  @ApiResponse({ status: 200, description: 'Clause retrieved successfully', type: LibraryClause })
+  @ApiResponse({ status: 404, description: 'Library clause not found' })
+  async findOne(@Param('id') id: string, @Request() req): Promise<LibraryClause> {
+    return this.clauseLibraryService.findOne(id, req.user);
+  }
+
+  @Get(':id/usages')
+  @ApiOperation({ summary: 'List your documents the clause was inserted into' })
+  @ApiParam({ name: 'id', description: 'Library clause ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Usages retrieved successfully',
+    type: [LibraryClauseUsage],
+  })
+  @ApiResponse({ status: 404, description: 'Library clause not found' })
+  async findUsages(@Param('id') id: string, @Request() req): Promise<LibraryClauseUsage[]> {
+    return this.clauseLibraryService.findUsages(id, req.user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a library clause; changing the text starts a new version' })
+  @ApiParam({ name: 'id', description: 'Library clause ID' })
+  @ApiResponse({ status: 200, description: 'Clause updated successfully', type: LibraryClause })
+  @ApiResponse({ status: 404, description: 'Library clause not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateClauseDto: UpdateLibraryClauseDto,
+    @Request() req,
+  ): Promise<LibraryClause> {
+    return this.clauseLibraryService.update(id, updateClauseDto, req.user);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a library clause' })
+  @ApiParam({ name: 'id', description: 'Library clause ID' })
+  @ApiResponse({ status: 204, description: 'Clause deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Library clause not found' })
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    return this.clauseLibraryService.remove(id, req.user);
+  }
+}
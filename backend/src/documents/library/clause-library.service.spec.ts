@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ClauseLibraryService } from './clause-library.service';
+import { LibraryClause } from '../entities/library-clause.entity';
+import { LibraryClauseUsage } from '../entities/library-clause-usage.entity';
+import { User } from '../../users/entities/user.entity';
+
+describe('ClauseLibraryService', () => {
+  let service: ClauseLibraryService;
+
+  const author = Object.assign(new User(), { id: 'user-123', company: 'Acme Corp' });
+  const colleague = Object.assign(new User(), { id: 'user-456', company: 'Acme Corp' });
+
+  const buildClause = (): LibraryClause =>
+    Object.assign(new LibraryClause(), {
+      id: 'clause-123',
+      userId: 'user-123',
+      title: 'Mutual confidentiality',
+      body: 'Each party shall keep the Confidential Information of the other party secret.',
+      tags: ['confidentiality'],
+      version: 1,
+    });
+
+  const query = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+    getMany: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockClauseRepository = {
+    create: jest.fn((values) => Object.assign(new LibraryClause(), values)),
+    save: jest.fn((clause) => Promise.resolve(clause)),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => query),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClauseLibraryService,
+        { provide: getRepositoryToken(LibraryClause), useValue: mockClauseRepository },
+        { provide: getRepositoryToken(LibraryClauseUsage), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ClauseLibraryService>(ClauseLibraryService);
+    query.getOne.mockResolvedValue(buildClause());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create clauses for the author with normalized tags', async () => {
+    const result = await service.create(
+      {
+        title: 'Payment terms',
+        body: 'Invoices are payable within 30 days.',
+        tags: [' Payment', 'payment', 'Net-30'],
+      },
+      author,
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        userId: 'user-123',
+        tags: ['payment', 'net-30'],
+        version: 1,
+      }),
+    );
+  });
+
+  it('should start a new version only when the text changes', async () => {
+    const retagged = await service.update('clause-123', { tags: ['nda'] }, author);
+    expect(retagged.version).toBe(1);
+
+    const edited = await service.update(
+      'clause-123',
+      { body: 'Each party shall protect the Confidential Information of the other party.' },
+      author,
+    );
+    expect(edited.version).toBe(2);
+  });
+
+  it('should not share clauses with users of the same company', async () => {
+    query.getOne.mockResolvedValue(null);
+
+    await expect(service.findOne('clause-123', colleague)).rejects.toThrow(NotFoundException);
+    expect(query.where).toHaveBeenCalledWith('clause.userId = :userId', { userId: 'user-456' });
+    expect(query.andWhere).toHaveBeenCalledWith('clause.id = :id', { id: 'clause-123' });
+  });
+});
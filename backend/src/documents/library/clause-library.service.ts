@@ -0,0 +1,149 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
+import { inTransaction } from '../../database/transaction.util';
+import { User } from '../../users/entities/user.entity';
+import { Document } from '../entities/document.entity';
+import { LibraryClause } from '../entities/library-clause.entity';
+import { LibraryClauseUsage } from '../entities/library-clause-usage.entity';
+import { CreateLibraryClauseDto } from '../dto/create-library-clause.dto';
+import { UpdateLibraryClauseDto } from '../dto/update-library-clause.dto';
+import { SearchLibraryClausesQueryDto } from '../dto/search-library-clauses-query.dto';
+
+/**
+ * Manages the clause library. Clauses are private to their author.
+ */
+@Injectable()
+export class ClauseLibraryService {
+  constructor(
+    @InjectRepository(LibraryClause)
+    private readonly clauseRepository: Repository<LibraryClause>,
+    @InjectRepository(LibraryClauseUsage)
+    private readonly usageRepository: Repository<LibraryClauseUsage>,
+  ) {}
+
+  async create(createClauseDto: CreateLibraryClauseDto, user: User): Promise<LibraryClause> {
+    const clause = this.clauseRepository.create({
+      ...createClauseDto,
+      tags: normalizeTags(createClauseDto.tags),
+      userId: user.id,
+      version: 1,
+    });
+    return await this.clauseRepository.save(clause);
+  }
+
+  async search(query: SearchLibraryClausesQueryDto, user: User): Promise<LibraryClause[]> {
+    const builder = this.accessibleTo(user);
+
+    if (query.q?.trim()) {
+      builder.andWhere(
+        '(clause.title ILIKE :text OR clause.body ILIKE :text OR clause.riskNotes ILIKE :text)',
+        { text: `%${escapeLike(query.q.trim())}%` },
+      );
+    }
+    const tags = normalizeTags(query.tags?.split(','));
+    if (tags.length > 0) {
+      builder.andWhere('CAST(clause.tags AS jsonb) @> CAST(:tags AS jsonb)', {
+        tags: JSON.stringify(tags),
+      });
+    }
+    if (query.jurisdiction) {
+      builder.andWhere('LOWER(clause.jurisdiction) = LOWER(:jurisdiction)', {
+        jurisdiction: query.jurisdiction.trim(),
+      });
+    }
+
+    return builder.orderBy('clause.title', 'ASC').getMany();
+  }
+
+  async findOne(id: string, user: User): Promise<LibraryClause> {
+    const clause = await this.accessibleTo(user).andWhere('clause.id = :id', { id }).getOne();
+
+    if (!clause) {
+      throw new NotFoundException('Library clause not found');
+    }
+
+    return clause;
+  }
+
+  /**
+   * Updates a clause. A new version starts when the title or body changes,
+   * so that documents keep a record of the text they received.
+   */
+  async update(
+    id: string,
+    updateClauseDto: UpdateLibraryClauseDto,
+    user: User,
+  ): Promise<LibraryClause> {
+    const clause = await this.findOne(id, user);
+    const textChanged =
+      (updateClauseDto.title !== undefined && updateClauseDto.title !== clause.title) ||
+      (updateClauseDto.body !== undefined && updateClauseDto.body !== clause.body);
+
+    Object.assign(clause, updateClauseDto);
+    if (updateClauseDto.tags) {
+      clause.tags = normalizeTags(updateClauseDto.tags);
+    }
+    if (textChanged) {
+      clause.version += 1;
+    }
+    return await this.clauseRepository.save(clause);
+  }
+
+  async remove(id: string, user: User): Promise<void> {
+    const clause = await this.findOne(id, user);
+    await this.clauseRepository.remove(clause);
+  }
+
+  /**
+   * Lists the documents the clause was inserted into, newest first
+   */
+  async findUsages(id: string, user: User): Promise<LibraryClauseUsage[]> {
+    const clause = await this.findOne(id, user);
+    return this.usageRepository
+      .createQueryBuilder('usage')
+      .innerJoin(Document, 'document', 'document.id = usage.documentId')
+      .where('usage.libraryClauseId = :id', { id: clause.id })
+      .andWhere('document.userId = :userId', { userId: user.id })
+      .orderBy('usage.createdAt', 'DESC')
+      .getMany();
+  }
+
+  /**
+   * Records that a version of the clause was inserted into a document. Pass
+   * the manager of the transaction that saves the document.
+   */
+  async recordUsage(
+    clause: LibraryClause,
+    document: Document,
+    clauseId: string | null,
+    userId: string,
+    manager?: EntityManager,
+  ): Promise<LibraryClauseUsage> {
+    const repository = inTransaction(this.usageRepository, manager);
+
+    const usage = repository.create({
+      libraryClauseId: clause.id,
+      libraryClauseVersion: clause.version,
+      documentId: document.id,
+      documentRevision: document.revision,
+      clauseId,
+      userId,
+    });
+    return await repository.save(usage);
+  }
+
+  private accessibleTo(user: User): SelectQueryBuilder<LibraryClause> {
+    return this.clauseRepository
+      .createQueryBuilder('clause')
+      .where('clause.userId = :userId', { userId: user.id });
+  }
+}
+
+function normalizeTags(tags: string[] = []): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
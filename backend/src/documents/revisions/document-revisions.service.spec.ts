@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { DocumentRevisionsService } from './document-revisions.service';
+import { DocumentRevision } from '../entities/document-revision.entity';
+
+describe('DocumentRevisionsService', () => {
+  let service: DocumentRevisionsService;
+
+  const revisions = {
+    1: 'Services Agreement\n\n1. Term\nTwelve months.\n\n2. Fees\n$1,000 per month.',
+    2: 'Services Agreement\n\n1. Term\nSix months.\n\n2. Fees\n$1,000 per month.\n\n3. Termination\nThirty days notice.',
+  };
+
+  const mockRepository = {
+    findOne: jest.fn(({ where }) =>
+      Promise.resolve(
+        revisions[where.revision]
+          ? Object.assign(new DocumentRevision(), {
+              documentId: where.documentId,
+              revision: where.revision,
+              content: revisions[where.revision],
+            })
+          : null,
+      ),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentRevisionsService,
+        { provide: getRepositoryToken(DocumentRevision), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<DocumentRevisionsService>(DocumentRevisionsService);
+  });
+
+  it('should diff revisions line by line', async () => {
+    const diff = await service.diff('document-123', 1, 2, 'line');
+
+    expect(diff).toEqual(
+      expect.objectContaining({ from: 1, to: 2, granularity: 'line', added: 4, removed: 1 }),
+    );
+    expect(diff.hunks.filter((hunk) => hunk.kind !== 'equal')).toEqual([
+      { kind: 'removed', fromStart: 4, toStart: 4, segments: ['Twelve months.'] },
+      { kind: 'added', fromStart: 5, toStart: 4, segments: ['Six months.'] },
+      {
+        kind: 'added',
+        fromStart: 8,
+        toStart: 8,
+        segments: ['', '3. Termination', 'Thirty days notice.'],
+      },
+    ]);
+  });
+
+  it('should diff revisions clause by clause', async () => {
+    const diff = await service.diff('document-123', 1, 2, 'clause');
+
+    expect(diff.hunks).toEqual([
+      { kind: 'equal', fromStart: 1, toStart: 1, segments: ['Services Agreement'] },
+      { kind: 'removed', fromStart: 2, toStart: 2, segments: ['1. Term\nTwelve months.'] },
+      { kind: 'added', fromStart: 3, toStart: 2, segments: ['1. Term\nSix months.'] },
+      { kind: 'equal', fromStart: 3, toStart: 3, segments: ['2. Fees\n$1,000 per month.'] },
+      {
+        kind: 'added',
+        fromStart: 4,
+        toStart: 4,
+        segments: ['3. Termination\nThirty days notice.'],
+      },
+    ]);
+  });
+
+  it('should throw NotFoundException for unknown revisions', async () => {
+    await expect(service.diff('document-123', 1, 5, 'line')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { inTransaction } from '../../database/transaction.util';
+import { Document } from '../entities/document.entity';
+import { DocumentRevision } from '../entities/document-revision.entity';
+import { RevisionDiff, RevisionDiffGranularity, diffContent } from './revision-diff.util';
+
+export interface DocumentRevisionDiff extends RevisionDiff {
+  from: number;
+  to: number;
+  granularity: RevisionDiffGranularity;
+}
+
+@Injectable()
+export class DocumentRevisionsService {
+  constructor(
+    @InjectRepository(DocumentRevision)
+    private readonly revisionRepository: Repository<DocumentRevision>,
+  ) {}
+
+  /**
+   * Stores the current content of the document as its revision number
+   * document.revision, in the transaction of the manager if given (see
+   * inTransaction).
+   */
+  async record(
+    document: Document,
+    authorId: string,
+    options: { changeNote?: string; restoredFromRevision?: number; manager?: EntityManager } = {},
+  ): Promise<DocumentRevision> {
+    const repository = inTransaction(this.revisionRepository, options.manager);
+
+    const revision = repository.create({
+      documentId: document.id,
+      revision: document.revision,
+      content: document.content,
+      changeNote: options.changeNote ?? null,
+      restoredFromRevision: options.restoredFromRevision ?? null,
+      authorId,
+    });
+
+    return await repository.save(revision);
+  }
+
+  async findByDocument(documentId: string): Promise<DocumentRevision[]> {
+    return this.revisionRepository.find({
+      select: [
+        'id',
+        'documentId',
+        'revision',
+        'changeNote',
+        'restoredFromRevision',
+        'authorId',
+        'createdAt',
+      ],
+      where: { documentId },
+      order: { revision: 'DESC' },
+    });
+  }
+
+  async findOne(documentId: string, revision: number): Promise<DocumentRevision> {
+    const documentRevision = await this.revisionRepository.findOne({
+      where: { documentId, revision },
+    });
+
+    if (!documentRevision) {
+      throw new NotFoundException('Document revision not found');
+    }
+
+    return documentRevision;
+  }
+
+  async diff(
+    documentId: string,
+    from: number,
+    to: number,
+    granularity: RevisionDiffGranularity,
+  ): Promise<DocumentRevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.findOne(documentId, from),
+      this.findOne(documentId, to),
+    ]);
+
+    return {
+      from,
+      to,
+      granularity,
+      ...diffContent(fromRevision.content, toRevision.content, granularity),
+    };
+  }
+}
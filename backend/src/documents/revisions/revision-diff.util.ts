@@ -0,0 +1,158 @@
+/**
+ * Line and clause level diffs between revisions of a document
+ */
+
+export type RevisionDiffGranularity = 'line' | 'clause';
+
+export const REVISION_DIFF_GRANULARITIES: RevisionDiffGranularity[] = ['line', 'clause'];
+
+export interface RevisionDiffHunk {
+  kind: 'equal' | 'added' | 'removed';
+  // 1-based position of the first segment in the old and new content
+  fromStart: number;
+  toStart: number;
+  segments: string[];
+}
+
+export interface RevisionDiff {
+  added: number;
+  removed: number;
+  hunks: RevisionDiffHunk[];
+}
+
+/**
+ * Splits content into the segments compared by a diff: lines, or clauses
+ * separated by blank lines
+ */
+export function splitContent(content: string, granularity: RevisionDiffGranularity): string[] {
+  const normalized = (content || '').replace(/\r\n?/g, '\n');
+  if (granularity === 'line') {
+    return normalized.length > 0 ? normalized.split('\n') : [];
+  }
+
+  return normalized
+    .split(/\n\s*\n/)
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.length > 0);
+}
+
+export function diffContent(
+  from: string,
+  to: string,
+  granularity: RevisionDiffGranularity,
+): RevisionDiff {
+  const hunks = diffSegments(splitContent(from, granularity), splitContent(to, granularity));
+  const count = (kind: RevisionDiffHunk['kind']) =>
+    hunks
+      .filter((hunk) => hunk.kind === kind)
+      .reduce((total, hunk) => total + hunk.segments.length, 0);
+
+  return { added: count('added'), removed: count('removed'), hunks };
+}
+
+/**
+ * Shortest edit script between two segment lists (Myers' algorithm), grouped
+ * into runs of equal, removed and added segments
+ */
+export function diffSegments(a: string[], b: string[]): RevisionDiffHunk[] {
+  // Common leading and trailing segments need no search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const edits: Array<{ kind: RevisionDiffHunk['kind']; segment: string }> = [];
+  a.slice(0, prefix).forEach((segment) => edits.push({ kind: 'equal', segment }));
+  edits.push(
+    ...shortestEditScript(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+  );
+  a.slice(a.length - suffix).forEach((segment) => edits.push({ kind: 'equal', segment }));
+
+  const hunks: RevisionDiffHunk[] = [];
+  let fromIndex = 0;
+  let toIndex = 0;
+  edits.forEach(({ kind, segment }) => {
+    const last = hunks[hunks.length - 1];
+    if (last?.kind === kind) {
+      last.segments.push(segment);
+    } else {
+      hunks.push({ kind, fromStart: fromIndex + 1, toStart: toIndex + 1, segments: [segment] });
+    }
+    if (kind !== 'added') {
+      fromIndex++;
+    }
+    if (kind !== 'removed') {
+      toIndex++;
+    }
+  });
+
+  return hunks;
+}
+
+function shortestEditScript(
+  a: string[],
+  b: string[],
+): Array<{ kind: RevisionDiffHunk['kind']; segment: string }> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Snapshots of the diagonals reachable before each round, kept for backtracking
+  const trace: Int32Array[] = [];
+
+  let distance = -1;
+  for (let d = 0; d <= max && distance < 0; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break;
+      }
+    }
+  }
+
+  const edits: Array<{ kind: RevisionDiffHunk['kind']; segment: string }> = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ kind: 'equal', segment: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ kind: 'added', segment: b[--y] });
+      } else {
+        edits.push({ kind: 'removed', segment: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { DocumentSearchService } from './document-search.service';
+import { Document } from '../entities/document.entity';
+
+describe('DocumentSearchService', () => {
+  let service: DocumentSearchService;
+
+  const ids = [
+    '00000000-0000-4000-8000-000000000001',
+    '00000000-0000-4000-8000-000000000002',
+    '00000000-0000-4000-8000-000000000003',
+  ];
+
+  const buildDocument = (id: string): Document =>
+    Object.assign(new Document(), {
+      id,
+      name: 'Consulting Agreement',
+      type: 'contract',
+      status: 'draft',
+      tags: ['Consulting'],
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-02T00:00:00Z'),
+    });
+
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getRawAndEntities: jest.fn(),
+  };
+
+  const mockRepository = {
+    createQueryBuilder: jest.fn(() => query),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentSearchService,
+        { provide: getRepositoryToken(Document), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<DocumentSearchService>(DocumentSearchService);
+    query.getRawAndEntities.mockResolvedValue({
+      entities: ids.map(buildDocument),
+      raw: ids.map((id, index) => ({
+        document_id: id,
+        search_key: String(0.5 - index / 10),
+        search_snippet: 'The <mark>consultant</mark> shall provide the services',
+      })),
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return ranked hits with snippets and a cursor to the next page', async () => {
+    const page = await service.search('user-123', { q: 'consulting', limit: 2 });
+
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(page.data).toEqual([
+      expect.objectContaining({
+        id: ids[0],
+        rank: 0.5,
+        snippet: expect.stringContaining('<mark>'),
+      }),
+      expect.objectContaining({ id: ids[1], rank: 0.4 }),
+    ]);
+    expect(page.nextCursor).toEqual(expect.any(String));
+
+    await service.search('user-123', { q: 'consulting', limit: 2, cursor: page.nextCursor });
+
+    expect(query.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('document.id > :cursorId'),
+      { cursorKey: '0.4', cursorId: ids[1] },
+    );
+  });
+
+  it('should filter by tags in lower case', async () => {
+    const page = await service.search('user-123', { tags: 'Consulting, consulting ,NDA' });
+
+    expect(query.andWhere).toHaveBeenCalledWith(expect.stringContaining('@>'), {
+      tags: '["consulting","nda"]',
+    });
+    expect(page.data[0].rank).toBeUndefined();
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should reject a cursor from a different kind of search', async () => {
+    query.getRawAndEntities.mockResolvedValueOnce({
+      entities: ids.map(buildDocument),
+      raw: ids.map((id) => ({ document_id: id, search_key: '2026-01-02 00:00:00.123456' })),
+    });
+    const page = await service.search('user-123', { limit: 1 });
+
+    await expect(
+      service.search('user-123', { q: 'consulting', cursor: page.nextCursor }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(service.search('user-123', { cursor: 'not-a-cursor' })).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
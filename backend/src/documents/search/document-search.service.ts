@@ -0,0 +1,179 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Document, DocumentStatus } from '../entities/document.entity';
+import { SearchDocumentsQueryDto } from '../dto/search-documents-query.dto';
+
+export interface DocumentSearchHit {
+  id: string;
+  name: string;
+  type: string;
+  status: DocumentStatus;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  // Only set when searching for text
+  rank?: number;
+  snippet?: string;
+}
+
+export interface DocumentSearchPage {
+  data: DocumentSearchHit[];
+  nextCursor: string | null;
+}
+
+interface SearchCursor {
+  // Whether the page was ordered by rank rather than by last update
+  ranked: boolean;
+  // Sort key of the last document of the page, as text
+  key: string;
+  id: string;
+}
+
+const RANK = 'ts_rank(document.searchVector, document_search_query(:q), 1)';
+
+// The content is escaped so that the snippet is safe to render as HTML
+const SNIPPET = `ts_headline(
+  'english',
+  replace(replace(replace(document.content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+  document_search_query(:q),
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=3, FragmentDelimiter=" … "'
+)`;
+
+/**
+ * Searches the documents of a user. Text is matched against the search
+ * vector that the database keeps for each document (see the
+ * DocumentSearch migration), with the name weighted above the tags and the
+ * tags above the content.
+ */
+@Injectable()
+export class DocumentSearchService {
+  constructor(
+    @InjectRepository(Document)
+    private readonly documentRepository: Repository<Document>,
+  ) {}
+
+  async search(userId: string, query: SearchDocumentsQueryDto): Promise<DocumentSearchPage> {
+    const text = query.q?.trim();
+    const limit = query.limit ?? 20;
+    const sortKey = text ? RANK : 'document.updatedAt';
+    const cursor = query.cursor ? decodeCursor(query.cursor, !!text) : null;
+
+    const builder = this.documentRepository
+      .createQueryBuilder('document')
+      .select([
+        'document.id',
+        'document.name',
+        'document.type',
+        'document.status',
+        'document.tags',
+        'document.createdAt',
+        'document.updatedAt',
+      ])
+      .addSelect(`CAST(${sortKey} AS text)`, 'search_key')
+      .where('document.userId = :userId', { userId });
+
+    if (text) {
+      builder
+        .addSelect(SNIPPET, 'search_snippet')
+        .andWhere('document.searchVector @@ document_search_query(:q)')
+        .setParameter('q', text);
+    }
+    if (query.type) {
+      builder.andWhere('document.type = :type', { type: query.type });
+    }
+    if (query.status) {
+      builder.andWhere('document.status = :status', { status: query.status });
+    }
+    if (query.from) {
+      builder.andWhere('document.createdAt >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      builder.andWhere('document.createdAt < :to', { to: new Date(query.to) });
+    }
+    const tags = [
+      ...new Set(
+        (query.tags ?? '')
+          .split(',')
+          .map((tag) => tag.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    ];
+    if (tags.length > 0) {
+      // Document tags are stored as entered, so compare them in lower case
+      builder.andWhere(
+        'CAST(LOWER(CAST(document.tags AS text)) AS jsonb) @> CAST(:tags AS jsonb)',
+        { tags: JSON.stringify(tags) },
+      );
+    }
+    if (cursor) {
+      // The key is compared as text cast back to its type, as a JavaScript
+      // Date would lose the microseconds of the timestamp
+      const type = text ? 'real' : 'timestamp';
+      builder.andWhere(
+        `(${sortKey} < CAST(:cursorKey AS ${type}) OR (${sortKey} = CAST(:cursorKey AS ${type}) AND document.id > :cursorId))`,
+        { cursorKey: cursor.key, cursorId: cursor.id },
+      );
+    }
+
+    const { entities, raw } = await builder
+      .orderBy(sortKey, 'DESC')
+      .addOrderBy('document.id', 'ASC')
+      .limit(limit + 1)
+      .getRawAndEntities();
+
+    const rows = new Map(raw.map((row) => [row.document_id, row]));
+    const hits = entities.slice(0, limit).map((document) => {
+      const row = rows.get(document.id);
+      const hit: DocumentSearchHit = {
+        id: document.id,
+        name: document.name,
+        type: document.type,
+        status: document.status,
+        tags: document.tags ?? [],
+        createdAt: document.createdAt,
+        updatedAt: document.updatedAt,
+      };
+      if (text) {
+        hit.rank = Number(row.search_key);
+        hit.snippet = row.search_snippet ?? '';
+      }
+      return hit;
+    });
+
+    const last = hits[hits.length - 1];
+    return {
+      data: hits,
+      nextCursor:
+        entities.length > limit
+          ? encodeCursor({ ranked: !!text, key: rows.get(last.id).search_key, id: last.id })
+          : null,
+    };
+  }
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string, ranked: boolean): SearchCursor {
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const validKey = ranked
+    ? typeof cursor?.key === 'string' && Number.isFinite(Number(cursor.key))
+    : /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(cursor?.key);
+  if (
+    cursor?.ranked !== ranked ||
+    !validKey ||
+    typeof cursor.id !== 'string' ||
+    !/^[0-9a-f-]{36}$/i.test(cursor.id)
+  ) {
+    throw new BadRequestException('Invalid cursor; repeat the search without it');
+  }
+  return cursor;
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PayloadTooLargeException, UnsupportedMediaTypeException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { DocumentFilesService, MAX_DOCUMENT_FILE_SIZE } from './document-files.service';
+import { DOCUMENT_STORAGE } from './document-storage.interface';
+import { Document } from '../entities/document.entity';
+import { EncryptionService } from '../../privacy/encryption.service';
+
+describe('DocumentFilesService', () => {
+  let service: DocumentFilesService;
+  let stored: Map<string, Buffer>;
+
+  const mockRepository = {
+    save: jest.fn((document) => Promise.resolve(document)),
+  };
+
+  const mockStorage = {
+    driver: 'local',
+    put: jest.fn((key: string, body: Buffer) => {
+      stored.set(key, body);
+      return Promise.resolve();
+    }),
+    // Small chunks, so that the header is split across them
+    get: jest.fn((key: string) => {
+      const body = stored.get(key);
+      const chunks = [];
+      for (let offset = 0; offset < body.length; offset += 7) {
+        chunks.push(body.subarray(offset, offset + 7));
+      }
+      return Promise.resolve(Readable.from(chunks));
+    }),
+    delete: jest.fn((key: string) => {
+      stored.delete(key);
+      return Promise.resolve();
+    }),
+  };
+
+  const buildFile = (content: Buffer, mimetype: string): Express.Multer.File =>
+    ({ originalname: 'agreement.pdf', buffer: content, size: content.length, mimetype }) as any;
+
+  const pdf = Buffer.from('%PDF-1.7\nService agreement between Acme and KitOps');
+
+  const readAll = async (stream: Readable) => {
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    stored = new Map();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentFilesService,
+        EncryptionService,
+        { provide: getRepositoryToken(Document), useValue: mockRepository },
+        { provide: DOCUMENT_STORAGE, useValue: mockStorage },
+      ],
+    }).compile();
+
+    service = module.get<DocumentFilesService>(DocumentFilesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store files encrypted and stream them back decrypted', async () => {
+    const document = Object.assign(new Document(), { id: 'document-123' });
+
+    await service.upload(document, buildFile(pdf, 'application/pdf'));
+
+    const [key] = [...stored.keys()];
+    expect(document).toEqual(
+      expect.objectContaining({
+        fileUrl: key,
+        fileName: 'agreement.pdf',
+        fileSize: pdf.length,
+        mimeType: 'application/pdf',
+      }),
+    );
+    expect(stored.get(key).includes('Service agreement')).toBe(false);
+
+    const file = await service.download(document);
+    expect(await readAll(file.stream)).toEqual(pdf);
+    expect(file).toEqual(
+      expect.objectContaining({ mimeType: 'application/pdf', size: pdf.length }),
+    );
+  });
+
+  it('should fail the download of a file that was altered in storage', async () => {
+    const document = Object.assign(new Document(), { id: 'document-123' });
+    await service.upload(document, buildFile(pdf, 'application/pdf'));
+
+    const body = stored.get(document.fileUrl);
+    body[body.length - 1] ^= 0xff;
+
+    const file = await service.download(document);
+    await expect(readAll(file.stream)).rejects.toThrow('authenticate');
+  });
+
+  it('should replace the previous file', async () => {
+    const document = Object.assign(new Document(), {
+      id: 'document-123',
+      fileUrl: 'documents/document-123/previous',
+    });
+
+    await service.upload(document, buildFile(Buffer.from('Plain notes'), 'text/plain'));
+
+    expect(mockStorage.delete).toHaveBeenCalledWith('documents/document-123/previous');
+    expect(document.mimeType).toBe('text/plain');
+  });
+
+  it('should reject unsupported, mislabelled and oversized files', async () => {
+    const document = Object.assign(new Document(), { id: 'document-123' });
+
+    await expect(
+      service.upload(document, buildFile(Buffer.from([0x4d, 0x5a, 0x90, 0x00]), 'application/pdf')),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+    await expect(service.upload(document, buildFile(pdf, 'image/png'))).rejects.toThrow(
+      'does not match the declared image/png',
+    );
+    await expect(
+      service.upload(document, {
+        ...buildFile(pdf, 'application/pdf'),
+        size: MAX_DOCUMENT_FILE_SIZE + 1,
+      }),
+    ).rejects.toThrow(PayloadTooLargeException);
+    expect(mockStorage.put).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { basename } from 'path';
+import { Readable, pipeline } from 'stream';
+import { Document } from '../entities/document.entity';
+import { EncryptedData, EncryptionService } from '../../privacy/encryption.service';
+import { DOCUMENT_STORAGE, DocumentStorage } from './document-storage.interface';
+import { DOCUMENT_FILE_TYPES, sniffFileType } from './file-type.util';
+
+export const MAX_DOCUMENT_FILE_SIZE = 10 * 1024 * 1024;
+
+// Longest header line of a stored file
+const MAX_HEADER_SIZE = 1024;
+
+export interface DocumentFile {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  stream: Readable;
+}
+
+/**
+ * Keeps the files uploaded for documents in the configured storage. Files
+ * are stored encrypted by EncryptionService.encryptFile, as a line with the
+ * JSON of its IV, tag and algorithm followed by the raw encrypted data, so
+ * that downloads can be decrypted as a stream.
+ */
+@Injectable()
+export class DocumentFilesService {
+  constructor(
+    @InjectRepository(Document)
+    private documentRepository: Repository<Document>,
+    @Inject(DOCUMENT_STORAGE)
+    private storage: DocumentStorage,
+    private encryptionService: EncryptionService,
+  ) {}
+
+  /**
+   * Stores the file of a document, replacing the previous one
+   */
+  async upload(document: Document, file: Express.Multer.File): Promise<Document> {
+    if (!file?.buffer || file.size === 0) {
+      throw new BadRequestException('File is required');
+    }
+    if (file.size > MAX_DOCUMENT_FILE_SIZE) {
+      throw new PayloadTooLargeException(
+        `File exceeds the limit of ${MAX_DOCUMENT_FILE_SIZE} bytes`,
+      );
+    }
+
+    const mimeType = sniffFileType(file.buffer, file.mimetype);
+    if (!mimeType || !DOCUMENT_FILE_TYPES.includes(mimeType)) {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported file type; allowed types are ${DOCUMENT_FILE_TYPES.join(', ')}`,
+      );
+    }
+    if (
+      file.mimetype &&
+      file.mimetype !== 'application/octet-stream' &&
+      file.mimetype !== mimeType
+    ) {
+      throw new UnsupportedMediaTypeException(
+        `File content is ${mimeType}, which does not match the declared ${file.mimetype}`,
+      );
+    }
+
+    const key = `documents/${document.id}/${randomUUID()}`;
+    const { data, ...header } = this.encryptionService.encryptFile(file.buffer);
+    await this.storage.put(
+      key,
+      Buffer.concat([Buffer.from(`${JSON.stringify(header)}\n`), Buffer.from(data, 'base64')]),
+      'application/octet-stream',
+    );
+
+    const previousKey = document.fileUrl;
+    Object.assign(document, {
+      fileUrl: key,
+      fileName: sanitizeFileName(file.originalname),
+      fileSize: file.size,
+      mimeType,
+    });
+
+    try {
+      await this.documentRepository.save(document);
+    } catch (error) {
+      await this.storage.delete(key);
+      throw error;
+    }
+
+    if (previousKey) {
+      await this.storage.delete(previousKey);
+    }
+    return document;
+  }
+
+  async download(document: Document): Promise<DocumentFile> {
+    if (!document.fileUrl) {
+      throw new NotFoundException('Document has no file');
+    }
+
+    const { header, body } = await readHeader(await this.storage.get(document.fileUrl));
+    const decipher = this.encryptionService.createFileDecipher(header);
+
+    return {
+      fileName: document.fileName || 'document',
+      mimeType: document.mimeType,
+      size: document.fileSize,
+      // Errors of either stream, such as a failed authentication, end the download
+      stream: pipeline(body, decipher, () => undefined),
+    };
+  }
+
+  async remove(document: Document): Promise<Document> {
+    if (!document.fileUrl) {
+      throw new NotFoundException('Document has no file');
+    }
+
+    const key = document.fileUrl;
+    Object.assign(document, { fileUrl: null, fileName: null, fileSize: null, mimeType: null });
+    await this.documentRepository.save(document);
+    await this.storage.delete(key);
+    return document;
+  }
+}
+
+/**
+ * Splits a stored file into its header and a stream of the encrypted data
+ */
+async function readHeader(
+  stored: Readable,
+): Promise<{ header: Omit<EncryptedData, 'data'>; body: Readable }> {
+  const chunks = stored[Symbol.asyncIterator]();
+  let buffered = Buffer.alloc(0);
+  let end = -1;
+
+  while ((end = buffered.indexOf('\n')) < 0) {
+    const { value, done } = await chunks.next();
+    if (done || buffered.length > MAX_HEADER_SIZE) {
+      stored.destroy();
+      throw new Error('Stored file has no valid header');
+    }
+    buffered = Buffer.concat([buffered, Buffer.from(value)]);
+  }
+
+  const rest = buffered.subarray(end + 1);
+  async function* readBody() {
+    try {
+      if (rest.length > 0) {
+        yield rest;
+      }
+      for (let chunk = await chunks.next(); !chunk.done; chunk = await chunks.next()) {
+        yield chunk.value;
+      }
+    } finally {
+      // Closes the stored file when the download is abandoned
+      await chunks.return?.();
+    }
+  }
+
+  return {
+    header: JSON.parse(buffered.subarray(0, end).toString()),
+    body: Readable.from(readBody()),
+  };
+}
+
+function sanitizeFileName(name: string): string {
+  // eslint-disable-next-line no-control-regex
+  const sanitized = basename(name || '')
+    .replace(/[\u0000-\u001f"\\]/g, '')
+    .trim();
+  return sanitized.slice(0, 255) || 'document';
+}
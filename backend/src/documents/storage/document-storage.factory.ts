@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  DOCUMENT_STORAGE_DRIVERS,
+  DocumentStorage,
+  DocumentStorageDriver,
+} from './document-storage.interface';
+import { LocalDocumentStorage } from './local-document-storage';
+import { S3DocumentStorage } from './s3-document-storage';
+
+/**
+ * Creates the backend selected by DOCUMENT_STORAGE_DRIVER, local by default
+ */
+export function createDocumentStorage(configService: ConfigService): DocumentStorage {
+  const driver = configService.get<DocumentStorageDriver>('DOCUMENT_STORAGE_DRIVER', 'local');
+  if (!DOCUMENT_STORAGE_DRIVERS.includes(driver)) {
+    throw new Error(
+      `DOCUMENT_STORAGE_DRIVER must be one of ${DOCUMENT_STORAGE_DRIVERS.join(', ')}`,
+    );
+  }
+
+  if (driver === 'local') {
+    return new LocalDocumentStorage(
+      configService.get('DOCUMENT_STORAGE_PATH', 'storage/documents'),
+    );
+  }
+
+  const options = {
+    bucket: configService.get('S3_BUCKET_NAME'),
+    region: configService.get('AWS_REGION', 'us-east-1'),
+    accessKeyId: configService.get('AWS_ACCESS_KEY_ID'),
+    secretAccessKey: configService.get('AWS_SECRET_ACCESS_KEY'),
+    endpoint: configService.get('S3_ENDPOINT'),
+  };
+  if (!options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+    throw new Error(
+      'S3 document storage requires S3_BUCKET_NAME, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY',
+    );
+  }
+  return new S3DocumentStorage(options);
+}
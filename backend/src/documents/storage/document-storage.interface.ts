@@ -0,0 +1,22 @@
+/**
+ * Contract of the backends that hold uploaded document files
+ */
+import { Readable } from 'stream';
+
+export const DOCUMENT_STORAGE = 'DOCUMENT_STORAGE';
+
+export const DOCUMENT_STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type DocumentStorageDriver = (typeof DOCUMENT_STORAGE_DRIVERS)[number];
+
+export interface DocumentStorage {
+  readonly driver: DocumentStorageDriver;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  // Rejects with NotFoundException when nothing is stored under the key
+  get(key: string): Promise<Readable>;
+
+  // Succeeds when nothing is stored under the key
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,69 @@
+/**
+ * Detects the type of uploaded files from their content rather than the
+ * name or the type declared by the client
+ */
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export const DOCUMENT_FILE_TYPES = [
+  'application/pdf',
+  DOCX_TYPE,
+  'application/msword',
+  'application/rtf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'image/png',
+  'image/jpeg',
+];
+
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+
+const SIGNATURES: Array<{ type: string; bytes: number[] }> = [
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'application/rtf', bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66] },
+  { type: 'application/msword', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+/**
+ * Returns the type of the content, or null when it is not recognised. Text
+ * is reported with the declared text type when there is one, as plain text,
+ * markdown and CSV cannot be told apart reliably.
+ */
+export function sniffFileType(content: Buffer, declaredType?: string): string | null {
+  const signature = SIGNATURES.find(({ bytes }) =>
+    bytes.every((byte, index) => content[index] === byte),
+  );
+
+  if (signature?.type === 'application/zip') {
+    // Word documents are zip packages with their parts under word/
+    return content.includes('word/') ? DOCX_TYPE : 'application/zip';
+  }
+  if (signature) {
+    return signature.type;
+  }
+
+  if (content.length > 0 && isText(content)) {
+    return TEXT_TYPES.includes(declaredType) ? declaredType : 'text/plain';
+  }
+  return null;
+}
+
+function isText(content: Buffer): boolean {
+  const sample = content.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming leaves a multi-byte character cut off by the sample undecoded
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, {
+      stream: content.length > sample.length,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,45 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream, promises as fs } from 'fs';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { DocumentStorage } from './document-storage.interface';
+
+/**
+ * Stores files under a directory of the local filesystem
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+  readonly driver = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolvePath(key);
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.resolvePath(key);
+    try {
+      await fs.access(path);
+    } catch {
+      throw new NotFoundException('Stored file not found');
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  private resolvePath(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Storage key "${key}" is outside of the storage directory`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,128 @@
+import { NotFoundException } from '@nestjs/common';
+import axios, { AxiosError } from 'axios';
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import { DocumentStorage } from './document-storage.interface';
+
+export interface S3DocumentStorageOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // S3-compatible service such as MinIO; buckets are then addressed by path
+  endpoint?: string;
+}
+
+const EMPTY_PAYLOAD_HASH = sha256('');
+
+/**
+ * Stores files in an S3 bucket or an S3-compatible service, signing
+ * requests with AWS Signature Version 4
+ */
+export class S3DocumentStorage implements DocumentStorage {
+  readonly driver = 's3';
+
+  constructor(private readonly options: S3DocumentStorageOptions) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.request('PUT', key, body, { 'content-type': contentType });
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.request('GET', key);
+      return response.data;
+    } catch (error) {
+      if ((error as AxiosError).response?.status === 404) {
+        throw new NotFoundException('Stored file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {},
+  ) {
+    const { bucket, region, endpoint } = this.options;
+    const path = key.split('/').map(encodeKeySegment).join('/');
+    const url = endpoint
+      ? new URL(`${endpoint.replace(/\/+$/, '')}/${bucket}/${path}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${path}`);
+
+    return axios.request<Readable>({
+      method,
+      url: url.toString(),
+      data: body,
+      headers: this.sign(method, url, body ? sha256(body) : EMPTY_PAYLOAD_HASH, headers),
+      responseType: 'stream',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+  }
+
+  private sign(
+    method: string,
+    url: URL,
+    payloadHash: string,
+    headers: Record<string, string>,
+    now = new Date(),
+  ): Record<string, string> {
+    const { region, accessKeyId, secretAccessKey } = this.options;
+    const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const signed: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...names.map((name) => `${name}:${signed[name].trim()}`),
+      '',
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [date, region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => hmac(key, part),
+      `AWS4${secretAccessKey}`,
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...signed,
+      authorization:
+        `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, ` +
+        `SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+  }
+}
+
+function encodeKeySegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
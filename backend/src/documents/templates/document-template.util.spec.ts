@@ -0,0 +1,133 @@
+import {
+  TemplateSyntaxError,
+  parseTemplate,
+  renderTemplate,
+  resolveTemplateValues,
+  validateTemplateVariables,
+} from './document-template.util';
+
+describe('document templates', () => {
+  describe('resolveTemplateValues', () => {
+    const variables = [
+      { name: 'date', type: 'date' as const, required: true },
+      { name: 'jurisdiction', type: 'string' as const, options: ['Delaware', 'New York'] },
+      { name: 'payment.amount', type: 'amount' as const, min: 0, default: 1000 },
+      {
+        name: 'line_items',
+        type: 'list' as const,
+        fields: [{ name: 'quantity', type: 'number' as const, required: true }],
+      },
+    ];
+
+    it('should apply defaults at nested paths', () => {
+      const result = resolveTemplateValues(variables, { date: '2025-01-31' });
+
+      expect(result).toEqual({
+        values: { date: '2025-01-31', payment: { amount: 1000 } },
+        errors: [],
+      });
+    });
+
+    it('should report each invalid field, including list items', () => {
+      const result = resolveTemplateValues(variables, {
+        date: '31/01/2025',
+        jurisdiction: 'Texas',
+        payment: { amount: -5 },
+        line_items: [{ quantity: 2 }, { quantity: 'two' }, {}],
+      });
+
+      expect(result.errors).toEqual([
+        { field: 'date', message: 'must be a date in YYYY-MM-DD format' },
+        { field: 'jurisdiction', message: 'must be one of Delaware, New York' },
+        { field: 'payment.amount', message: 'must be at least 0' },
+        { field: 'line_items[1].quantity', message: 'must be a number' },
+        { field: 'line_items[2].quantity', message: 'is required' },
+      ]);
+    });
+
+    it('should not write values onto prototypes', () => {
+      const declared = [
+        { name: '__proto__.polluted', default: 'yes' },
+        { name: 'constructor.prototype.polluted', default: 'yes' },
+      ];
+
+      const result = resolveTemplateValues(declared, JSON.parse('{"__proto__": {}}'));
+
+      expect(({} as any).polluted).toBeUndefined();
+      expect(result.errors).toEqual([
+        { field: '__proto__.polluted', message: 'is not an allowed variable name' },
+        { field: 'constructor.prototype.polluted', message: 'is not an allowed variable name' },
+      ]);
+      expect(validateTemplateVariables(declared)).toEqual([
+        'variables[0].name must not contain __proto__, prototype, constructor',
+        'variables[1].name must not contain __proto__, prototype, constructor',
+      ]);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should render conditionals and repeating sections', () => {
+      const content = [
+        'Invoice for {{client}}',
+        '{{#each items}}',
+        '{{@number}}. {{name}}: {{price}}{{#if @last}} (final){{/if}}',
+        '{{/each}}',
+        '{{#if discount}}Discount: {{discount}}{{else}}No discount{{/if}}',
+        'Due {{due}}',
+      ].join('\n');
+      const variables = [
+        { name: 'due', type: 'date' as const },
+        {
+          name: 'items',
+          type: 'list' as const,
+          fields: [{ name: 'price', type: 'amount' as const, currency: 'USD' }],
+        },
+      ];
+
+      const result = renderTemplate(
+        content,
+        {
+          client: 'Acme',
+          due: '2025-02-28',
+          items: [
+            { name: 'Design', price: 1500 },
+            { name: 'Hosting', price: 20.5 },
+          ],
+        },
+        variables,
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.content).toBe(
+        [
+          'Invoice for Acme',
+          '1. Design: $1,500.00',
+          '2. Hosting: $20.50 (final)',
+          'No discount',
+          'Due February 28, 2025',
+        ].join('\n'),
+      );
+    });
+
+    it('should report undeclared placeholders without a value', () => {
+      const result = renderTemplate(
+        '{{#each items}}{{name}} {{sku}}{{/each}} {{notes}}',
+        { items: [{ name: 'Design' }] },
+        [{ name: 'notes' }],
+      );
+
+      expect(result).toEqual({
+        content: 'Design  ',
+        errors: [{ field: 'items[0].sku', message: 'has no value' }],
+      });
+    });
+  });
+
+  it('should reject unbalanced sections and invalid declarations', () => {
+    expect(() => parseTemplate('{{#if paid}}Paid{{/each}}')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{#each items}}{{name}}')).toThrow('is not closed');
+    expect(
+      validateTemplateVariables([{ name: 'total', type: 'currency' as any, default: 'ten' }]),
+    ).toEqual(['variables[0].type must be one of string, number, amount, date, boolean, list']);
+  });
+});
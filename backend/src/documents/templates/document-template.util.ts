@@ -0,0 +1,486 @@
+/**
+ * Variables and rendering of document templates. Templates use a subset of
+ * the Handlebars syntax:
+ *
+ *   {{client.company}}                      value of a variable
+ *   {{#if path}} ... {{else}} ... {{/if}}   conditional section
+ *   {{#unless path}} ... {{/unless}}        inverted conditional section
+ *   {{#each path}} ... {{/each}}            repeated once per list item
+ *
+ * Inside each, item fields are in scope along with this, @index (from 0),
+ * @number (from 1), @first and @last. Section tags on a line of their own
+ * do not leave an empty line behind.
+ */
+
+export const TEMPLATE_VARIABLE_TYPES = [
+  'string',
+  'number',
+  'amount',
+  'date',
+  'boolean',
+  'list',
+] as const;
+
+export type TemplateVariableType = (typeof TEMPLATE_VARIABLE_TYPES)[number];
+
+export interface TemplateVariable {
+  // Dotted path such as client.company; values are given as nested objects
+  name: string;
+  // Untyped variables accept any value
+  type?: TemplateVariableType;
+  label?: string;
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  // Allowed values of string variables, such as a list of jurisdictions
+  options?: string[];
+  // Bounds of number and amount variables
+  min?: number;
+  max?: number;
+  // ISO 4217 code used to format amounts, e.g. USD
+  currency?: string;
+  // Fields of the items of list variables
+  fields?: TemplateVariable[];
+}
+
+export interface TemplateFieldError {
+  field: string;
+  message: string;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'if'; path: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[] };
+
+interface Scope {
+  values: Record<string, any>;
+  // Declarations of the variables the values belong to, by name
+  variables: Map<string, TemplateVariable>;
+  // Prefix of error paths, e.g. line_items[2]
+  path: string;
+  item?: any;
+  index?: number;
+  count?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([\w$@.[\]-]+)(?:\s+([\w$@.[\]-]+))?\s*\}\}/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+// Path segments that would reach the prototypes of the values
+const RESERVED_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+/**
+ * Reads the variables declared in the metadata of a template. Older
+ * templates list bare names; these are treated as required untyped
+ * variables, except wildcards such as client.* which are ignored.
+ */
+export function getTemplateVariables(metadata: any): TemplateVariable[] {
+  const declared = Array.isArray(metadata?.variables) ? metadata.variables : [];
+  return declared
+    .map((variable) =>
+      typeof variable === 'string' ? { name: variable, required: true } : variable,
+    )
+    .filter(
+      (variable) => variable && typeof variable.name === 'string' && !variable.name.includes('*'),
+    );
+}
+
+/**
+ * Checks the structure of variable declarations, returning the problems found
+ */
+export function validateTemplateVariables(
+  variables: TemplateVariable[],
+  path = 'variables',
+): string[] {
+  return variables.flatMap((variable, index) => {
+    const at = `${path}[${index}]`;
+    const errors: string[] = [];
+    if (typeof variable.name !== 'string' || !/^[\w$-]+(\.[\w$-]+)*$/.test(variable.name)) {
+      errors.push(`${at}.name must be a dotted variable path`);
+    } else if (hasReservedSegment(variable.name)) {
+      errors.push(`${at}.name must not contain ${RESERVED_SEGMENTS.join(', ')}`);
+    }
+    if (variable.type !== undefined && !TEMPLATE_VARIABLE_TYPES.includes(variable.type)) {
+      errors.push(`${at}.type must be one of ${TEMPLATE_VARIABLE_TYPES.join(', ')}`);
+    }
+    if (variable.fields !== undefined) {
+      if (variable.type !== 'list' || !Array.isArray(variable.fields)) {
+        errors.push(`${at}.fields is only allowed on list variables`);
+      } else {
+        errors.push(...validateTemplateVariables(variable.fields, `${at}.fields`));
+      }
+    }
+    if (variable.default !== undefined) {
+      const message = checkValue(variable, variable.default);
+      if (message) {
+        errors.push(`${at}.default ${message}`);
+      }
+    }
+    return errors;
+  });
+}
+
+/**
+ * Applies defaults to the given values and validates them against the
+ * declared variables
+ */
+export function resolveTemplateValues(
+  variables: TemplateVariable[],
+  values: Record<string, any> = {},
+  path = '',
+): { values: Record<string, any>; errors: TemplateFieldError[] } {
+  const resolved = structuredClone(values);
+  const errors: TemplateFieldError[] = [];
+
+  variables.forEach((variable) => {
+    const field = path ? `${path}.${variable.name}` : variable.name;
+    if (hasReservedSegment(variable.name)) {
+      errors.push({ field, message: 'is not an allowed variable name' });
+      return;
+    }
+
+    let value = getValueAtPath(resolved, variable.name);
+    if (isBlank(value) && variable.default !== undefined) {
+      value = structuredClone(variable.default);
+      setValueAtPath(resolved, variable.name, value);
+    }
+
+    if (isBlank(value)) {
+      if (variable.required) {
+        errors.push({ field, message: 'is required' });
+      }
+      return;
+    }
+
+    const message = checkValue(variable, value);
+    if (message) {
+      errors.push({ field, message });
+      return;
+    }
+
+    if (variable.type === 'list' && variable.fields?.length) {
+      (value as any[]).forEach((item, index) => {
+        const itemResult = resolveTemplateValues(
+          variable.fields,
+          isPlainObject(item) ? item : {},
+          `${field}[${index}]`,
+        );
+        value[index] = itemResult.values;
+        errors.push(...itemResult.errors);
+      });
+    }
+  });
+
+  return { values: resolved, errors };
+}
+
+/**
+ * Parses template content, throwing TemplateSyntaxError for unbalanced or
+ * unknown sections
+ */
+export function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open sections, innermost last, with the list new nodes are added to
+  const stack: Array<{
+    node: TemplateNode & { kind: 'if' | 'each' };
+    name: string;
+    target: TemplateNode[];
+  }> = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  let position = 0;
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const [tag, marker, name, argument] = match;
+    let start = match.index;
+    let end = match.index + tag.length;
+
+    // Section tags on a line of their own take the whole line with them
+    if (marker || name === 'else') {
+      const before = /[ \t]*$/.exec(content.slice(position, start))[0];
+      const after = /^[ \t]*(\r?\n|$)/.exec(content.slice(end));
+      const lineStart = start - before.length;
+      if (after && (lineStart === 0 || content[lineStart - 1] === '\n')) {
+        start = lineStart;
+        end += after[0].length;
+      }
+    }
+
+    if (start > position) {
+      current().push({ kind: 'text', text: content.slice(position, start) });
+    }
+    position = end;
+
+    if (marker === '#') {
+      if (!['if', 'unless', 'each'].includes(name) || !argument) {
+        throw new TemplateSyntaxError(`Unknown section "${tag}"`);
+      }
+      const node: TemplateNode & { kind: 'if' | 'each' } =
+        name === 'each'
+          ? { kind: 'each', path: argument, body: [] }
+          : { kind: 'if', path: argument, negate: name === 'unless', then: [], else: [] };
+      current().push(node);
+      stack.push({ node, name, target: node.kind === 'each' ? node.body : node.then });
+    } else if (marker === '/') {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new TemplateSyntaxError(`Unexpected "${tag}"`);
+      }
+    } else if (name === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== 'if' || open.target === open.node.else) {
+        throw new TemplateSyntaxError('Unexpected "{{else}}"');
+      }
+      open.target = open.node.else;
+    } else if (argument) {
+      throw new TemplateSyntaxError(`Unknown tag "${tag}"`);
+    } else {
+      current().push({ kind: 'value', path: name });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateSyntaxError(`Section "{{#${stack[stack.length - 1].name}}}" is not closed`);
+  }
+  if (position < content.length) {
+    root.push({ kind: 'text', text: content.slice(position) });
+  }
+  return root;
+}
+
+/**
+ * Renders template content with resolved values. Placeholders of optional
+ * variables without a value render empty; placeholders of undeclared
+ * variables without a value are reported as errors.
+ */
+export function renderTemplate(
+  content: string,
+  values: Record<string, any>,
+  variables: TemplateVariable[],
+): { content: string; errors: TemplateFieldError[] } {
+  const errors: TemplateFieldError[] = [];
+  const scopes: Scope[] = [
+    {
+      values,
+      variables: new Map(variables.map((variable) => [variable.name, variable])),
+      path: '',
+    },
+  ];
+  const output = renderNodes(parseTemplate(content), scopes, errors);
+
+  const unique = errors.filter(
+    (error, index) => errors.findIndex(({ field }) => field === error.field) === index,
+  );
+  return { content: output, errors: unique };
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], errors: TemplateFieldError[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+
+        case 'value': {
+          const { found, value, variable, field } = lookup(node.path, scopes);
+          if (!found || isBlank(value)) {
+            if (!variable) {
+              errors.push({ field, message: 'has no value' });
+            }
+            return '';
+          }
+          return formatValue(value, variable);
+        }
+
+        case 'if': {
+          const { value } = lookup(node.path, scopes);
+          const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+          return renderNodes(truthy !== node.negate ? node.then : node.else, scopes, errors);
+        }
+
+        case 'each': {
+          const { value, variable, field } = lookup(node.path, scopes);
+          if (isBlank(value)) {
+            return '';
+          }
+          if (!Array.isArray(value)) {
+            errors.push({ field, message: 'must be a list' });
+            return '';
+          }
+          const fields = new Map((variable?.fields || []).map((item) => [item.name, item]));
+          return value
+            .map((item, index) =>
+              renderNodes(
+                node.body,
+                [
+                  ...scopes,
+                  {
+                    values: isPlainObject(item) ? item : {},
+                    variables: fields,
+                    path: `${field}[${index}]`,
+                    item,
+                    index,
+                    count: value.length,
+                  },
+                ],
+                errors,
+              ),
+            )
+            .join('');
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Finds a path in the innermost scope that has it, falling back to the
+ * outer scopes
+ */
+function lookup(
+  path: string,
+  scopes: Scope[],
+): { found: boolean; value?: any; variable?: TemplateVariable; field: string } {
+  const innermost = scopes[scopes.length - 1];
+  if (path === 'this' || path.startsWith('@')) {
+    const special = {
+      this: innermost.item,
+      '@index': innermost.index,
+      '@number': innermost.index === undefined ? undefined : innermost.index + 1,
+      '@first': innermost.index === 0,
+      '@last': innermost.index === (innermost.count ?? 0) - 1,
+    };
+    return { found: path in special, value: special[path], field: innermost.path || path };
+  }
+
+  for (let index = scopes.length - 1; index >= 0; index--) {
+    const scope = scopes[index];
+    const value = getValueAtPath(scope.values, path);
+    const variable = scope.variables.get(path);
+    if (value !== undefined || variable) {
+      return {
+        found: value !== undefined,
+        value,
+        variable,
+        field: scope.path ? `${scope.path}.${path}` : path,
+      };
+    }
+  }
+
+  const field = innermost.path ? `${innermost.path}.${path}` : path;
+  return { found: false, field };
+}
+
+function checkValue(variable: TemplateVariable, value: unknown): string | null {
+  switch (variable.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return 'must be a string';
+      }
+      if (variable.options?.length && !variable.options.includes(value)) {
+        return `must be one of ${variable.options.join(', ')}`;
+      }
+      return null;
+
+    case 'number':
+    case 'amount':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (variable.min !== undefined && value < variable.min) {
+        return `must be at least ${variable.min}`;
+      }
+      if (variable.max !== undefined && value > variable.max) {
+        return `must be at most ${variable.max}`;
+      }
+      return null;
+
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : 'must be a date in YYYY-MM-DD format';
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+
+    case 'list':
+      return Array.isArray(value) ? null : 'must be a list';
+
+    default:
+      return null;
+  }
+}
+
+function formatValue(value: any, variable?: TemplateVariable): string {
+  switch (variable?.type) {
+    case 'amount':
+      return variable.currency
+        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: variable.currency }).format(
+            value,
+          )
+        : new Intl.NumberFormat('en-US', {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          }).format(value);
+
+    case 'date':
+      return new Date(value).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+      });
+
+    default:
+      if (Array.isArray(value)) {
+        return value.map((item) => formatValue(item)).join(', ');
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+// Both walk own properties only, so that paths never reach prototypes
+function getValueAtPath(values: Record<string, any>, path: string): any {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .reduce((value, segment) => (hasOwn(value, segment) ? value[segment] : undefined), values);
+}
+
+function setValueAtPath(values: Record<string, any>, path: string, value: unknown): void {
+  if (hasReservedSegment(path)) {
+    throw new Error(`Cannot set the reserved path ${path}`);
+  }
+
+  const segments = path.split('.');
+  const parent = segments.slice(0, -1).reduce((object, segment) => {
+    if (!hasOwn(object, segment) || !isPlainObject(object[segment])) {
+      object[segment] = {};
+    }
+    return object[segment];
+  }, values);
+  parent[segments[segments.length - 1]] = value;
+}
+
+function hasOwn(value: unknown, key: string): boolean {
+  return value != null && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function hasReservedSegment(path: string): boolean {
+  return path.split('.').some((segment) => RESERVED_SEGMENTS.includes(segment));
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,33 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Subject, Subscription } from 'rxjs';
+import { DomainEvent, DomainEventMap, DomainEventName } from './domain-events';
+
+@Injectable()
+export class DomainEventBus implements OnModuleDestroy {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly events$ = new Subject<DomainEvent>();
+
+  /**
+   * Publishes an event to all subscribers. Subscriber failures never reach the publisher.
+   */
+  publish<K extends DomainEventName>(
+    name: K,
+    payload: DomainEventMap[K],
+    options: { userId?: string } = {},
+  ): void {
+    this.logger.debug(`Publishing ${name}`);
+    this.events$.next({ name, payload, userId: options.userId, occurredAt: new Date() });
+  }
+
+  subscribe(handler: (event: DomainEvent) => Promise<void> | void): Subscription {
+    return this.events$.subscribe((event) => {
+      Promise.resolve()
+        .then(() => handler(event))
+        .catch((error) => this.logger.error(`Handler for ${event.name} failed: ${error.message}`));
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.events$.complete();
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Typed domain events published by feature modules
+ */
+
+export interface DomainEventMap {
+  'envelope.completed': EnvelopeEventPayload;
+  'envelope.declined': EnvelopeEventPayload;
+  'envelope.voided': EnvelopeEventPayload;
+  'payment.succeeded': {
+    paymentIntentId: string;
+    amount: number;
+    currency: string;
+    description?: string;
+  };
+  'comment.added': {
+    commentId: string;
+    documentId: string;
+    clauseIdentifier: string;
+    authorId: string;
+    content: string;
+  };
+}
+
+export interface EnvelopeEventPayload {
+  envelopeId: string;
+  documentId: string;
+  documentTitle: string;
+  status: string;
+  signerInfo?: {
+    email: string;
+    name: string;
+    status: string;
+  };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+export interface DomainEvent<K extends DomainEventName = DomainEventName> {
+  name: K;
+  payload: DomainEventMap[K];
+  // Account whose workflows may react to the event
+  userId?: string;
+  occurredAt: Date;
+}
+
+export const DOMAIN_EVENT_NAMES: DomainEventName[] = [
+  'envelope.completed',
+  'envelope.declined',
+  'envelope.voided',
+  'payment.succeeded',
+  'comment.added',
+];
+
+export function isDomainEventName(name: string): name is DomainEventName {
+  return (DOMAIN_EVENT_NAMES as string[]).includes(name);
+}
@@ -1,8 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
-import { CancellationToken } from './utils/cancellation.util';
-import { ValidationException } from './utils/validation.util';
+import { CancellationError, CancellationToken } from './utils/cancellation.util';
 
 export interface LawGeexIssue {
   id: string;
@@ -78,7 +77,7 @@ export class LawGeexService {
   async reviewContractWithLawGeex(
     documentContent: string,
     options: LawGeexReviewOptions = {},
-    cancellationToken?: CancellationToken
+    cancellationToken?: CancellationToken,
   ): Promise<LawGeexReviewResult> {
     this.logger.log('Initiating contract review with LawGeex');
 
@@ -88,10 +87,8 @@ export class LawGeexService {
 
     try {
       // Check if operation was cancelled
-      if (cancellationToken?.isCancelled) {
-        throw new Error('Operation was cancelled');
-      }
-      
+      cancellationToken?.throwIfCancelled();
+
       const requestPayload = {
         document: documentContent,
         document_type: options.document_type || 'contract',
@@ -99,12 +96,11 @@ export class LawGeexService {
         include_suggestions: options.include_suggestions ?? true,
         language: options.language || 'en',
       };
-      
-      // Create abort controller for cancellation
-      const abortController = cancellationToken ? { signal: cancellationToken.abortSignal } : {};
 
-        ...abortController,
-      const response = await this.axiosInstance.post('/v1/review', requestPayload);
+      // Abort the request if the operation is cancelled while it is in flight
+      const response = await this.axiosInstance.post('/v1/review', requestPayload, {
+        ...(cancellationToken && { signal: cancellationToken.abortSignal }),
+      });
 
       this.logger.log(`Contract review completed. Document ID: ${response.data.document_id}`);
 
@@ -113,6 +109,10 @@ export class LawGeexService {
         reviewed_at: new Date(),
       };
     } catch (error) {
+      if (cancellationToken?.isCancelled) {
+        throw new CancellationError('Contract review was cancelled');
+      }
+
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
         const message = error.response?.data?.message || error.message;
@@ -144,7 +144,6 @@ export class LawGeexService {
     status: 'completed' | 'processing' | 'failed';
     progress: number;
     estimated_completion: Date | null;
-    estimated_completion: Date | null;
   }> {
     if (!documentId || typeof documentId !== 'string') {
       throw new Error('Document ID is required and must be a string');
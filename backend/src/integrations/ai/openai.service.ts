@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
-import { CancellationToken } from './utils/cancellation.util';
+import { CancellationError, CancellationToken } from './utils/cancellation.util';
 import { ValidationException } from './utils/validation.util';
 
 export interface ContractGenerationOptions {
@@ -34,23 +34,16 @@ export interface AnalysisResult {
 @Injectable()
 export class OpenAIService {
   private readonly logger = new Logger(OpenAIService.name);
-  private readonly openai: OpenAI;
+  // Created on first use, so that the application starts without a key
+  private openai: OpenAI | null = null;
 
-  constructor(private configService: ConfigService) {
-    const apiKey = this.configService.get<string>('OPENAI_API_KEY');
-    if (!apiKey) {
-      throw new Error(
-        'OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.',
-      );
-    }
+  constructor(private configService: ConfigService) {}
 
-    this.openai = new OpenAI({
-      apiKey,
-    });
-    
-    if (!apiKey) {
-      throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.');
-    }
+  /**
+   * Whether an API key is configured. Without one, requests to OpenAI fail.
+   */
+  isConfigured(): boolean {
+    return Boolean(this.configService.get<string>('OPENAI_API_KEY'));
   }
 
   async generateContractDraft(
@@ -66,27 +59,29 @@ export class OpenAIService {
       cancellationToken?.throwIfCancelled();
       const prompt = this.buildContractPrompt(options);
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert legal contract drafting assistant. Generate comprehensive, legally sound contract drafts based on the provided requirements. Include standard legal clauses and ensure proper structure.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_tokens: 2000,
-        temperature: 0.2,
-        top_p: 1,
-        frequency_penalty: 0,
-        presence_penalty: 0,
+      const response = await this.getClient().chat.completions.create(
+        {
+          model: 'gpt-4',
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert legal contract drafting assistant. Generate comprehensive, legally sound contract drafts based on the provided requirements. Include standard legal clauses and ensure proper structure.',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          max_tokens: 2000,
+          temperature: 0.2,
+          top_p: 1,
+          frequency_penalty: 0,
+          presence_penalty: 0,
+        },
         // Add abort signal if cancellation token is provided
-        ...(cancellationToken && { signal: cancellationToken.abortSignal }),
-      });
+        cancellationToken && { signal: cancellationToken.abortSignal },
+      );
 
       const content = response.choices[0]?.message?.content;
 
@@ -112,6 +107,10 @@ export class OpenAIService {
           : undefined,
       };
     } catch (error) {
+      if (cancellationToken?.isCancelled) {
+        throw new CancellationError();
+      }
+
       this.logger.error('Error generating contract draft:', error);
       throw new Error(
         `Contract generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -131,24 +130,27 @@ export class OpenAIService {
     }
 
     try {
-      const response = await this.openai.chat.completions.create({
+      cancellationToken?.throwIfCancelled();
+      const response = await this.getClient().chat.completions.create(
+        {
+          model: 'gpt-4',
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are a legal language analysis expert. Analyze the provided contract text for clarity, potential ambiguities, and legal risks. Provide a clarity score (1-10) and specific suggestions for improvement. Format your response with clear sections for score, suggestions, and risk factors.',
+            },
+            {
+              role: 'user',
+              content: `Please analyze this contract text and provide detailed feedback:\n\n${contractText}`,
+            },
+          ],
+          max_tokens: 1500,
+          temperature: 0.3,
+        },
         // Add abort signal if cancellation token is provided
-        ...(cancellationToken && { signal: cancellationToken.abortSignal }),
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a legal language analysis expert. Analyze the provided contract text for clarity, potential ambiguities, and legal risks. Provide a clarity score (1-10) and specific suggestions for improvement. Format your response with clear sections for score, suggestions, and risk factors.',
-          },
-          {
-            role: 'user',
-            content: `Please analyze this contract text and provide detailed feedback:\n\n${contractText}`,
-          },
-        ],
-        max_tokens: 1500,
-        temperature: 0.3,
-      });
+        cancellationToken && { signal: cancellationToken.abortSignal },
+      );
 
       const content = response.choices[0]?.message?.content;
 
@@ -165,6 +167,10 @@ export class OpenAIService {
         analysis_summary: content,
       };
     } catch (error) {
+      if (cancellationToken?.isCancelled) {
+        throw new CancellationError();
+      }
+
       this.logger.error('Error analyzing contract language:', error);
       throw new Error(
         `Contract analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -172,6 +178,19 @@ export class OpenAIService {
     }
   }
 
+  private getClient(): OpenAI {
+    if (!this.openai) {
+      const apiKey = this.configService.get<string>('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error(
+          'OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.',
+        );
+      }
+      this.openai = new OpenAI({ apiKey });
+    }
+    return this.openai;
+  }
+
   private validateContractGenerationOptions(options: ContractGenerationOptions): void {
     const errors = [];
 
@@ -30,12 +30,20 @@ export class CancellationToken {
     this._callbacks = [];
   }
 
-  onCancelled(callback: () => void): void {
+  /**
+   * Registers a callback for cancellation, returning a function that removes
+   * it again once it is no longer needed
+   */
+  onCancelled(callback: () => void): () => void {
     if (this._isCancelled) {
       callback();
-    } else {
-      this._callbacks.push(callback);
+      return () => undefined;
     }
+
+    this._callbacks.push(callback);
+    return () => {
+      this._callbacks = this._callbacks.filter((registered) => registered !== callback);
+    };
   }
 
   throwIfCancelled(): void {
@@ -7,7 +7,7 @@ import compression from 'compression';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Security middleware
   app.use(helmet());
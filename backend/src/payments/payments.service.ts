@@ -7,6 +7,7 @@ import { Subscription } from './entities/subscription.entity';
 import { Payment } from './entities/payment.entity';
 import { CreateSubscriptionDto } from './dto/create-subscription.dto';
 import { CreatePaymentDto } from './dto/create-payment.dto';
+import { DomainEventBus } from '../events/domain-event-bus.service';
 
 @Injectable()
 export class PaymentsService {
@@ -18,6 +19,7 @@ export class PaymentsService {
     @InjectRepository(Payment)
     private paymentRepository: Repository<Payment>,
     private configService: ConfigService,
+    private eventBus: DomainEventBus,
   ) {
     this.stripe = new Stripe(this.configService.get<string>('STRIPE_SECRET_KEY'), {
       apiVersion: '2023-10-16',
@@ -172,6 +174,17 @@ export class PaymentsService {
       { stripePaymentIntentId: paymentIntent.id },
       { status: 'succeeded' },
     );
+
+    this.eventBus.publish(
+      'payment.succeeded',
+      {
+        paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount / 100,
+        currency: paymentIntent.currency,
+        description: paymentIntent.description,
+      },
+      { userId: paymentIntent.metadata?.userId },
+    );
   }
 
   private async handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
@@ -236,6 +236,24 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Create a stream that decrypts file data encrypted by encryptFile, for
+   * files too large to decrypt in memory. With GCM the data is only
+   * authenticated at the end of the stream, which fails if it was altered.
+   */
+  createFileDecipher(encryptedData: Omit<EncryptedData, 'data'>): CryptoDecipher {
+    const { iv, tag, algorithm } = encryptedData;
+    const decipher = createDecipheriv(algorithm, this.masterKey, Buffer.from(iv, 'hex'));
+
+    if (algorithm.includes('gcm') && tag) {
+      (decipher as CryptoDecipher & { setAuthTag(tag: Buffer): void }).setAuthTag(
+        Buffer.from(tag, 'hex'),
+      );
+    }
+
+    return decipher;
+  }
+
   /**
    * Rotate encryption keys (for key management)
    */
@@ -9,6 +9,9 @@ export class SignatureEnvelope {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  @Column({ type: 'uuid', nullable: true })
+  userId?: string;
+
   @Column({ type: 'varchar', length: 255, unique: true })
   envelopeId: string;
 
@@ -14,9 +14,9 @@ export class SignatureController {
   @ApiOperation({ summary: 'Send document for signature' })
   @ApiResponse({ status: 201, description: 'Document sent for signature successfully' })
   @ApiResponse({ status: 400, description: 'Invalid request' })
-  async sendForSignature(@Body() request: SignatureRequest) {
+  async sendForSignature(@Body() request: SignatureRequest, @Request() req) {
     try {
-      return await this.signatureService.sendForSignature(request);
+      return await this.signatureService.sendForSignature({ ...request, userId: req.user.id });
     } catch (error) {
       throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
     }
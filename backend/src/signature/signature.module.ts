@@ -4,12 +4,10 @@ import { ConfigModule } from '@nestjs/config';
 import { SignatureService } from './signature.service';
 import { SignatureController } from './signature.controller';
 import { SignatureEnvelope } from './entities/signature-envelope.entity';
+import { DocumentsModule } from '../documents/documents.module';
 
 @Module({
-  imports: [
-    TypeOrmModule.forFeature([SignatureEnvelope]),
-    ConfigModule,
-  ],
+  imports: [TypeOrmModule.forFeature([SignatureEnvelope]), ConfigModule, DocumentsModule],
   controllers: [SignatureController],
   providers: [SignatureService],
   exports: [SignatureService],
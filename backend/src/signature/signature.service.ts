@@ -1,13 +1,19 @@
 import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
+import { extname } from 'path';
 import { Repository } from 'typeorm';
 import { SignatureEnvelope } from './entities/signature-envelope.entity';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { DocumentsService } from '../documents/documents.service';
+import { ExportedDocument } from '../documents/export/document-export.util';
+import { dateAnchor, signatureAnchor } from '../documents/export/document-layout.util';
 
 export interface SignatureRequest {
+  userId?: string;
   documentId: string;
   documentTitle: string;
-  documentContent: string; // Base64 encoded document
+  documentContent?: string; // Base64 encoded PDF, rendered from the document when omitted
   signers: SignerInfo[];
   customFields?: Record<string, string>;
   emailSettings?: {
@@ -77,6 +83,8 @@ export class SignatureService {
     private readonly configService: ConfigService,
     @InjectRepository(SignatureEnvelope)
     private readonly envelopeRepository: Repository<SignatureEnvelope>,
+    private readonly eventBus: DomainEventBus,
+    private readonly documentsService: DocumentsService,
   ) {
     // DocuSign Configuration
     this.baseUrl = this.configService.get('DOCUSIGN_BASE_URL') || 'https://demo.docusign.net';
@@ -93,11 +101,20 @@ export class SignatureService {
     try {
       this.logger.log(`Sending document ${request.documentId} for signature`);
 
+      // Render the document with a signature block for each signer
+      const rendered = !request.documentContent;
+      const file = rendered ? await this.renderDocument(request) : undefined;
+      const documentContent = request.documentContent ?? file.content.toString('base64');
+
       // Get DocuSign access token
       const accessToken = await this.getAccessToken();
 
       // Create envelope definition
-      const envelopeDefinition = this.buildEnvelopeDefinition(request);
+      const envelopeDefinition = this.buildEnvelopeDefinition(
+        { ...request, documentContent },
+        rendered,
+        file && extname(file.fileName).slice(1),
+      );
 
       // Send to DocuSign
       const envelopeResponse = await this.createEnvelope(accessToken, envelopeDefinition);
@@ -212,7 +229,7 @@ export class SignatureService {
       }
 
       // Return simulated document for development
-      return this.getSimulatedDocument(envelopeId);
+      return await this.getSimulatedDocument(envelopeId);
     } catch (error) {
       this.logger.error(`Failed to download document: ${error.message}`);
       throw new BadRequestException(`Document download failed: ${error.message}`);
@@ -321,7 +338,37 @@ export class SignatureService {
     return `${Buffer.from(JSON.stringify(header)).toString('base64')}.${Buffer.from(JSON.stringify(payload)).toString('base64')}.signature`;
   }
 
-  private buildEnvelopeDefinition(request: SignatureRequest): any {
+  /**
+   * Renders the document as a PDF, or as a Word document when its text
+   * cannot be shown in a PDF
+   */
+  private async renderDocument(
+    request: SignatureRequest,
+    anchors = true,
+  ): Promise<ExportedDocument> {
+    if (!request.userId) {
+      throw new Error('documentContent is required when the document owner is unknown');
+    }
+
+    const signers = request.signers.filter((signer) => signer.role === 'signer');
+    return this.documentsService.exportDocument(request.documentId, request.userId, 'pdf', {
+      signers: signers.map((signer) => ({ name: signer.name })),
+      anchors,
+    });
+  }
+
+  /**
+   * Builds the envelope. Signers without tabs of their own get signature and
+   * date tabs at the anchors of their signature block when the document was
+   * rendered here.
+   */
+  private buildEnvelopeDefinition(
+    request: SignatureRequest,
+    anchored = false,
+    fileExtension = 'pdf',
+  ): any {
+    const signers = request.signers.filter((signer) => signer.role === 'signer');
+
     return {
       emailSubject: request.emailSettings?.subject || `Please sign: ${request.documentTitle}`,
       emailBlurb: request.emailSettings?.message || 'Please review and sign the attached document.',
@@ -329,7 +376,7 @@ export class SignatureService {
         documentId: '1',
         name: request.documentTitle,
         documentBase64: request.documentContent,
-        fileExtension: 'pdf',
+        fileExtension,
       }],
       recipients: {
         signers: request.signers.map((signer, index) => ({
@@ -337,7 +384,10 @@ export class SignatureService {
           name: signer.name,
           recipientId: (index + 1).toString(),
           routingOrder: signer.order || (index + 1),
-          tabs: this.buildSignerTabs(signer.tabs || []),
+          tabs:
+            anchored && !signer.tabs?.length && signers.includes(signer)
+              ? this.buildAnchorTabs(signers.indexOf(signer))
+              : this.buildSignerTabs(signer.tabs || []),
         })),
       },
       status: 'sent',
@@ -397,6 +447,22 @@ export class SignatureService {
     return groupedTabs;
   }
 
+  private buildAnchorTabs(index: number): any {
+    const anchor = (anchorString: string) => ({
+      documentId: '1',
+      anchorString,
+      anchorUnits: 'pixels',
+      anchorXOffset: '0',
+      anchorYOffset: '-8',
+      anchorIgnoreIfNotPresent: 'false',
+    });
+
+    return {
+      signHereTabs: [anchor(signatureAnchor(index))],
+      dateSignedTabs: [anchor(dateAnchor(index))],
+    };
+  }
+
   private mapTabType(type: string): string {
     const mapping = {
       'sign_here': 'signHereTabs',
@@ -427,6 +493,7 @@ export class SignatureService {
 
   private async storeEnvelope(request: SignatureRequest, envelopeResponse: any): Promise<SignatureEnvelope> {
     const envelope = this.envelopeRepository.create({
+      userId: request.userId,
       envelopeId: envelopeResponse.envelopeId,
       documentId: request.documentId,
       documentTitle: request.documentTitle,
@@ -483,19 +550,44 @@ export class SignatureService {
     switch (webhookData.status) {
       case 'completed':
         this.logger.log(`Envelope ${webhookData.envelopeId} completed - all signatures collected`);
-        // Trigger completion workflow (e.g., notify project manager, update project status)
+        await this.publishEnvelopeEvent('envelope.completed', webhookData);
         break;
       case 'declined':
         this.logger.log(`Envelope ${webhookData.envelopeId} declined by signer`);
-        // Handle decline scenario
+        await this.publishEnvelopeEvent('envelope.declined', webhookData);
         break;
       case 'voided':
         this.logger.log(`Envelope ${webhookData.envelopeId} was voided`);
-        // Handle void scenario
+        await this.publishEnvelopeEvent('envelope.voided', webhookData);
         break;
     }
   }
 
+  private async publishEnvelopeEvent(
+    name: 'envelope.completed' | 'envelope.declined' | 'envelope.voided',
+    webhookData: WebhookData,
+  ): Promise<void> {
+    const envelope = await this.envelopeRepository.findOne({
+      where: { envelopeId: webhookData.envelopeId },
+    });
+
+    this.eventBus.publish(
+      name,
+      {
+        envelopeId: webhookData.envelopeId,
+        documentId: envelope?.documentId || webhookData.documentInfo?.documentId,
+        documentTitle: envelope?.documentTitle || webhookData.documentInfo?.name,
+        status: webhookData.status,
+        signerInfo: webhookData.signerInfo && {
+          email: webhookData.signerInfo.email,
+          name: webhookData.signerInfo.name,
+          status: webhookData.signerInfo.status,
+        },
+      },
+      { userId: envelope?.userId },
+    );
+  }
+
   private async downloadFromDocuSign(accessToken: string, envelopeId: string, documentId?: string): Promise<{
     content: Buffer;
     filename: string;
@@ -612,18 +704,33 @@ export class SignatureService {
     };
   }
 
-  private getSimulatedDocument(envelopeId: string): {
+  private async getSimulatedDocument(envelopeId: string): Promise<{
     content: Buffer;
     filename: string;
     mimeType: string;
-  } {
-    // Return a simple PDF placeholder
-    const pdfContent = `%PDF-1.4\n1 0 obj\n<<\n/Type /Catalog\n/Pages 2 0 R\n>>\nendobj\n2 0 obj\n<<\n/Type /Pages\n/Kids [3 0 R]\n/Count 1\n>>\nendobj\n3 0 obj\n<<\n/Type /Page\n/Parent 2 0 R\n/MediaBox [0 0 612 792]\n>>\nendobj\nxref\n0 4\n0000000000 65535 f \n0000000009 00000 n \n0000000074 00000 n \n0000000120 00000 n \ntrailer\n<<\n/Size 4\n/Root 1 0 R\n>>\nstartxref\n177\n%%EOF`;
-    
+  }> {
+    const envelope = await this.envelopeRepository.findOne({
+      where: { envelopeId },
+    });
+    if (!envelope) {
+      throw new NotFoundException('Envelope not found');
+    }
+
+    // Render the document that was sent, without signatures
+    const file = await this.renderDocument(
+      {
+        userId: envelope.userId,
+        documentId: envelope.documentId,
+        documentTitle: envelope.documentTitle,
+        signers: envelope.signers,
+      },
+      false,
+    );
+
     return {
-      content: Buffer.from(pdfContent),
-      filename: `signed-document-${envelopeId}.pdf`,
-      mimeType: 'application/pdf',
+      content: file.content,
+      filename: `signed-document-${envelopeId}${extname(file.fileName)}`,
+      mimeType: file.mimeType,
     };
   }
 }
\ No newline at end of file
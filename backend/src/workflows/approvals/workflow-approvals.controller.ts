@@ -0,0 +1,35 @@
+import { Controller, Post, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { WorkflowApprovalsService } from './workflow-approvals.service';
+import { DecideApprovalDto } from '../dto/decide-approval.dto';
+import { WorkflowExecution } from '../entities/workflow-execution.entity';
+
+@ApiTags('workflows')
+@Controller('workflows/executions')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class WorkflowApprovalsController {
+  constructor(private readonly approvalsService: WorkflowApprovalsService) {}
+
+  @Post(':id/approvals/:stepId')
+  @ApiOperation({ summary: 'Approve or reject an approval step of a waiting execution' })
+  @ApiParam({ name: 'id', description: 'Execution ID' })
+  @ApiParam({ name: 'stepId', description: 'ID of the approval step' })
+  @ApiResponse({
+    status: 201,
+    description: 'Decision recorded; the execution is queued to resume',
+    type: WorkflowExecution,
+  })
+  @ApiResponse({ status: 403, description: 'User is not an approver of this step' })
+  @ApiResponse({ status: 404, description: 'Approval not found' })
+  @ApiResponse({ status: 409, description: 'Approval has already been decided' })
+  async decide(
+    @Param('id') id: string,
+    @Param('stepId') stepId: string,
+    @Body() decideDto: DecideApprovalDto,
+    @Request() req,
+  ): Promise<WorkflowExecution> {
+    return this.approvalsService.decide(id, stepId, decideDto, req.user.id);
+  }
+}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { WorkflowApprovalsService } from './workflow-approvals.service';
+import { WorkflowExecution, WorkflowExecutionStatus } from '../entities/workflow-execution.entity';
+import { Workflow } from '../entities/workflow.entity';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+describe('WorkflowApprovalsService', () => {
+  let service: WorkflowApprovalsService;
+
+  const mockManager = {
+    findOne: jest.fn(),
+    save: jest.fn((execution) => Promise.resolve(execution)),
+  };
+
+  const mockRepository = {
+    save: jest.fn((execution) => Promise.resolve(execution)),
+    findOne: jest.fn(),
+    query: jest.fn(),
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockNotificationsService = {
+    sendNotification: jest.fn(),
+  };
+
+  const buildWaiting = (escalatedAt?: string): WorkflowExecution =>
+    Object.assign(new WorkflowExecution(), {
+      id: 'execution-1',
+      workflowId: 'workflow-123',
+      status: WorkflowExecutionStatus.WAITING,
+      approvals: {
+        review: {
+          stepId: 'review',
+          approvers: ['user-456'],
+          escalation: { afterMs: 3600000, approvers: ['user-789'] },
+          status: 'pending',
+          requestedAt: '2025-01-01T09:00:00.000Z',
+          escalateAt: '2025-01-01T10:00:00.000Z',
+          ...(escalatedAt && { escalatedAt }),
+        },
+      },
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowApprovalsService,
+        { provide: getRepositoryToken(WorkflowExecution), useValue: mockRepository },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowApprovalsService>(WorkflowApprovalsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('suspend', () => {
+    it('should store pending approvals and notify the approvers', async () => {
+      const execution = Object.assign(new WorkflowExecution(), {
+        id: 'execution-1',
+        status: WorkflowExecutionStatus.RUNNING,
+        approvals: {},
+        workflow: { name: 'Client Onboarding' } as Workflow,
+      });
+
+      await service.suspend(execution, {
+        executionId: 'execution-1',
+        status: 'waiting',
+        steps: [],
+        approvals: [{ stepId: 'review', approvers: ['user-456'], message: 'Check the contract' }],
+      });
+
+      expect(execution.status).toBe(WorkflowExecutionStatus.WAITING);
+      expect(execution.approvals.review).toEqual(
+        expect.objectContaining({ status: 'pending', approvers: ['user-456'] }),
+      );
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+        'user-456',
+        expect.stringContaining('Client Onboarding'),
+        'info',
+      );
+    });
+  });
+
+  describe('decide', () => {
+    it('should record the decision and queue the execution', async () => {
+      mockManager.findOne.mockResolvedValueOnce(buildWaiting());
+
+      const execution = await service.decide(
+        'execution-1',
+        'review',
+        { decision: 'reject', comment: 'Missing tax ID' },
+        'user-456',
+      );
+
+      expect(execution.status).toBe(WorkflowExecutionStatus.QUEUED);
+      expect(execution.approvals.review).toEqual(
+        expect.objectContaining({
+          status: 'rejected',
+          decidedById: 'user-456',
+          comment: 'Missing tax ID',
+        }),
+      );
+    });
+
+    it('should only accept escalation approvers once the approval has escalated', async () => {
+      mockManager.findOne.mockResolvedValueOnce(buildWaiting());
+      await expect(
+        service.decide('execution-1', 'review', { decision: 'approve' }, 'user-789'),
+      ).rejects.toThrow(ForbiddenException);
+
+      mockManager.findOne.mockResolvedValueOnce(buildWaiting('2025-01-01T10:00:00.000Z'));
+      await expect(
+        service.decide('execution-1', 'review', { decision: 'approve' }, 'user-789'),
+      ).resolves.toEqual(expect.objectContaining({ status: WorkflowExecutionStatus.QUEUED }));
+    });
+
+    it('should reject decisions on approvals that were already decided', async () => {
+      const execution = buildWaiting();
+      execution.status = WorkflowExecutionStatus.QUEUED;
+      mockManager.findOne.mockResolvedValueOnce(execution);
+
+      await expect(
+        service.decide('execution-1', 'review', { decision: 'approve' }, 'user-456'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('escalate', () => {
+    it('should notify escalation approvers of overdue approvals once', async () => {
+      const execution = buildWaiting();
+      mockRepository.query.mockResolvedValueOnce([{ id: 'execution-1' }]);
+      mockManager.findOne.mockResolvedValueOnce(execution);
+      mockRepository.findOne.mockResolvedValueOnce(execution);
+
+      const escalated = await service.escalate(new Date('2025-01-01T10:30:00.000Z'));
+
+      expect(escalated).toBe(1);
+      expect(execution.approvals.review.escalatedAt).toBe('2025-01-01T10:30:00.000Z');
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+        'user-789',
+        expect.stringContaining('Overdue approval'),
+        'warning',
+      );
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Interval } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { WorkflowExecution, WorkflowExecutionStatus } from '../entities/workflow-execution.entity';
+import {
+  WorkflowApproval,
+  WorkflowApprovalRequest,
+  WorkflowRunResult,
+} from '../engine/workflow-step.interface';
+import { DecideApprovalDto } from '../dto/decide-approval.dto';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+const ESCALATION_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Tracks the approval steps of suspended executions. Runs wait with status
+ * waiting until an approver decides, after which they are queued again and
+ * resume from the approval step.
+ */
+@Injectable()
+export class WorkflowApprovalsService {
+  private readonly logger = new Logger(WorkflowApprovalsService.name);
+  private isEscalating = false;
+
+  constructor(
+    @InjectRepository(WorkflowExecution)
+    private readonly executionRepository: Repository<WorkflowExecution>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Stores the approvals a run stopped at and notifies their approvers
+   */
+  async suspend(
+    execution: WorkflowExecution,
+    result: WorkflowRunResult,
+  ): Promise<WorkflowExecution> {
+    const now = new Date();
+    const requests = (result.approvals || []).filter(
+      ({ stepId }) => execution.approvals?.[stepId]?.status !== 'pending',
+    );
+
+    execution.approvals = { ...execution.approvals };
+    requests.forEach((request) => {
+      execution.approvals[request.stepId] = {
+        ...request,
+        status: 'pending',
+        requestedAt: now.toISOString(),
+        ...(request.escalation && {
+          escalateAt: new Date(now.getTime() + request.escalation.afterMs).toISOString(),
+        }),
+      };
+    });
+    execution.status = WorkflowExecutionStatus.WAITING;
+    execution.steps = result.steps;
+    execution.lockedUntil = null;
+    const saved = await this.executionRepository.save(execution);
+
+    for (const request of requests) {
+      await this.notify(request.approvers, execution, request);
+    }
+    return saved;
+  }
+
+  /**
+   * Records an approval decision and queues the execution to resume
+   */
+  async decide(
+    executionId: string,
+    stepId: string,
+    decideDto: DecideApprovalDto,
+    userId: string,
+  ): Promise<WorkflowExecution> {
+    return this.executionRepository.manager.transaction(async (manager) => {
+      const execution = await manager.findOne(WorkflowExecution, {
+        where: { id: executionId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!execution) {
+        throw new NotFoundException('Workflow execution not found');
+      }
+
+      const approval = execution.approvals?.[stepId];
+      if (!approval) {
+        throw new NotFoundException('Approval not found');
+      }
+      if (execution.status !== WorkflowExecutionStatus.WAITING || approval.status !== 'pending') {
+        throw new ConflictException('Approval has already been decided');
+      }
+      if (!this.canDecide(approval, userId)) {
+        throw new ForbiddenException('You are not an approver of this step');
+      }
+
+      execution.approvals = {
+        ...execution.approvals,
+        [stepId]: {
+          ...approval,
+          status: decideDto.decision === 'approve' ? 'approved' : 'rejected',
+          decidedById: userId,
+          ...(decideDto.comment && { comment: decideDto.comment }),
+          decidedAt: new Date().toISOString(),
+        },
+      };
+      execution.status = WorkflowExecutionStatus.QUEUED;
+      return manager.save(execution);
+    });
+  }
+
+  @Interval(ESCALATION_INTERVAL_MS)
+  async handleEscalations(): Promise<void> {
+    if (this.isEscalating) {
+      return;
+    }
+
+    this.isEscalating = true;
+    try {
+      await this.escalate(new Date());
+    } catch (error) {
+      this.logger.error(`Approval escalation failed: ${error.message}`);
+    } finally {
+      this.isEscalating = false;
+    }
+  }
+
+  /**
+   * Notifies the escalation approvers of pending approvals that are overdue.
+   * Each approval escalates once.
+   */
+  async escalate(now: Date): Promise<number> {
+    const overdue: { id: string }[] = await this.executionRepository.query(
+      `
+      SELECT execution."id"
+      FROM "workflow_executions" execution
+      WHERE execution."status" = 'waiting'
+        AND EXISTS (
+          SELECT 1
+          FROM jsonb_each(execution."approvals") approval
+          WHERE approval.value->>'status' = 'pending'
+            AND approval.value->>'escalatedAt' IS NULL
+            AND (approval.value->>'escalateAt')::timestamptz <= $1
+        )
+      `,
+      [now],
+    );
+
+    let escalated = 0;
+    for (const { id } of overdue) {
+      const approvals = await this.executionRepository.manager.transaction(async (manager) => {
+        const execution = await manager.findOne(WorkflowExecution, {
+          where: { id, status: WorkflowExecutionStatus.WAITING },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!execution) {
+          return [];
+        }
+
+        const due = Object.values(execution.approvals).filter(
+          (approval) =>
+            approval.status === 'pending' &&
+            !approval.escalatedAt &&
+            approval.escalateAt &&
+            new Date(approval.escalateAt) <= now,
+        );
+        due.forEach((approval) => {
+          execution.approvals[approval.stepId] = { ...approval, escalatedAt: now.toISOString() };
+        });
+        await manager.save(execution);
+        return due;
+      });
+
+      if (approvals.length > 0) {
+        const execution = await this.executionRepository.findOne({
+          where: { id },
+          relations: ['workflow'],
+        });
+        for (const approval of approvals) {
+          await this.notify(approval.escalation.approvers, execution, approval, true);
+        }
+        escalated += approvals.length;
+      }
+    }
+
+    if (escalated > 0) {
+      this.logger.warn(`Escalated ${escalated} overdue workflow approvals`);
+    }
+    return escalated;
+  }
+
+  private canDecide(approval: WorkflowApproval, userId: string): boolean {
+    return (
+      approval.approvers.includes(userId) ||
+      Boolean(approval.escalatedAt && approval.escalation?.approvers.includes(userId))
+    );
+  }
+
+  private async notify(
+    approvers: string[],
+    execution: WorkflowExecution,
+    request: WorkflowApprovalRequest,
+    escalated = false,
+  ): Promise<void> {
+    const name = execution.workflow?.name || execution.workflowId;
+    const message =
+      `${escalated ? 'Overdue approval' : 'Approval'} needed for workflow "${name}" ` +
+      `(execution ${execution.id}, step ${request.stepId})` +
+      (request.message ? `: ${request.message}` : '');
+
+    for (const approver of approvers) {
+      try {
+        await this.notificationsService.sendNotification(
+          approver,
+          message,
+          escalated ? 'warning' : 'info',
+        );
+      } catch (error) {
+        this.logger.error(`Failed to notify approver ${approver}: ${error.message}`);
+      }
+    }
+  }
+}
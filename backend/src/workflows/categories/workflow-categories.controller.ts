@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { WorkflowCategory } from '../entities/workflow-category.entity';
+import { CreateWorkflowCategoryDto } from '../dto/create-workflow-category.dto';
+import { UpdateWorkflowCategoryDto } from '../dto/update-workflow-category.dto';
+import { WorkflowCategoriesService, WorkflowCategoryList } from './workflow-categories.service';
+
+@ApiTags('workflows')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('workflow-categories')
+export class WorkflowCategoriesController {
+  constructor(private readonly categoriesService: WorkflowCategoriesService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a workflow category' })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: WorkflowCategory,
+  })
+  @ApiResponse({ status: 409, description: 'A category with this name already exists' })
+  async create(
+    @Body() createCategoryDto: CreateWorkflowCategoryDto,
+    @Request() req,
+  ): Promise<WorkflowCategory> {
+    return this.categoriesService.create(createCategoryDto, req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List workflow categories with the number of workflows in each' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories retrieved successfully',
+    schema: {
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              workflowCount: { type: 'number' },
+              createdAt: { type: 'string', format: 'date-time' },
+              updatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        uncategorized: { type: 'number' },
+      },
+    },
+  })
+  async findAll(@Request() req): Promise<WorkflowCategoryList> {
+    return this.categoriesService.findAll(req.user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename a workflow category' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category renamed successfully',
+    type: WorkflowCategory,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow category not found' })
+  @ApiResponse({ status: 409, description: 'A category with this name already exists' })
+  async rename(
+    @Param('id') id: string,
+    @Body() updateCategoryDto: UpdateWorkflowCategoryDto,
+    @Request() req,
+  ): Promise<WorkflowCategory> {
+    return this.categoriesService.rename(id, updateCategoryDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a workflow category; its workflows become uncategorized' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({ status: 204, description: 'Category deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Workflow category not found' })
+  async remove(@Param('id') id: string, @Request() req): Promise<void> {
+    return this.categoriesService.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { WorkflowCategoriesService } from './workflow-categories.service';
+import { WorkflowCategory } from '../entities/workflow-category.entity';
+import { Workflow } from '../entities/workflow.entity';
+
+describe('WorkflowCategoriesService', () => {
+  let service: WorkflowCategoriesService;
+
+  const category = Object.assign(new WorkflowCategory(), {
+    id: 'category-123',
+    name: 'Legal',
+    userId: 'user-123',
+  });
+
+  const nameQuery = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getOne: jest.fn().mockResolvedValue(null),
+  };
+
+  const countQuery = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockCategoryRepository = {
+    create: jest.fn((values) => Object.assign(new WorkflowCategory(), values)),
+    save: jest.fn((saved) => Promise.resolve({ id: 'category-456', ...saved })),
+    find: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(() => Promise.resolve(Object.assign(new WorkflowCategory(), category))),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => nameQuery),
+  };
+
+  const mockWorkflowRepository = {
+    createQueryBuilder: jest.fn(() => countQuery),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowCategoriesService,
+        { provide: getRepositoryToken(WorkflowCategory), useValue: mockCategoryRepository },
+        { provide: getRepositoryToken(Workflow), useValue: mockWorkflowRepository },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowCategoriesService>(WorkflowCategoriesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a category with a trimmed name', async () => {
+      const result = await service.create({ name: '  Finance ' }, 'user-123');
+
+      expect(mockCategoryRepository.create).toHaveBeenCalledWith({
+        name: 'Finance',
+        userId: 'user-123',
+      });
+      expect(result.id).toBe('category-456');
+    });
+
+    it('should reject names the user already has, ignoring case', async () => {
+      nameQuery.getOne.mockResolvedValueOnce(category);
+
+      await expect(service.create({ name: 'legal' }, 'user-123')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockCategoryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should report a name created at the same time as a conflict', async () => {
+      mockCategoryRepository.save.mockRejectedValueOnce(
+        new QueryFailedError(
+          'INSERT',
+          [],
+          Object.assign(new Error('duplicate key'), { code: '23505' }),
+        ),
+      );
+
+      await expect(service.create({ name: 'Finance' }, 'user-123')).rejects.toThrow(
+        'Category "Finance" already exists',
+      );
+    });
+  });
+
+  describe('findAll', () => {
+    it('should count the workflows in each category', async () => {
+      mockCategoryRepository.find.mockResolvedValueOnce([category]);
+      countQuery.getRawMany.mockResolvedValueOnce([
+        { categoryId: 'category-123', count: '3' },
+        { categoryId: null, count: '2' },
+      ]);
+
+      const result = await service.findAll('user-123');
+
+      expect(result).toEqual({
+        data: [expect.objectContaining({ id: 'category-123', name: 'Legal', workflowCount: 3 })],
+        uncategorized: 2,
+      });
+    });
+  });
+
+  describe('rename', () => {
+    it('should allow changing the case of the current name', async () => {
+      nameQuery.getOne.mockResolvedValueOnce(category);
+
+      const result = await service.rename('category-123', { name: 'LEGAL' }, 'user-123');
+
+      expect(result.name).toBe('LEGAL');
+    });
+
+    it('should throw NotFoundException for categories of other users', async () => {
+      mockCategoryRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.rename('category-123', { name: 'Contracts' }, 'user-456'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { Workflow } from '../entities/workflow.entity';
+import { WorkflowCategory } from '../entities/workflow-category.entity';
+import { CreateWorkflowCategoryDto } from '../dto/create-workflow-category.dto';
+import { UpdateWorkflowCategoryDto } from '../dto/update-workflow-category.dto';
+
+// Postgres error code of unique constraint violations
+const UNIQUE_VIOLATION = '23505';
+
+export interface WorkflowCategorySummary {
+  id: string;
+  name: string;
+  workflowCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowCategoryList {
+  data: WorkflowCategorySummary[];
+  // Workflows without a category
+  uncategorized: number;
+}
+
+/**
+ * Manages the categories each user groups their workflows by. Names are
+ * unique per user, ignoring case.
+ */
+@Injectable()
+export class WorkflowCategoriesService {
+  constructor(
+    @InjectRepository(WorkflowCategory)
+    private readonly categoryRepository: Repository<WorkflowCategory>,
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+  ) {}
+
+  async create(
+    createCategoryDto: CreateWorkflowCategoryDto,
+    userId: string,
+  ): Promise<WorkflowCategory> {
+    const name = await this.assertAvailableName(createCategoryDto.name, userId);
+    const category = this.categoryRepository.create({ name, userId });
+    return this.saveUniqueName(category);
+  }
+
+  /**
+   * Lists the categories of a user with the number of workflows in each
+   */
+  async findAll(userId: string): Promise<WorkflowCategoryList> {
+    const [categories, counts] = await Promise.all([
+      this.categoryRepository.find({ where: { userId }, order: { name: 'ASC' } }),
+      this.workflowRepository
+        .createQueryBuilder('workflow')
+        .select('workflow.categoryId', 'categoryId')
+        .addSelect('COUNT(*)', 'count')
+        .where('workflow.userId = :userId', { userId })
+        .groupBy('workflow.categoryId')
+        .getRawMany<{ categoryId: string | null; count: string }>(),
+    ]);
+
+    const countByCategory = new Map(
+      counts.map(({ categoryId, count }) => [categoryId, Number(count)]),
+    );
+
+    return {
+      data: categories.map(({ id, name, createdAt, updatedAt }) => ({
+        id,
+        name,
+        workflowCount: countByCategory.get(id) || 0,
+        createdAt,
+        updatedAt,
+      })),
+      uncategorized: countByCategory.get(null) || 0,
+    };
+  }
+
+  async findOne(id: string, userId: string): Promise<WorkflowCategory> {
+    const category = await this.categoryRepository.findOne({ where: { id, userId } });
+
+    if (!category) {
+      throw new NotFoundException('Workflow category not found');
+    }
+
+    return category;
+  }
+
+  /**
+   * Returns the category with the given name, creating it if the user does
+   * not have one yet. Used when importing workflows.
+   */
+  async findOrCreate(name: string, userId: string): Promise<WorkflowCategory> {
+    const existing = await this.findByName(name.trim(), userId);
+    return existing || this.create({ name }, userId);
+  }
+
+  async rename(
+    id: string,
+    updateCategoryDto: UpdateWorkflowCategoryDto,
+    userId: string,
+  ): Promise<WorkflowCategory> {
+    const category = await this.findOne(id, userId);
+    category.name = await this.assertAvailableName(updateCategoryDto.name, userId, category.id);
+    return this.saveUniqueName(category);
+  }
+
+  /**
+   * Deletes a category; its workflows become uncategorized
+   */
+  async remove(id: string, userId: string): Promise<void> {
+    const category = await this.findOne(id, userId);
+    await this.categoryRepository.remove(category);
+  }
+
+  private async findByName(name: string, userId: string): Promise<WorkflowCategory | null> {
+    return this.categoryRepository
+      .createQueryBuilder('category')
+      .where('category.userId = :userId', { userId })
+      .andWhere('LOWER(category.name) = LOWER(:name)', { name })
+      .getOne();
+  }
+
+  private async assertAvailableName(
+    name: string,
+    userId: string,
+    categoryId?: string,
+  ): Promise<string> {
+    const trimmed = name.trim();
+    if (trimmed.length === 0) {
+      throw new BadRequestException('Category name must not be blank');
+    }
+
+    const existing = await this.findByName(trimmed, userId);
+    if (existing && existing.id !== categoryId) {
+      throw new ConflictException(`Category "${existing.name}" already exists`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Saves the category, reporting a name taken by a concurrent request
+   * since assertAvailableName as a conflict too
+   */
+  private async saveUniqueName(category: WorkflowCategory): Promise<WorkflowCategory> {
+    try {
+      return await this.categoryRepository.save(category);
+    } catch (error) {
+      if (error instanceof QueryFailedError && error.driverError?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(`Category "${category.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+}
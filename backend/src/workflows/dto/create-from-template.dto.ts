@@ -0,0 +1,4 @@
+import { OmitType } from '@nestjs/swagger';
+import { ImportWorkflowDto } from './import-workflow.dto';
+
+export class CreateFromTemplateDto extends OmitType(ImportWorkflowDto, ['content'] as const) {}
@@ -1,6 +1,12 @@
-import { IsString, IsOptional, IsEnum, IsObject, IsArray, MinLength } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsObject, IsIn, IsUUID, MinLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+import {
+  WORKFLOW_STEP_SCHEMA_VERSION,
+  WORKFLOW_STEP_SCHEMA_VERSIONS,
+  WorkflowStepDefinition,
+} from '../engine/workflow-step.interface';
+import { IsWorkflowSteps } from './workflow-steps.validator';
 
 export class CreateWorkflowDto {
   @ApiProperty({ description: 'Workflow name', minLength: 1, maxLength: 255 })
@@ -13,6 +19,14 @@ export class CreateWorkflowDto {
   @IsString()
   description?: string;
 
+  @ApiPropertyOptional({
+    description: 'ID of the workflow category; null removes the workflow from its category',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string | null;
+
   @ApiPropertyOptional({
     description: 'Workflow status',
     enum: WorkflowStatus,
@@ -31,15 +45,50 @@ export class CreateWorkflowDto {
   @IsEnum(WorkflowTriggerType)
   triggerType?: WorkflowTriggerType;
 
-  @ApiPropertyOptional({ description: 'Trigger configuration object' })
+  @ApiPropertyOptional({
+    description:
+      'Trigger configuration object. Scheduled workflows use { cron, timezone, missedRunPolicy, maxReplays }; ' +
+      'webhook workflows use { requireSignature, signatureHeader, inputMapping }; ' +
+      'event workflows use { event, filters }',
+    example: { cron: '0 9 1 * *', timezone: 'America/New_York', missedRunPolicy: 'skip' },
+  })
   @IsOptional()
   @IsObject()
   triggerConfig?: Record<string, any>;
 
-  @ApiPropertyOptional({ description: 'Workflow steps array' })
+  @ApiPropertyOptional({
+    description: 'Version of the step schema the steps are written in',
+    enum: WORKFLOW_STEP_SCHEMA_VERSIONS,
+    default: WORKFLOW_STEP_SCHEMA_VERSION,
+  })
+  @IsOptional()
+  @IsIn(WORKFLOW_STEP_SCHEMA_VERSIONS)
+  schemaVersion?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Workflow steps array. Action steps are { id, type, config, if }; control steps are ' +
+      '{ type: "if", condition, then, else }, { type: "forEach", items, as, steps } and ' +
+      '{ type: "parallel", branches }. Conditions are expressions over variables and inputs. ' +
+      'Action steps may set retries, backoff { strategy, delayMs, maxDelayMs }, timeoutMs and ' +
+      'a compensate action that runs if a later step fails',
+    example: [
+      {
+        type: 'if',
+        condition: "client.type == 'premium'",
+        then: [{ type: 'send_email', config: { to: '{{client.email}}' } }],
+      },
+      {
+        type: 'forEach',
+        items: 'client.contacts',
+        as: 'contact',
+        steps: [{ type: 'send_email', config: { to: '{{contact.email}}' } }],
+      },
+    ],
+  })
   @IsOptional()
-  @IsArray()
-  steps?: Record<string, any>[];
+  @IsWorkflowSteps()
+  steps?: WorkflowStepDefinition[];
 
   @ApiPropertyOptional({ description: 'Workflow variables' })
   @IsOptional()
@@ -0,0 +1,14 @@
+import { IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DiffVersionsQueryDto {
+  @ApiProperty({ description: 'Version to compare from', minimum: 1, example: 1 })
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiProperty({ description: 'Version to compare to', minimum: 1, example: 2 })
+  @IsInt()
+  @Min(1)
+  to: number;
+}
@@ -1,5 +1,36 @@
+import { IsOptional, IsObject, IsString, IsEnum, IsBoolean } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkflowExecutionPriority } from '../entities/workflow-execution.entity';
+
 export class ExecuteWorkflowDto {
+  @ApiPropertyOptional({
+    description: 'Execution inputs, available to step templates such as {{client.email}}',
+  })
+  @IsOptional()
+  @IsObject()
   inputs?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Free-form execution context' })
+  @IsOptional()
+  @IsString()
   context?: string;
-  priority?: 'low' | 'medium' | 'high';
+
+  @ApiPropertyOptional({
+    description: 'Queue priority; higher priority runs are picked up first',
+    enum: WorkflowExecutionPriority,
+    default: WorkflowExecutionPriority.MEDIUM,
+  })
+  @IsOptional()
+  @IsEnum(WorkflowExecutionPriority)
+  priority?: WorkflowExecutionPriority;
+
+  @ApiPropertyOptional({
+    description:
+      'Simulate the run instead of queueing it: templates and conditions are evaluated, ' +
+      'but no emails, projects, AI or e-signature requests are made',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
 }
@@ -0,0 +1,10 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkflowExportFormat } from '../portability/workflow-portability.service';
+
+export class ExportWorkflowQueryDto {
+  @ApiPropertyOptional({ description: 'File format', enum: ['json', 'yaml'], default: 'json' })
+  @IsOptional()
+  @IsIn(['json', 'yaml'])
+  format?: WorkflowExportFormat = 'json';
+}
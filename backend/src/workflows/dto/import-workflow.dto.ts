@@ -0,0 +1,25 @@
+import { IsDefined, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImportWorkflowDto {
+  @ApiProperty({
+    description: 'Exported workflow, either as a JSON/YAML string or as a JSON object',
+    oneOf: [{ type: 'string' }, { type: 'object' }],
+  })
+  @IsDefined()
+  content: string | Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Name for the new workflow; defaults to the exported name' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Values for the variables declared by the file, overriding their defaults',
+    example: { company_name: 'Acme Studio' },
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, any>;
+}
@@ -0,0 +1,3 @@
+import { CreateWorkflowCategoryDto } from './create-workflow-category.dto';
+
+export class UpdateWorkflowCategoryDto extends CreateWorkflowCategoryDto {}
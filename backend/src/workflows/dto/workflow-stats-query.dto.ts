@@ -0,0 +1,16 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class WorkflowStatsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of days, up to today, that the statistics cover',
+    minimum: 1,
+    maximum: 365,
+    default: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days?: number = 30;
+}
@@ -0,0 +1,27 @@
+import { ValidationArguments, ValidationOptions, registerDecorator } from 'class-validator';
+import { validateStepSchema } from '../engine/step-schema.util';
+import { WORKFLOW_STEP_SCHEMA_VERSION } from '../engine/workflow-step.interface';
+
+/**
+ * Validates a step graph against the schema version given on the same DTO
+ */
+export function IsWorkflowSteps(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    const getErrors = (args: ValidationArguments) =>
+      validateStepSchema(
+        args.value,
+        (args.object as { schemaVersion?: number }).schemaVersion ?? WORKFLOW_STEP_SCHEMA_VERSION,
+      );
+
+    registerDecorator({
+      name: 'isWorkflowSteps',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate: (_value: unknown, args: ValidationArguments) => getErrors(args).length === 0,
+        defaultMessage: (args: ValidationArguments) => getErrors(args).join('; '),
+      },
+    });
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * A small, side-effect free expression language for workflow conditions.
+ *
+ * Supports literals (numbers, 'strings', true, false, null, [lists]), variable
+ * paths (client.type, items[0].amount), comparisons (== != > >= < <=), the
+ * `in` and `contains` operators, and logical operators (&& || ! and or not).
+ * Keys that are not identifiers, such as step ids with hyphens, are quoted
+ * in brackets: steps["step-1"].output.
+ */
+import { getValueAtPath } from './template.util';
+
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+  ) {
+    super(`Invalid expression "${expression}": ${message}`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'path'; path: string }
+  | { kind: 'list'; items: ExpressionNode[] }
+  | { kind: 'unary'; op: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode };
+
+type Token = { type: 'number' | 'string' | 'identifier' | 'operator'; value: string };
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')', '[', ']', ',', '-'];
+const COMPARISON_OPERATORS = ['==', '!=', '>', '>=', '<', '<=', 'in', 'contains'];
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = source.slice(index).match(/^\d+(\.\d+)?/);
+      tokens.push({ type: 'number', value: match[0] });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        value += source[index] === '\\' ? source[++index] : source[index];
+        index++;
+      }
+      if (index >= source.length) {
+        throw new ExpressionSyntaxError('unterminated string', source);
+      }
+      tokens.push({ type: 'string', value });
+      index++;
+      continue;
+    }
+
+    const identifier = source
+      .slice(index)
+      .match(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*|\[\d+\]|\[(["'])[^"'.[\]\\]+\2\])*/);
+    if (identifier) {
+      const word = identifier[0];
+      tokens.push(
+        KEYWORD_OPERATORS[word]
+          ? { type: 'operator', value: KEYWORD_OPERATORS[word] }
+          : // Quoted keys become dotted segments, as in template placeholders
+            { type: 'identifier', value: word.replace(/\[(["'])(.*?)\1\]/g, '.$2') },
+      );
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (!operator) {
+      throw new ExpressionSyntaxError(`unexpected character "${char}"`, source);
+    }
+    tokens.push({ type: 'operator', value: operator });
+    index += operator.length;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+  ) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionSyntaxError('expression is empty', this.source);
+    }
+
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ExpressionSyntaxError(`unexpected "${this.peek().value}"`, this.source);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.matchOperator('||')) {
+      node = { kind: 'binary', op: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseComparison();
+    while (this.matchOperator('&&')) {
+      node = { kind: 'binary', op: '&&', left: node, right: this.parseComparison() };
+    }
+    return node;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseUnary();
+    const token = this.peek();
+    const op = token && (token.type === 'operator' || token.type === 'identifier') && token.value;
+
+    if (op && COMPARISON_OPERATORS.includes(op)) {
+      this.position++;
+      return { kind: 'binary', op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { kind: 'unary', op: '!', operand: this.parseUnary() };
+    }
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.position++];
+
+    if (!token) {
+      throw new ExpressionSyntaxError('unexpected end of expression', this.source);
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', value: null };
+        }
+        return { kind: 'path', path: token.value };
+    }
+
+    if (token.value === '(') {
+      const node = this.parseOr();
+      this.expectOperator(')');
+      return node;
+    }
+
+    if (token.value === '[') {
+      const items: ExpressionNode[] = [];
+      if (!this.matchOperator(']')) {
+        do {
+          items.push(this.parseOr());
+        } while (this.matchOperator(','));
+        this.expectOperator(']');
+      }
+      return { kind: 'list', items };
+    }
+
+    throw new ExpressionSyntaxError(`unexpected "${token.value}"`, this.source);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'operator' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      throw new ExpressionSyntaxError(`expected "${value}"`, this.source);
+    }
+  }
+}
+
+/**
+ * Parses an expression, throwing ExpressionSyntaxError when it is malformed
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (typeof source !== 'string') {
+    throw new ExpressionSyntaxError('expression must be a string', String(source));
+  }
+  return new Parser(tokenize(source), source).parse();
+}
+
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  scope: Record<string, any>,
+): any {
+  const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return evaluateNode(node, scope);
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, any>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return getValueAtPath(scope, node.path);
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, scope));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.op === '!' ? !operand : -operand;
+    }
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, scope);
+  }
+}
+
+function evaluateBinary(
+  op: string,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  scope: Record<string, any>,
+): any {
+  const left = evaluateNode(leftNode, scope);
+
+  // Short-circuit logical operators
+  if (op === '&&') {
+    return left && evaluateNode(rightNode, scope);
+  }
+  if (op === '||') {
+    return left || evaluateNode(rightNode, scope);
+  }
+
+  const right = evaluateNode(rightNode, scope);
+  switch (op) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case 'in':
+      return includes(right, left);
+    case 'contains':
+      return includes(left, right);
+  }
+}
+
+function includes(container: any, value: any): boolean {
+  if (Array.isArray(container) || typeof container === 'string') {
+    return container.includes(value);
+  }
+  return false;
+}
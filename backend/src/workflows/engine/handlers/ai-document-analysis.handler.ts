@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAIService } from '../../../integrations/ai/openai.service';
+import { CancellationToken } from '../../../integrations/ai/utils/cancellation.util';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class AiDocumentAnalysisHandler implements WorkflowStepHandler {
+  readonly type = 'ai_document_analysis';
+  readonly integration = 'openai';
+
+  constructor(private readonly openAIService: OpenAIService) {}
+
+  async execute(
+    config: Record<string, any>,
+    _context: WorkflowExecutionContext,
+    cancellationToken?: CancellationToken,
+  ): Promise<any> {
+    return this.openAIService.analyzeContractLanguage(this.getText(config), cancellationToken);
+  }
+
+  async simulate(config: Record<string, any>, _context: WorkflowExecutionContext): Promise<any> {
+    const text = this.getText(config);
+
+    return {
+      clarity_score: 0,
+      suggestions: [],
+      risk_factors: [],
+      analysis_summary: '[Simulated analysis]',
+      simulated: true,
+      request: { textLength: text.length },
+    };
+  }
+
+  private getText(config: Record<string, any>): string {
+    const text = config.text || config.content;
+    if (!text) {
+      throw new Error('Document text is required for analysis');
+    }
+    return text;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { ProjectsService } from '../../../projects/projects.service';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class CreateProjectHandler implements WorkflowStepHandler {
+  readonly type = 'create_project';
+
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  async execute(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const project = await this.projectsService.create(
+      this.buildProject(config, context),
+      context.userId,
+    );
+
+    return {
+      projectId: project.id,
+      name: project.name,
+      status: project.status,
+    };
+  }
+
+  async simulate(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const request = this.buildProject(config, context);
+
+    return {
+      projectId: 'simulated-project',
+      name: request.name,
+      status: request.status,
+      simulated: true,
+      request,
+    };
+  }
+
+  private buildProject(config: Record<string, any>, context: WorkflowExecutionContext) {
+    if (!config.name) {
+      throw new Error('Project name is required');
+    }
+
+    return {
+      name: config.name,
+      description: config.description,
+      status: config.status,
+      budget: config.budget,
+      startDate: config.startDate,
+      endDate: config.endDate,
+      metadata: {
+        ...config.metadata,
+        workflowId: context.workflowId,
+        executionId: context.executionId,
+      },
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAIService, ContractGenerationOptions } from '../../../integrations/ai/openai.service';
+import { CancellationToken } from '../../../integrations/ai/utils/cancellation.util';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class GenerateContractHandler implements WorkflowStepHandler {
+  readonly type = 'generate_contract';
+  readonly integration = 'openai';
+
+  constructor(private readonly openAIService: OpenAIService) {}
+
+  async execute(
+    config: Record<string, any>,
+    _context: WorkflowExecutionContext,
+    cancellationToken?: CancellationToken,
+  ): Promise<any> {
+    const draft = await this.openAIService.generateContractDraft(
+      this.buildOptions(config),
+      cancellationToken,
+    );
+
+    return {
+      content: draft.content,
+      wordCount: draft.wordCount,
+      model: draft.model,
+      tokenUsage: draft.tokenUsage,
+    };
+  }
+
+  async simulate(config: Record<string, any>, _context: WorkflowExecutionContext): Promise<any> {
+    const request = this.buildOptions(config);
+
+    return {
+      content: `[Simulated ${request.contractType || 'contract'} draft]`,
+      wordCount: 0,
+      model: null,
+      tokenUsage: null,
+      simulated: true,
+      request,
+    };
+  }
+
+  private buildOptions(config: Record<string, any>): ContractGenerationOptions {
+    const clientData = config.client_data || {};
+    return {
+      contractType: config.contractType || config.template,
+      parties: config.parties || [config.provider, clientData.company || clientData.name],
+      keyTerms: config.keyTerms || [],
+      jurisdiction: config.jurisdiction || clientData.jurisdiction,
+      customInstructions: config.customInstructions,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationsService } from '../../../notifications/notifications.service';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class SendEmailHandler implements WorkflowStepHandler {
+  readonly type = 'send_email';
+  readonly integration = 'email';
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  async execute(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const { subject, message } = this.buildEmail(config);
+    const result = await this.notificationsService.sendNotification(
+      context.userId,
+      message,
+      'email',
+    );
+
+    return {
+      to: config.to,
+      template: config.template,
+      subject,
+      sent: result.success,
+    };
+  }
+
+  async simulate(config: Record<string, any>, _context: WorkflowExecutionContext): Promise<any> {
+    const { subject } = this.buildEmail(config);
+
+    return {
+      to: config.to,
+      template: config.template,
+      subject,
+      sent: false,
+      simulated: true,
+      request: { to: config.to, subject, body: config.body },
+    };
+  }
+
+  private buildEmail(config: Record<string, any>): { subject: string; message: string } {
+    if (!config.to) {
+      throw new Error('Recipient "to" is required');
+    }
+
+    const subject = config.subject || config.template || 'Workflow notification';
+    return {
+      subject,
+      message: `Email "${subject}" to ${config.to}${config.body ? `: ${config.body}` : ''}`,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { SignatureService } from '../../../signature/signature.service';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class SendForSignatureHandler implements WorkflowStepHandler {
+  readonly type = 'send_for_signature';
+  readonly integration = 'docusign';
+
+  constructor(private readonly signatureService: SignatureService) {}
+
+  async execute(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const envelope = await this.signatureService.sendForSignature(
+      this.buildRequest(config, context),
+    );
+
+    return {
+      envelopeId: envelope.envelopeId,
+      status: envelope.status,
+    };
+  }
+
+  async simulate(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const { documentContent, ...request } = this.buildRequest(config, context);
+
+    return {
+      envelopeId: 'simulated-envelope',
+      status: 'sent',
+      simulated: true,
+      request: { ...request, documentContentLength: documentContent?.length ?? 0 },
+    };
+  }
+
+  private buildRequest(config: Record<string, any>, context: WorkflowExecutionContext) {
+    if (!config.documentId || !Array.isArray(config.signers) || config.signers.length === 0) {
+      throw new Error('documentId and at least one signer are required');
+    }
+
+    return {
+      userId: context.userId,
+      documentId: config.documentId,
+      documentTitle: config.documentTitle || 'Document',
+      documentContent: config.documentContent,
+      signers: config.signers,
+      customFields: { ...config.customFields, workflowExecutionId: context.executionId },
+      emailSettings: config.emailSettings,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationsService } from '../../../notifications/notifications.service';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class SendNotificationHandler implements WorkflowStepHandler {
+  readonly type = 'send_notification';
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  async execute(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const { userId, message, type } = this.buildNotification(config, context);
+    const result = await this.notificationsService.sendNotification(userId, message, type);
+
+    return {
+      message,
+      channel: config.channel,
+      sent: result.success,
+    };
+  }
+
+  async simulate(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any> {
+    const request = this.buildNotification(config, context);
+
+    return {
+      message: request.message,
+      channel: config.channel,
+      sent: false,
+      simulated: true,
+      request,
+    };
+  }
+
+  private buildNotification(config: Record<string, any>, context: WorkflowExecutionContext) {
+    return {
+      userId: config.userId || context.userId,
+      message: config.message || `Workflow ${context.workflowId} notification`,
+      type: config.type || 'info',
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { SignatureService } from '../../../signature/signature.service';
+import { WorkflowExecutionContext, WorkflowStepHandler } from '../workflow-step.interface';
+
+@Injectable()
+export class VoidEnvelopeHandler implements WorkflowStepHandler {
+  readonly type = 'void_envelope';
+  readonly integration = 'docusign';
+
+  constructor(private readonly signatureService: SignatureService) {}
+
+  async execute(config: Record<string, any>, _context: WorkflowExecutionContext): Promise<any> {
+    const reason = this.getReason(config);
+    await this.signatureService.voidEnvelope(config.envelopeId, reason);
+
+    return { envelopeId: config.envelopeId, voided: true, reason };
+  }
+
+  async simulate(config: Record<string, any>, _context: WorkflowExecutionContext): Promise<any> {
+    const reason = this.getReason(config);
+
+    return { envelopeId: config.envelopeId, voided: false, reason, simulated: true };
+  }
+
+  private getReason(config: Record<string, any>): string {
+    if (!config.envelopeId) {
+      throw new Error('envelopeId is required');
+    }
+    return config.reason || 'Voided by workflow';
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Retry, backoff and timeout helpers applied to individual workflow steps
+ */
+import {
+  CancellationError,
+  CancellationToken,
+} from '../../integrations/ai/utils/cancellation.util';
+import { StepBackoff } from './workflow-step.interface';
+
+export const BACKOFF_STRATEGIES = ['fixed', 'linear', 'exponential'];
+export const MAX_STEP_RETRIES = 10;
+export const DEFAULT_BACKOFF_DELAY_MS = 1000;
+export const DEFAULT_MAX_BACKOFF_DELAY_MS = 60 * 1000;
+
+export class StepTimeoutError extends CancellationError {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+/**
+ * Delay before the given retry (1 for the first retry)
+ */
+export function getBackoffDelay(backoff: StepBackoff | undefined, retry: number): number {
+  const delayMs = backoff?.delayMs ?? DEFAULT_BACKOFF_DELAY_MS;
+  const maxDelayMs = backoff?.maxDelayMs ?? DEFAULT_MAX_BACKOFF_DELAY_MS;
+
+  switch (backoff?.strategy) {
+    case 'linear':
+      return Math.min(delayMs * retry, maxDelayMs);
+    case 'exponential':
+      return Math.min(delayMs * 2 ** (retry - 1), maxDelayMs);
+    default:
+      return Math.min(delayMs, maxDelayMs);
+  }
+}
+
+/**
+ * Runs the task with a cancellation token that fires when the execution is
+ * cancelled or after timeoutMs, and rejects straight away in either case,
+ * even if the task ignores the token. The timer and the listener on the
+ * execution token are removed once the task settles.
+ */
+export function runWithTimeout<T>(
+  task: (cancellationToken: CancellationToken) => Promise<T>,
+  timeoutMs?: number,
+  executionToken?: CancellationToken,
+): Promise<T> {
+  const token = new CancellationToken();
+  const cleanups: Array<() => void> = [];
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = (error: Error) => {
+      token.cancel();
+      reject(error);
+    };
+
+    if (timeoutMs) {
+      const timer = setTimeout(() => abort(new StepTimeoutError(timeoutMs)), timeoutMs);
+      cleanups.push(() => clearTimeout(timer));
+    }
+    if (executionToken) {
+      cleanups.push(
+        executionToken.onCancelled(() => abort(new CancellationError('Execution was cancelled'))),
+      );
+    }
+    task(token).then(resolve, reject);
+  }).finally(() => cleanups.forEach((cleanup) => cleanup()));
+}
+
+/**
+ * Waits for the given time, returning early if the token is cancelled
+ */
+export function delay(ms: number, cancellationToken?: CancellationToken): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      unregister?.();
+      resolve();
+    }, ms);
+    const unregister = cancellationToken?.onCancelled(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,249 @@
+/**
+ * Structural validation of workflow step graphs, shared by the DTO validator
+ * and the engine so that invalid graphs are rejected before they are saved
+ */
+import { parseExpression } from './expression.util';
+import { BACKOFF_STRATEGIES, MAX_STEP_RETRIES } from './step-policy.util';
+import {
+  CONTROL_STEP_TYPES,
+  WORKFLOW_STEP_SCHEMA_VERSION,
+  WORKFLOW_STEP_SCHEMA_VERSIONS,
+} from './workflow-step.interface';
+
+const STEP_ID_PATTERN = /^[A-Za-z_][\w-]*$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+const MAX_NESTING_DEPTH = 8;
+
+interface ValidationState {
+  schemaVersion: number;
+  errors: string[];
+  ids: Set<string>;
+}
+
+/**
+ * Returns a list of human readable problems with the given steps; an empty
+ * list means the graph is valid for the schema version
+ */
+export function validateStepSchema(
+  steps: unknown,
+  schemaVersion: number = WORKFLOW_STEP_SCHEMA_VERSION,
+): string[] {
+  if (!WORKFLOW_STEP_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    return [`schemaVersion must be one of ${WORKFLOW_STEP_SCHEMA_VERSIONS.join(', ')}`];
+  }
+
+  const state: ValidationState = { schemaVersion, errors: [], ids: new Set() };
+  validateSequence(steps, 'steps', 0, state);
+  return state.errors;
+}
+
+/**
+ * Lists the action step types used anywhere in the graph
+ */
+export function collectActionTypes(steps: any[]): string[] {
+  const types = new Set<string>();
+
+  const visit = (sequence: any[]) =>
+    (sequence || []).forEach((step) => {
+      switch (step?.type) {
+        case 'if':
+          visit(step.then);
+          visit(step.else);
+          break;
+        case 'forEach':
+          visit(step.steps);
+          break;
+        case 'parallel':
+          (step.branches || []).forEach(visit);
+          break;
+        case 'approval':
+          break;
+        default:
+          types.add(step?.type);
+          if (step?.compensate) {
+            visit([step.compensate]);
+          }
+      }
+    });
+
+  visit(steps);
+  return [...types];
+}
+
+function validateSequence(
+  steps: unknown,
+  path: string,
+  depth: number,
+  state: ValidationState,
+): void {
+  if (!Array.isArray(steps)) {
+    state.errors.push(`${path} must be an array`);
+    return;
+  }
+
+  if (depth > MAX_NESTING_DEPTH) {
+    state.errors.push(`${path} is nested more than ${MAX_NESTING_DEPTH} levels deep`);
+    return;
+  }
+
+  steps.forEach((step, index) => validateStep(step, `${path}[${index}]`, depth, state));
+}
+
+function validateStep(step: any, path: string, depth: number, state: ValidationState): void {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) {
+    state.errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (typeof step.type !== 'string' || step.type.length === 0) {
+    state.errors.push(`${path}.type is required`);
+    return;
+  }
+
+  if (step.id !== undefined) {
+    if (typeof step.id !== 'string' || !STEP_ID_PATTERN.test(step.id)) {
+      state.errors.push(
+        `${path}.id must start with a letter and contain only letters, digits, - or _`,
+      );
+    } else if (state.ids.has(step.id)) {
+      state.errors.push(`${path}.id "${step.id}" is used by more than one step`);
+    } else {
+      state.ids.add(step.id);
+    }
+  }
+
+  const isControlStep = CONTROL_STEP_TYPES.includes(step.type);
+  if (state.schemaVersion < 2 && (isControlStep || step.if !== undefined)) {
+    state.errors.push(`${path} uses control flow, which requires schemaVersion 2`);
+    return;
+  }
+
+  switch (step.type) {
+    case 'if':
+      validateExpression(step.condition, `${path}.condition`, state);
+      validateSequence(step.then, `${path}.then`, depth + 1, state);
+      if (step.else !== undefined) {
+        validateSequence(step.else, `${path}.else`, depth + 1, state);
+      }
+      break;
+    case 'forEach':
+      validateExpression(step.items, `${path}.items`, state);
+      if (step.as !== undefined && !IDENTIFIER_PATTERN.test(step.as)) {
+        state.errors.push(`${path}.as must be a valid variable name`);
+      }
+      validateNonEmptySequence(step.steps, `${path}.steps`, depth, state);
+      break;
+    case 'parallel':
+      if (!Array.isArray(step.branches) || step.branches.length === 0) {
+        state.errors.push(`${path}.branches must be a non-empty array of step arrays`);
+        break;
+      }
+      step.branches.forEach((branch: unknown, index: number) =>
+        validateNonEmptySequence(branch, `${path}.branches[${index}]`, depth, state),
+      );
+      break;
+    case 'approval':
+      validateApprovers(step.approvers, `${path}.approvers`, state);
+      if (step.message !== undefined && typeof step.message !== 'string') {
+        state.errors.push(`${path}.message must be a string`);
+      }
+      if (step.onReject !== undefined && !['fail', 'continue'].includes(step.onReject)) {
+        state.errors.push(`${path}.onReject must be one of fail, continue`);
+      }
+      if (step.escalation !== undefined) {
+        if (!(isNonNegativeInteger(step.escalation?.afterMs) && step.escalation.afterMs > 0)) {
+          state.errors.push(`${path}.escalation.afterMs must be a positive integer`);
+        }
+        validateApprovers(step.escalation?.approvers, `${path}.escalation.approvers`, state);
+      }
+      break;
+    default:
+      if (step.config !== undefined && (typeof step.config !== 'object' || step.config === null)) {
+        state.errors.push(`${path}.config must be an object`);
+      }
+      if (step.if !== undefined) {
+        validateExpression(step.if, `${path}.if`, state);
+      }
+      validateStepPolicies(step, path, depth, state);
+  }
+}
+
+function validateStepPolicies(step: any, path: string, depth: number, state: ValidationState) {
+  if (
+    step.retries !== undefined &&
+    (!Number.isInteger(step.retries) || step.retries < 0 || step.retries > MAX_STEP_RETRIES)
+  ) {
+    state.errors.push(`${path}.retries must be an integer between 0 and ${MAX_STEP_RETRIES}`);
+  }
+
+  if (step.backoff !== undefined) {
+    const { strategy, delayMs, maxDelayMs } = step.backoff || {};
+    if (!BACKOFF_STRATEGIES.includes(strategy)) {
+      state.errors.push(`${path}.backoff.strategy must be one of ${BACKOFF_STRATEGIES.join(', ')}`);
+    }
+    [
+      ['delayMs', delayMs],
+      ['maxDelayMs', maxDelayMs],
+    ].forEach(([name, value]) => {
+      if (value !== undefined && !isNonNegativeInteger(value)) {
+        state.errors.push(`${path}.backoff.${name} must be a non-negative integer`);
+      }
+    });
+  }
+
+  if (
+    step.timeoutMs !== undefined &&
+    !(isNonNegativeInteger(step.timeoutMs) && step.timeoutMs > 0)
+  ) {
+    state.errors.push(`${path}.timeoutMs must be a positive integer`);
+  }
+
+  if (step.compensate !== undefined) {
+    const compensate = step.compensate;
+    if (compensate && (CONTROL_STEP_TYPES.includes(compensate.type) || compensate.compensate)) {
+      state.errors.push(`${path}.compensate must be a single action step`);
+      return;
+    }
+    validateStep(compensate, `${path}.compensate`, depth + 1, state);
+  }
+}
+
+function validateApprovers(approvers: unknown, path: string, state: ValidationState): void {
+  if (
+    !Array.isArray(approvers) ||
+    approvers.length === 0 ||
+    approvers.some((approver) => typeof approver !== 'string' || approver.length === 0)
+  ) {
+    state.errors.push(`${path} must be a non-empty array of user IDs`);
+  }
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function validateNonEmptySequence(
+  steps: unknown,
+  path: string,
+  depth: number,
+  state: ValidationState,
+): void {
+  if (Array.isArray(steps) && steps.length === 0) {
+    state.errors.push(`${path} must contain at least one step`);
+    return;
+  }
+  validateSequence(steps, path, depth + 1, state);
+}
+
+function validateExpression(expression: unknown, path: string, state: ValidationState): void {
+  if (typeof expression !== 'string') {
+    state.errors.push(`${path} must be an expression string`);
+    return;
+  }
+
+  try {
+    parseExpression(expression);
+  } catch (error) {
+    state.errors.push(`${path}: ${error.message}`);
+  }
+}
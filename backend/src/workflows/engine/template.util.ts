@@ -0,0 +1,71 @@
+/**
+ * Template utilities for resolving {{path.to.value}} placeholders in step configs
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w$.[\]-]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w$.[\]-]+)\s*\}\}$/;
+
+export class TemplateResolutionError extends Error {
+  constructor(public readonly path: string) {
+    super(`Unresolved template variable "${path}"`);
+    this.name = 'TemplateResolutionError';
+  }
+}
+
+/**
+ * Reads a dotted path such as `client.contacts[0].email` from a scope object
+ */
+export function getValueAtPath(scope: Record<string, any>, path: string): any {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0)
+    .reduce((value, segment) => (value == null ? undefined : value[segment]), scope);
+}
+
+/**
+ * Recursively resolves placeholders in strings, arrays and plain objects.
+ * A string made of a single placeholder resolves to the raw value so that
+ * objects like `{{client}}` can be passed through to handlers unchanged.
+ */
+export function resolveTemplate<T = any>(value: T, scope: Record<string, any>): T {
+  if (typeof value === 'string') {
+    return resolveString(value, scope) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplate(item, scope)) as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.entries(value).reduce(
+      (resolved, [key, item]) => {
+        resolved[key] = resolveTemplate(item, scope);
+        return resolved;
+      },
+      {} as Record<string, any>,
+    ) as T;
+  }
+
+  return value;
+}
+
+function resolveString(value: string, scope: Record<string, any>): any {
+  const singleMatch = value.match(SINGLE_PLACEHOLDER_PATTERN);
+  if (singleMatch) {
+    return lookup(scope, singleMatch[1]);
+  }
+
+  return value.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const resolved = lookup(scope, path);
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+  });
+}
+
+function lookup(scope: Record<string, any>, path: string): any {
+  const resolved = getValueAtPath(scope, path);
+  if (resolved === undefined) {
+    throw new TemplateResolutionError(path);
+  }
+  return resolved;
+}
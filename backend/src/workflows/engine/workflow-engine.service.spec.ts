@@ -0,0 +1,568 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorkflowEngineService } from './workflow-engine.service';
+import { WORKFLOW_STEP_HANDLERS, WorkflowStepHandler } from './workflow-step.interface';
+import { Workflow } from '../entities/workflow.entity';
+import { CancellationToken } from '../../integrations/ai/utils/cancellation.util';
+
+describe('WorkflowEngineService', () => {
+  let engine: WorkflowEngineService;
+
+  const emailHandler: WorkflowStepHandler = {
+    type: 'send_email',
+    execute: jest.fn().mockImplementation((config) => Promise.resolve({ to: config.to })),
+    simulate: jest
+      .fn()
+      .mockImplementation((config) => Promise.resolve({ to: config.to, simulated: true })),
+  };
+
+  const projectHandler: WorkflowStepHandler = {
+    type: 'create_project',
+    execute: jest
+      .fn()
+      .mockImplementation((config) =>
+        Promise.resolve({ projectId: 'project-1', name: config.name }),
+      ),
+  };
+
+  const buildWorkflow = (steps: Record<string, any>[], variables = {}): Workflow =>
+    ({
+      id: 'workflow-123',
+      steps,
+      variables,
+    }) as Workflow;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowEngineService,
+        {
+          provide: WORKFLOW_STEP_HANDLERS,
+          useValue: [emailHandler, projectHandler],
+        },
+      ],
+    }).compile();
+
+    engine = module.get<WorkflowEngineService>(WorkflowEngineService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run steps in order with resolved templates', async () => {
+    const workflow = buildWorkflow(
+      [
+        { type: 'send_email', config: { to: '{{client.email}}', template: 'welcome_email' } },
+        { type: 'create_project', config: { name: '{{client.company}} - {{suffix}}' } },
+      ],
+      { suffix: 'Onboarding' },
+    );
+
+    const result = await engine.run(
+      workflow,
+      { client: { email: 'jane@acme.com', company: 'Acme' } },
+      { executionId: 'exec-1', userId: 'user-123' },
+    );
+
+    expect(result.status).toBe('completed');
+    expect(result.steps.map((step) => step.stepId)).toEqual(['step-1', 'step-2']);
+    expect(emailHandler.execute).toHaveBeenCalledWith(
+      { to: 'jane@acme.com', template: 'welcome_email' },
+      expect.objectContaining({ executionId: 'exec-1', userId: 'user-123' }),
+      expect.any(CancellationToken),
+    );
+    expect(projectHandler.execute).toHaveBeenCalledWith(
+      { name: 'Acme - Onboarding' },
+      expect.anything(),
+      expect.any(CancellationToken),
+    );
+  });
+
+  it('should expose previous step outputs to later steps', async () => {
+    const workflow = buildWorkflow([
+      { id: 'project', type: 'create_project', config: { name: 'Kickoff' } },
+      { type: 'send_email', config: { to: 'ops@kitops.io', body: '{{steps.project.projectId}}' } },
+    ]);
+
+    await engine.run(workflow, {}, { executionId: 'exec-1', userId: 'user-123' });
+
+    expect(emailHandler.execute).toHaveBeenCalledWith(
+      { to: 'ops@kitops.io', body: 'project-1' },
+      expect.anything(),
+      expect.any(CancellationToken),
+    );
+  });
+
+  it('should stop on the first failing step', async () => {
+    const workflow = buildWorkflow([
+      { type: 'send_email', config: { to: '{{client.email}}' } },
+      { type: 'create_project', config: { name: 'Never created' } },
+    ]);
+
+    const result = await engine.run(workflow, {}, { executionId: 'exec-1', userId: 'user-123' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBe(
+      'Step "step-1" (send_email) failed: Unresolved template variable "client.email"',
+    );
+    expect(result.steps).toHaveLength(1);
+    expect(projectHandler.execute).not.toHaveBeenCalled();
+  });
+
+  it('should fail on unknown step types', async () => {
+    const workflow = buildWorkflow([{ type: 'generate_invoice', config: {} }]);
+
+    const result = await engine.run(workflow, {}, { executionId: 'exec-1', userId: 'user-123' });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toContain('No handler registered for step type "generate_invoice"');
+  });
+
+  describe('control flow', () => {
+    const run = (steps: Record<string, any>[], inputs: Record<string, any> = {}) =>
+      engine.run(buildWorkflow(steps), inputs, { executionId: 'exec-1', userId: 'user-123' });
+
+    it('should take the matching if/else branch and skip the other', async () => {
+      const result = await run(
+        [
+          {
+            id: 'tier',
+            type: 'if',
+            condition: "client.type == 'premium' && client.seats >= 10",
+            then: [{ id: 'welcome', type: 'send_email', config: { to: 'vip@acme.com' } }],
+            else: [{ id: 'kickoff', type: 'create_project', config: { name: 'Standard' } }],
+          },
+        ],
+        { client: { type: 'premium', seats: 12 } },
+      );
+
+      expect(result.status).toBe('completed');
+      expect(result.steps.map(({ stepId, status }) => [stepId, status])).toEqual([
+        ['tier', 'completed'],
+        ['kickoff', 'skipped'],
+        ['welcome', 'completed'],
+      ]);
+      expect(projectHandler.execute).not.toHaveBeenCalled();
+    });
+
+    it('should reference step ids with hyphens through quoted brackets', async () => {
+      const result = await run([
+        { id: 'notify-client', type: 'send_email', config: { to: 'jane@acme.com' } },
+        {
+          type: 'create_project',
+          if: `steps["notify-client"].to == 'jane@acme.com' && steps['notify-client'].sent != true`,
+          config: { name: 'Kickoff' },
+        },
+      ]);
+
+      expect(result.steps.map(({ status }) => status)).toEqual(['completed', 'completed']);
+      expect(projectHandler.execute).toHaveBeenCalled();
+    });
+
+    it('should skip action steps whose if guard is false', async () => {
+      const result = await run(
+        [{ type: 'send_email', if: "'vip' in client.tags", config: { to: 'vip@acme.com' } }],
+        { client: { tags: ['standard'] } },
+      );
+
+      expect(result.steps[0].status).toBe('skipped');
+      expect(emailHandler.execute).not.toHaveBeenCalled();
+    });
+
+    it('should run loop steps once per item with the item in scope', async () => {
+      const result = await run(
+        [
+          {
+            id: 'notify',
+            type: 'forEach',
+            items: 'client.contacts',
+            as: 'contact',
+            steps: [{ id: 'email', type: 'send_email', config: { to: '{{contact.email}}' } }],
+          },
+        ],
+        { client: { contacts: [{ email: 'a@acme.com' }, { email: 'b@acme.com' }] } },
+      );
+
+      expect(result.steps.map((step) => step.stepId)).toEqual(['notify', 'email[0]', 'email[1]']);
+      expect(result.steps[0].output).toEqual({
+        count: 2,
+        iterations: [{ email: { to: 'a@acme.com' } }, { email: { to: 'b@acme.com' } }],
+      });
+    });
+
+    it('should join parallel branches before the next step', async () => {
+      const result = await run([
+        {
+          id: 'setup',
+          type: 'parallel',
+          branches: [
+            [{ id: 'project', type: 'create_project', config: { name: 'Kickoff' } }],
+            [{ id: 'email', type: 'send_email', config: { to: 'ops@acme.com' } }],
+          ],
+        },
+        {
+          type: 'send_email',
+          config: { to: 'pm@acme.com', body: '{{steps.project.projectId}} {{steps.email.to}}' },
+        },
+      ]);
+
+      expect(result.status).toBe('completed');
+      expect(emailHandler.execute).toHaveBeenLastCalledWith(
+        { to: 'pm@acme.com', body: 'project-1 ops@acme.com' },
+        expect.anything(),
+        expect.any(CancellationToken),
+      );
+    });
+
+    it('should fail the enclosing steps when a nested step fails', async () => {
+      const result = await run([
+        { id: 'loop', type: 'forEach', items: 'missing', steps: [{ type: 'send_email' }] },
+      ]);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe(
+        'Step "loop" (forEach) failed: "missing" did not evaluate to an array',
+      );
+    });
+  });
+
+  describe('validateSteps', () => {
+    it('should accept a valid graph', () => {
+      expect(
+        engine.validateSteps([
+          { type: 'if', condition: 'amount > 100', then: [{ type: 'send_email' }] },
+        ]),
+      ).toEqual([]);
+    });
+
+    it('should report malformed expressions, duplicate ids and unknown handlers', () => {
+      expect(
+        engine.validateSteps([
+          { id: 'a', type: 'if', condition: 'amount >', then: [] },
+          { id: 'a', type: 'parallel', branches: [[]] },
+        ]),
+      ).toEqual([
+        'steps[0].condition: Invalid expression "amount >": unexpected end of expression',
+        'steps[1].id "a" is used by more than one step',
+        'steps[1].branches[0] must contain at least one step',
+      ]);
+      expect(engine.validateSteps([{ type: 'generate_invoice' }])).toEqual([
+        'No handler registered for step type "generate_invoice"',
+      ]);
+    });
+
+    it('should reject control flow in version 1 workflows', () => {
+      expect(engine.validateSteps([{ type: 'forEach', items: 'xs', steps: [] }], 1)).toEqual([
+        'steps[0] uses control flow, which requires schemaVersion 2',
+      ]);
+    });
+  });
+
+  describe('step policies', () => {
+    const flakyHandler: WorkflowStepHandler = {
+      type: 'send_for_signature',
+      execute: jest.fn(),
+    };
+
+    const voidHandler: WorkflowStepHandler = {
+      type: 'void_envelope',
+      execute: jest.fn().mockImplementation((config) => Promise.resolve(config)),
+    };
+
+    const run = (steps: Record<string, any>[]) =>
+      engine.run(buildWorkflow(steps), {}, { executionId: 'exec-1', userId: 'user-123' });
+
+    beforeEach(() => {
+      engine.registerHandler(flakyHandler);
+      engine.registerHandler(voidHandler);
+    });
+
+    it('should retry failed attempts and record each one', async () => {
+      (flakyHandler.execute as jest.Mock)
+        .mockRejectedValueOnce(new Error('DocuSign unavailable'))
+        .mockResolvedValueOnce({ envelopeId: 'env-1' });
+
+      const result = await run([
+        { type: 'send_for_signature', retries: 2, backoff: { strategy: 'fixed', delayMs: 1 } },
+      ]);
+
+      expect(result.status).toBe('completed');
+      expect(
+        result.steps[0].attempts.map(({ attempt, status, error }) => [attempt, status, error]),
+      ).toEqual([
+        [1, 'failed', 'DocuSign unavailable'],
+        [2, 'completed', undefined],
+      ]);
+    });
+
+    it('should fail attempts that exceed timeoutMs and pass a cancellation token', async () => {
+      (flakyHandler.execute as jest.Mock).mockImplementation(
+        () => new Promise((resolve) => setTimeout(resolve, 200)),
+      );
+
+      const result = await run([{ type: 'send_for_signature', timeoutMs: 10 }]);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Step "step-1" (send_for_signature) failed: Timed out after 10ms');
+      expect((flakyHandler.execute as jest.Mock).mock.calls[0][2].isCancelled).toBe(true);
+    });
+
+    it('should release the timers and cancellation listeners of finished attempts', async () => {
+      (flakyHandler.execute as jest.Mock)
+        .mockRejectedValueOnce(new Error('DocuSign unavailable'))
+        .mockResolvedValueOnce({ envelopeId: 'env-1' });
+      const clearTimeoutSpy = jest.spyOn(global, 'clearTimeout');
+      const cancellationToken = new CancellationToken();
+
+      const result = await engine.run(
+        buildWorkflow([
+          {
+            type: 'send_for_signature',
+            retries: 1,
+            timeoutMs: 60000,
+            backoff: { strategy: 'fixed', delayMs: 1 },
+          },
+        ]),
+        {},
+        { executionId: 'exec-1', userId: 'user-123', cancellationToken },
+      );
+
+      expect(result.status).toBe('completed');
+      expect(clearTimeoutSpy).toHaveBeenCalledTimes(2);
+      expect((cancellationToken as any)._callbacks).toEqual([]);
+      clearTimeoutSpy.mockRestore();
+    });
+
+    it('should run compensations of completed steps when a later step fails', async () => {
+      (flakyHandler.execute as jest.Mock).mockResolvedValueOnce({ envelopeId: 'env-1' });
+
+      const result = await run([
+        {
+          id: 'sign',
+          type: 'send_for_signature',
+          compensate: { type: 'void_envelope', config: { envelopeId: '{{output.envelopeId}}' } },
+        },
+        { type: 'send_email', config: { to: '{{client.email}}' } },
+      ]);
+
+      expect(result.status).toBe('failed');
+      expect(voidHandler.execute).toHaveBeenCalledWith(
+        { envelopeId: 'env-1' },
+        expect.anything(),
+        expect.any(CancellationToken),
+      );
+      expect(result.steps[2]).toEqual(
+        expect.objectContaining({
+          stepId: 'sign-compensation',
+          type: 'void_envelope',
+          status: 'completed',
+          compensationFor: 'sign',
+        }),
+      );
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop the running step and mark the remaining steps cancelled', async () => {
+      const cancellationToken = new CancellationToken();
+      const slowHandler: WorkflowStepHandler = {
+        type: 'ai_document_analysis',
+        execute: jest.fn().mockImplementation((_config, _context, token: CancellationToken) => {
+          cancellationToken.cancel();
+          return new Promise((resolve) => setTimeout(() => resolve(token.isCancelled), 50));
+        }),
+      };
+      engine.registerHandler(slowHandler);
+
+      const result = await engine.run(
+        buildWorkflow([
+          { type: 'create_project', config: { name: 'Kickoff' } },
+          { type: 'ai_document_analysis' },
+          { type: 'send_email', config: { to: 'ops@acme.com' } },
+        ]),
+        {},
+        { executionId: 'exec-1', userId: 'user-123', cancellationToken },
+      );
+
+      expect(result.status).toBe('cancelled');
+      expect(result.error).toBe('Execution was cancelled');
+      expect(result.steps.map(({ stepId, status }) => [stepId, status])).toEqual([
+        ['step-1', 'completed'],
+        ['step-2', 'cancelled'],
+        ['step-3', 'cancelled'],
+      ]);
+      expect(emailHandler.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry runs', () => {
+    it('should simulate steps with rendered configs instead of executing them', async () => {
+      const workflow = buildWorkflow([
+        { id: 'welcome', type: 'send_email', config: { to: '{{client.email}}' } },
+        {
+          type: 'send_email',
+          if: 'steps.welcome.simulated',
+          config: { to: 'ops@example.com' },
+        },
+      ]);
+
+      const result = await engine.run(
+        workflow,
+        { client: { email: 'jane@acme.com' } },
+        { executionId: null, userId: 'user-123', dryRun: true },
+      );
+
+      expect(result.status).toBe('completed');
+      expect(emailHandler.execute).not.toHaveBeenCalled();
+      expect(emailHandler.simulate).toHaveBeenCalledWith(
+        { to: 'jane@acme.com' },
+        expect.objectContaining({ userId: 'user-123' }),
+      );
+      expect(result.steps.map((step) => step.output)).toEqual([
+        { to: 'jane@acme.com', simulated: true },
+        { to: 'ops@example.com', simulated: true },
+      ]);
+    });
+
+    it('should fail steps whose handler cannot be simulated', async () => {
+      const workflow = buildWorkflow([{ type: 'create_project', config: { name: 'Kickoff' } }]);
+
+      const result = await engine.run(
+        workflow,
+        {},
+        {
+          executionId: null,
+          userId: 'user-123',
+          dryRun: true,
+        },
+      );
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('Step type "create_project" does not support dry runs');
+      expect(projectHandler.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approvals', () => {
+    const workflow = buildWorkflow([
+      { id: 'welcome', type: 'send_email', config: { to: '{{client.email}}' } },
+      {
+        id: 'review',
+        type: 'approval',
+        approvers: ['{{manager}}'],
+        message: 'Review {{client.email}}',
+      },
+      { type: 'create_project', config: { name: 'Kickoff' } },
+    ]);
+    const inputs = { client: { email: 'jane@acme.com' }, manager: 'user-456' };
+
+    it('should suspend at an undecided approval', async () => {
+      const result = await engine.run(workflow, inputs, {
+        executionId: 'execution-1',
+        userId: 'user-123',
+      });
+
+      expect(result.status).toBe('waiting');
+      expect(result.approvals).toEqual([
+        { stepId: 'review', approvers: ['user-456'], message: 'Review jane@acme.com' },
+      ]);
+      expect(result.steps.map((step) => step.status)).toEqual(['completed', 'waiting']);
+      expect(projectHandler.execute).not.toHaveBeenCalled();
+    });
+
+    it('should resume after approval without repeating completed steps', async () => {
+      const first = await engine.run(workflow, inputs, {
+        executionId: 'execution-1',
+        userId: 'user-123',
+      });
+      const approval = {
+        ...first.approvals[0],
+        status: 'approved' as const,
+        requestedAt: '2025-01-01T09:00:00.000Z',
+        decidedById: 'user-456',
+        decidedAt: '2025-01-01T10:00:00.000Z',
+      };
+
+      const result = await engine.run(workflow, inputs, {
+        executionId: 'execution-1',
+        userId: 'user-123',
+        resume: { steps: first.steps, approvals: { review: approval } },
+      });
+
+      expect(result.status).toBe('completed');
+      expect(emailHandler.execute).toHaveBeenCalledTimes(1);
+      expect(projectHandler.execute).toHaveBeenCalledTimes(1);
+      expect(result.steps[1].output).toEqual(
+        expect.objectContaining({ decision: 'approved', decidedById: 'user-456' }),
+      );
+    });
+
+    it('should save completed action steps and resume from them after a lost run', async () => {
+      const saved = [];
+      const saveProgress = jest.fn((steps) => {
+        saved.push(structuredClone(steps));
+        return Promise.resolve();
+      });
+      const steps = [
+        { type: 'send_email', config: { to: 'jane@acme.com' } },
+        { type: 'create_project', config: { name: 'Kickoff' } },
+      ];
+
+      await engine.run(
+        buildWorkflow(steps),
+        {},
+        {
+          executionId: 'execution-1',
+          userId: 'user-123',
+          saveProgress,
+        },
+      );
+      expect(saved[0]).toEqual([
+        expect.objectContaining({
+          stepId: 'step-1',
+          status: 'completed',
+          output: { to: 'jane@acme.com' },
+        }),
+      ]);
+
+      // The worker stopped after the first save
+      const result = await engine.run(
+        buildWorkflow(steps),
+        {},
+        {
+          executionId: 'execution-1',
+          userId: 'user-123',
+          resume: { steps: saved[0], approvals: {} },
+        },
+      );
+
+      expect(result.status).toBe('completed');
+      expect(emailHandler.execute).toHaveBeenCalledTimes(1);
+      expect(projectHandler.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail the run when the approval is rejected', async () => {
+      const result = await engine.run(workflow, inputs, {
+        executionId: 'execution-1',
+        userId: 'user-123',
+        resume: {
+          steps: [],
+          approvals: {
+            review: {
+              stepId: 'review',
+              approvers: ['user-456'],
+              status: 'rejected',
+              requestedAt: '2025-01-01T09:00:00.000Z',
+              decidedById: 'user-456',
+              comment: 'Missing tax ID',
+            },
+          },
+        },
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toContain('Rejected by user-456: Missing tax ID');
+      expect(projectHandler.execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,563 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Workflow } from '../entities/workflow.entity';
+import { resolveTemplate } from './template.util';
+import { evaluateExpression } from './expression.util';
+import { collectActionTypes, validateStepSchema } from './step-schema.util';
+import { delay, getBackoffDelay, runWithTimeout } from './step-policy.util';
+import { CancellationToken } from '../../integrations/ai/utils/cancellation.util';
+import {
+  ActionStepDefinition,
+  ApprovalStepDefinition,
+  ForEachStepDefinition,
+  IfStepDefinition,
+  ParallelStepDefinition,
+  WORKFLOW_STEP_HANDLERS,
+  WorkflowApproval,
+  WorkflowApprovalRequest,
+  WorkflowExecutionContext,
+  WorkflowRunResult,
+  WorkflowStepAttempt,
+  WorkflowStepDefinition,
+  WorkflowStepHandler,
+  WorkflowStepResult,
+} from './workflow-step.interface';
+
+export class WorkflowStepError extends Error {
+  constructor(
+    public readonly stepId: string,
+    public readonly stepType: string,
+    public readonly originalError: Error,
+  ) {
+    super(`Step "${stepId}" (${stepType}) failed: ${originalError.message}`);
+    this.name = 'WorkflowStepError';
+  }
+}
+
+// Thrown when a run reaches an approval that has not been decided yet
+export class WorkflowSuspendedError extends Error {
+  constructor(public readonly stepId: string) {
+    super(`Waiting for approval of step "${stepId}"`);
+    this.name = 'WorkflowSuspendedError';
+  }
+}
+
+// Where a step sits in the graph: default ids are derived from the prefix,
+// loop iterations add a suffix such as [2] and expose the current item
+interface StepFrame {
+  prefix: string;
+  suffix: string;
+  locals: Record<string, any>;
+}
+
+// A completed step whose compensate action runs if the workflow later fails
+interface PendingCompensation {
+  stepId: string;
+  step: ActionStepDefinition;
+  scope: Record<string, any>;
+}
+
+interface RunState {
+  context: WorkflowExecutionContext;
+  results: WorkflowStepResult[];
+  compensations: PendingCompensation[];
+  cancellationToken: CancellationToken;
+  dryRun: boolean;
+  // Results of a previous run of the same execution, by result step id
+  completed: Map<string, WorkflowStepResult>;
+  approvals: Record<string, WorkflowApproval>;
+  pendingApprovals: WorkflowApprovalRequest[];
+  saveProgress?: (steps: WorkflowStepResult[]) => Promise<void>;
+}
+
+const SKIPPED = Symbol('skipped');
+
+@Injectable()
+export class WorkflowEngineService {
+  private readonly logger = new Logger(WorkflowEngineService.name);
+  private readonly handlers = new Map<string, WorkflowStepHandler>();
+
+  constructor(@Inject(WORKFLOW_STEP_HANDLERS) handlers: WorkflowStepHandler[]) {
+    handlers.forEach((handler) => this.registerHandler(handler));
+  }
+
+  registerHandler(handler: WorkflowStepHandler): void {
+    this.handlers.set(handler.type, handler);
+  }
+
+  hasHandler(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Checks a step graph against the schema and the registered handlers
+   */
+  validateSteps(steps: unknown, schemaVersion?: number): string[] {
+    const errors = validateStepSchema(steps, schemaVersion);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    return collectActionTypes(steps as WorkflowStepDefinition[])
+      .filter((type) => !this.hasHandler(type))
+      .map((type) => `No handler registered for step type "${type}"`);
+  }
+
+  /**
+   * Lists the integrations needed by the handlers of a step graph
+   */
+  getRequiredIntegrations(steps: WorkflowStepDefinition[]): string[] {
+    const integrations = collectActionTypes(steps || [])
+      .map((type) => this.handlers.get(type)?.integration)
+      .filter(Boolean);
+    return [...new Set(integrations)].sort();
+  }
+
+  /**
+   * Lists the integrations provided by the registered handlers
+   */
+  getAvailableIntegrations(): string[] {
+    const integrations = [...this.handlers.values()]
+      .map((handler) => handler.integration)
+      .filter(Boolean);
+    return [...new Set(integrations)].sort();
+  }
+
+  /**
+   * Runs the workflow steps in order, stopping at the first failing step or
+   * when the cancellation token fires. Dry runs call the simulate method of
+   * each handler instead of execute.
+   *
+   * A run that reaches an undecided approval returns with status waiting.
+   * It is resumed by running it again with the steps it recorded and the
+   * approval decisions: completed action steps are not executed again.
+   * Runs cut short by a restart resume the same way from the steps passed to
+   * saveProgress, which is called as each action step completes.
+   */
+  async run(
+    workflow: Workflow,
+    inputs: Record<string, any>,
+    options: {
+      executionId: string;
+      userId: string;
+      cancellationToken?: CancellationToken;
+      dryRun?: boolean;
+      resume?: { steps: WorkflowStepResult[]; approvals: Record<string, WorkflowApproval> };
+      saveProgress?: (steps: WorkflowStepResult[]) => Promise<void>;
+    },
+  ): Promise<WorkflowRunResult> {
+    const context: WorkflowExecutionContext = {
+      executionId: options.executionId,
+      workflowId: workflow.id,
+      userId: options.userId,
+      variables: workflow.variables || {},
+      inputs: inputs || {},
+      steps: {},
+    };
+    const steps = workflow.steps || [];
+    const state: RunState = {
+      context,
+      results: [],
+      compensations: [],
+      cancellationToken: options.cancellationToken || new CancellationToken(),
+      dryRun: Boolean(options.dryRun),
+      completed: new Map(
+        (options.resume?.steps || [])
+          .filter((result) => result.status === 'completed' && !result.compensationFor)
+          .map((result) => [result.stepId, result]),
+      ),
+      approvals: options.resume?.approvals || {},
+      pendingApprovals: [],
+      saveProgress: options.saveProgress,
+    };
+
+    this.logger.log(
+      `${state.dryRun ? 'Simulating' : 'Running'} workflow ${workflow.id} (${steps.length} steps)`,
+    );
+
+    try {
+      await this.runSequence(steps, { prefix: 'step', suffix: '', locals: {} }, state);
+    } catch (error) {
+      if (error instanceof WorkflowSuspendedError) {
+        this.logger.log(`Execution ${options.executionId} is waiting for approval`);
+        return {
+          executionId: options.executionId,
+          status: 'waiting',
+          steps: state.results,
+          approvals: state.pendingApprovals,
+        };
+      }
+
+      const cancelled = state.cancellationToken.isCancelled;
+      this.logger.error(cancelled ? `Execution ${options.executionId} cancelled` : error.message);
+      await this.compensate(state);
+
+      return {
+        executionId: options.executionId,
+        status: cancelled ? 'cancelled' : 'failed',
+        steps: state.results,
+        error: cancelled ? 'Execution was cancelled' : error.message,
+      };
+    }
+
+    return {
+      executionId: options.executionId,
+      status: 'completed',
+      steps: state.results,
+    };
+  }
+
+  private async runSequence(
+    steps: WorkflowStepDefinition[],
+    frame: StepFrame,
+    state: RunState,
+  ): Promise<void> {
+    for (const [index, step] of steps.entries()) {
+      try {
+        await this.runStep(step, this.getStepId(step, index, frame), frame, state);
+      } catch (error) {
+        if (state.cancellationToken.isCancelled) {
+          this.recordUnrun(steps, index + 1, frame, 'cancelled', state.results);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Runs a single step and records its result. Failures are rethrown as a
+   * WorkflowStepError naming the innermost failing step.
+   */
+  private async runStep(
+    step: WorkflowStepDefinition,
+    stepId: string,
+    frame: StepFrame,
+    state: RunState,
+  ): Promise<void> {
+    const startedAt = new Date();
+    // Recorded up front so that control steps precede their children in the log
+    const result: WorkflowStepResult = {
+      stepId: stepId + frame.suffix,
+      type: step.type,
+      status: 'running',
+      startedAt,
+      finishedAt: startedAt,
+    };
+    state.results.push(result);
+    const previous = state.completed.get(result.stepId);
+    if (previous) {
+      result.startedAt = previous.startedAt;
+    }
+
+    try {
+      state.cancellationToken.throwIfCancelled();
+      const output = await this.executeStep(step, stepId, frame, state, result);
+      if (output === SKIPPED) {
+        result.status = 'skipped';
+      } else {
+        result.status = 'completed';
+        result.output = output;
+        state.context.steps[stepId] = output;
+      }
+    } catch (error) {
+      if (error instanceof WorkflowSuspendedError) {
+        result.status = 'waiting';
+        throw error;
+      }
+
+      result.status = state.cancellationToken.isCancelled ? 'cancelled' : 'failed';
+      result.error = error.message;
+      throw error instanceof WorkflowStepError
+        ? error
+        : new WorkflowStepError(result.stepId, step.type, error);
+    } finally {
+      result.finishedAt = previous?.finishedAt || new Date();
+    }
+  }
+
+  private async executeStep(
+    step: WorkflowStepDefinition,
+    stepId: string,
+    frame: StepFrame,
+    state: RunState,
+    result: WorkflowStepResult,
+  ): Promise<any> {
+    const scope = this.buildScope(state.context, frame.locals);
+
+    switch (step.type) {
+      case 'if': {
+        const { condition, then, else: otherwise = [] } = step as IfStepDefinition;
+        const matched = Boolean(evaluateExpression(condition, scope));
+        const [taken, skipped] = matched ? [then, otherwise] : [otherwise, then];
+        const branchFrame = { ...frame, prefix: `${stepId}-${matched ? 'then' : 'else'}` };
+
+        this.recordUnrun(
+          skipped,
+          0,
+          { ...frame, prefix: `${stepId}-${matched ? 'else' : 'then'}` },
+          'skipped',
+          state.results,
+        );
+        await this.runSequence(taken, branchFrame, state);
+        return { branch: matched ? 'then' : 'else' };
+      }
+
+      case 'forEach': {
+        const { items: expression, as = 'item', steps } = step as ForEachStepDefinition;
+        const items = evaluateExpression(expression, scope);
+        if (!Array.isArray(items)) {
+          throw new Error(`"${expression}" did not evaluate to an array`);
+        }
+
+        const iterations: Record<string, any>[] = [];
+        for (const [index, item] of items.entries()) {
+          const iterationFrame: StepFrame = {
+            prefix: stepId,
+            suffix: `${frame.suffix}[${index}]`,
+            locals: { ...frame.locals, [as]: item, index },
+          };
+          await this.runSequence(steps, iterationFrame, state);
+          iterations.push(this.collectOutputs(steps, iterationFrame, state.context));
+        }
+        return { count: items.length, iterations };
+      }
+
+      case 'parallel': {
+        const { branches } = step as ParallelStepDefinition;
+        const settled = await Promise.allSettled(
+          branches.map((branch, index) =>
+            this.runSequence(branch, { ...frame, prefix: `${stepId}-${index + 1}` }, state),
+          ),
+        );
+        const errors = settled
+          .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+          .map((outcome) => outcome.reason);
+        // A failed branch wins over one that is only waiting for approval
+        const failure =
+          errors.find((error) => !(error instanceof WorkflowSuspendedError)) || errors[0];
+        if (failure) {
+          throw failure;
+        }
+        return { branches: branches.length };
+      }
+
+      case 'approval':
+        return this.runApproval(step as ApprovalStepDefinition, scope, result, state);
+
+      default: {
+        const action = step as ActionStepDefinition;
+        if (action.if !== undefined && !evaluateExpression(action.if, scope)) {
+          return SKIPPED;
+        }
+
+        const previous = state.completed.get(result.stepId);
+        if (previous) {
+          result.attempts = previous.attempts;
+        }
+        const output = previous
+          ? previous.output
+          : await this.runAction(action, scope, result, state);
+        if (!previous && state.saveProgress) {
+          Object.assign(result, { status: 'completed', output, finishedAt: new Date() });
+          await state.saveProgress(state.results);
+        }
+        if (action.compensate) {
+          state.compensations.push({
+            stepId: result.stepId,
+            step: action.compensate,
+            scope: { ...scope, output },
+          });
+        }
+        return output;
+      }
+    }
+  }
+
+  /**
+   * Runs an action step's handler, retrying failed attempts with backoff and
+   * recording every attempt on the step result
+   */
+  private async runAction(
+    action: ActionStepDefinition,
+    scope: Record<string, any>,
+    result: WorkflowStepResult,
+    state: RunState,
+  ): Promise<any> {
+    const { context, cancellationToken: executionToken } = state;
+    const handler = this.handlers.get(action.type);
+    if (!handler) {
+      throw new Error(`No handler registered for step type "${action.type}"`);
+    }
+    if (state.dryRun && !handler.simulate) {
+      throw new Error(`Step type "${action.type}" does not support dry runs`);
+    }
+
+    // Unresolvable config fails the step straight away; retrying cannot fix it
+    const config = resolveTemplate(action.config || {}, scope);
+    const maxAttempts = (action.retries || 0) + 1;
+    result.attempts = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const record: WorkflowStepAttempt = {
+        attempt,
+        status: 'completed',
+        startedAt: new Date(),
+        finishedAt: null,
+      };
+      result.attempts.push(record);
+
+      try {
+        const output = await runWithTimeout(
+          (cancellationToken) =>
+            state.dryRun
+              ? handler.simulate(config, context)
+              : handler.execute(config, context, cancellationToken),
+          action.timeoutMs,
+          executionToken,
+        );
+        record.finishedAt = new Date();
+        return output;
+      } catch (error) {
+        record.status = 'failed';
+        record.error = error.message;
+        record.finishedAt = new Date();
+
+        // Simulations are deterministic, so a dry run does not retry them
+        if (attempt >= maxAttempts || executionToken.isCancelled || state.dryRun) {
+          throw error;
+        }
+
+        const wait = getBackoffDelay(action.backoff, attempt);
+        this.logger.warn(
+          `Step "${result.stepId}" attempt ${attempt} failed, retrying in ${wait}ms: ${error.message}`,
+        );
+        await delay(wait, executionToken);
+      }
+    }
+  }
+
+  /**
+   * Completes an approval step from its recorded decision, or suspends the
+   * run until a decision is made. Dry runs assume approval.
+   */
+  private runApproval(
+    step: ApprovalStepDefinition,
+    scope: Record<string, any>,
+    result: WorkflowStepResult,
+    state: RunState,
+  ): Record<string, any> {
+    if (state.dryRun) {
+      return { decision: 'approved', simulated: true };
+    }
+
+    const approval = state.approvals[result.stepId];
+    if (approval?.status === 'approved' || approval?.status === 'rejected') {
+      const decision = {
+        decision: approval.status,
+        decidedById: approval.decidedById,
+        comment: approval.comment,
+        decidedAt: approval.decidedAt,
+      };
+      if (approval.status === 'rejected' && step.onReject !== 'continue') {
+        throw new Error(
+          `Rejected by ${approval.decidedById}${approval.comment ? `: ${approval.comment}` : ''}`,
+        );
+      }
+      return decision;
+    }
+
+    state.pendingApprovals.push({
+      stepId: result.stepId,
+      ...resolveTemplate(
+        { approvers: step.approvers, message: step.message, escalation: step.escalation },
+        scope,
+      ),
+    });
+    throw new WorkflowSuspendedError(result.stepId);
+  }
+
+  /**
+   * Runs the compensate actions of completed steps, most recent first. This
+   * also happens on cancellation, so compensations are not cancellable.
+   * Compensation failures are recorded but do not stop the remaining ones.
+   */
+  private async compensate(state: RunState): Promise<void> {
+    const compensationState = { ...state, cancellationToken: new CancellationToken() };
+
+    for (const { stepId, step, scope } of [...state.compensations].reverse()) {
+      const result: WorkflowStepResult = {
+        stepId: step.id || `${stepId}-compensation`,
+        type: step.type,
+        status: 'completed',
+        compensationFor: stepId,
+        startedAt: new Date(),
+        finishedAt: null,
+      };
+      state.results.push(result);
+
+      try {
+        result.output = await this.runAction(step, scope, result, compensationState);
+      } catch (error) {
+        result.status = 'failed';
+        result.error = error.message;
+        this.logger.error(`Compensation for step "${stepId}" failed: ${error.message}`);
+      } finally {
+        result.finishedAt = new Date();
+      }
+    }
+  }
+
+  /**
+   * Records the steps of a sequence from startIndex on as not having run
+   */
+  private recordUnrun(
+    steps: WorkflowStepDefinition[],
+    startIndex: number,
+    frame: StepFrame,
+    status: 'skipped' | 'cancelled',
+    results: WorkflowStepResult[],
+  ): void {
+    const now = new Date();
+    steps.slice(startIndex).forEach((step, offset) =>
+      results.push({
+        stepId: this.getStepId(step, startIndex + offset, frame) + frame.suffix,
+        type: step.type,
+        status,
+        startedAt: now,
+        finishedAt: now,
+      }),
+    );
+  }
+
+  private collectOutputs(
+    steps: WorkflowStepDefinition[],
+    frame: StepFrame,
+    context: WorkflowExecutionContext,
+  ): Record<string, any> {
+    return steps.reduce(
+      (outputs, step, index) => {
+        const stepId = this.getStepId(step, index, frame);
+        outputs[stepId] = context.steps[stepId];
+        return outputs;
+      },
+      {} as Record<string, any>,
+    );
+  }
+
+  private getStepId(step: WorkflowStepDefinition, index: number, frame: StepFrame): string {
+    return step.id || `${frame.prefix}-${index + 1}`;
+  }
+
+  private buildScope(
+    context: WorkflowExecutionContext,
+    locals: Record<string, any> = {},
+  ): Record<string, any> {
+    return {
+      ...context.variables,
+      ...context.inputs,
+      ...locals,
+      variables: context.variables,
+      inputs: context.inputs,
+      steps: context.steps,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Contracts shared by the workflow engine and its step handlers
+ */
+import { CancellationToken } from '../../integrations/ai/utils/cancellation.util';
+
+export const WORKFLOW_STEP_HANDLERS = 'WORKFLOW_STEP_HANDLERS';
+
+/**
+ * Version 1 workflows are a flat list of action steps. Version 2 adds the
+ * control-flow steps below and `if` guards on action steps.
+ */
+export const WORKFLOW_STEP_SCHEMA_VERSION = 2;
+export const WORKFLOW_STEP_SCHEMA_VERSIONS = [1, 2];
+
+export const CONTROL_STEP_TYPES = ['if', 'forEach', 'parallel', 'approval'];
+
+interface BaseStepDefinition {
+  id?: string;
+  name?: string;
+}
+
+export interface StepBackoff {
+  strategy: 'fixed' | 'linear' | 'exponential';
+  delayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface ActionStepDefinition extends BaseStepDefinition {
+  // Handler type, e.g. send_email
+  type: string;
+  config?: Record<string, any>;
+  // Expression; the step is skipped when it evaluates to a falsy value
+  if?: string;
+  // Additional attempts after the first one fails
+  retries?: number;
+  backoff?: StepBackoff;
+  // Per-attempt limit, enforced through a cancellation token
+  timeoutMs?: number;
+  // Runs when the workflow fails after this step completed, e.g. void_envelope.
+  // The step output is available to its config as {{output}}.
+  compensate?: ActionStepDefinition;
+}
+
+export interface IfStepDefinition extends BaseStepDefinition {
+  type: 'if';
+  condition: string;
+  then: WorkflowStepDefinition[];
+  else?: WorkflowStepDefinition[];
+}
+
+export interface ForEachStepDefinition extends BaseStepDefinition {
+  type: 'forEach';
+  // Expression evaluating to an array
+  items: string;
+  // Name the current item is exposed under, defaults to `item`
+  as?: string;
+  steps: WorkflowStepDefinition[];
+}
+
+export interface ParallelStepDefinition extends BaseStepDefinition {
+  type: 'parallel';
+  // Branches run concurrently and are all joined before the next step
+  branches: WorkflowStepDefinition[][];
+}
+
+export interface ApprovalEscalation {
+  // Time after the request at which the escalation approvers are notified
+  afterMs: number;
+  // Users who may also decide once the approval has escalated
+  approvers: string[];
+}
+
+export interface ApprovalStepDefinition extends BaseStepDefinition {
+  type: 'approval';
+  // IDs of the users who may approve or reject; templates are resolved
+  approvers: string[];
+  message?: string;
+  // Whether a rejection fails the workflow (default) or continues with the
+  // decision available as the step output
+  onReject?: 'fail' | 'continue';
+  escalation?: ApprovalEscalation;
+}
+
+export type WorkflowStepDefinition =
+  | ActionStepDefinition
+  | IfStepDefinition
+  | ForEachStepDefinition
+  | ParallelStepDefinition
+  | ApprovalStepDefinition;
+
+export interface WorkflowExecutionContext {
+  executionId: string;
+  workflowId: string;
+  userId: string;
+  variables: Record<string, any>;
+  inputs: Record<string, any>;
+  // Outputs of completed steps, keyed by step id
+  steps: Record<string, any>;
+}
+
+export interface WorkflowStepHandler {
+  readonly type: string;
+  // External service the handler needs, listed when a workflow is exported
+  readonly integration?: string;
+  execute(
+    config: Record<string, any>,
+    context: WorkflowExecutionContext,
+    cancellationToken?: CancellationToken,
+  ): Promise<any>;
+  /**
+   * Called instead of execute during dry runs. Handlers with side effects
+   * validate and render the request they would make, returning output shaped
+   * like that of execute so that later steps can still reference it.
+   */
+  simulate?(config: Record<string, any>, context: WorkflowExecutionContext): Promise<any>;
+}
+
+// Steps are running only in the progress saved while their execution runs
+export type WorkflowStepStatus =
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled'
+  | 'waiting';
+
+export interface WorkflowStepAttempt {
+  attempt: number;
+  status: 'completed' | 'failed';
+  error?: string;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export interface WorkflowStepResult {
+  stepId: string;
+  type: string;
+  status: WorkflowStepStatus;
+  output?: any;
+  error?: string;
+  attempts?: WorkflowStepAttempt[];
+  // Set on compensation entries, naming the step being undone
+  compensationFor?: string;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+// Approval the run is waiting for, with approvers and message resolved
+export interface WorkflowApprovalRequest {
+  stepId: string;
+  approvers: string[];
+  message?: string;
+  escalation?: ApprovalEscalation;
+}
+
+export type WorkflowApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// State of an approval as stored on the execution; timestamps are ISO strings
+export interface WorkflowApproval extends WorkflowApprovalRequest {
+  status: WorkflowApprovalStatus;
+  requestedAt: string;
+  escalateAt?: string;
+  escalatedAt?: string;
+  decidedById?: string;
+  comment?: string;
+  decidedAt?: string;
+}
+
+export interface WorkflowRunResult {
+  executionId: string;
+  status: 'completed' | 'failed' | 'cancelled' | 'waiting';
+  steps: WorkflowStepResult[];
+  error?: string;
+  // Approvals a waiting run needs before it can continue
+  approvals?: WorkflowApprovalRequest[];
+}
@@ -0,0 +1,104 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Workflow } from './workflow.entity';
+import { WorkflowVersion } from './workflow-version.entity';
+import { WorkflowApproval, WorkflowStepResult } from '../engine/workflow-step.interface';
+
+export enum WorkflowExecutionStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  // Suspended until an approval step is decided, then queued again
+  WAITING = 'waiting',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Declared from lowest to highest so that ORDER BY priority DESC runs urgent work first
+export enum WorkflowExecutionPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+@Entity('workflow_executions')
+@Index(['workflowId', 'createdAt'])
+@Index(['status', 'priority', 'createdAt'])
+export class WorkflowExecution {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workflowId' })
+  workflow: Workflow;
+
+  @Column()
+  workflowId: string;
+
+  // Definition the execution runs, fixed when it is queued
+  @ManyToOne(() => WorkflowVersion, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'workflowVersionId' })
+  workflowVersion: WorkflowVersion;
+
+  @Column({ nullable: true })
+  workflowVersionId: string;
+
+  @Column({
+    type: 'enum',
+    enum: WorkflowExecutionStatus,
+    default: WorkflowExecutionStatus.QUEUED,
+  })
+  status: WorkflowExecutionStatus;
+
+  @Column({
+    type: 'enum',
+    enum: WorkflowExecutionPriority,
+    default: WorkflowExecutionPriority.MEDIUM,
+  })
+  priority: WorkflowExecutionPriority;
+
+  @Column({ type: 'jsonb', nullable: true })
+  inputs: Record<string, any>;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  steps: WorkflowStepResult[];
+
+  // Approval steps the run has reached, keyed by step id
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  approvals: Record<string, WorkflowApproval>;
+
+  @Column({ type: 'text', nullable: true })
+  error: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'triggeredById' })
+  triggeredBy: User;
+
+  @Column({ nullable: true })
+  triggeredById: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date;
+
+  // Lease held by the worker running the execution; expired leases are requeued
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date;
+
+  // Set when cancellation is requested; the worker running the execution picks it up
+  @Column({ type: 'timestamp', nullable: true })
+  cancelRequestedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Workflow, WorkflowTriggerType } from './workflow.entity';
+import { WorkflowStepDefinition } from '../engine/workflow-step.interface';
+
+/**
+ * Immutable snapshot of a workflow definition. A new version is stored
+ * whenever the steps, trigger or variables of the workflow change.
+ */
+@Entity('workflow_versions')
+@Index(['workflowId', 'version'], { unique: true })
+export class WorkflowVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workflowId' })
+  workflow: Workflow;
+
+  @Column()
+  workflowId: string;
+
+  @Column()
+  version: number;
+
+  @Column({
+    type: 'enum',
+    enum: WorkflowTriggerType,
+    enumName: 'workflow_trigger_type_enum',
+  })
+  triggerType: WorkflowTriggerType;
+
+  @Column({ type: 'jsonb', nullable: true })
+  triggerConfig: Record<string, any>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  steps: WorkflowStepDefinition[];
+
+  @Column()
+  schemaVersion: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  variables: Record<string, any>;
+
+  // Set when the version was created by rolling back to an earlier one
+  @Column({ nullable: true })
+  restoredFromVersion: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'createdById' })
+  createdBy: User;
+
+  @Column({ nullable: true })
+  createdById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
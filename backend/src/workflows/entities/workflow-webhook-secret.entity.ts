@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Workflow } from './workflow.entity';
+
+@Entity('workflow_webhook_secrets')
+@Index(['workflowId', 'tokenHash'])
+export class WorkflowWebhookSecret {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workflowId' })
+  workflow: Workflow;
+
+  @Column()
+  workflowId: string;
+
+  // SHA-256 of the URL token; the token itself is only shown once on rotation
+  @Column({ length: 64 })
+  tokenHash: string;
+
+  // Shared secret used to verify the HMAC signature header
+  @Column()
+  signingSecret: string;
+
+  // Set when the secret is rotated out; it keeps working until then
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
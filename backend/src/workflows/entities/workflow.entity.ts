@@ -6,8 +6,14 @@ import {
   UpdateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { WorkflowCategory } from './workflow-category.entity';
+import {
+  WORKFLOW_STEP_SCHEMA_VERSION,
+  WorkflowStepDefinition,
+} from '../engine/workflow-step.interface';
 
 export enum WorkflowStatus {
   DRAFT = 'draft',
@@ -25,6 +31,7 @@ export enum WorkflowTriggerType {
 }
 
 @Entity('workflows')
+@Index(['userId', 'categoryId'])
 export class Workflow {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -42,6 +49,13 @@ export class Workflow {
   })
   status: WorkflowStatus;
 
+  @ManyToOne(() => WorkflowCategory, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'categoryId' })
+  category: WorkflowCategory;
+
+  @Column({ nullable: true })
+  categoryId: string;
+
   @Column({
     type: 'enum',
     enum: WorkflowTriggerType,
@@ -53,11 +67,18 @@ export class Workflow {
   triggerConfig: Record<string, any>;
 
   @Column({ type: 'jsonb', nullable: true })
-  steps: Record<string, any>[];
+  steps: WorkflowStepDefinition[];
+
+  @Column({ default: WORKFLOW_STEP_SCHEMA_VERSION })
+  schemaVersion: number;
 
   @Column({ type: 'jsonb', nullable: true })
   variables: Record<string, any>;
 
+  // Number of the latest stored WorkflowVersion
+  @Column({ default: 1 })
+  version: number;
+
   @Column({ default: 0 })
   executionCount: number;
 
@@ -0,0 +1,203 @@
+/**
+ * Portable JSON/YAML format used to export, import and share workflows
+ */
+import { Workflow, WorkflowTriggerType } from '../entities/workflow.entity';
+import { WorkflowStepDefinition } from '../engine/workflow-step.interface';
+
+export const PORTABLE_WORKFLOW_FORMAT = 'kitops.workflow';
+export const PORTABLE_WORKFLOW_FORMAT_VERSION = 1;
+
+export const PORTABLE_VARIABLE_TYPES = ['string', 'number', 'boolean', 'object', 'array'] as const;
+
+export type PortableVariableType = (typeof PORTABLE_VARIABLE_TYPES)[number];
+
+export interface PortableVariable {
+  type: PortableVariableType;
+  description?: string;
+  default?: unknown;
+  // Required variables without a default must be given a value on import
+  required?: boolean;
+}
+
+export interface PortableWorkflow {
+  format: typeof PORTABLE_WORKFLOW_FORMAT;
+  formatVersion: number;
+  name: string;
+  description?: string;
+  category?: string;
+  definition: {
+    schemaVersion: number;
+    trigger: {
+      type: WorkflowTriggerType;
+      config?: Record<string, any>;
+    };
+    steps: WorkflowStepDefinition[];
+  };
+  variables: Record<string, PortableVariable>;
+  // Integrations such as openai or docusign that the steps call
+  requiredIntegrations: string[];
+}
+
+/**
+ * Converts a workflow to the portable format. Variable types are inferred
+ * from their current values, which become the defaults. The category is
+ * exported by name when the relation is loaded.
+ */
+export function toPortableWorkflow(
+  workflow: Workflow,
+  requiredIntegrations: string[],
+): PortableWorkflow {
+  const variables = Object.entries(workflow.variables || {}).reduce(
+    (schema, [name, value]) => {
+      schema[name] = { type: getVariableType(value), default: value };
+      return schema;
+    },
+    {} as Record<string, PortableVariable>,
+  );
+
+  return {
+    format: PORTABLE_WORKFLOW_FORMAT,
+    formatVersion: PORTABLE_WORKFLOW_FORMAT_VERSION,
+    name: workflow.name,
+    ...(workflow.description && { description: workflow.description }),
+    ...(workflow.category && { category: workflow.category.name }),
+    definition: {
+      schemaVersion: workflow.schemaVersion,
+      trigger: {
+        type: workflow.triggerType,
+        ...(workflow.triggerConfig && { config: workflow.triggerConfig }),
+      },
+      steps: workflow.steps || [],
+    },
+    variables,
+    requiredIntegrations,
+  };
+}
+
+/**
+ * Checks the structure of a parsed portable workflow. Steps and trigger
+ * configs are validated separately, like those of any other workflow.
+ */
+export function validatePortableWorkflow(document: any): string[] {
+  if (!isPlainObject(document)) {
+    return ['Workflow file must contain an object'];
+  }
+
+  if (document.format !== PORTABLE_WORKFLOW_FORMAT) {
+    return [`format must be "${PORTABLE_WORKFLOW_FORMAT}"`];
+  }
+
+  if (document.formatVersion !== PORTABLE_WORKFLOW_FORMAT_VERSION) {
+    return [`formatVersion ${document.formatVersion} is not supported`];
+  }
+
+  const errors: string[] = [];
+  if (typeof document.name !== 'string' || document.name.trim().length === 0) {
+    errors.push('name is required');
+  }
+
+  if (
+    document.category !== undefined &&
+    (typeof document.category !== 'string' || document.category.trim().length === 0)
+  ) {
+    errors.push('category must be a non-empty string');
+  }
+
+  const definition = document.definition;
+  if (!isPlainObject(definition)) {
+    errors.push('definition must be an object');
+  } else {
+    if (!Number.isInteger(definition.schemaVersion)) {
+      errors.push('definition.schemaVersion must be an integer');
+    }
+    if (!Object.values(WorkflowTriggerType).includes(definition.trigger?.type)) {
+      errors.push(
+        `definition.trigger.type must be one of ${Object.values(WorkflowTriggerType).join(', ')}`,
+      );
+    }
+    if (!Array.isArray(definition.steps)) {
+      errors.push('definition.steps must be an array');
+    }
+  }
+
+  if (document.variables !== undefined && !isPlainObject(document.variables)) {
+    errors.push('variables must be an object');
+  } else {
+    Object.entries(document.variables || {}).forEach(([name, variable]) =>
+      validateVariable(name, variable, errors),
+    );
+  }
+
+  if (
+    document.requiredIntegrations !== undefined &&
+    (!Array.isArray(document.requiredIntegrations) ||
+      document.requiredIntegrations.some((integration) => typeof integration !== 'string'))
+  ) {
+    errors.push('requiredIntegrations must be a list of integration names');
+  }
+
+  return errors;
+}
+
+/**
+ * Resolves variable values from the declared defaults and the values given
+ * on import, returning the problems found alongside
+ */
+export function resolveVariables(
+  schema: Record<string, PortableVariable>,
+  values: Record<string, any> = {},
+): { variables: Record<string, any>; errors: string[] } {
+  const variables: Record<string, any> = {};
+  const errors: string[] = [];
+
+  Object.keys(values)
+    .filter((name) => !(name in schema))
+    .forEach((name) => errors.push(`Unknown variable "${name}"`));
+
+  Object.entries(schema).forEach(([name, variable]) => {
+    const value = name in values ? values[name] : variable.default;
+    if (value === undefined) {
+      if (variable.required) {
+        errors.push(`Variable "${name}" is required`);
+      }
+      return;
+    }
+
+    if (getVariableType(value) !== variable.type) {
+      errors.push(`Variable "${name}" must be of type ${variable.type}`);
+      return;
+    }
+    variables[name] = value;
+  });
+
+  return { variables, errors };
+}
+
+function validateVariable(name: string, variable: any, errors: string[]): void {
+  const path = `variables.${name}`;
+  if (!isPlainObject(variable)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (!PORTABLE_VARIABLE_TYPES.includes(variable.type)) {
+    errors.push(`${path}.type must be one of ${PORTABLE_VARIABLE_TYPES.join(', ')}`);
+  } else if (
+    variable.default !== undefined &&
+    getVariableType(variable.default) !== variable.type
+  ) {
+    errors.push(`${path}.default must be of type ${variable.type}`);
+  }
+}
+
+function getVariableType(value: unknown): PortableVariableType {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
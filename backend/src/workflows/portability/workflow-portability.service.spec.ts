@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { stringify } from 'yaml';
+import { WorkflowPortabilityService } from './workflow-portability.service';
+import { WORKFLOW_TEMPLATES } from './workflow-templates';
+import { WorkflowsService } from '../workflows.service';
+import { WorkflowEngineService } from '../engine/workflow-engine.service';
+import { WorkflowCategoriesService } from '../categories/workflow-categories.service';
+import { validateStepSchema } from '../engine/step-schema.util';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+
+describe('WorkflowPortabilityService', () => {
+  let service: WorkflowPortabilityService;
+
+  const workflow = Object.assign(new Workflow(), {
+    id: 'workflow-123',
+    name: 'Client Onboarding',
+    description: 'Welcome new clients',
+    status: WorkflowStatus.ACTIVE,
+    triggerType: WorkflowTriggerType.MANUAL,
+    triggerConfig: null,
+    schemaVersion: 2,
+    steps: [{ type: 'send_email', config: { to: '{{client.email}}', subject: '{{greeting}}' } }],
+    variables: { greeting: 'Welcome aboard' },
+    userId: 'user-123',
+    categoryId: 'category-123',
+  });
+
+  const mockWorkflowsService = {
+    findOne: jest.fn().mockResolvedValue(workflow),
+    create: jest.fn((dto) => Promise.resolve({ id: 'workflow-456', ...dto })),
+  };
+
+  const mockWorkflowEngine = {
+    getRequiredIntegrations: jest.fn().mockReturnValue(['email']),
+    getAvailableIntegrations: jest.fn().mockReturnValue(['docusign', 'email', 'openai']),
+  };
+
+  const mockCategoriesService = {
+    findOne: jest.fn().mockResolvedValue({ id: 'category-123', name: 'Client Management' }),
+    findOrCreate: jest.fn().mockResolvedValue({ id: 'category-456', name: 'Client Management' }),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowPortabilityService,
+        { provide: WorkflowsService, useValue: mockWorkflowsService },
+        { provide: WorkflowEngineService, useValue: mockWorkflowEngine },
+        { provide: WorkflowCategoriesService, useValue: mockCategoriesService },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowPortabilityService>(WorkflowPortabilityService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('export and import', () => {
+    it('should round-trip a workflow through YAML as a draft', async () => {
+      const document = await service.export('workflow-123', 'user-123');
+      const content = service.serialize(document, 'yaml');
+
+      expect(document).toEqual(
+        expect.objectContaining({
+          format: 'kitops.workflow',
+          category: 'Client Management',
+          variables: { greeting: { type: 'string', default: 'Welcome aboard' } },
+          requiredIntegrations: ['email'],
+        }),
+      );
+
+      await service.import({ content }, 'user-456');
+
+      expect(mockCategoriesService.findOrCreate).toHaveBeenCalledWith(
+        'Client Management',
+        'user-456',
+      );
+      expect(mockWorkflowsService.create).toHaveBeenCalledWith(
+        {
+          name: 'Client Onboarding',
+          description: 'Welcome new clients',
+          categoryId: 'category-456',
+          status: WorkflowStatus.DRAFT,
+          triggerType: WorkflowTriggerType.MANUAL,
+          triggerConfig: undefined,
+          schemaVersion: 2,
+          steps: workflow.steps,
+          variables: { greeting: 'Welcome aboard' },
+        },
+        'user-456',
+      );
+    });
+
+    it('should reject files in another format', async () => {
+      await expect(
+        service.import({ content: stringify({ name: 'Not a workflow' }) }, 'user-123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockWorkflowsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should report unavailable integrations and invalid variables', async () => {
+      const document = {
+        ...(await service.export('workflow-123', 'user-123')),
+        requiredIntegrations: ['slack'],
+      };
+
+      await expect(
+        service.import({ content: document, variables: { greeting: 42 } }, 'user-123'),
+      ).rejects.toMatchObject({
+        response: {
+          message: [
+            'Integration "slack" is not available',
+            'Variable "greeting" must be of type string',
+          ],
+        },
+      });
+    });
+  });
+
+  describe('templates', () => {
+    it.each(WORKFLOW_TEMPLATES.map(({ id, workflow }) => [id, workflow]))(
+      'should ship a valid step graph for %s',
+      (_id, template) => {
+        expect(
+          validateStepSchema(template.definition.steps, template.definition.schemaVersion),
+        ).toEqual([]);
+      },
+    );
+
+    it('should require template variables without a default', async () => {
+      await expect(
+        service.createFromTemplate('invoice-processing', {}, 'user-123'),
+      ).rejects.toThrow(BadRequestException);
+
+      await service.createFromTemplate(
+        'invoice-processing',
+        { variables: { billing_email: 'billing@acme.com' } },
+        'user-123',
+      );
+      expect(mockWorkflowsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Invoice Processing',
+          triggerType: WorkflowTriggerType.SCHEDULE,
+          variables: { billing_email: 'billing@acme.com', due_days: 30 },
+        }),
+        'user-123',
+      );
+    });
+
+    it('should throw NotFoundException for unknown templates', () => {
+      expect(() => service.getTemplate('lead-qualification')).toThrow(NotFoundException);
+    });
+  });
+});
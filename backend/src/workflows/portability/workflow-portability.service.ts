@@ -0,0 +1,145 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { parse, stringify } from 'yaml';
+import { Workflow, WorkflowStatus } from '../entities/workflow.entity';
+import { WorkflowsService } from '../workflows.service';
+import { WorkflowEngineService } from '../engine/workflow-engine.service';
+import { WorkflowCategoriesService } from '../categories/workflow-categories.service';
+import { ImportWorkflowDto } from '../dto/import-workflow.dto';
+import { CreateFromTemplateDto } from '../dto/create-from-template.dto';
+import {
+  PortableWorkflow,
+  resolveVariables,
+  toPortableWorkflow,
+  validatePortableWorkflow,
+} from './portable-workflow.util';
+import { WORKFLOW_TEMPLATES, WorkflowTemplate } from './workflow-templates';
+
+export type WorkflowExportFormat = 'json' | 'yaml';
+
+export interface WorkflowTemplateSummary {
+  id: string;
+  name: string;
+  description?: string;
+  category?: string;
+  requiredIntegrations: string[];
+}
+
+@Injectable()
+export class WorkflowPortabilityService {
+  constructor(
+    private readonly workflowsService: WorkflowsService,
+    private readonly workflowEngine: WorkflowEngineService,
+    private readonly categoriesService: WorkflowCategoriesService,
+  ) {}
+
+  async export(id: string, userId: string): Promise<PortableWorkflow> {
+    const workflow = await this.workflowsService.findOne(id, userId);
+    const category = workflow.categoryId
+      ? await this.categoriesService.findOne(workflow.categoryId, userId)
+      : null;
+    return toPortableWorkflow(
+      { ...workflow, category },
+      this.workflowEngine.getRequiredIntegrations(workflow.steps),
+    );
+  }
+
+  serialize(document: PortableWorkflow, format: WorkflowExportFormat): string {
+    return format === 'yaml' ? stringify(document) : JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Creates a draft workflow from an exported file. JSON is accepted as
+   * well since it is valid YAML.
+   */
+  async import(importWorkflowDto: ImportWorkflowDto, userId: string): Promise<Workflow> {
+    return this.createWorkflow(this.parse(importWorkflowDto.content), importWorkflowDto, userId);
+  }
+
+  listTemplates(): WorkflowTemplateSummary[] {
+    return WORKFLOW_TEMPLATES.map(({ id, workflow }) => ({
+      id,
+      name: workflow.name,
+      description: workflow.description,
+      category: workflow.category,
+      requiredIntegrations: workflow.requiredIntegrations,
+    }));
+  }
+
+  getTemplate(templateId: string): WorkflowTemplate {
+    const template = WORKFLOW_TEMPLATES.find(({ id }) => id === templateId);
+    if (!template) {
+      throw new NotFoundException('Workflow template not found');
+    }
+    return template;
+  }
+
+  async createFromTemplate(
+    templateId: string,
+    options: CreateFromTemplateDto,
+    userId: string,
+  ): Promise<Workflow> {
+    return this.createWorkflow(this.getTemplate(templateId).workflow, options, userId);
+  }
+
+  private parse(content: string | Record<string, any>): unknown {
+    if (typeof content !== 'string') {
+      return content;
+    }
+
+    try {
+      return parse(content);
+    } catch (error) {
+      throw new BadRequestException(`Workflow file could not be parsed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Validates a portable workflow and saves it as a draft. Steps and trigger
+   * are checked by WorkflowsService.create like any other new workflow. The
+   * category is matched by name and created if the user does not have it.
+   */
+  private async createWorkflow(
+    document: any,
+    options: CreateFromTemplateDto,
+    userId: string,
+  ): Promise<Workflow> {
+    const errors = validatePortableWorkflow(document);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    const portable = document as PortableWorkflow;
+    const available = this.workflowEngine.getAvailableIntegrations();
+    (portable.requiredIntegrations || [])
+      .filter((integration) => !available.includes(integration))
+      .forEach((integration) => errors.push(`Integration "${integration}" is not available`));
+
+    const { variables, errors: variableErrors } = resolveVariables(
+      portable.variables || {},
+      options.variables,
+    );
+    errors.push(...variableErrors);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    const category = portable.category
+      ? await this.categoriesService.findOrCreate(portable.category, userId)
+      : null;
+    const { schemaVersion, trigger, steps } = portable.definition;
+    return this.workflowsService.create(
+      {
+        name: options.name || portable.name,
+        description: portable.description,
+        categoryId: category?.id,
+        status: WorkflowStatus.DRAFT,
+        triggerType: trigger.type,
+        triggerConfig: trigger.config,
+        schemaVersion,
+        steps,
+        variables,
+      },
+      userId,
+    );
+  }
+}
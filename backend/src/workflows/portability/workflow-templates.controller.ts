@@ -0,0 +1,71 @@
+import { Controller, Get, Post, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { Workflow } from '../entities/workflow.entity';
+import { CreateFromTemplateDto } from '../dto/create-from-template.dto';
+import { WorkflowTemplate } from './workflow-templates';
+import {
+  WorkflowPortabilityService,
+  WorkflowTemplateSummary,
+} from './workflow-portability.service';
+
+@ApiTags('workflows')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('workflow-templates')
+export class WorkflowTemplatesController {
+  constructor(private readonly portabilityService: WorkflowPortabilityService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the built-in workflow templates' })
+  @ApiResponse({
+    status: 200,
+    description: 'Templates retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        properties: {
+          id: { type: 'string', example: 'client-onboarding' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          category: { type: 'string' },
+          requiredIntegrations: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+  })
+  listTemplates(): WorkflowTemplateSummary[] {
+    return this.portabilityService.listTemplates();
+  }
+
+  @Get(':templateId')
+  @ApiOperation({ summary: 'Get a workflow template in the export format' })
+  @ApiParam({ name: 'templateId', description: 'Template ID' })
+  @ApiResponse({ status: 200, description: 'Template retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Workflow template not found' })
+  getTemplate(@Param('templateId') templateId: string): WorkflowTemplate {
+    return this.portabilityService.getTemplate(templateId);
+  }
+
+  @Post(':templateId/workflows')
+  @ApiOperation({ summary: 'Create a draft workflow from a template' })
+  @ApiParam({ name: 'templateId', description: 'Template ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workflow created successfully',
+    type: Workflow,
+  })
+  @ApiResponse({ status: 400, description: 'Missing or invalid variables' })
+  @ApiResponse({ status: 404, description: 'Workflow template not found' })
+  async createFromTemplate(
+    @Param('templateId') templateId: string,
+    @Body() createFromTemplateDto: CreateFromTemplateDto,
+    @Request() req,
+  ): Promise<Workflow> {
+    return this.portabilityService.createFromTemplate(
+      templateId,
+      createFromTemplateDto,
+      req.user.id,
+    );
+  }
+}
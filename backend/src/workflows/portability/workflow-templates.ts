@@ -0,0 +1,168 @@
+/**
+ * Built-in workflow templates offered in the template gallery
+ */
+import { WorkflowTriggerType } from '../entities/workflow.entity';
+import { PORTABLE_WORKFLOW_FORMAT, PortableWorkflow } from './portable-workflow.util';
+
+export interface WorkflowTemplate {
+  id: string;
+  workflow: PortableWorkflow;
+}
+
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    id: 'client-onboarding',
+    workflow: {
+      format: PORTABLE_WORKFLOW_FORMAT,
+      formatVersion: 1,
+      name: 'Client Onboarding',
+      description: 'Welcomes a new client, sets up their project and drafts a service agreement',
+      category: 'Client Management',
+      definition: {
+        schemaVersion: 2,
+        trigger: { type: WorkflowTriggerType.MANUAL },
+        steps: [
+          {
+            id: 'welcome',
+            type: 'send_email',
+            config: {
+              to: '{{client.email}}',
+              template: 'welcome_email',
+              subject: 'Welcome to {{company_name}}',
+            },
+            retries: 2,
+            backoff: { strategy: 'exponential' },
+          },
+          {
+            id: 'project',
+            type: 'create_project',
+            config: { name: '{{client.company}} - Onboarding', status: 'active' },
+          },
+          {
+            id: 'contract',
+            type: 'generate_contract',
+            if: 'client.type == "premium"',
+            config: {
+              template: '{{contract_template}}',
+              provider: '{{company_name}}',
+              client_data: '{{client}}',
+            },
+            timeoutMs: 120000,
+          },
+        ],
+      },
+      variables: {
+        company_name: {
+          type: 'string',
+          description: 'Your business name, used in emails and contracts',
+          required: true,
+        },
+        contract_template: {
+          type: 'string',
+          description: 'Contract drafted for premium clients',
+          default: 'standard_service_agreement',
+        },
+      },
+      requiredIntegrations: ['email', 'openai'],
+    },
+  },
+  {
+    id: 'invoice-processing',
+    workflow: {
+      format: PORTABLE_WORKFLOW_FORMAT,
+      formatVersion: 1,
+      name: 'Invoice Processing',
+      description: 'Sends the monthly invoice on the first of the month and records it',
+      category: 'Finance',
+      definition: {
+        schemaVersion: 2,
+        trigger: {
+          type: WorkflowTriggerType.SCHEDULE,
+          config: { cron: '0 9 1 * *', timezone: 'America/New_York' },
+        },
+        steps: [
+          {
+            id: 'invoice',
+            type: 'send_email',
+            config: {
+              to: '{{billing_email}}',
+              template: 'invoice_email',
+              subject: 'Your monthly invoice, due in {{due_days}} days',
+            },
+            retries: 3,
+            backoff: { strategy: 'exponential', delayMs: 5000 },
+          },
+          {
+            id: 'notify',
+            type: 'send_notification',
+            config: { message: 'Monthly invoice sent to {{billing_email}}', type: 'info' },
+          },
+        ],
+      },
+      variables: {
+        billing_email: {
+          type: 'string',
+          description: 'Address the invoice is sent to',
+          required: true,
+        },
+        due_days: {
+          type: 'number',
+          description: 'Payment terms in days',
+          default: 30,
+        },
+      },
+      requiredIntegrations: ['email'],
+    },
+  },
+  {
+    id: 'document-review',
+    workflow: {
+      format: PORTABLE_WORKFLOW_FORMAT,
+      formatVersion: 1,
+      name: 'Document Review',
+      description: 'Runs an AI review of a document and flags unclear ones for legal review',
+      category: 'Legal',
+      definition: {
+        schemaVersion: 2,
+        trigger: { type: WorkflowTriggerType.MANUAL },
+        steps: [
+          {
+            id: 'analysis',
+            type: 'ai_document_analysis',
+            config: { text: '{{document.content}}' },
+            timeoutMs: 120000,
+          },
+          {
+            id: 'triage',
+            type: 'if',
+            condition: 'steps.analysis.clarity_score < min_clarity_score',
+            then: [
+              {
+                type: 'send_notification',
+                config: {
+                  message:
+                    '"{{document.title}}" needs legal review: {{steps.analysis.analysis_summary}}',
+                  type: 'warning',
+                },
+              },
+            ],
+            else: [
+              {
+                type: 'send_notification',
+                config: { message: '"{{document.title}}" passed automated review', type: 'info' },
+              },
+            ],
+          },
+        ],
+      },
+      variables: {
+        min_clarity_score: {
+          type: 'number',
+          description: 'Documents scoring below this are sent for legal review',
+          default: 70,
+        },
+      },
+      requiredIntegrations: ['openai'],
+    },
+  },
+];
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { WorkflowQueueService } from './workflow-queue.service';
+import { WorkflowExecutionsService } from '../workflow-executions.service';
+import { WorkflowEngineService } from '../engine/workflow-engine.service';
+import { WorkflowApprovalsService } from '../approvals/workflow-approvals.service';
+import { Workflow, WorkflowStatus } from '../entities/workflow.entity';
+import { WorkflowExecution } from '../entities/workflow-execution.entity';
+import { WorkflowVersion } from '../entities/workflow-version.entity';
+import { CancellationToken } from '../../integrations/ai/utils/cancellation.util';
+
+describe('WorkflowQueueService', () => {
+  let queue: WorkflowQueueService;
+
+  const mockRepository = {
+    update: jest.fn(),
+  };
+
+  const mockExecutionsService = {
+    claimNext: jest.fn(),
+    extendLeases: jest.fn(),
+    requeueExpired: jest.fn().mockResolvedValue(0),
+    findCancellationRequests: jest.fn().mockResolvedValue([]),
+    finish: jest.fn(),
+    fail: jest.fn(),
+  };
+
+  const mockWorkflowEngine = {
+    run: jest
+      .fn()
+      .mockResolvedValue({ executionId: 'execution-1', status: 'completed', steps: [] }),
+  };
+
+  const mockApprovalsService = {
+    suspend: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) =>
+      key === 'WORKFLOW_WORKER_CONCURRENCY' ? 2 : defaultValue,
+    ),
+  };
+
+  const buildExecution = (id: string, status = WorkflowStatus.ACTIVE): WorkflowExecution =>
+    Object.assign(new WorkflowExecution(), {
+      id,
+      inputs: { client: 'Acme' },
+      triggeredById: 'user-123',
+      workflow: { id: 'workflow-123', userId: 'user-123', status } as Workflow,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowQueueService,
+        { provide: getRepositoryToken(Workflow), useValue: mockRepository },
+        { provide: WorkflowExecutionsService, useValue: mockExecutionsService },
+        { provide: WorkflowEngineService, useValue: mockWorkflowEngine },
+        { provide: WorkflowApprovalsService, useValue: mockApprovalsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    queue = module.get<WorkflowQueueService>(WorkflowQueueService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('process', () => {
+    it('should run the workflow and record the result', async () => {
+      const execution = buildExecution('execution-1');
+
+      await queue.process(execution);
+
+      expect(mockWorkflowEngine.run).toHaveBeenCalledWith(
+        execution.workflow,
+        { client: 'Acme' },
+        {
+          executionId: 'execution-1',
+          userId: 'user-123',
+          cancellationToken: expect.any(CancellationToken),
+          saveProgress: expect.any(Function),
+        },
+      );
+      expect(mockExecutionsService.finish).toHaveBeenCalledWith(
+        execution,
+        expect.objectContaining({ status: 'completed' }),
+      );
+    });
+
+    it('should run the version the execution was queued with', async () => {
+      const execution = buildExecution('execution-1');
+      execution.workflowVersion = Object.assign(new WorkflowVersion(), {
+        version: 2,
+        steps: [{ type: 'send_notification' }],
+        schemaVersion: 2,
+        variables: { region: 'eu' },
+      });
+
+      await queue.process(execution);
+
+      expect(mockWorkflowEngine.run).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'workflow-123',
+          steps: [{ type: 'send_notification' }],
+          variables: { region: 'eu' },
+        }),
+        { client: 'Acme' },
+        expect.objectContaining({ executionId: 'execution-1' }),
+      );
+    });
+
+    it('should suspend runs waiting for approval and resume them without recounting', async () => {
+      const waiting = {
+        executionId: 'execution-1',
+        status: 'waiting',
+        steps: [{ stepId: 'review', type: 'approval', status: 'waiting' }],
+        approvals: [{ stepId: 'review', approvers: ['user-456'] }],
+      };
+      mockWorkflowEngine.run.mockResolvedValueOnce(waiting);
+      const execution = buildExecution('execution-1');
+
+      await queue.process(execution);
+
+      expect(mockApprovalsService.suspend).toHaveBeenCalledWith(execution, waiting);
+      expect(mockExecutionsService.finish).not.toHaveBeenCalled();
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+
+      execution.steps = waiting.steps as any;
+      execution.approvals = {};
+      await queue.process(execution);
+
+      expect(mockRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockWorkflowEngine.run).toHaveBeenLastCalledWith(
+        execution.workflow,
+        { client: 'Acme' },
+        expect.objectContaining({ resume: { steps: waiting.steps, approvals: {} } }),
+      );
+    });
+
+    it('should fail runs of workflows paused after they were queued', async () => {
+      const execution = buildExecution('execution-1', WorkflowStatus.PAUSED);
+
+      await queue.process(execution);
+
+      expect(mockWorkflowEngine.run).not.toHaveBeenCalled();
+      expect(mockExecutionsService.fail).toHaveBeenCalledWith(
+        execution,
+        new Error('Workflow is no longer active'),
+      );
+    });
+  });
+
+  describe('poll', () => {
+    it('should claim runs up to the worker concurrency', async () => {
+      mockExecutionsService.claimNext
+        .mockResolvedValueOnce(buildExecution('execution-1'))
+        .mockResolvedValueOnce(buildExecution('execution-2'));
+
+      await queue.poll(new Date());
+
+      expect(mockExecutionsService.requeueExpired).toHaveBeenCalled();
+      expect(mockExecutionsService.claimNext).toHaveBeenCalledTimes(2);
+      expect(mockExecutionsService.claimNext).toHaveBeenCalledWith(2, expect.any(Number));
+      await queue.onApplicationShutdown();
+      expect(mockExecutionsService.finish).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel the token of a run in this process and wait for it to stop', async () => {
+      let token: CancellationToken;
+      mockWorkflowEngine.run.mockImplementationOnce((_workflow, _inputs, options) => {
+        token = options.cancellationToken;
+        return new Promise((resolve) =>
+          token.onCancelled(() => resolve({ status: 'cancelled', steps: [] })),
+        );
+      });
+      mockExecutionsService.claimNext
+        .mockResolvedValueOnce(buildExecution('execution-1'))
+        .mockResolvedValueOnce(null);
+      await queue.poll(new Date());
+
+      await expect(queue.cancel('execution-1')).resolves.toBe(true);
+
+      expect(token.isCancelled).toBe(true);
+      expect(mockExecutionsService.finish).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'execution-1' }),
+        { status: 'cancelled', steps: [] },
+      );
+    });
+
+    it('should report runs that are not in this process', async () => {
+      await expect(queue.cancel('execution-2')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Interval } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { Workflow, WorkflowStatus } from '../entities/workflow.entity';
+import { WorkflowExecution } from '../entities/workflow-execution.entity';
+import { WorkflowExecutionsService } from '../workflow-executions.service';
+import { WorkflowEngineService } from '../engine/workflow-engine.service';
+import { WorkflowApprovalsService } from '../approvals/workflow-approvals.service';
+import { getDefinition } from '../versions/version-diff.util';
+import { CancellationToken } from '../../integrations/ai/utils/cancellation.util';
+
+interface InFlightRun {
+  done: Promise<void>;
+  cancellationToken: CancellationToken;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Leases are renewed on every poll, so they only lapse when a worker dies
+const LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_WORKER_CONCURRENCY = 4;
+const DEFAULT_MAX_RUNNING_PER_USER = 2;
+
+/**
+ * Consumes queued workflow executions from the database. Runs are picked by
+ * priority, limited per workflow owner, and recovered after a restart once
+ * the lease of the worker that held them expires.
+ */
+@Injectable()
+export class WorkflowQueueService implements OnApplicationShutdown {
+  private readonly logger = new Logger(WorkflowQueueService.name);
+  private readonly inFlight = new Map<string, InFlightRun>();
+  private readonly workerConcurrency: number;
+  private readonly maxRunningPerUser: number;
+  private isPolling = false;
+  private isShuttingDown = false;
+
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    private readonly executionsService: WorkflowExecutionsService,
+    private readonly workflowEngine: WorkflowEngineService,
+    private readonly approvalsService: WorkflowApprovalsService,
+    configService: ConfigService,
+  ) {
+    this.workerConcurrency = Number(
+      configService.get('WORKFLOW_WORKER_CONCURRENCY', DEFAULT_WORKER_CONCURRENCY),
+    );
+    this.maxRunningPerUser = Number(
+      configService.get('WORKFLOW_MAX_RUNNING_PER_USER', DEFAULT_MAX_RUNNING_PER_USER),
+    );
+  }
+
+  @Interval(POLL_INTERVAL_MS)
+  async handlePoll(): Promise<void> {
+    if (this.isPolling || this.isShuttingDown) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      await this.poll(new Date());
+    } catch (error) {
+      this.logger.error(`Queue poll failed: ${error.message}`);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  async poll(now: Date): Promise<void> {
+    const running = [...this.inFlight.keys()];
+    await this.executionsService.extendLeases(running, new Date(now.getTime() + LEASE_MS));
+
+    // Cancellations requested through another instance
+    const cancelled = await this.executionsService.findCancellationRequests(running);
+    cancelled.forEach((executionId) => this.cancel(executionId));
+
+    const requeued = await this.executionsService.requeueExpired(now);
+    if (requeued > 0) {
+      this.logger.warn(`Requeued ${requeued} workflow executions with expired leases`);
+    }
+
+    while (this.inFlight.size < this.workerConcurrency) {
+      const execution = await this.executionsService.claimNext(this.maxRunningPerUser, LEASE_MS);
+      if (!execution) {
+        break;
+      }
+
+      const cancellationToken = new CancellationToken();
+      const done = this.process(execution, cancellationToken).finally(() =>
+        this.inFlight.delete(execution.id),
+      );
+      this.inFlight.set(execution.id, { done, cancellationToken });
+    }
+  }
+
+  /**
+   * Cancels an execution running in this process. Resolves once the run has
+   * stopped, or straight away with false if it is not running here.
+   */
+  async cancel(executionId: string): Promise<boolean> {
+    const run = this.inFlight.get(executionId);
+    if (!run) {
+      return false;
+    }
+
+    this.logger.log(`Cancelling workflow execution ${executionId}`);
+    run.cancellationToken.cancel();
+    await run.done;
+    return true;
+  }
+
+  async process(
+    execution: WorkflowExecution,
+    cancellationToken = new CancellationToken(),
+  ): Promise<void> {
+    const workflow = execution.workflow;
+
+    try {
+      if (workflow.status !== WorkflowStatus.ACTIVE) {
+        throw new Error('Workflow is no longer active');
+      }
+
+      // Executions resuming after an approval or a lost lease were already counted
+      const resuming = execution.steps?.length > 0;
+      if (!resuming) {
+        await this.workflowRepository.update(
+          { id: workflow.id },
+          { executionCount: () => '"executionCount" + 1', lastExecutedAt: new Date() },
+        );
+      }
+
+      // Run the definition the execution was queued with, not the latest one
+      const definition = execution.workflowVersion
+        ? { ...workflow, ...getDefinition(execution.workflowVersion) }
+        : workflow;
+      // Saves run one at a time so that parallel branches cannot save an older snapshot last
+      let saving = Promise.resolve();
+      const result = await this.workflowEngine.run(definition, execution.inputs, {
+        executionId: execution.id,
+        userId: execution.triggeredById || workflow.userId,
+        cancellationToken,
+        ...(resuming && { resume: { steps: execution.steps, approvals: execution.approvals } }),
+        saveProgress: (steps) =>
+          (saving = saving.then(() => this.executionsService.saveProgress(execution.id, steps))),
+      });
+      if (result.status === 'waiting') {
+        await this.approvalsService.suspend(execution, result);
+      } else {
+        await this.executionsService.finish(execution, result);
+      }
+    } catch (error) {
+      this.logger.error(`Workflow execution ${execution.id} failed: ${error.message}`);
+      await this.executionsService.fail(execution, error);
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    // Stop claiming work and let current runs finish; anything cut short is
+    // requeued by another worker once its lease expires
+    this.isShuttingDown = true;
+    await Promise.allSettled([...this.inFlight.values()].map(({ done }) => done));
+  }
+}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WorkflowStatsService } from './workflow-stats.service';
+import { WorkflowExecution } from '../entities/workflow-execution.entity';
+
+describe('WorkflowStatsService', () => {
+  let service: WorkflowStatsService;
+
+  const mockRepository = {
+    query: jest.fn(),
+  };
+
+  const now = new Date('2025-01-31T15:00:00.000Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowStatsService,
+        { provide: getRepositoryToken(WorkflowExecution), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowStatsService>(WorkflowStatsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should combine status counts, percentiles, daily runs and the most failing step', async () => {
+    mockRepository.query
+      .mockResolvedValueOnce([
+        { status: 'completed', count: 9 },
+        { status: 'failed', count: 3 },
+        { status: 'cancelled', count: 1 },
+      ])
+      .mockResolvedValueOnce([{ p50: 1520.4, p95: '8300.9' }])
+      .mockResolvedValueOnce([{ date: '2025-01-30', runs: 13, completed: 9, failed: 3 }])
+      .mockResolvedValueOnce([
+        {
+          workflowId: 'workflow-123',
+          workflowName: 'Client Onboarding',
+          stepId: 'contract',
+          type: 'generate_contract',
+          failures: 2,
+        },
+      ]);
+
+    const stats = await service.forWorkflow('workflow-123', 3, now);
+
+    expect(mockRepository.query).toHaveBeenCalledWith(expect.any(String), [
+      'workflow-123',
+      new Date('2025-01-29T00:00:00.000Z'),
+    ]);
+    expect(stats).toEqual(
+      expect.objectContaining({
+        totalRuns: 13,
+        runsByStatus: expect.objectContaining({ completed: 9, failed: 3, queued: 0 }),
+        successRate: 75,
+        durationMs: { p50: 1520, p95: 8301 },
+        runsPerDay: [
+          { date: '2025-01-29', runs: 0, completed: 0, failed: 0 },
+          { date: '2025-01-30', runs: 13, completed: 9, failed: 3 },
+          { date: '2025-01-31', runs: 0, completed: 0, failed: 0 },
+        ],
+        mostFailingStep: expect.objectContaining({ stepId: 'contract', failures: 2 }),
+      }),
+    );
+  });
+
+  it('should report no success rate or durations without finished runs', async () => {
+    mockRepository.query
+      .mockResolvedValueOnce([{ status: 'queued', count: 2 }])
+      .mockResolvedValueOnce([{ p50: null, p95: null }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([]);
+
+    const stats = await service.forUser('user-123', 1, now);
+
+    expect(mockRepository.query.mock.calls[0][0]).toContain('workflow."userId" = $1');
+    expect(stats).toEqual(
+      expect.objectContaining({
+        totalRuns: 2,
+        successRate: null,
+        durationMs: { p50: null, p95: null },
+        mostFailingStep: null,
+      }),
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WorkflowExecution, WorkflowExecutionStatus } from '../entities/workflow-execution.entity';
+import { CONTROL_STEP_TYPES } from '../engine/workflow-step.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Control steps fail along with the step inside them that failed, so only
+// the innermost step is blamed
+const BRANCHING_STEP_TYPES = CONTROL_STEP_TYPES.filter((type) => type !== 'approval');
+
+export interface WorkflowRunsPerDay {
+  // UTC date, YYYY-MM-DD
+  date: string;
+  runs: number;
+  completed: number;
+  failed: number;
+}
+
+export interface WorkflowFailingStep {
+  workflowId: string;
+  workflowName: string;
+  // Loop iteration suffixes such as [2] are dropped so iterations count together
+  stepId: string;
+  type: string;
+  failures: number;
+}
+
+export interface WorkflowRunStats {
+  from: Date;
+  to: Date;
+  days: number;
+  totalRuns: number;
+  runsByStatus: Record<WorkflowExecutionStatus, number>;
+  // Percentage of completed runs among those that completed or failed, null without any
+  successRate: number | null;
+  // Durations of completed runs
+  durationMs: { p50: number | null; p95: number | null };
+  runsPerDay: WorkflowRunsPerDay[];
+  mostFailingStep: WorkflowFailingStep | null;
+}
+
+type StatsScope = { workflowId: string } | { userId: string };
+
+/**
+ * Computes run statistics from the stored executions of one workflow or of
+ * all the workflows of a user. Runs count towards the day they were queued.
+ */
+@Injectable()
+export class WorkflowStatsService {
+  constructor(
+    @InjectRepository(WorkflowExecution)
+    private readonly executionRepository: Repository<WorkflowExecution>,
+  ) {}
+
+  async forWorkflow(workflowId: string, days: number, now = new Date()): Promise<WorkflowRunStats> {
+    return this.compute({ workflowId }, days, now);
+  }
+
+  async forUser(userId: string, days: number, now = new Date()): Promise<WorkflowRunStats> {
+    return this.compute({ userId }, days, now);
+  }
+
+  private async compute(scope: StatsScope, days: number, now: Date): Promise<WorkflowRunStats> {
+    // The window starts at midnight UTC so that the first day is complete
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const from = new Date(today - (days - 1) * DAY_MS);
+
+    const condition =
+      'workflowId' in scope ? 'execution."workflowId" = $1' : 'workflow."userId" = $1';
+    const tables = `
+      FROM "workflow_executions" execution
+      INNER JOIN "workflows" workflow ON workflow."id" = execution."workflowId"
+    `;
+    const filter = `WHERE ${condition} AND execution."createdAt" >= $2`;
+    const parameters = ['workflowId' in scope ? scope.workflowId : scope.userId, from];
+
+    const [statusCounts, [durations], dailyCounts, [failingStep]] = await Promise.all([
+      this.executionRepository.query(
+        `SELECT execution."status" AS "status", COUNT(*)::int AS "count" ${tables} ${filter}
+        GROUP BY execution."status"`,
+        parameters,
+      ),
+      this.executionRepository.query(
+        `
+        SELECT
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY durations."durationMs") AS "p50",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY durations."durationMs") AS "p95"
+        FROM (
+          SELECT EXTRACT(EPOCH FROM (execution."finishedAt" - execution."startedAt")) * 1000 AS "durationMs"
+          ${tables}
+          ${filter}
+            AND execution."status" = 'completed'
+            AND execution."startedAt" IS NOT NULL
+            AND execution."finishedAt" IS NOT NULL
+        ) durations
+        `,
+        parameters,
+      ),
+      this.executionRepository.query(
+        `
+        SELECT
+          to_char(date_trunc('day', execution."createdAt"), 'YYYY-MM-DD') AS "date",
+          COUNT(*)::int AS "runs",
+          (COUNT(*) FILTER (WHERE execution."status" = 'completed'))::int AS "completed",
+          (COUNT(*) FILTER (WHERE execution."status" = 'failed'))::int AS "failed"
+        ${tables}
+        ${filter}
+        GROUP BY 1
+        `,
+        parameters,
+      ),
+      this.executionRepository.query(
+        `
+        SELECT
+          execution."workflowId" AS "workflowId",
+          workflow."name" AS "workflowName",
+          regexp_replace(step->>'stepId', '\\[\\d+\\]', '', 'g') AS "stepId",
+          step->>'type' AS "type",
+          COUNT(*)::int AS "failures"
+        ${tables}
+        CROSS JOIN LATERAL jsonb_array_elements(execution."steps") step
+        ${filter}
+          AND execution."status" = 'failed'
+          AND step->>'status' = 'failed'
+          AND step->>'compensationFor' IS NULL
+          AND NOT (step->>'type' = ANY($3))
+        GROUP BY 1, 2, 3, 4
+        ORDER BY "failures" DESC, "stepId" ASC
+        LIMIT 1
+        `,
+        [...parameters, BRANCHING_STEP_TYPES],
+      ),
+    ]);
+
+    const runsByStatus = Object.values(WorkflowExecutionStatus).reduce(
+      (counts, status) => ({ ...counts, [status]: 0 }),
+      {} as Record<WorkflowExecutionStatus, number>,
+    );
+    statusCounts.forEach(({ status, count }) => (runsByStatus[status] = count));
+
+    const finished =
+      runsByStatus[WorkflowExecutionStatus.COMPLETED] +
+      runsByStatus[WorkflowExecutionStatus.FAILED];
+
+    return {
+      from,
+      to: now,
+      days,
+      totalRuns: Object.values(runsByStatus).reduce((total, count) => total + count, 0),
+      runsByStatus,
+      successRate:
+        finished > 0
+          ? Math.round((runsByStatus[WorkflowExecutionStatus.COMPLETED] / finished) * 1000) / 10
+          : null,
+      durationMs: {
+        p50: toMilliseconds(durations?.p50),
+        p95: toMilliseconds(durations?.p95),
+      },
+      runsPerDay: this.fillDays(from, days, dailyCounts),
+      mostFailingStep: failingStep || null,
+    };
+  }
+
+  // Days without runs are missing from the query result
+  private fillDays(from: Date, days: number, counts: WorkflowRunsPerDay[]): WorkflowRunsPerDay[] {
+    const byDate = new Map(counts.map((count) => [count.date, count]));
+    return Array.from({ length: days }, (_, index) => {
+      const date = new Date(from.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+      return byDate.get(date) || { date, runs: 0, completed: 0, failed: 0 };
+    });
+  }
+}
+
+function toMilliseconds(value: string | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value));
+}
@@ -0,0 +1,41 @@
+/**
+ * Matching utilities for EVENT-triggered workflows
+ */
+import { getValueAtPath } from '../engine/template.util';
+import { DOMAIN_EVENT_NAMES, isDomainEventName } from '../../events/domain-events';
+
+export interface EventTriggerConfig {
+  event: string;
+  // Dotted payload paths mapped to an expected value, or a list of accepted values
+  filters?: Record<string, any>;
+}
+
+/**
+ * Validates an event trigger config, returning a list of problems
+ */
+export function validateEventTriggerConfig(config: Record<string, any>): string[] {
+  if (!config || typeof config.event !== 'string') {
+    return ['triggerConfig.event is required for event-triggered workflows'];
+  }
+
+  const errors: string[] = [];
+  if (!isDomainEventName(config.event)) {
+    errors.push(`triggerConfig.event must be one of: ${DOMAIN_EVENT_NAMES.join(', ')}`);
+  }
+
+  if (config.filters !== undefined && (typeof config.filters !== 'object' || !config.filters)) {
+    errors.push('triggerConfig.filters must be an object');
+  }
+
+  return errors;
+}
+
+export function matchesEventFilters(
+  payload: Record<string, any>,
+  filters?: Record<string, any>,
+): boolean {
+  return Object.entries(filters || {}).every(([path, expected]) => {
+    const actual = getValueAtPath(payload, path);
+    return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+  });
+}
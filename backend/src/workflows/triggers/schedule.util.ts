@@ -0,0 +1,114 @@
+/**
+ * Schedule utilities for SCHEDULE-triggered workflows
+ */
+import { CronTime } from 'cron';
+
+export type MissedRunPolicy = 'skip' | 'run_once' | 'replay';
+
+export interface ScheduleTriggerConfig {
+  cron: string;
+  timezone?: string;
+  // What to do with occurrences missed while the scheduler was down
+  missedRunPolicy?: MissedRunPolicy;
+  // Upper bound on replayed occurrences when missedRunPolicy is 'replay'
+  maxReplays?: number;
+}
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_MAX_REPLAYS = 10;
+// Replays run within a single scheduler tick, so their number stays small
+export const MAX_REPLAYS = 100;
+const MISSED_RUN_POLICIES: MissedRunPolicy[] = ['skip', 'run_once', 'replay'];
+
+/**
+ * Validates a schedule trigger config, returning a list of problems
+ */
+export function validateScheduleConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (!config || typeof config.cron !== 'string' || config.cron.trim().length === 0) {
+    return ['triggerConfig.cron is required for scheduled workflows'];
+  }
+
+  try {
+    new CronTime(config.cron, config.timezone || DEFAULT_TIMEZONE);
+  } catch (error) {
+    errors.push(`Invalid schedule: ${error.message}`);
+  }
+
+  if (config.missedRunPolicy && !MISSED_RUN_POLICIES.includes(config.missedRunPolicy)) {
+    errors.push(`triggerConfig.missedRunPolicy must be one of: ${MISSED_RUN_POLICIES.join(', ')}`);
+  }
+
+  if (
+    config.maxReplays !== undefined &&
+    (!Number.isInteger(config.maxReplays) ||
+      config.maxReplays < 1 ||
+      config.maxReplays > MAX_REPLAYS)
+  ) {
+    errors.push(`triggerConfig.maxReplays must be an integer from 1 to ${MAX_REPLAYS}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Returns the first occurrence strictly after `after`
+ */
+export function getNextRunAt(config: ScheduleTriggerConfig, after: Date = new Date()): Date {
+  const timezone = config.timezone || DEFAULT_TIMEZONE;
+  const cronTime = new CronTime(config.cron, timezone);
+  return cronTime.getNextDateFrom(after, timezone).toJSDate();
+}
+
+/**
+ * Lists the occurrences in the window [from, until], capped at `limit`
+ */
+export function getRunsBetween(
+  config: ScheduleTriggerConfig,
+  from: Date,
+  until: Date,
+  limit: number,
+): Date[] {
+  const runs: Date[] = [];
+  let next = from;
+
+  while (next <= until && runs.length < limit) {
+    runs.push(next);
+    next = getNextRunAt(config, next);
+  }
+
+  return runs;
+}
+
+/**
+ * Returns the latest occurrence in the window [from, until], where `from`
+ * is itself an occurrence, or null when the window is empty. Bisects the
+ * window instead of listing its occurrences, which can number in the
+ * millions for frequent schedules.
+ */
+export function getLatestRunBetween(
+  config: ScheduleTriggerConfig,
+  from: Date,
+  until: Date,
+): Date | null {
+  if (from > until) {
+    return null;
+  }
+
+  // An occurrence follows `low` within the window, none follows `high`
+  let low = from.getTime();
+  let high = until.getTime();
+  if (getNextRunAt(config, new Date(low)) > until) {
+    return from;
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (getNextRunAt(config, new Date(middle)) <= until) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return getNextRunAt(config, new Date(low));
+}
@@ -0,0 +1,68 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Subscription } from 'rxjs';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+import { WorkflowsService } from '../workflows.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { DomainEvent } from '../../events/domain-events';
+import { EventTriggerConfig, matchesEventFilters } from './event-trigger.util';
+
+@Injectable()
+export class WorkflowEventTriggersService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WorkflowEventTriggersService.name);
+  private subscription: Subscription;
+
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    private readonly workflowsService: WorkflowsService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit(): void {
+    this.subscription = this.eventBus.subscribe((event) => this.handleEvent(event));
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  async handleEvent(event: DomainEvent): Promise<void> {
+    if (!event.userId) {
+      this.logger.debug(`Ignoring ${event.name}: no owning user`);
+      return;
+    }
+
+    const workflows = await this.workflowRepository
+      .createQueryBuilder('workflow')
+      .where('workflow.userId = :userId', { userId: event.userId })
+      .andWhere('workflow.triggerType = :triggerType', { triggerType: WorkflowTriggerType.EVENT })
+      .andWhere('workflow.status = :status', { status: WorkflowStatus.ACTIVE })
+      .andWhere(`workflow.triggerConfig ->> 'event' = :name`, { name: event.name })
+      .getMany();
+
+    for (const workflow of workflows) {
+      const config = workflow.triggerConfig as EventTriggerConfig;
+      if (!matchesEventFilters(event.payload, config.filters)) {
+        continue;
+      }
+
+      this.logger.log(`Event ${event.name} triggered workflow ${workflow.id}`);
+      try {
+        await this.workflowsService.execute(
+          workflow.id,
+          {
+            inputs: {
+              ...event.payload,
+              event: { name: event.name, occurredAt: event.occurredAt.toISOString() },
+            },
+          },
+          workflow.userId,
+        );
+      } catch (error) {
+        this.logger.error(`Event run of workflow ${workflow.id} failed: ${error.message}`);
+      }
+    }
+  }
+}
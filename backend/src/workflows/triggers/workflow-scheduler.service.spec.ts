@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WorkflowSchedulerService } from './workflow-scheduler.service';
+import { WorkflowsService } from '../workflows.service';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+
+describe('WorkflowSchedulerService', () => {
+  let scheduler: WorkflowSchedulerService;
+
+  const mockRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockWorkflowsService = {
+    execute: jest.fn().mockResolvedValue({ success: true }),
+  };
+
+  const hourly = { cron: '0 * * * *', timezone: 'UTC' };
+
+  const buildWorkflow = (triggerConfig: Record<string, any>, nextExecutionAt: Date) =>
+    ({
+      id: 'workflow-123',
+      userId: 'user-123',
+      status: WorkflowStatus.ACTIVE,
+      triggerType: WorkflowTriggerType.SCHEDULE,
+      triggerConfig,
+      nextExecutionAt,
+    }) as Workflow;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowSchedulerService,
+        { provide: getRepositoryToken(Workflow), useValue: mockRepository },
+        { provide: WorkflowsService, useValue: mockWorkflowsService },
+      ],
+    }).compile();
+
+    scheduler = module.get<WorkflowSchedulerService>(WorkflowSchedulerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('selectRuns', () => {
+    const scheduledFor = new Date('2026-01-01T09:00:00Z');
+
+    it('should run an on-time occurrence', () => {
+      const runs = scheduler.selectRuns(hourly, scheduledFor, new Date('2026-01-01T09:00:30Z'));
+
+      expect(runs).toEqual([scheduledFor]);
+    });
+
+    it('should skip missed occurrences by default', () => {
+      const runs = scheduler.selectRuns(hourly, scheduledFor, new Date('2026-01-01T12:30:00Z'));
+
+      expect(runs).toEqual([]);
+    });
+
+    it('should run missed occurrences once with run_once', () => {
+      const runs = scheduler.selectRuns(
+        { ...hourly, missedRunPolicy: 'run_once' },
+        scheduledFor,
+        new Date('2026-01-01T12:30:00Z'),
+      );
+
+      expect(runs).toEqual([new Date('2026-01-01T12:00:00Z')]);
+    });
+
+    it('should find the latest missed run of a frequent schedule after a long outage', () => {
+      const runs = scheduler.selectRuns(
+        { cron: '* * * * * *', timezone: 'UTC', missedRunPolicy: 'run_once' },
+        scheduledFor,
+        new Date('2027-01-01T09:00:00.500Z'),
+      );
+
+      expect(runs).toEqual([new Date('2027-01-01T09:00:00Z')]);
+    });
+
+    it('should replay missed occurrences up to maxReplays', () => {
+      const runs = scheduler.selectRuns(
+        { ...hourly, missedRunPolicy: 'replay', maxReplays: 2 },
+        scheduledFor,
+        new Date('2026-01-01T12:30:00Z'),
+      );
+
+      expect(runs).toEqual([new Date('2026-01-01T09:00:00Z'), new Date('2026-01-01T10:00:00Z')]);
+    });
+  });
+
+  describe('runDueWorkflows', () => {
+    const now = new Date('2026-01-01T09:00:10Z');
+
+    it('should claim the next occurrence and execute due workflows', async () => {
+      const workflow = buildWorkflow(hourly, new Date('2026-01-01T09:00:00Z'));
+      mockRepository.find.mockResolvedValueOnce([]).mockResolvedValueOnce([workflow]);
+      mockRepository.update.mockResolvedValue({ affected: 1 });
+
+      await scheduler.runDueWorkflows(now);
+
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        { id: 'workflow-123', nextExecutionAt: workflow.nextExecutionAt },
+        { nextExecutionAt: new Date('2026-01-01T10:00:00Z') },
+      );
+      expect(mockWorkflowsService.execute).toHaveBeenCalledWith(
+        'workflow-123',
+        { inputs: { trigger: { type: 'schedule', scheduledFor: '2026-01-01T09:00:00.000Z' } } },
+        'user-123',
+      );
+    });
+
+    it('should not execute when another instance already claimed the occurrence', async () => {
+      const workflow = buildWorkflow(hourly, new Date('2026-01-01T09:00:00Z'));
+      mockRepository.find.mockResolvedValueOnce([]).mockResolvedValueOnce([workflow]);
+      mockRepository.update.mockResolvedValue({ affected: 0 });
+
+      await scheduler.runDueWorkflows(now);
+
+      expect(mockWorkflowsService.execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+import { WorkflowsService } from '../workflows.service';
+import {
+  DEFAULT_MAX_REPLAYS,
+  MAX_REPLAYS,
+  ScheduleTriggerConfig,
+  getLatestRunBetween,
+  getNextRunAt,
+  getRunsBetween,
+  validateScheduleConfig,
+} from './schedule.util';
+
+// Occurrences picked up within this window count as on time rather than missed
+const ON_TIME_GRACE_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class WorkflowSchedulerService {
+  private readonly logger = new Logger(WorkflowSchedulerService.name);
+  private isTicking = false;
+
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    private readonly workflowsService: WorkflowsService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleTick(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+
+    this.isTicking = true;
+    try {
+      await this.runDueWorkflows(new Date());
+    } catch (error) {
+      this.logger.error(`Scheduler tick failed: ${error.message}`);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  async runDueWorkflows(now: Date): Promise<void> {
+    await this.scheduleUninitialized(now);
+
+    const dueWorkflows = await this.workflowRepository.find({
+      where: {
+        triggerType: WorkflowTriggerType.SCHEDULE,
+        status: WorkflowStatus.ACTIVE,
+        nextExecutionAt: LessThanOrEqual(now),
+      },
+      order: { nextExecutionAt: 'ASC' },
+    });
+
+    for (const workflow of dueWorkflows) {
+      try {
+        await this.runScheduledWorkflow(workflow, now);
+      } catch (error) {
+        this.logger.error(`Scheduled run of workflow ${workflow.id} failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Works out which occurrences between the stored nextExecutionAt and now
+   * should actually run, according to the workflow's missed-run policy
+   */
+  selectRuns(config: ScheduleTriggerConfig, scheduledFor: Date, now: Date): Date[] {
+    const policy = config.missedRunPolicy || 'skip';
+    if (policy === 'replay') {
+      const maxReplays = Math.min(config.maxReplays || DEFAULT_MAX_REPLAYS, MAX_REPLAYS);
+      return getRunsBetween(config, scheduledFor, now, maxReplays);
+    }
+
+    const latest = getLatestRunBetween(config, scheduledFor, now);
+    if (!latest) {
+      return [];
+    }
+
+    switch (policy) {
+      case 'run_once':
+        return [latest];
+      default:
+        return now.getTime() - latest.getTime() <= ON_TIME_GRACE_MS ? [latest] : [];
+    }
+  }
+
+  private async runScheduledWorkflow(workflow: Workflow, now: Date): Promise<void> {
+    const config = workflow.triggerConfig as ScheduleTriggerConfig;
+    const errors = validateScheduleConfig(config);
+
+    if (errors.length > 0) {
+      this.logger.warn(`Unscheduling workflow ${workflow.id}: ${errors.join(', ')}`);
+      await this.workflowRepository.update({ id: workflow.id }, { nextExecutionAt: null });
+      return;
+    }
+
+    const scheduledFor = workflow.nextExecutionAt;
+
+    // Claim the occurrence before running it, so that a restart or a second
+    // instance cannot pick up the same occurrence again
+    const claim = await this.workflowRepository.update(
+      { id: workflow.id, nextExecutionAt: scheduledFor },
+      { nextExecutionAt: getNextRunAt(config, now) },
+    );
+
+    if (!claim.affected) {
+      return;
+    }
+
+    const runs = this.selectRuns(config, scheduledFor, now);
+    if (runs.length === 0) {
+      this.logger.log(`Skipped missed runs of workflow ${workflow.id} since ${scheduledFor}`);
+    }
+
+    for (const runAt of runs) {
+      await this.workflowsService.execute(
+        workflow.id,
+        { inputs: { trigger: { type: 'schedule', scheduledFor: runAt.toISOString() } } },
+        workflow.userId,
+      );
+    }
+  }
+
+  private async scheduleUninitialized(now: Date): Promise<void> {
+    const workflows = await this.workflowRepository.find({
+      where: {
+        triggerType: WorkflowTriggerType.SCHEDULE,
+        status: WorkflowStatus.ACTIVE,
+        nextExecutionAt: IsNull(),
+      },
+    });
+
+    for (const workflow of workflows) {
+      if (validateScheduleConfig(workflow.triggerConfig).length > 0) {
+        continue;
+      }
+
+      await this.workflowRepository.update(
+        { id: workflow.id },
+        { nextExecutionAt: getNextRunAt(workflow.triggerConfig as ScheduleTriggerConfig, now) },
+      );
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+  NotFoundException,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Request } from 'express';
+import { WorkflowWebhooksService } from './workflow-webhooks.service';
+
+@ApiTags('workflows')
+@Controller('hooks/workflows')
+export class WorkflowWebhooksController {
+  constructor(private readonly workflowWebhooksService: WorkflowWebhooksService) {}
+
+  @Post(':id/:secret')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Trigger a webhook workflow' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'secret', description: 'Webhook URL token' })
+  @ApiResponse({
+    status: 202,
+    description: 'Workflow triggered',
+    schema: { properties: { executionId: { type: 'string' } } },
+  })
+  @ApiResponse({ status: 401, description: 'Invalid webhook signature' })
+  @ApiResponse({ status: 404, description: 'Webhook not found' })
+  async trigger(
+    // Malformed ids are answered like unknown ones, so as not to tell them apart
+    @Param(
+      'id',
+      new ParseUUIDPipe({ exceptionFactory: () => new NotFoundException('Webhook not found') }),
+    )
+    id: string,
+    @Param('secret') secret: string,
+    @Body() body: Record<string, any>,
+    @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ executionId: string }> {
+    return this.workflowWebhooksService.trigger(id, secret, body, headers, req.rawBody);
+  }
+}
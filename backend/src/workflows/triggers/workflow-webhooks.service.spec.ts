@@ -0,0 +1,52 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { WorkflowWebhooksService } from './workflow-webhooks.service';
+import { WorkflowsService } from '../workflows.service';
+import { Workflow } from '../entities/workflow.entity';
+import { WorkflowWebhookSecret } from '../entities/workflow-webhook-secret.entity';
+
+describe('WorkflowWebhooksService', () => {
+  let service: WorkflowWebhooksService;
+
+  const payload = Buffer.from('{"event":"contract.signed"}');
+  const signingSecret = 'whsec_test';
+  const signature = createHmac('sha256', signingSecret).update(payload).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowWebhooksService,
+        { provide: getRepositoryToken(Workflow), useValue: {} },
+        { provide: getRepositoryToken(WorkflowWebhookSecret), useValue: {} },
+        { provide: WorkflowsService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowWebhooksService>(WorkflowWebhooksService);
+  });
+
+  describe('isValidSignature', () => {
+    it('should accept the HMAC of the payload, with or without its prefix', () => {
+      expect(service.isValidSignature(payload, signingSecret, signature)).toBe(true);
+      expect(service.isValidSignature(payload, signingSecret, [`sha256=${signature}`])).toBe(true);
+    });
+
+    it('should reject wrong and missing signatures', () => {
+      const other = createHmac('sha256', 'other').update(payload).digest('hex');
+
+      expect(service.isValidSignature(payload, signingSecret, other)).toBe(false);
+      expect(service.isValidSignature(payload, signingSecret, signature.slice(2))).toBe(false);
+      expect(service.isValidSignature(payload, signingSecret)).toBe(false);
+    });
+
+    it('should reject non-ASCII signatures of the same length instead of throwing', () => {
+      const header = 'é'.repeat(signature.length);
+
+      expect(() => service.isValidSignature(payload, signingSecret, header)).not.toThrow();
+      expect(service.isValidSignature(payload, signingSecret, header)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from '../entities/workflow.entity';
+import { WorkflowWebhookSecret } from '../entities/workflow-webhook-secret.entity';
+import { WorkflowsService } from '../workflows.service';
+import { getValueAtPath } from '../engine/template.util';
+
+export interface WebhookTriggerConfig {
+  requireSignature?: boolean;
+  signatureHeader?: string;
+  // Maps execution input names to dotted paths in the request body
+  inputMapping?: Record<string, string>;
+}
+
+export interface WebhookCredentials {
+  url: string;
+  token: string;
+  signingSecret: string;
+  signatureHeader: string;
+  createdAt: Date;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = 'x-kitops-signature';
+// How long a rotated-out secret keeps working so callers can switch over
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class WorkflowWebhooksService {
+  private readonly logger = new Logger(WorkflowWebhooksService.name);
+
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    @InjectRepository(WorkflowWebhookSecret)
+    private readonly secretRepository: Repository<WorkflowWebhookSecret>,
+    private readonly workflowsService: WorkflowsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issues a new webhook secret; existing secrets expire after a grace period
+   */
+  async rotateSecret(workflowId: string, userId: string): Promise<WebhookCredentials> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+    const now = new Date();
+
+    await this.secretRepository.update(
+      { workflowId: workflow.id, expiresAt: IsNull() },
+      { expiresAt: new Date(now.getTime() + ROTATION_GRACE_MS) },
+    );
+
+    const token = randomBytes(24).toString('hex');
+    const secret = await this.secretRepository.save(
+      this.secretRepository.create({
+        workflowId: workflow.id,
+        tokenHash: this.hashToken(token),
+        signingSecret: randomBytes(32).toString('hex'),
+      }),
+    );
+
+    return {
+      url: this.buildUrl(workflow.id, token),
+      token,
+      signingSecret: secret.signingSecret,
+      signatureHeader: this.getSignatureHeader(workflow),
+      createdAt: secret.createdAt,
+    };
+  }
+
+  async listSecrets(
+    workflowId: string,
+    userId: string,
+  ): Promise<Array<{ id: string; createdAt: Date; expiresAt: Date }>> {
+    const workflow = await this.workflowsService.findOne(workflowId, userId);
+    const secrets = await this.secretRepository.find({
+      where: { workflowId: workflow.id },
+      order: { createdAt: 'DESC' },
+    });
+
+    return secrets.map(({ id, createdAt, expiresAt }) => ({ id, createdAt, expiresAt }));
+  }
+
+  /**
+   * Verifies an inbound webhook call and executes the workflow with the mapped body
+   */
+  async trigger(
+    workflowId: string,
+    token: string,
+    body: Record<string, any>,
+    headers: Record<string, string | string[]>,
+    rawBody?: Buffer,
+  ): Promise<{ executionId: string }> {
+    const workflow = await this.workflowRepository.findOne({ where: { id: workflowId } });
+    const secret = workflow ? await this.findActiveSecret(workflow.id, token) : null;
+
+    // Unknown workflows and wrong tokens look the same to the caller
+    if (!workflow || !secret || workflow.triggerType !== WorkflowTriggerType.WEBHOOK) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    if (workflow.status !== WorkflowStatus.ACTIVE) {
+      throw new ForbiddenException('Workflow is not active');
+    }
+
+    const config = (workflow.triggerConfig || {}) as WebhookTriggerConfig;
+    if (config.requireSignature) {
+      const header = headers[this.getSignatureHeader(workflow)];
+      const payload = rawBody || Buffer.from(JSON.stringify(body || {}));
+      if (!this.isValidSignature(payload, secret.signingSecret, header)) {
+        this.logger.warn(`Rejected webhook call for workflow ${workflow.id}: bad signature`);
+        throw new UnauthorizedException('Invalid webhook signature');
+      }
+    }
+
+    const result = await this.workflowsService.execute(
+      workflow.id,
+      { inputs: this.mapInputs(body || {}, config.inputMapping) },
+      workflow.userId,
+    );
+
+    return { executionId: result.executionId };
+  }
+
+  mapInputs(body: Record<string, any>, mapping?: Record<string, string>): Record<string, any> {
+    if (!mapping || Object.keys(mapping).length === 0) {
+      return body;
+    }
+
+    return Object.entries(mapping).reduce(
+      (inputs, [name, path]) => {
+        inputs[name] = getValueAtPath(body, path);
+        return inputs;
+      },
+      {} as Record<string, any>,
+    );
+  }
+
+  isValidSignature(payload: Buffer, signingSecret: string, header?: string | string[]): boolean {
+    const signature = (Array.isArray(header) ? header[0] : header || '').replace(/^sha256=/, '');
+    // Decoding stops at the first character that is not hex, so malformed
+    // headers decode to fewer bytes than the digest
+    const provided = Buffer.from(signature, 'hex');
+    const expected = createHmac('sha256', signingSecret).update(payload).digest();
+
+    if (provided.length !== expected.length) {
+      return false;
+    }
+
+    return timingSafeEqual(provided, expected);
+  }
+
+  private async findActiveSecret(
+    workflowId: string,
+    token: string,
+  ): Promise<WorkflowWebhookSecret | null> {
+    const tokenHash = this.hashToken(token);
+
+    return this.secretRepository.findOne({
+      where: [
+        { workflowId, tokenHash, expiresAt: IsNull() },
+        { workflowId, tokenHash, expiresAt: MoreThan(new Date()) },
+      ],
+    });
+  }
+
+  private getSignatureHeader(workflow: Workflow): string {
+    const config = (workflow.triggerConfig || {}) as WebhookTriggerConfig;
+    return (config.signatureHeader || DEFAULT_SIGNATURE_HEADER).toLowerCase();
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private buildUrl(workflowId: string, token: string): string {
+    const appUrl = this.configService.get<string>('APP_URL') || 'http://localhost:3001';
+    return `${appUrl}/api/v1/hooks/workflows/${workflowId}/${token}`;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Helpers for comparing workflow definitions between versions
+ */
+import { Workflow } from '../entities/workflow.entity';
+
+export const VERSIONED_FIELDS = [
+  'triggerType',
+  'triggerConfig',
+  'steps',
+  'schemaVersion',
+  'variables',
+] as const;
+
+export type WorkflowDefinition = Pick<Workflow, (typeof VERSIONED_FIELDS)[number]>;
+
+export interface WorkflowVersionChange {
+  // Location of the change, such as steps[1].config.subject
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export function getDefinition(source: WorkflowDefinition): WorkflowDefinition {
+  return VERSIONED_FIELDS.reduce(
+    (definition, field) => ({ ...definition, [field]: source[field] ?? null }),
+    {} as WorkflowDefinition,
+  );
+}
+
+/**
+ * Lists the differences between two definitions, descending into objects and
+ * arrays so that a changed step config is reported at the changed key
+ */
+export function diffDefinitions(
+  from: WorkflowDefinition,
+  to: WorkflowDefinition,
+): WorkflowVersionChange[] {
+  const changes: WorkflowVersionChange[] = [];
+  VERSIONED_FIELDS.forEach((field) =>
+    diffValues(from[field] ?? null, to[field] ?? null, field, changes),
+  );
+  return changes;
+}
+
+function diffValues(
+  from: unknown,
+  to: unknown,
+  path: string,
+  changes: WorkflowVersionChange[],
+): void {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    for (let index = 0; index < Math.max(from.length, to.length); index++) {
+      diffEntry(from, to, index, `${path}[${index}]`, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    keys.forEach((key) => diffEntry(from, to, key, `${path}.${key}`, changes));
+    return;
+  }
+
+  if (JSON.stringify(from) !== JSON.stringify(to)) {
+    changes.push({ path, kind: 'changed', from, to });
+  }
+}
+
+function diffEntry(
+  from: any,
+  to: any,
+  key: string | number,
+  path: string,
+  changes: WorkflowVersionChange[],
+): void {
+  const inFrom = key in from;
+  const inTo = key in to;
+
+  if (inFrom && !inTo) {
+    changes.push({ path, kind: 'removed', from: from[key] });
+  } else if (!inFrom && inTo) {
+    changes.push({ path, kind: 'added', to: to[key] });
+  } else {
+    diffValues(from[key], to[key], path, changes);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
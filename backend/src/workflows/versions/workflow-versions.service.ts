@@ -0,0 +1,77 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { inTransaction } from '../../database/transaction.util';
+import { Workflow } from '../entities/workflow.entity';
+import { WorkflowVersion } from '../entities/workflow-version.entity';
+import { WorkflowVersionChange, diffDefinitions, getDefinition } from './version-diff.util';
+
+export interface WorkflowVersionDiff {
+  from: number;
+  to: number;
+  changes: WorkflowVersionChange[];
+}
+
+@Injectable()
+export class WorkflowVersionsService {
+  constructor(
+    @InjectRepository(WorkflowVersion)
+    private readonly versionRepository: Repository<WorkflowVersion>,
+  ) {}
+
+  /**
+   * Stores the current definition of the workflow as its version number
+   * workflow.version, in the transaction of the manager if given (see
+   * inTransaction).
+   */
+  async record(
+    workflow: Workflow,
+    createdById: string,
+    options: { restoredFromVersion?: number; manager?: EntityManager } = {},
+  ): Promise<WorkflowVersion> {
+    const repository = inTransaction(this.versionRepository, options.manager);
+
+    const version = repository.create({
+      ...getDefinition(workflow),
+      workflowId: workflow.id,
+      version: workflow.version,
+      restoredFromVersion: options.restoredFromVersion ?? null,
+      createdById,
+    });
+
+    return await repository.save(version);
+  }
+
+  async findByWorkflow(workflowId: string): Promise<WorkflowVersion[]> {
+    return this.versionRepository.find({
+      select: ['id', 'workflowId', 'version', 'restoredFromVersion', 'createdById', 'createdAt'],
+      where: { workflowId },
+      order: { version: 'DESC' },
+    });
+  }
+
+  async findOne(workflowId: string, version: number): Promise<WorkflowVersion> {
+    const workflowVersion = await this.versionRepository.findOne({
+      where: { workflowId, version },
+    });
+
+    if (!workflowVersion) {
+      throw new NotFoundException('Workflow version not found');
+    }
+
+    return workflowVersion;
+  }
+
+  async findCurrent(workflow: Workflow): Promise<WorkflowVersion> {
+    return this.findOne(workflow.id, workflow.version);
+  }
+
+  async diff(workflowId: string, from: number, to: number): Promise<WorkflowVersionDiff> {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.findOne(workflowId, from),
+      this.findOne(workflowId, to),
+    ]);
+
+    return { from, to, changes: diffDefinitions(fromVersion, toVersion) };
+  }
+}
@@ -0,0 +1,306 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
+import { Workflow } from './entities/workflow.entity';
+import { WorkflowVersion } from './entities/workflow-version.entity';
+import {
+  WorkflowExecution,
+  WorkflowExecutionPriority,
+  WorkflowExecutionStatus,
+} from './entities/workflow-execution.entity';
+import { WorkflowRunResult, WorkflowStepResult } from './engine/workflow-step.interface';
+import { MetricsService } from '../monitoring/metrics.service';
+
+const RUN_STATUSES: Record<WorkflowRunResult['status'], WorkflowExecutionStatus> = {
+  completed: WorkflowExecutionStatus.COMPLETED,
+  failed: WorkflowExecutionStatus.FAILED,
+  cancelled: WorkflowExecutionStatus.CANCELLED,
+  waiting: WorkflowExecutionStatus.WAITING,
+};
+
+export interface PaginatedResult<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+@Injectable()
+export class WorkflowExecutionsService {
+  constructor(
+    @InjectRepository(WorkflowExecution)
+    private readonly executionRepository: Repository<WorkflowExecution>,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  async enqueue(
+    workflow: Workflow,
+    workflowVersion: WorkflowVersion,
+    inputs: Record<string, any>,
+    triggeredById: string,
+    priority: WorkflowExecutionPriority = WorkflowExecutionPriority.MEDIUM,
+  ): Promise<WorkflowExecution> {
+    const execution = this.executionRepository.create({
+      workflowId: workflow.id,
+      workflowVersionId: workflowVersion.id,
+      status: WorkflowExecutionStatus.QUEUED,
+      priority,
+      inputs: inputs || {},
+      steps: [],
+      triggeredById,
+    });
+
+    return await this.executionRepository.save(execution);
+  }
+
+  /**
+   * Builds the execution log of a dry run without storing it
+   */
+  buildDryRun(
+    workflow: Workflow,
+    workflowVersion: WorkflowVersion,
+    inputs: Record<string, any>,
+    triggeredById: string,
+    { result, startedAt }: { result: WorkflowRunResult; startedAt: Date },
+  ): WorkflowExecution {
+    return this.executionRepository.create({
+      workflowId: workflow.id,
+      workflowVersionId: workflowVersion.id,
+      status: RUN_STATUSES[result.status],
+      inputs: inputs || {},
+      steps: result.steps,
+      error: result.error || null,
+      triggeredById,
+      startedAt,
+      finishedAt: new Date(),
+    });
+  }
+
+  /**
+   * Claims the highest priority queued execution whose workflow owner is
+   * below the concurrency limit, marking it running under a lease.
+   * Claims are serialized through an advisory lock so that concurrent
+   * workers cannot both take the last free slot of a user.
+   */
+  async claimNext(maxRunningPerUser: number, leaseMs: number): Promise<WorkflowExecution | null> {
+    const claimedId = await this.executionRepository.manager.transaction(async (manager) => {
+      await manager.query(`SELECT pg_advisory_xact_lock(hashtext('workflow_executions_queue'))`);
+
+      const [next] = await manager.query(
+        `
+        SELECT execution."id"
+        FROM "workflow_executions" execution
+        INNER JOIN "workflows" workflow ON workflow."id" = execution."workflowId"
+        WHERE execution."status" = 'queued'
+          AND (
+            SELECT count(*)
+            FROM "workflow_executions" running
+            INNER JOIN "workflows" owned ON owned."id" = running."workflowId"
+            WHERE running."status" = 'running' AND owned."userId" = workflow."userId"
+          ) < $1
+        ORDER BY execution."priority" DESC, execution."createdAt" ASC
+        LIMIT 1
+        `,
+        [maxRunningPerUser],
+      );
+
+      if (!next) {
+        return null;
+      }
+
+      const now = new Date();
+      await manager.update(
+        WorkflowExecution,
+        { id: next.id },
+        {
+          status: WorkflowExecutionStatus.RUNNING,
+          startedAt: now,
+          lockedUntil: new Date(now.getTime() + leaseMs),
+        },
+      );
+      return next.id as string;
+    });
+
+    if (!claimedId) {
+      return null;
+    }
+
+    return this.executionRepository.findOne({
+      where: { id: claimedId },
+      relations: ['workflow', 'workflowVersion'],
+    });
+  }
+
+  async extendLeases(executionIds: string[], lockedUntil: Date): Promise<void> {
+    if (executionIds.length === 0) {
+      return;
+    }
+
+    await this.executionRepository.update(
+      { id: In(executionIds), status: WorkflowExecutionStatus.RUNNING },
+      { lockedUntil },
+    );
+  }
+
+  /**
+   * Puts running executions whose worker stopped renewing the lease (for
+   * example because the process restarted) back on the queue
+   */
+  async requeueExpired(now: Date): Promise<number> {
+    // Abandoned runs that were being cancelled are not worth restarting
+    await this.executionRepository.update(
+      {
+        status: WorkflowExecutionStatus.RUNNING,
+        lockedUntil: LessThan(now),
+        cancelRequestedAt: Not(IsNull()),
+      },
+      {
+        status: WorkflowExecutionStatus.CANCELLED,
+        error: 'Execution was cancelled',
+        finishedAt: now,
+        lockedUntil: null,
+      },
+    );
+
+    const result = await this.executionRepository.update(
+      { status: WorkflowExecutionStatus.RUNNING, lockedUntil: LessThan(now) },
+      { status: WorkflowExecutionStatus.QUEUED, startedAt: null, lockedUntil: null },
+    );
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Saves the steps of a running execution, so that a run requeued after
+   * its worker stopped does not repeat the steps it completed
+   */
+  async saveProgress(executionId: string, steps: WorkflowStepResult[]): Promise<void> {
+    await this.executionRepository.update(
+      { id: executionId, status: WorkflowExecutionStatus.RUNNING },
+      { steps },
+    );
+  }
+
+  async finish(
+    execution: WorkflowExecution,
+    result: WorkflowRunResult,
+  ): Promise<WorkflowExecution> {
+    execution.status = RUN_STATUSES[result.status];
+    execution.steps = result.steps;
+    execution.error = result.error || null;
+    execution.finishedAt = new Date();
+    execution.lockedUntil = null;
+    if (result.status === 'cancelled') {
+      execution.cancelRequestedAt = execution.cancelRequestedAt || execution.finishedAt;
+    }
+
+    const saved = await this.executionRepository.save(execution);
+    this.recordMetrics(execution);
+    return saved;
+  }
+
+  /**
+   * Cancels a queued or waiting execution outright, or flags a running one so
+   * that its worker aborts it. Returns false when the execution has already
+   * finished.
+   */
+  async requestCancellation(execution: WorkflowExecution): Promise<boolean> {
+    const now = new Date();
+
+    const dequeued = await this.executionRepository.update(
+      {
+        id: execution.id,
+        status: In([WorkflowExecutionStatus.QUEUED, WorkflowExecutionStatus.WAITING]),
+      },
+      {
+        status: WorkflowExecutionStatus.CANCELLED,
+        cancelRequestedAt: now,
+        error: 'Execution was cancelled',
+        finishedAt: now,
+      },
+    );
+    if (dequeued.affected) {
+      return true;
+    }
+
+    const flagged = await this.executionRepository.update(
+      { id: execution.id, status: WorkflowExecutionStatus.RUNNING },
+      { cancelRequestedAt: now },
+    );
+    return Boolean(flagged.affected);
+  }
+
+  async findCancellationRequests(executionIds: string[]): Promise<string[]> {
+    if (executionIds.length === 0) {
+      return [];
+    }
+
+    const executions = await this.executionRepository.find({
+      select: ['id'],
+      where: { id: In(executionIds), cancelRequestedAt: Not(IsNull()) },
+    });
+    return executions.map(({ id }) => id);
+  }
+
+  async fail(execution: WorkflowExecution, error: Error): Promise<WorkflowExecution> {
+    execution.status = WorkflowExecutionStatus.FAILED;
+    execution.error = error.message;
+    execution.finishedAt = new Date();
+    execution.lockedUntil = null;
+
+    const saved = await this.executionRepository.save(execution);
+    this.recordMetrics(execution);
+    return saved;
+  }
+
+  async findByWorkflow(
+    workflowId: string,
+    pagination: { page?: number; limit?: number } = {},
+  ): Promise<PaginatedResult<WorkflowExecution>> {
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 20;
+
+    const [data, total] = await this.executionRepository.findAndCount({
+      select: [
+        'id',
+        'workflowId',
+        'workflowVersionId',
+        'status',
+        'priority',
+        'inputs',
+        'approvals',
+        'error',
+        'triggeredById',
+        'cancelRequestedAt',
+        'startedAt',
+        'finishedAt',
+        'createdAt',
+      ],
+      where: { workflowId },
+      // Queued executions have not started yet, so they are ordered by creation
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { data, total, page, limit };
+  }
+
+  async findOne(workflowId: string, executionId: string): Promise<WorkflowExecution> {
+    const execution = await this.executionRepository.findOne({
+      where: { id: executionId, workflowId },
+    });
+
+    if (!execution) {
+      throw new NotFoundException('Workflow execution not found');
+    }
+
+    return execution;
+  }
+
+  private recordMetrics(execution: WorkflowExecution): void {
+    const startedAt = execution.startedAt || execution.finishedAt;
+    const duration = (execution.finishedAt.getTime() - startedAt.getTime()) / 1000;
+    this.metricsService.recordWorkflowExecution(execution.workflowId, execution.status, duration);
+  }
+}
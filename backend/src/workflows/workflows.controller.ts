@@ -11,21 +11,90 @@ import {
   HttpCode,
   HttpStatus,
   Query,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Res,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { WorkflowsService } from './workflows.service';
+import { ExecuteWorkflowResult, WorkflowsService } from './workflows.service';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
 import { ExecuteWorkflowDto } from './dto/execute-workflow.dto';
-import { Workflow } from './entities/workflow.entity';
+import { ListExecutionsQueryDto } from './dto/list-executions-query.dto';
+import { DiffVersionsQueryDto } from './dto/diff-versions-query.dto';
+import { ImportWorkflowDto } from './dto/import-workflow.dto';
+import { ExportWorkflowQueryDto } from './dto/export-workflow-query.dto';
+import { WorkflowStatsQueryDto } from './dto/workflow-stats-query.dto';
+import { Workflow, WorkflowStatus } from './entities/workflow.entity';
+import { WorkflowExecution } from './entities/workflow-execution.entity';
+import { WorkflowVersion } from './entities/workflow-version.entity';
+import { PaginatedResult } from './workflow-executions.service';
+import { WorkflowVersionDiff } from './versions/workflow-versions.service';
+import { WorkflowRunStats } from './stats/workflow-stats.service';
+import { WorkflowWebhooksService, WebhookCredentials } from './triggers/workflow-webhooks.service';
+import { WorkflowPortabilityService } from './portability/workflow-portability.service';
+
+const STATS_SCHEMA = {
+  properties: {
+    from: { type: 'string', format: 'date-time' },
+    to: { type: 'string', format: 'date-time' },
+    days: { type: 'number' },
+    totalRuns: { type: 'number' },
+    runsByStatus: { type: 'object', additionalProperties: { type: 'number' } },
+    successRate: {
+      type: 'number',
+      nullable: true,
+      description: 'Percentage of completed runs among those that completed or failed',
+    },
+    durationMs: {
+      properties: {
+        p50: { type: 'number', nullable: true },
+        p95: { type: 'number', nullable: true },
+      },
+    },
+    runsPerDay: {
+      type: 'array',
+      items: {
+        properties: {
+          date: { type: 'string', example: '2025-01-31' },
+          runs: { type: 'number' },
+          completed: { type: 'number' },
+          failed: { type: 'number' },
+        },
+      },
+    },
+    mostFailingStep: {
+      nullable: true,
+      properties: {
+        workflowId: { type: 'string' },
+        workflowName: { type: 'string' },
+        stepId: { type: 'string' },
+        type: { type: 'string' },
+        failures: { type: 'number' },
+      },
+    },
+  },
+};
 
 @ApiTags('workflows')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 @Controller('workflows')
 export class WorkflowsController {
-  constructor(private readonly workflowsService: WorkflowsService) {}
+  constructor(
+    private readonly workflowsService: WorkflowsService,
+    private readonly workflowWebhooksService: WorkflowWebhooksService,
+    private readonly portabilityService: WorkflowPortabilityService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new workflow' })
@@ -38,8 +107,26 @@ export class WorkflowsController {
     return this.workflowsService.create(createWorkflowDto, req.user.id);
   }
 
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import a workflow from an exported JSON or YAML file',
+    description: 'The workflow is validated and created as a draft.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Workflow imported successfully',
+    type: Workflow,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid workflow file' })
+  async import(@Body() importWorkflowDto: ImportWorkflowDto, @Request() req): Promise<Workflow> {
+    return this.portabilityService.import(importWorkflowDto, req.user.id);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all workflows for the authenticated user' })
+  @ApiQuery({ name: 'status', required: false, enum: WorkflowStatus })
+  @ApiQuery({ name: 'category', required: false, description: 'Category name' })
+  @ApiQuery({ name: 'categoryId', required: false, description: 'Category ID' })
   @ApiResponse({
     status: 200,
     description: 'Workflows retrieved successfully',
@@ -49,8 +136,23 @@ export class WorkflowsController {
     @Request() req,
     @Query('status') status?: string,
     @Query('category') category?: string,
+    @Query('categoryId', new ParseUUIDPipe({ optional: true })) categoryId?: string,
   ): Promise<Workflow[]> {
-    return this.workflowsService.findAll(req.user.id, { status, category });
+    return this.workflowsService.findAll(req.user.id, { status, category, categoryId });
+  }
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Get run statistics across all workflows of the authenticated user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Statistics retrieved successfully',
+    schema: STATS_SCHEMA,
+  })
+  async getUserStats(
+    @Query() query: WorkflowStatsQueryDto,
+    @Request() req,
+  ): Promise<WorkflowRunStats> {
+    return this.workflowsService.getUserStats(req.user.id, query.days);
   }
 
   @Get(':id')
@@ -94,15 +196,32 @@ export class WorkflowsController {
   }
 
   @Post(':id/execute')
-  @ApiOperation({ summary: 'Execute a workflow' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue a workflow run, or simulate it with dryRun' })
   @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 202,
+    description: 'Workflow run queued; poll the execution for its progress',
+    schema: {
+      properties: {
+        success: { type: 'boolean' },
+        message: { type: 'string' },
+        executionId: { type: 'string' },
+        status: { type: 'string', enum: ['queued'] },
+      },
+    },
+  })
   @ApiResponse({
     status: 200,
-    description: 'Workflow execution result',
+    description: 'Dry run finished; execution holds the simulated step log',
     schema: {
       properties: {
         success: { type: 'boolean' },
         message: { type: 'string' },
+        executionId: { type: 'string', nullable: true },
+        status: { type: 'string', enum: ['completed', 'failed'] },
+        dryRun: { type: 'boolean' },
+        execution: { type: 'object', description: 'Unsaved execution in the usual shape' },
       },
     },
   })
@@ -112,8 +231,13 @@ export class WorkflowsController {
     @Param('id') id: string,
     @Body() executeWorkflowDto: ExecuteWorkflowDto,
     @Request() req,
-  ): Promise<{ success: boolean; message: string }> {
-    return this.workflowsService.execute(id, executeWorkflowDto, req.user.id);
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ExecuteWorkflowResult> {
+    const result = await this.workflowsService.execute(id, executeWorkflowDto, req.user.id);
+    if (result.dryRun) {
+      res.status(HttpStatus.OK);
+    }
+    return result;
   }
 
   @Get(':id/executions')
@@ -123,18 +247,74 @@ export class WorkflowsController {
     status: 200,
     description: 'Execution history retrieved successfully',
     schema: {
-      type: 'array',
-      items: {
-        properties: {
-          executionCount: { type: 'number' },
-          lastExecutedAt: { type: 'string', format: 'date-time' },
-          status: { type: 'string' },
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            properties: {
+              id: { type: 'string' },
+              status: {
+                type: 'string',
+                enum: ['queued', 'running', 'waiting', 'completed', 'failed', 'cancelled'],
+              },
+              inputs: { type: 'object' },
+              error: { type: 'string' },
+              triggeredById: { type: 'string' },
+              startedAt: { type: 'string', format: 'date-time' },
+              finishedAt: { type: 'string', format: 'date-time' },
+            },
+          },
         },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
       },
     },
   })
-  async getExecutions(@Param('id') id: string, @Request() req): Promise<any[]> {
-    return this.workflowsService.getExecutions(id, req.user.id);
+  async getExecutions(
+    @Param('id') id: string,
+    @Query() query: ListExecutionsQueryDto,
+    @Request() req,
+  ): Promise<PaginatedResult<WorkflowExecution>> {
+    return this.workflowsService.getExecutions(id, req.user.id, query);
+  }
+
+  @Get(':id/executions/:executionId')
+  @ApiOperation({ summary: 'Get a workflow execution with full step detail' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'executionId', description: 'Execution ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Execution retrieved successfully',
+    type: WorkflowExecution,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow execution not found' })
+  async getExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ): Promise<WorkflowExecution> {
+    return this.workflowsService.getExecution(id, executionId, req.user.id);
+  }
+
+  @Post(':id/executions/:executionId/cancel')
+  @ApiOperation({ summary: 'Cancel a queued, waiting or running workflow execution' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'executionId', description: 'Execution ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Cancellation applied. Runs handled by another worker keep status running until it stops them',
+    type: WorkflowExecution,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow execution not found' })
+  @ApiResponse({ status: 409, description: 'Execution has already finished' })
+  async cancelExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ): Promise<WorkflowExecution> {
+    return this.workflowsService.cancelExecution(id, executionId, req.user.id);
   }
 
   @Post(':id/pause')
@@ -161,24 +341,226 @@ export class WorkflowsController {
     return this.workflowsService.resume(id, req.user.id);
   }
 
+  @Get(':id/stats')
+  @ApiOperation({ summary: 'Get run statistics of a workflow' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Statistics retrieved successfully',
+    schema: STATS_SCHEMA,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async getStats(
+    @Param('id') id: string,
+    @Query() query: WorkflowStatsQueryDto,
+    @Request() req,
+  ): Promise<WorkflowRunStats> {
+    return this.workflowsService.getStats(id, query.days, req.user.id);
+  }
+
   @Get(':id/history')
   @ApiOperation({ summary: 'Get workflow execution history (legacy endpoint)' })
   @ApiParam({ name: 'id', description: 'Workflow ID' })
   @ApiResponse({
     status: 200,
     description: 'Execution history retrieved successfully',
+    schema: {
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            properties: {
+              id: { type: 'string' },
+              status: {
+                type: 'string',
+                enum: ['queued', 'running', 'waiting', 'completed', 'failed', 'cancelled'],
+              },
+              inputs: { type: 'object' },
+              error: { type: 'string' },
+              triggeredById: { type: 'string' },
+              startedAt: { type: 'string', format: 'date-time' },
+              finishedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+      },
+    },
+  })
+  async getHistory(
+    @Param('id') id: string,
+    @Query() query: ListExecutionsQueryDto,
+    @Request() req,
+  ): Promise<PaginatedResult<WorkflowExecution>> {
+    return this.workflowsService.getExecutionHistory(id, req.user.id, query);
+  }
+
+  @Get(':id/export')
+  @ApiOperation({
+    summary: 'Export a workflow',
+    description:
+      'Downloads the definition, a variables schema and the integrations it needs, ' +
+      'in a format accepted by the import endpoint.',
+  })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 200, description: 'Workflow file' })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async export(
+    @Param('id') id: string,
+    @Query() query: ExportWorkflowQueryDto,
+    @Request() req,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const format = query.format || 'json';
+    const document = await this.portabilityService.export(id, req.user.id);
+    const filename = document.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'workflow';
+
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+    return this.portabilityService.serialize(document, format);
+  }
+
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'List the stored versions of a workflow, newest first' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        properties: {
+          id: { type: 'string' },
+          version: { type: 'number' },
+          restoredFromVersion: { type: 'number', nullable: true },
+          createdById: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  })
+  async getVersions(@Param('id') id: string, @Request() req): Promise<WorkflowVersion[]> {
+    return this.workflowsService.getVersions(id, req.user.id);
+  }
+
+  @Get(':id/versions/diff')
+  @ApiOperation({ summary: 'Compare the definitions of two workflow versions' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Changes between the two versions',
+    schema: {
+      properties: {
+        from: { type: 'number' },
+        to: { type: 'number' },
+        changes: {
+          type: 'array',
+          items: {
+            properties: {
+              path: { type: 'string', example: 'steps[1].config.subject' },
+              kind: { type: 'string', enum: ['added', 'removed', 'changed'] },
+              from: {},
+              to: {},
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Workflow version not found' })
+  async diffVersions(
+    @Param('id') id: string,
+    @Query() query: DiffVersionsQueryDto,
+    @Request() req,
+  ): Promise<WorkflowVersionDiff> {
+    return this.workflowsService.diffVersions(id, query.from, query.to, req.user.id);
+  }
+
+  @Get(':id/versions/:version')
+  @ApiOperation({ summary: 'Get the definition stored as a workflow version' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'version', description: 'Version number' })
+  @ApiResponse({
+    status: 200,
+    description: 'Version retrieved successfully',
+    type: WorkflowVersion,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow version not found' })
+  async getVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Request() req,
+  ): Promise<WorkflowVersion> {
+    return this.workflowsService.getVersion(id, version, req.user.id);
+  }
+
+  @Post(':id/versions/:version/rollback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Roll back to an earlier version',
+    description: 'Restores the definition of the given version and stores it as a new version.',
+  })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'version', description: 'Version number to restore' })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow rolled back successfully',
+    type: Workflow,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow version not found' })
+  @ApiResponse({ status: 409, description: 'Workflow is already at this version' })
+  async rollback(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Request() req,
+  ): Promise<Workflow> {
+    return this.workflowsService.rollback(id, version, req.user.id);
+  }
+
+  @Get(':id/webhook/secrets')
+  @ApiOperation({ summary: 'List webhook secrets for a workflow' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook secrets retrieved successfully',
     schema: {
       type: 'array',
       items: {
         properties: {
-          executionCount: { type: 'number' },
-          lastExecutedAt: { type: 'string', format: 'date-time' },
-          status: { type: 'string' },
+          id: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' },
+          expiresAt: { type: 'string', format: 'date-time', nullable: true },
         },
       },
     },
   })
-  async getHistory(@Param('id') id: string, @Request() req): Promise<any[]> {
-    return this.workflowsService.getExecutionHistory(id, req.user.id);
+  async listWebhookSecrets(@Param('id') id: string, @Request() req) {
+    return this.workflowWebhooksService.listSecrets(id, req.user.id);
+  }
+
+  @Post(':id/webhook/rotate')
+  @ApiOperation({
+    summary: 'Rotate the webhook secret',
+    description:
+      'Issues a new webhook URL and signing secret. Previous secrets keep working for 24 hours.',
+  })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Webhook secret rotated successfully',
+    schema: {
+      properties: {
+        url: { type: 'string' },
+        token: { type: 'string' },
+        signingSecret: { type: 'string' },
+        signatureHeader: { type: 'string' },
+        createdAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  async rotateWebhookSecret(@Param('id') id: string, @Request() req): Promise<WebhookCredentials> {
+    return this.workflowWebhooksService.rotateSecret(id, req.user.id);
   }
 }
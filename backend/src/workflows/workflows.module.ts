@@ -3,11 +3,91 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { WorkflowsService } from './workflows.service';
 import { WorkflowsController } from './workflows.controller';
 import { Workflow } from './entities/workflow.entity';
+import { WorkflowExecution } from './entities/workflow-execution.entity';
+import { WorkflowExecutionsService } from './workflow-executions.service';
+import { WorkflowVersion } from './entities/workflow-version.entity';
+import { WorkflowCategory } from './entities/workflow-category.entity';
+import { WorkflowCategoriesService } from './categories/workflow-categories.service';
+import { WorkflowCategoriesController } from './categories/workflow-categories.controller';
+import { WorkflowVersionsService } from './versions/workflow-versions.service';
+import { WorkflowApprovalsService } from './approvals/workflow-approvals.service';
+import { WorkflowStatsService } from './stats/workflow-stats.service';
+import { WorkflowApprovalsController } from './approvals/workflow-approvals.controller';
+import { WorkflowSchedulerService } from './triggers/workflow-scheduler.service';
+import { WorkflowWebhooksService } from './triggers/workflow-webhooks.service';
+import { WorkflowEventTriggersService } from './triggers/workflow-event-triggers.service';
+import { WorkflowQueueService } from './queue/workflow-queue.service';
+import { WorkflowPortabilityService } from './portability/workflow-portability.service';
+import { WorkflowTemplatesController } from './portability/workflow-templates.controller';
+import { WorkflowWebhooksController } from './triggers/workflow-webhooks.controller';
+import { WorkflowWebhookSecret } from './entities/workflow-webhook-secret.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MonitoringModule } from '../monitoring/monitoring.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { IntegrationsModule } from '../integrations/integrations.module';
+import { SignatureModule } from '../signature/signature.module';
+import { WorkflowEngineService } from './engine/workflow-engine.service';
+import { WORKFLOW_STEP_HANDLERS } from './engine/workflow-step.interface';
+import { SendEmailHandler } from './engine/handlers/send-email.handler';
+import { SendNotificationHandler } from './engine/handlers/send-notification.handler';
+import { CreateProjectHandler } from './engine/handlers/create-project.handler';
+import { GenerateContractHandler } from './engine/handlers/generate-contract.handler';
+import { AiDocumentAnalysisHandler } from './engine/handlers/ai-document-analysis.handler';
+import { SendForSignatureHandler } from './engine/handlers/send-for-signature.handler';
+import { VoidEnvelopeHandler } from './engine/handlers/void-envelope.handler';
+
+const stepHandlers = [
+  SendEmailHandler,
+  SendNotificationHandler,
+  CreateProjectHandler,
+  GenerateContractHandler,
+  AiDocumentAnalysisHandler,
+  SendForSignatureHandler,
+  VoidEnvelopeHandler,
+];
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Workflow])],
-  controllers: [WorkflowsController],
-  providers: [WorkflowsService],
+  imports: [
+    TypeOrmModule.forFeature([
+      Workflow,
+      WorkflowCategory,
+      WorkflowVersion,
+      WorkflowExecution,
+      WorkflowWebhookSecret,
+    ]),
+    NotificationsModule,
+    MonitoringModule,
+    ProjectsModule,
+    IntegrationsModule,
+    SignatureModule,
+  ],
+  controllers: [
+    WorkflowsController,
+    WorkflowApprovalsController,
+    WorkflowCategoriesController,
+    WorkflowWebhooksController,
+    WorkflowTemplatesController,
+  ],
+  providers: [
+    WorkflowsService,
+    WorkflowExecutionsService,
+    WorkflowVersionsService,
+    WorkflowCategoriesService,
+    WorkflowApprovalsService,
+    WorkflowStatsService,
+    WorkflowEngineService,
+    WorkflowQueueService,
+    WorkflowPortabilityService,
+    WorkflowSchedulerService,
+    WorkflowWebhooksService,
+    WorkflowEventTriggersService,
+    ...stepHandlers,
+    {
+      provide: WORKFLOW_STEP_HANDLERS,
+      useFactory: (...handlers) => handlers,
+      inject: stepHandlers,
+    },
+  ],
   exports: [WorkflowsService],
 })
 export class WorkflowsModule {}
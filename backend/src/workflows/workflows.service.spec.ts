@@ -1,9 +1,21 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository, FindOneOptions } from 'typeorm';
-import { NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { WorkflowsService } from './workflows.service';
-import { Workflow, WorkflowStatus } from './entities/workflow.entity';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from './entities/workflow.entity';
+import { WorkflowEngineService } from './engine/workflow-engine.service';
+import { WorkflowExecutionsService } from './workflow-executions.service';
+import { WorkflowExecutionPriority } from './entities/workflow-execution.entity';
+import { WorkflowQueueService } from './queue/workflow-queue.service';
+import { WorkflowVersionsService } from './versions/workflow-versions.service';
+import { WorkflowCategoriesService } from './categories/workflow-categories.service';
+import { WorkflowStatsService } from './stats/workflow-stats.service';
 
 describe('WorkflowsService', () => {
   let service: WorkflowsService;
@@ -15,6 +27,56 @@ describe('WorkflowsService', () => {
     find: jest.fn(),
     findOne: jest.fn().mockImplementation((options: FindOneOptions<Workflow>) => Promise.resolve(mockWorkflow)),
     remove: jest.fn(),
+    manager: {
+      transaction: jest.fn((work) => work({ getRepository: () => mockRepository })),
+    },
+  };
+
+  const mockWorkflowEngine = {
+    validateSteps: jest.fn().mockReturnValue([]),
+    run: jest.fn(),
+  };
+
+  const mockExecution = { id: 'execution-123', workflowId: 'workflow-123', status: 'queued' };
+
+  const mockExecutionsService = {
+    enqueue: jest.fn().mockResolvedValue(mockExecution),
+    findByWorkflow: jest
+      .fn()
+      .mockResolvedValue({ data: [mockExecution], total: 1, page: 1, limit: 20 }),
+    findOne: jest.fn().mockResolvedValue(mockExecution),
+    requestCancellation: jest.fn().mockResolvedValue(true),
+    buildDryRun: jest.fn(),
+  };
+
+  const mockWorkflowQueue = {
+    cancel: jest.fn().mockResolvedValue(true),
+  };
+
+  const mockVersion = {
+    id: 'version-123',
+    workflowId: 'workflow-123',
+    version: 1,
+    triggerType: WorkflowTriggerType.MANUAL,
+    steps: [{ type: 'send_email', config: { to: 'old@example.com' } }],
+    schemaVersion: 2,
+  };
+
+  const mockVersionsService = {
+    record: jest.fn().mockResolvedValue(mockVersion),
+    findByWorkflow: jest.fn().mockResolvedValue([mockVersion]),
+    findOne: jest.fn().mockResolvedValue(mockVersion),
+    findCurrent: jest.fn().mockResolvedValue(mockVersion),
+    diff: jest.fn(),
+  };
+
+  const mockCategoriesService = {
+    findOne: jest.fn().mockResolvedValue({ id: 'category-123', name: 'Legal' }),
+  };
+
+  const mockStatsService = {
+    forWorkflow: jest.fn().mockResolvedValue({ totalRuns: 3 }),
+    forUser: jest.fn(),
   };
 
   const mockWorkflow = {
@@ -35,6 +97,30 @@ describe('WorkflowsService', () => {
           provide: getRepositoryToken(Workflow),
           useValue: mockRepository,
         },
+        {
+          provide: WorkflowEngineService,
+          useValue: mockWorkflowEngine,
+        },
+        {
+          provide: WorkflowExecutionsService,
+          useValue: mockExecutionsService,
+        },
+        {
+          provide: WorkflowQueueService,
+          useValue: mockWorkflowQueue,
+        },
+        {
+          provide: WorkflowVersionsService,
+          useValue: mockVersionsService,
+        },
+        {
+          provide: WorkflowCategoriesService,
+          useValue: mockCategoriesService,
+        },
+        {
+          provide: WorkflowStatsService,
+          useValue: mockStatsService,
+        },
       ],
     }).compile();
 
@@ -66,9 +152,53 @@ describe('WorkflowsService', () => {
         ...createWorkflowDto,
         userId: 'user-123',
       });
-      expect(mockRepository.save).toHaveBeenCalledWith(mockWorkflow);
+      expect(mockRepository.save).toHaveBeenCalledWith({ ...mockWorkflow, version: 1 });
+      expect(mockVersionsService.record).toHaveBeenCalledWith(mockWorkflow, 'user-123', {
+        restoredFromVersion: undefined,
+        manager: expect.anything(),
+      });
       expect(result).toEqual(mockWorkflow);
     });
+
+    it('should reject an invalid step graph', async () => {
+      mockRepository.create.mockReturnValue({ ...mockWorkflow });
+      mockWorkflowEngine.validateSteps.mockReturnValueOnce([
+        'No handler registered for step type "generate_invoice"',
+      ]);
+
+      await expect(
+        service.create({ name: 'Invoices', steps: [{ type: 'generate_invoice' }] }, 'user-123'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduled workflows', () => {
+    it('should compute nextExecutionAt for a schedule trigger', async () => {
+      const scheduled = {
+        name: 'Monthly invoices',
+        triggerType: WorkflowTriggerType.SCHEDULE,
+        triggerConfig: { cron: '0 9 1 * *', timezone: 'America/New_York' },
+      };
+      mockRepository.create.mockReturnValue({ ...mockWorkflow, ...scheduled });
+      mockRepository.save.mockImplementation((workflow) => Promise.resolve(workflow));
+
+      const result = await service.create(scheduled, 'user-123');
+
+      expect(result.nextExecutionAt).toBeInstanceOf(Date);
+      expect(result.nextExecutionAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject an invalid cron expression', async () => {
+      const scheduled = {
+        name: 'Broken schedule',
+        triggerType: WorkflowTriggerType.SCHEDULE,
+        triggerConfig: { cron: 'every day' },
+      };
+      mockRepository.create.mockReturnValue({ ...mockWorkflow, ...scheduled });
+
+      await expect(service.create(scheduled, 'user-123')).rejects.toThrow(BadRequestException);
+    });
   });
 
   describe('findAll', () => {
@@ -80,10 +210,23 @@ describe('WorkflowsService', () => {
 
       expect(mockRepository.find).toHaveBeenCalledWith({
         where: { userId: 'user-123' },
+        relations: { category: true },
         order: { createdAt: 'DESC' },
       });
       expect(result).toEqual(mockWorkflows);
     });
+
+    it('should filter by status and category name', async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      await service.findAll('user-123', { status: 'active', category: 'Legal' });
+
+      expect(mockRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-123', status: WorkflowStatus.ACTIVE, category: { name: 'Legal' } },
+        }),
+      );
+    });
   });
 
   describe('findOne', () => {
@@ -93,7 +236,7 @@ describe('WorkflowsService', () => {
       const result = await service.findOne('123e4567-e89b-12d3-a456-426614174000', 'user-123');
 
       expect(mockRepository.findOne).toHaveBeenCalledWith({
-        where: { id: 'workflow-123', userId: 'user-123' },
+        where: { id: '123e4567-e89b-12d3-a456-426614174000', userId: 'user-123' },
       });
       expect(result).toEqual(mockWorkflow);
     });
@@ -125,6 +268,43 @@ describe('WorkflowsService', () => {
       expect(result).toEqual(updatedWorkflow);
     });
 
+    it('should store a new version when the steps change', async () => {
+      const workflow = { ...mockWorkflow, version: 1, steps: mockVersion.steps };
+      mockRepository.findOne.mockResolvedValue(workflow);
+      mockRepository.save.mockImplementation((saved) => Promise.resolve(saved));
+
+      const steps = [{ type: 'send_email', config: { to: 'new@example.com' } }];
+      const result = await service.update('workflow-123', { steps }, 'user-123');
+
+      expect(result.version).toBe(2);
+      expect(mockVersionsService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ version: 2, steps }),
+        'user-123',
+        expect.objectContaining({ manager: expect.anything() }),
+      );
+    });
+
+    it('should not store a version when only the name changes', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockWorkflow, version: 1 });
+      mockRepository.save.mockImplementation((saved) => Promise.resolve(saved));
+
+      const result = await service.update('workflow-123', { name: 'Renamed' }, 'user-123');
+
+      expect(result.version).toBe(1);
+      expect(mockVersionsService.record).not.toHaveBeenCalled();
+    });
+
+    it('should check that the category belongs to the user', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockWorkflow, version: 1 });
+      mockCategoriesService.findOne.mockRejectedValueOnce(new NotFoundException());
+
+      await expect(
+        service.update('workflow-123', { categoryId: 'category-456' }, 'user-123'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockCategoriesService.findOne).toHaveBeenCalledWith('category-456', 'user-123');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException when workflow not found', async () => {
       mockRepository.findOne.mockResolvedValue(null);
 
@@ -134,6 +314,26 @@ describe('WorkflowsService', () => {
     });
   });
 
+  describe('getStats', () => {
+    it('should compute statistics for a workflow of the user', async () => {
+      mockRepository.findOne.mockResolvedValue(mockWorkflow);
+
+      const result = await service.getStats('workflow-123', 7, 'user-123');
+
+      expect(mockStatsService.forWorkflow).toHaveBeenCalledWith(mockWorkflow.id, 7);
+      expect(result).toEqual({ totalRuns: 3 });
+    });
+
+    it('should throw NotFoundException for workflows of other users', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.getStats('workflow-123', 7, 'user-456')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockStatsService.forWorkflow).not.toHaveBeenCalled();
+    });
+  });
+
   describe('remove', () => {
     it('should remove a workflow successfully', async () => {
       mockRepository.findOne.mockResolvedValue(mockWorkflow);
@@ -152,20 +352,58 @@ describe('WorkflowsService', () => {
   });
 
   describe('execute', () => {
-    it('should execute an active workflow successfully', async () => {
+    it('should queue a run of an active workflow', async () => {
       const activeWorkflow = { ...mockWorkflow, status: WorkflowStatus.ACTIVE };
       mockRepository.findOne.mockResolvedValue(activeWorkflow);
-      mockRepository.save.mockResolvedValue({
-        ...activeWorkflow,
-        executionCount: 1,
-        lastExecutedAt: expect.any(Date),
+
+      const result = await service.execute(
+        'workflow-123',
+        { inputs: { client: 'Acme' }, priority: WorkflowExecutionPriority.HIGH },
+        'user-123',
+      );
+
+      expect(mockExecutionsService.enqueue).toHaveBeenCalledWith(
+        activeWorkflow,
+        mockVersion,
+        { client: 'Acme' },
+        'user-123',
+        WorkflowExecutionPriority.HIGH,
+      );
+      expect(result).toEqual({
+        success: true,
+        message: 'Workflow execution queued',
+        executionId: 'execution-123',
+        status: 'queued',
       });
+    });
 
-      const result = await service.execute('workflow-123', {}, 'user-123');
+    it('should simulate a dry run without queueing it', async () => {
+      mockRepository.findOne.mockResolvedValue(mockWorkflow); // DRAFT status
+      const runResult = { executionId: null, status: 'completed', steps: [] };
+      const simulated = { workflowId: mockWorkflow.id, status: 'completed', steps: [] };
+      mockWorkflowEngine.run.mockResolvedValueOnce(runResult);
+      mockExecutionsService.buildDryRun.mockReturnValueOnce(simulated);
+
+      const result = await service.execute(
+        'workflow-123',
+        { inputs: { client: 'Acme' }, dryRun: true },
+        'user-123',
+      );
 
-      expect(result.success).toBe(true);
-      expect(result.message).toBe('Workflow executed successfully');
-      expect(mockRepository.save).toHaveBeenCalled();
+      expect(mockWorkflowEngine.run).toHaveBeenCalledWith(
+        mockWorkflow,
+        { client: 'Acme' },
+        { executionId: null, userId: 'user-123', dryRun: true },
+      );
+      expect(mockExecutionsService.enqueue).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        message: 'Dry run completed',
+        executionId: null,
+        status: 'completed',
+        dryRun: true,
+        execution: simulated,
+      });
     });
 
     it('should throw ForbiddenException for non-active workflows', async () => {
@@ -174,17 +412,7 @@ describe('WorkflowsService', () => {
       await expect(service.execute('workflow-123', {}, 'user-123')).rejects.toThrow(
         ForbiddenException,
       );
-    });
-
-    it('should handle execution errors', async () => {
-      const activeWorkflow = { ...mockWorkflow, status: WorkflowStatus.ACTIVE };
-      mockRepository.findOne.mockResolvedValue(activeWorkflow);
-      mockRepository.save.mockRejectedValue(new Error('Database error'));
-
-      const result = await service.execute('workflow-123', {}, 'user-123');
-
-      expect(result.success).toBe(false);
-      expect(result.message).toContain('Workflow execution failed');
+      expect(mockExecutionsService.enqueue).not.toHaveBeenCalled();
     });
   });
 
@@ -212,17 +440,101 @@ describe('WorkflowsService', () => {
       expect(result.status).toBe(WorkflowStatus.ACTIVE);
       expect(mockRepository.save).toHaveBeenCalled();
     });
+
+    it('should schedule the next run from now instead of catching up on the pause', async () => {
+      const pausedAt = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      mockRepository.findOne.mockResolvedValue({
+        ...mockWorkflow,
+        status: WorkflowStatus.PAUSED,
+        triggerType: WorkflowTriggerType.SCHEDULE,
+        triggerConfig: { cron: '0 * * * *', timezone: 'UTC' },
+        nextExecutionAt: pausedAt,
+      });
+      mockRepository.save.mockImplementation((workflow) => Promise.resolve(workflow));
+
+      const result = await service.resume('workflow-123', 'user-123');
+
+      expect(result.nextExecutionAt.getTime()).toBeGreaterThan(Date.now());
+    });
   });
 
   describe('getExecutionHistory', () => {
-    it('should return execution history', async () => {
+    it('should return paginated execution rows', async () => {
       mockRepository.findOne.mockResolvedValue(mockWorkflow);
 
-      const result = await service.getExecutionHistory('workflow-123', 'user-123');
+      const result = await service.getExecutionHistory('workflow-123', 'user-123', {
+        page: 2,
+        limit: 10,
+      });
+
+      expect(mockExecutionsService.findByWorkflow).toHaveBeenCalledWith(mockWorkflow.id, {
+        page: 2,
+        limit: 10,
+      });
+      expect(result.data).toEqual([mockExecution]);
+      expect(result.total).toBe(1);
+    });
+  });
+
+  describe('getExecution', () => {
+    it('should return a single execution of an owned workflow', async () => {
+      mockRepository.findOne.mockResolvedValue(mockWorkflow);
+
+      const result = await service.getExecution('workflow-123', 'execution-123', 'user-123');
+
+      expect(mockExecutionsService.findOne).toHaveBeenCalledWith(mockWorkflow.id, 'execution-123');
+      expect(result).toEqual(mockExecution);
+    });
+  });
+
+  describe('cancelExecution', () => {
+    it('should request cancellation and stop a run in this process', async () => {
+      mockRepository.findOne.mockResolvedValue(mockWorkflow);
+
+      await service.cancelExecution('workflow-123', 'execution-123', 'user-123');
+
+      expect(mockExecutionsService.requestCancellation).toHaveBeenCalledWith(mockExecution);
+      expect(mockWorkflowQueue.cancel).toHaveBeenCalledWith('execution-123');
+    });
+
+    it('should throw ConflictException for finished executions', async () => {
+      mockRepository.findOne.mockResolvedValue(mockWorkflow);
+      mockExecutionsService.requestCancellation.mockResolvedValueOnce(false);
+
+      await expect(
+        service.cancelExecution('workflow-123', 'execution-123', 'user-123'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockWorkflowQueue.cancel).not.toHaveBeenCalled();
+    });
+  });
 
-      expect(Array.isArray(result)).toBe(true);
-      expect(result[0]).toHaveProperty('executionCount');
-      expect(result[0]).toHaveProperty('status');
+  describe('rollback', () => {
+    it('should restore an earlier definition as a new version', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...mockWorkflow,
+        version: 3,
+        triggerType: WorkflowTriggerType.MANUAL,
+        steps: [{ type: 'send_notification' }],
+      });
+      mockRepository.save.mockImplementation((saved) => Promise.resolve(saved));
+
+      const result = await service.rollback('workflow-123', 1, 'user-123');
+
+      expect(mockVersionsService.findOne).toHaveBeenCalledWith(mockWorkflow.id, 1);
+      expect(result).toEqual(expect.objectContaining({ version: 4, steps: mockVersion.steps }));
+      expect(mockVersionsService.record).toHaveBeenCalledWith(result, 'user-123', {
+        restoredFromVersion: 1,
+        manager: expect.anything(),
+      });
+    });
+
+    it('should throw ConflictException when rolling back to the current version', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockWorkflow, version: 1 });
+
+      await expect(service.rollback('workflow-123', 1, 'user-123')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockVersionsService.record).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,15 +1,55 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, FindOptionsWhere } from 'typeorm';
-import { Workflow, WorkflowStatus } from './entities/workflow.entity';
+import { Workflow, WorkflowStatus, WorkflowTriggerType } from './entities/workflow.entity';
 import { CreateWorkflowDto } from './dto/create-workflow.dto';
 import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+import { ExecuteWorkflowDto } from './dto/execute-workflow.dto';
+import { ListExecutionsQueryDto } from './dto/list-executions-query.dto';
+import { WorkflowExecution, WorkflowExecutionStatus } from './entities/workflow-execution.entity';
+import { WorkflowExecutionsService, PaginatedResult } from './workflow-executions.service';
+import {
+  ScheduleTriggerConfig,
+  getNextRunAt,
+  validateScheduleConfig,
+} from './triggers/schedule.util';
+import { validateEventTriggerConfig } from './triggers/event-trigger.util';
+import { WorkflowEngineService } from './engine/workflow-engine.service';
+import { WorkflowQueueService } from './queue/workflow-queue.service';
+import { WorkflowVersion } from './entities/workflow-version.entity';
+import { WorkflowVersionDiff, WorkflowVersionsService } from './versions/workflow-versions.service';
+import { diffDefinitions, getDefinition } from './versions/version-diff.util';
+import { WorkflowCategoriesService } from './categories/workflow-categories.service';
+import { WorkflowRunStats, WorkflowStatsService } from './stats/workflow-stats.service';
+
+export interface ExecuteWorkflowResult {
+  success: boolean;
+  message: string;
+  // Null for dry runs, which are not stored
+  executionId: string | null;
+  status: WorkflowExecutionStatus;
+  dryRun?: boolean;
+  // Simulated execution log, returned by dry runs
+  execution?: WorkflowExecution;
+}
 
 @Injectable()
 export class WorkflowsService {
   constructor(
     @InjectRepository(Workflow)
     private readonly workflowRepository: Repository<Workflow>,
+    private readonly workflowEngine: WorkflowEngineService,
+    private readonly executionsService: WorkflowExecutionsService,
+    private readonly workflowQueue: WorkflowQueueService,
+    private readonly versionsService: WorkflowVersionsService,
+    private readonly categoriesService: WorkflowCategoriesService,
+    private readonly statsService: WorkflowStatsService,
   ) {}
 
   async create(createWorkflowDto: CreateWorkflowDto, userId: string): Promise<Workflow> {
@@ -17,26 +57,41 @@ export class WorkflowsService {
       ...createWorkflowDto,
       userId,
     });
+    workflow.version = 1;
+    if (createWorkflowDto.categoryId) {
+      await this.categoriesService.findOne(createWorkflowDto.categoryId, userId);
+    }
+    this.assertValidSteps(workflow);
+    this.applyTrigger(workflow);
 
-    return await this.workflowRepository.save(workflow);
+    return this.saveVersion(workflow, userId);
   }
 
+  /**
+   * Lists the workflows of a user with their category. The category filter
+   * matches the category name; categoryId matches its ID.
+   */
   async findAll(
     userId: string,
-    filters?: { status?: string; category?: string },
+    filters?: { status?: string; category?: string; categoryId?: string },
   ): Promise<Workflow[]> {
     const where: FindOptionsWhere<Workflow> = { userId };
 
     if (filters?.status) {
-      where.status = filters.status;
+      where.status = filters.status as WorkflowStatus;
+    }
+
+    if (filters?.categoryId) {
+      where.categoryId = filters.categoryId;
     }
 
     if (filters?.category) {
-      where.category = filters.category;
+      where.category = { name: filters.category };
     }
 
     return await this.workflowRepository.find({
       where,
+      relations: { category: true },
       order: { createdAt: 'DESC' },
     });
   }
@@ -59,9 +114,30 @@ export class WorkflowsService {
     userId: string,
   ): Promise<Workflow> {
     const workflow = await this.findOne(id, userId);
+    const previous = getDefinition(workflow);
+    const wasActive = workflow.status === WorkflowStatus.ACTIVE;
+    if (updateWorkflowDto.categoryId) {
+      await this.categoriesService.findOne(updateWorkflowDto.categoryId, userId);
+    }
 
     Object.assign(workflow, updateWorkflowDto);
-    return await this.workflowRepository.save(workflow);
+    if (updateWorkflowDto.steps || updateWorkflowDto.schemaVersion) {
+      this.assertValidSteps(workflow);
+    }
+    if (
+      updateWorkflowDto.triggerType ||
+      updateWorkflowDto.triggerConfig ||
+      (!wasActive && workflow.status === WorkflowStatus.ACTIVE)
+    ) {
+      this.applyTrigger(workflow);
+    }
+
+    if (diffDefinitions(previous, getDefinition(workflow)).length === 0) {
+      return await this.workflowRepository.save(workflow);
+    }
+
+    workflow.version += 1;
+    return this.saveVersion(workflow, userId);
   }
 
   async remove(id: string, userId: string): Promise<void> {
@@ -69,42 +145,67 @@ export class WorkflowsService {
     await this.workflowRepository.remove(workflow);
   }
 
+  /**
+   * Queues a run of the workflow; a queue worker executes it asynchronously.
+   * Dry runs are simulated straight away instead and may be used on
+   * workflows that are not active yet.
+   */
   async execute(
     id: string,
-    executeWorkflowDto: any,
+    executeWorkflowDto: ExecuteWorkflowDto,
     userId: string,
-  ): Promise<{ success: boolean; message: string; executionId?: string }> {
+  ): Promise<ExecuteWorkflowResult> {
     const workflow = await this.findOne(id, userId);
 
+    if (executeWorkflowDto?.dryRun) {
+      return this.dryRun(workflow, executeWorkflowDto.inputs || {}, userId);
+    }
+
     if (workflow.status !== WorkflowStatus.ACTIVE) {
       throw new ForbiddenException('Only active workflows can be executed');
     }
 
-    try {
-      // Update execution metadata
-      workflow.executionCount += 1;
-      workflow.lastExecutedAt = new Date();
-      
-      // Generate execution ID for tracking
-      const executionId = `exec-${Date.now()}-${workflow.id.substring(0, 8)}`;
-      
-      await this.workflowRepository.save(workflow);
+    const execution = await this.executionsService.enqueue(
+      workflow,
+      await this.versionsService.findCurrent(workflow),
+      executeWorkflowDto?.inputs || {},
+      userId,
+      executeWorkflowDto?.priority,
+    );
 
-      // TODO: Implement actual workflow execution logic
-      // This would involve processing workflow.steps and executing each step
-      // For now, we'll simulate a successful execution
-      // This would involve processing workflow.steps and executing each step
+    return {
+      success: true,
+      message: 'Workflow execution queued',
+      executionId: execution.id,
+      status: execution.status,
+    };
+  }
 
-      return {
-        success: true,
-        message: 'Workflow executed successfully',
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Workflow execution failed: ${error.message}`,
-      };
-    }
+  private async dryRun(
+    workflow: Workflow,
+    inputs: Record<string, any>,
+    userId: string,
+  ): Promise<ExecuteWorkflowResult> {
+    const version = await this.versionsService.findCurrent(workflow);
+    const startedAt = new Date();
+    const result = await this.workflowEngine.run(workflow, inputs, {
+      executionId: null,
+      userId,
+      dryRun: true,
+    });
+    const execution = this.executionsService.buildDryRun(workflow, version, inputs, userId, {
+      result,
+      startedAt,
+    });
+
+    return {
+      success: result.status === 'completed',
+      message: result.error ? `Dry run failed: ${result.error}` : 'Dry run completed',
+      executionId: null,
+      status: execution.status,
+      dryRun: true,
+      execution,
+    };
   }
 
   async pause(id: string, userId: string): Promise<Workflow> {
@@ -115,26 +216,156 @@ export class WorkflowsService {
 
   async resume(id: string, userId: string): Promise<Workflow> {
     const workflow = await this.findOne(id, userId);
-    workflow.status = WorkflowStatus.ACTIVE;
+    if (workflow.status !== WorkflowStatus.ACTIVE) {
+      workflow.status = WorkflowStatus.ACTIVE;
+      // Runs are not owed for the time the workflow was inactive
+      this.applyTrigger(workflow);
+    }
     return await this.workflowRepository.save(workflow);
   }
 
-  async getExecutionHistory(id: string, userId: string): Promise<any[]> {
+  async getExecutionHistory(
+    id: string,
+    userId: string,
+    pagination: ListExecutionsQueryDto = {},
+  ): Promise<PaginatedResult<WorkflowExecution>> {
     const workflow = await this.findOne(id, userId);
-
-    // TODO: Implement execution history retrieval from separate execution log table
-    // For now, return basic execution info
-    return [
-      {
-        executionCount: workflow.executionCount,
-        lastExecutedAt: workflow.lastExecutedAt,
-        status: workflow.status,
-      },
-    ];
+    return this.executionsService.findByWorkflow(workflow.id, pagination);
   }
 
-  async getExecutions(id: string, userId: string): Promise<any[]> {
+  async getExecutions(
+    id: string,
+    userId: string,
+    pagination: ListExecutionsQueryDto = {},
+  ): Promise<PaginatedResult<WorkflowExecution>> {
     // Alias for getExecutionHistory to match controller expectations
-    return this.getExecutionHistory(id, userId);
+    return this.getExecutionHistory(id, userId, pagination);
+  }
+
+  async getStats(id: string, days: number, userId: string): Promise<WorkflowRunStats> {
+    const workflow = await this.findOne(id, userId);
+    return this.statsService.forWorkflow(workflow.id, days);
+  }
+
+  /**
+   * Run statistics across all the workflows of a user
+   */
+  async getUserStats(userId: string, days: number): Promise<WorkflowRunStats> {
+    return this.statsService.forUser(userId, days);
+  }
+
+  async getExecution(id: string, executionId: string, userId: string): Promise<WorkflowExecution> {
+    const workflow = await this.findOne(id, userId);
+    return this.executionsService.findOne(workflow.id, executionId);
+  }
+
+  /**
+   * Cancels a queued or running execution. Runs in this process are stopped
+   * before returning; runs on another instance stop on its next queue poll.
+   */
+  async cancelExecution(
+    id: string,
+    executionId: string,
+    userId: string,
+  ): Promise<WorkflowExecution> {
+    const workflow = await this.findOne(id, userId);
+    const execution = await this.executionsService.findOne(workflow.id, executionId);
+
+    if (!(await this.executionsService.requestCancellation(execution))) {
+      throw new ConflictException(`Execution has already ${execution.status}`);
+    }
+
+    await this.workflowQueue.cancel(execution.id);
+    return this.executionsService.findOne(workflow.id, executionId);
+  }
+
+  async getVersions(id: string, userId: string): Promise<WorkflowVersion[]> {
+    const workflow = await this.findOne(id, userId);
+    return this.versionsService.findByWorkflow(workflow.id);
+  }
+
+  async getVersion(id: string, version: number, userId: string): Promise<WorkflowVersion> {
+    const workflow = await this.findOne(id, userId);
+    return this.versionsService.findOne(workflow.id, version);
+  }
+
+  async diffVersions(
+    id: string,
+    from: number,
+    to: number,
+    userId: string,
+  ): Promise<WorkflowVersionDiff> {
+    const workflow = await this.findOne(id, userId);
+    return this.versionsService.diff(workflow.id, from, to);
+  }
+
+  /**
+   * Restores the definition of an earlier version. History is kept: the
+   * restored definition is stored as a new version.
+   */
+  async rollback(id: string, version: number, userId: string): Promise<Workflow> {
+    const workflow = await this.findOne(id, userId);
+    if (version === workflow.version) {
+      throw new ConflictException(`Workflow is already at version ${version}`);
+    }
+
+    const target = await this.versionsService.findOne(workflow.id, version);
+    Object.assign(workflow, getDefinition(target));
+    // Handlers used by an old version may have been removed since
+    this.assertValidSteps(workflow);
+    this.applyTrigger(workflow);
+
+    workflow.version += 1;
+    return this.saveVersion(workflow, userId, target.version);
+  }
+
+  /**
+   * Saves the workflow together with a snapshot of its definition as version
+   * workflow.version
+   */
+  private saveVersion(
+    workflow: Workflow,
+    userId: string,
+    restoredFromVersion?: number,
+  ): Promise<Workflow> {
+    return this.workflowRepository.manager.transaction(async (manager) => {
+      const saved = await manager.getRepository(Workflow).save(workflow);
+      await this.versionsService.record(saved, userId, { restoredFromVersion, manager });
+      return saved;
+    });
+  }
+
+  /**
+   * Rejects step graphs that do not match the workflow's schema version or
+   * that use step types without a registered handler
+   */
+  private assertValidSteps(workflow: Workflow): void {
+    const errors = this.workflowEngine.validateSteps(workflow.steps || [], workflow.schemaVersion);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  private applyTrigger(workflow: Workflow): void {
+    if (workflow.triggerType === WorkflowTriggerType.EVENT) {
+      const errors = validateEventTriggerConfig(workflow.triggerConfig);
+      if (errors.length > 0) {
+        throw new BadRequestException(errors);
+      }
+    }
+
+    if (workflow.triggerType !== WorkflowTriggerType.SCHEDULE) {
+      if (workflow.nextExecutionAt) {
+        workflow.nextExecutionAt = null;
+      }
+      return;
+    }
+
+    const errors = validateScheduleConfig(workflow.triggerConfig);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    workflow.nextExecutionAt = getNextRunAt(workflow.triggerConfig as ScheduleTriggerConfig);
   }
 }